@@ -10,9 +10,14 @@
 // errors
 export { FailureCommandExecution } from './src/errors/FailureCommandExecution'
 export { FailureEmptyContract } from './src/errors/FailureEmptyContract'
+export { FailureEmptyReserve } from './src/errors/FailureEmptyReserve'
+export { FailureInvalidAmount } from './src/errors/FailureInvalidAmount'
 export { FailureInvalidCommand } from './src/errors/FailureInvalidCommand'
 export { FailureMissingArgument } from './src/errors/FailureMissingArgument'
 export { FailureOperationForbidden } from './src/errors/FailureOperationForbidden'
+export { FailureNetworkUnavailable } from './src/errors/FailureNetworkUnavailable'
+export { FailureSynchronization } from './src/errors/FailureSynchronization'
+export { FailureUnknownNetwork } from './src/errors/FailureUnknownNetwork'
 
 // models
 export { AllowanceResult } from './src/models/AllowanceResult'
@@ -20,6 +25,13 @@ export { AssetAmount } from './src/models/AssetAmount'
 export { AssetSource } from './src/models/AssetSource'
 export { AssetIdentifier } from './src/models/AssetIdentifier'
 export { CommandOption } from './src/models/CommandOption'
+export { ExecutionProof } from './src/models/ExecutionProof'
+export { PoolType } from './src/models/PoolType'
+export { FeeMode } from './src/models/FeeMode'
+export { NetworkPreset } from './src/models/NetworkPreset'
+export { QuoteResult } from './src/models/QuoteResult'
+export { ReserveSnapshot } from './src/models/ReserveSnapshot'
+export { SyncField, SyncReport } from './src/models/SyncReport'
 export { TransactionParameters } from './src/models/TransactionParameters'
 export { PoolInfo } from './src/services/PoolService'
 
@@ -37,7 +49,16 @@ import * as Symbol from './src/adapters/Symbol';
 export { Symbol }
 
 // Adapter for dHealth
-export const dHealth = Symbol
+import * as dHealth from './src/adapters/dHealth';
+export { dHealth }
+
+// Adapter for an in-memory simulated network (offline)
+import * as InMemory from './src/adapters/InMemory';
+export { InMemory }
+
+// Adapter that fails over between several nodes of one network
+import * as Failover from './src/adapters/Failover';
+export { Failover }
 
 // export open standard namespace `Swapable`
 import * as Swapable from './src/Swapable'
@@ -6,14 +6,14 @@
  * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
  * @license     LGPL-3.0-only
  */
-import { of } from 'rxjs'
-import { catchError } from 'rxjs/operators'
 import { TransactionURI } from 'symbol-uri-scheme'
 import {
   AccountInfo,
+  AggregateTransaction,
   PublicAccount,
   MosaicInfo,
   Transaction,
+  TransferTransaction,
 } from 'symbol-sdk'
 
 // internal dependencies
@@ -27,14 +27,25 @@ import {
   Command,
   CommandOption,
   Context,
+  ExecutionProof,
+  FailureEmptyReserve,
+  FailureInvalidAmount,
   FailureInvalidCommand,
+  FailureSynchronization,
+  FeeMode,
   Market,
+  PoolType,
+  QuoteResult,
+  Reader,
+  ReserveSnapshot,
+  SyncReport,
   TransactionParameters,
 } from '../index'
-import {
-  Reader as ReaderImpl,
-} from './adapters/Symbol'
 import { PoolService, PoolInfo } from './services/PoolService'
+import { PricingService } from './services/PricingService'
+import { Route, RoutePool, RouterService, Split } from './services/RouterService'
+import { StableSwapService } from './services/StableSwapService'
+import { WeightedMathService } from './services/WeightedMathService'
 
 /**
  * @type Swapable.CommandFn
@@ -69,6 +80,8 @@ export const AssetCommands: CommandsList = {
   'AddLiquidity': (c, i): Command => new CommandsImpl.AddLiquidity(c, i),
   'RemoveLiquidity': (c, i): Command => new CommandsImpl.RemoveLiquidity(c, i),
   'Swap': (c, i): Command => new CommandsImpl.Swap(c, i),
+  'SwapExactOutput': (c, i): Command => new CommandsImpl.SwapExactOutput(c, i),
+  'ZapIn': (c, i): Command => new CommandsImpl.ZapIn(c, i),
   'Publish': (c, i): Command => new CommandsImpl.Publish(c, i),
 }
 
@@ -107,7 +120,7 @@ export class Registry {
   /**
    * Constructs a pool registry object.
    *
-   * @param   {ReaderImpl}      reader
+   * @param   {Reader}          reader
    * @param   {PublicAccount}   publicAccount 
    */
   public constructor(
@@ -117,10 +130,10 @@ export class Registry {
      * @description The blockchain network reader configuration.
      *
      * Our first implementation uses a Symbol blockchain network
-     * adapter as ReaderImpl. It is possible that other networks
-     * are implemented in the future.
+     * adapter, other networks are supported by implementing the
+     * Reader contract, e.g. the dHealth adapter.
      */
-    public readonly reader: ReaderImpl,
+    public readonly reader: Reader,
 
     /**
      * @readonly
@@ -160,6 +173,321 @@ export class Registry {
   }
 }
 
+/**
+ * @class Swapable.Router
+ * @package standards
+ * @since v1.4.0
+ * @description Class that describes a router for swaps across the
+ *              liquidity pools that are listed in a registry.
+ *
+ * Routers load the pools of a {@link Registry} and their reserves
+ * with `synchronize()`. Given no direct `X:Z` pool, a swap of `X` for
+ * `Z` can then be routed through e.g. the `X:Y` and `Y:Z` pools. The
+ * chained swaps are executed atomically in one digital contract which
+ * must be cosigned by the target account of each pool of the route.
+ *
+ * Given more than one pool of the same pair, e.g. with different fee
+ * tiers, an input amount can also be split across all pools of the
+ * pair with `findSplit()` and `executeSplit()`.
+ *
+ * @example Swap across pools of a registry
+ *
+ * ```typescript
+ * const router = new Swapable.Router(registry)
+ * await router.synchronize()
+ *
+ * const route = router.findRoute(input, output)
+ * const contract = router.execute(trader, input, output, minOutput)
+ * ```
+ */
+export class Router {
+  /**
+   * @access public
+   * @description The liquidity pools of the registry and their
+   *              reserves as read with `synchronize()`.
+   */
+  public pools: RoutePool[] = []
+
+  /**
+   * @access public
+   * @description The block height at which reserves were read
+   *              with `synchronize()`, or `0` given an unknown height.
+   */
+  public snapshotHeight: number = 0
+
+  /**
+   * Constructs a router around the pools of \a registry.
+   *
+   * @access public
+   * @param   {Registry}  registry    The registry that lists liquidity pools.
+   */
+  public constructor(
+    /**
+     * @readonly
+     * @access public
+     * @description The registry that lists liquidity pools.
+     */
+    public readonly registry: Registry,
+  ) {}
+
+  /**
+   * Synchronize the router with the network. This method reads
+   * the liquidity pools that are listed in the registry and the
+   * reserves of their target accounts.
+   *
+   * The resulting report lists the network information that was
+   * read, the node that was read and the block height. Given pools
+   * of which the reserves cannot be read, no pool is routed.
+   *
+   * @async
+   * @access public
+   * @param   {number}  revision    (Optional) The liquidity pool revision.
+   * @return  {Promise<SyncReport>}
+   * @throws  {FailureSynchronization}  Given no network information that can be read.
+   */
+  public async synchronize(
+    revision?: number,
+  ): Promise<SyncReport> {
+    const reader = this.registry.reader
+    const report = new SyncReport(reader.gatewayUrl)
+
+    // - Reads the current block height, i.e. the height of the snapshot
+    this.snapshotHeight = await report.fetch('height', () => reader.getChainHeight()) ?? 0
+
+    // - Reads the liquidity pools of the registry
+    const pools: PoolInfo[] | undefined = await report.fetch('poolInfo', () => this.registry.getPools(revision))
+
+    // - Reads the reserves of each liquidity pool
+    const reserveInfos = pools === undefined ? undefined : await report.fetch('reserveInfo', () => Promise.all(pools.map(
+      (info) => reader.getAccountInfo(info.target.address)
+    )))
+
+    this.pools = pools === undefined || reserveInfos === undefined ? [] : pools.map((info, i): RoutePool => ({
+      info,
+      reserves: info.mosaics.map((mosaicId) => {
+        const reserve = reserveInfos[i].mosaics.find(m => m.id.id.equals(mosaicId.id))
+        return reserve === undefined ? BigInt(0) : PricingService.toBigInt(reserve.amount)
+      }),
+    }))
+
+    // - Reports the node that was read (i.e. after failover) and the height
+    report.gatewayUrl = reader.gatewayUrl
+    report.height = this.snapshotHeight
+
+    // - Fails given no network information at all
+    if (!report.fetched.length) {
+      throw new FailureSynchronization('Network information could not be read from "'
+        + reader.gatewayUrl + '": ' + Object.keys(report.errors).map(
+          field => field + ' (' + report.errors[field] + ')'
+        ).join(', '))
+    }
+
+    // - Done synchronizing network information
+    return report
+  }
+
+  /**
+   * Finds the route with the highest output amount for a swap of
+   * \a input for \a output across the synchronized pools, with at
+   * most \a maxHops chained swaps.
+   *
+   * @access public
+   * @param   {AssetAmount}       input     The input amount and asset identifier.
+   * @param   {AssetIdentifier}   output    The output asset identifier.
+   * @param   {number}            maxHops   (Optional) The maximum number of swaps.
+   * @return  {Route|undefined}   The best route, or `undefined` given no route.
+   */
+  public findRoute(
+    input: AssetAmount,
+    output: AssetIdentifier,
+    maxHops: number = RouterService.MAX_HOPS,
+  ): Route | undefined {
+    return RouterService.getBestRoute(
+      this.pools,
+      PricingService.toBigInt(input.amount),
+      input.identifier.toMosaicId(),
+      output.toMosaicId(),
+      maxHops,
+    )
+  }
+
+  /**
+   * Executes a swap of \a input for \a output with \a trader along
+   * the best route across the synchronized pools. The swap fails if
+   * the output amount of the route is below \a minOutput.
+   *
+   * This method does **not** call the `synchronize()` method.
+   *
+   * @access public
+   * @param   {PublicAccount}           trader      The public account of the trader.
+   * @param   {AssetAmount}             input       The input amount and asset identifier.
+   * @param   {AssetIdentifier}         output      The output asset identifier.
+   * @param   {number|bigint}           minOutput   (Optional) The minimum output amount of the route.
+   * @param   {TransactionParameters}   parameters  (Optional) The transaction parameters (network specific).
+   * @return  {TransactionURI}          A digital contract that must be signed by the trader and by the target account of each pool.
+   * @throws  {FailureEmptyReserve}     Given no route with available reserves.
+   * @throws  {FailureOperationForbidden} Given an output amount below the minimum output amount.
+   **/
+  public execute(
+    trader: PublicAccount,
+    input: AssetAmount,
+    output: AssetIdentifier,
+    minOutput: number | bigint = 0,
+    parameters: TransactionParameters = new TransactionParameters(),
+  ): TransactionURI<Transaction> {
+    // - Finds the best route across synchronized pools
+    const route = this.findRoute(input, output)
+    if (route === undefined) {
+      throw new FailureEmptyReserve('No route with available reserves was found from "'
+        + input.identifier.id + '" to "' + output.id + '", did you call synchronize()?')
+    }
+
+    // - Executes the chained swaps in one digital contract
+    const argv = [
+      new CommandOption('trader', trader),
+      new CommandOption('route', route),
+      new CommandOption('min_output', minOutput),
+    ]
+
+    const context = new Context(Revision, trader, this.registry.reader, parameters, argv)
+    const cmdFn = new CommandsImpl.SwapRoute(context)
+    cmdFn.snapshotHeight = this.snapshotHeight
+    return cmdFn.execute(trader, argv)
+  }
+
+  /**
+   * Allocates a swap of \a input for \a output across all synchronized
+   * pools of the pair, e.g. pools with different targets or fee tiers,
+   * such that the total output amount is maximised.
+   *
+   * @access public
+   * @param   {AssetAmount}       input     The input amount and asset identifier.
+   * @param   {AssetIdentifier}   output    The output asset identifier.
+   * @return  {Split|undefined}   The allocations per pool, or `undefined` given no pool of the pair.
+   */
+  public findSplit(
+    input: AssetAmount,
+    output: AssetIdentifier,
+  ): Split | undefined {
+    return RouterService.getSplit(
+      this.pools,
+      PricingService.toBigInt(input.amount),
+      input.identifier.toMosaicId(),
+      output.toMosaicId(),
+    )
+  }
+
+  /**
+   * Executes a swap of \a input for \a output with \a trader that is
+   * split across all synchronized pools of the pair. The swap fails
+   * if the total output amount is below \a minOutput.
+   *
+   * This method does **not** call the `synchronize()` method.
+   *
+   * @access public
+   * @param   {PublicAccount}           trader      The public account of the trader.
+   * @param   {AssetAmount}             input       The input amount and asset identifier.
+   * @param   {AssetIdentifier}         output      The output asset identifier.
+   * @param   {number|bigint}           minOutput   (Optional) The minimum output amount of all pools.
+   * @param   {TransactionParameters}   parameters  (Optional) The transaction parameters (network specific).
+   * @return  {TransactionURI}          A digital contract that must be signed by the trader and by the target account of each pool.
+   * @throws  {FailureEmptyReserve}     Given no pool of the pair with available reserves.
+   * @throws  {FailureOperationForbidden} Given an output amount below the minimum output amount.
+   **/
+  public executeSplit(
+    trader: PublicAccount,
+    input: AssetAmount,
+    output: AssetIdentifier,
+    minOutput: number | bigint = 0,
+    parameters: TransactionParameters = new TransactionParameters(),
+  ): TransactionURI<Transaction> {
+    // - Allocates the input amount across synchronized pools
+    const split = this.findSplit(input, output)
+    if (split === undefined) {
+      throw new FailureEmptyReserve('No pool with available reserves was found from "'
+        + input.identifier.id + '" to "' + output.id + '", did you call synchronize()?')
+    }
+
+    // - Executes the swaps of all pools in one digital contract
+    const argv = [
+      new CommandOption('trader', trader),
+      new CommandOption('split', split),
+      new CommandOption('min_output', minOutput),
+    ]
+
+    const context = new Context(Revision, trader, this.registry.reader, parameters, argv)
+    const cmdFn = new CommandsImpl.SwapSplit(context)
+    cmdFn.snapshotHeight = this.snapshotHeight
+    return cmdFn.execute(trader, argv)
+  }
+}
+
+/**
+ * @type Swapable.PoolOptions
+ * @package Swapable
+ * @subpackage Standard
+ * @since v1.4.0
+ * @description Type that describes the configuration of a new pool,
+ *              all fields are optional and default to the values of
+ *              the `CreatePool` command.
+ */
+export type PoolOptions = {
+  /**
+   * @description The additional transaction parameters (network specific).
+   */
+  parameters?: TransactionParameters
+
+  /**
+   * @description The trading fee rate (in basis points), defaults to 0.30%.
+   */
+  feeRate?: number
+
+  /**
+   * @description The protocol fee (in basis points of the growth of `sqrt(k)`), defaults to `0` (off).
+   */
+  protocolFee?: number
+
+  /**
+   * @description The account that receives protocol fee shares, defaults to the target account.
+   */
+  feeTo?: PublicAccount
+
+  /**
+   * @description The type of the pool, i.e. its invariant, defaults to constant product.
+   */
+  poolType?: PoolType
+
+  /**
+   * @description The amplification coefficient of StableSwap pools.
+   */
+  amp?: number
+
+  /**
+   * @description The weights of members of weighted pools (in percent).
+   */
+  weights?: number[]
+
+  /**
+   * @description The maximum price impact of swaps (in basis points), defaults to no limit.
+   */
+  maxPriceImpact?: number
+
+  /**
+   * @description The mode of the trading fee rate, i.e. fixed or driven by volatility.
+   */
+  feeMode?: FeeMode
+
+  /**
+   * @description The lower bound of the dynamic trading fee rate (in basis points).
+   */
+  minFeeRate?: number
+
+  /**
+   * @description The upper bound of the dynamic trading fee rate (in basis points).
+   */
+  maxFeeRate?: number
+}
+
 /**
  * @class Swapable.AutomatedPool
  * @package standards
@@ -191,14 +519,7 @@ export class Registry {
  *
  * const market = new DigitalMarket(
  *   'DHP:wXYM',
- *   new dHealth.Reader(
- *     'http://dual-01.dhealth.cloud:3000',
- *      NetworkType.MAIN_NET,
- *      'ED5761EA890A096C50D3F50B7C2F0CCB4B84AFC9EA870F381E84DDE36D04EF16',
- *      1616978397,
- *      new MosaicId('39E0C49FA322A459'),
- *      '5172C98BD61DF32F447C501DE8090A9D7096F9E71975D788D67F7A82B8C04EFA',
- *   ),
+ *   dHealth.Reader.fromPreset('dhealth-mainnet', 'http://dual-01.dhealth.cloud:3000'),
  *   'NDS6LVW7ZWXZE2TVCA5DANKE7RSD3IMNWOF7FZQ'
  * );
  * ```
@@ -226,6 +547,37 @@ export class AutomatedPool implements Market {
    */
   public reserveInfo: AccountInfo | undefined
 
+  /**
+   * @access public
+   * @description Pool information for the automated pool as read
+   *              from the automated pool shares mosaic metadata.
+   *              This variable holds e.g. the trading fee rate.
+   */
+  public poolInfo: PoolInfo | undefined
+
+  /**
+   * @access public
+   * @description Mosaic information for the paired assets of the
+   *              automated pool. This variable holds e.g. the
+   *              divisibility of `x` and `y`.
+   */
+  public assetInfos: MosaicInfo[] = []
+
+  /**
+   * @access public
+   * @description Account information for the actor that was used
+   *              with `synchronize()`. This variable holds e.g. the
+   *              balance of automated pool shares of a provider.
+   */
+  public actorInfo: AccountInfo | undefined
+
+  /**
+   * @access public
+   * @description The block height at which reserves were read with
+   *              `synchronize()`, or `0` given an unknown height.
+   */
+  public snapshotHeight: number = 0
+
   /**
    * @description Last automated pool command execution result.
    */
@@ -259,10 +611,10 @@ export class AutomatedPool implements Market {
      * @description The blockchain network reader configuration.
      *
      * Our first implementation uses a Symbol blockchain network
-     * adapter as ReaderImpl and SignerImpl. It is possible that
-     * other network adapters are implemented in the future.
+     * adapter. Any implementation of the Reader contract can be
+     * used, e.g. the dHealth adapter.
      */
-    public readonly reader: ReaderImpl,
+    public readonly reader: Reader,
 
     /**
      * @description The target account that represents the pool.
@@ -300,70 +652,197 @@ export class AutomatedPool implements Market {
    * method shall be used to fetch data required for / before
    * the execution of an automated pool command.
    *
+   * Given an \a actor, the account information of said actor is
+   * also read, e.g. to verify balances of automated pool shares.
+   *
+   * Network information that cannot be read is left undefined and
+   * recorded in the returned report, e.g. the pool shares mosaic of
+   * a pool that is not created yet. Given no network information
+   * at all, e.g. given no node that responds, an error is thrown.
+   *
    * @async
    * @override {Market.synchronize()}
    * @access public
-   * @return {Promise<boolean>}
+   * @param   {PublicAccount}   actor   (Optional) The actor that executes commands.
+   * @return  {Promise<SyncReport>}   What was read, from which node and at what block height.
+   * @throws  {FailureSynchronization}  Given no network information that can be read.
    */
-  public async synchronize(): Promise<boolean> {
+  public async synchronize(
+    actor?: PublicAccount,
+  ): Promise<SyncReport> {
     // - Prepares synchronization (context and endpoints)
     const context = this.getContext(this.target, new TransactionParameters())
-    const mosaicHttp = (context.reader as ReaderImpl).factoryHttp.createMosaicRepository()
-    const accountHttp = (context.reader as ReaderImpl).factoryHttp.createAccountRepository()
+    const reader = context.reader
+    const report = new SyncReport(reader.gatewayUrl)
 
-    try {
-      // - Reads the information about the automated pool shares mosaic of this automated pool
-      this.mosaicInfo = await mosaicHttp.getMosaic(this.identifier.toMosaicId()).pipe(
-        catchError(e => { console.error(e); return of(undefined) })
-      ).toPromise()
+    // - Reads the current block height, i.e. the height of the snapshot of reserves
+    this.snapshotHeight = await report.fetch('height', () => reader.getChainHeight()) ?? 0
+
+    // - Reads the information about the automated pool shares mosaic of this automated pool
+    this.mosaicInfo = await report.fetch('mosaicInfo', () => reader.getMosaicInfo(this.identifier.toMosaicId()))
+
+    // - Reads the information about the available reserves of this automated pool
+    this.reserveInfo = await report.fetch('reserveInfo', () => reader.getAccountInfo(this.target.address))
+
+    // - Reads the information about the pool configuration (e.g. the trading fee rate)
+    this.poolInfo = await report.fetch('poolInfo', () => new PoolService(context).getInfo(
+      this.target.address,
+      this.identifier.toMosaicId(),
+    )) ?? this.poolInfo
+
+    // - Reads the information about the paired assets (e.g. their divisibility)
+    if (this.poolInfo !== undefined) {
+      const pairedMosaics = this.poolInfo.mosaics
+      this.assetInfos = await report.fetch('assetInfos', () => Promise.all(pairedMosaics.map(
+        (mosaicId) => reader.getMosaicInfo(mosaicId)
+      ))) ?? this.assetInfos
     }
-    catch (e) {}
 
-    try {
-      // - Reads the information about the available reserves of this automated pool
-      this.reserveInfo = await accountHttp.getAccountInfo(this.target.address).pipe(
-        catchError(e => { console.error(e); return of(undefined) })
-      ).toPromise()
+    // - Reads the information about the actor (e.g. automated pool shares balance)
+    this.actorInfo = actor === undefined ? undefined : await report.fetch(
+      'actorInfo', () => reader.getAccountInfo(actor.address)
+    )
+
+    // - Reports the node that was read (i.e. after failover) and the height
+    report.gatewayUrl = reader.gatewayUrl
+    report.height = this.snapshotHeight
+
+    // - Fails given no network information at all
+    if (!report.fetched.length) {
+      throw new FailureSynchronization('Network information could not be read from "'
+        + reader.gatewayUrl + '": ' + Object.keys(report.errors).map(
+          field => field + ' (' + report.errors[field] + ')'
+        ).join(', '))
     }
-    catch (e) {}
 
     // - Done synchronizing network information
-    return true
+    return report
   }
 
   /**
    * Creates a new Automated Liquidity Pool given \a provider
    * a funded public account, \a x left-side input amount and
-   * \a y right-side input amount. The transaction parameters
-   * argument is optional and should be used to override data
-   * about network configuration.
+   * \a y right-side input amount. The pool \a options argument
+   * is optional and should be used to configure the pool or to
+   * override data about network configuration.
    *
    * This method returns the asset identifier that represents
    * the automated pool shares, all automated liquidity pools
    * will be assigned **one** such asset identifier.
    *
+   * The trading fee rate `feeRate` is expressed in basis points
+   * and defaults to 0.30%, it is stored in the automated pool
+   * shares mosaic metadata and applies to every swap. Dynamic
+   * fee rates (`feeMode`) lie between `minFeeRate` and `maxFeeRate`.
+   *
+   * The protocol fee `protocolFee` is expressed in basis points
+   * of the growth of `sqrt(k)` and defaults to `0` (off). Protocol
+   * fee shares are minted to `feeTo` with every liquidity event.
+   *
+   * The pool type `poolType` selects the invariant of the pool and
+   * defaults to constant product. StableSwap pools, for pairs of
+   * pegged assets, use the amplification coefficient `amp`. Weighted
+   * pools use the weights `weights` of `x` and `y` in percent.
+   *
    * @access public
-   * @param   {PublicAccount}           provider    The public account of the liquidity provider.
-   * @param   {AssetAmount}             x           The cryptocurrency amount for `x` in the constant product formula.
-   * @param   {AssetAmount}             y           The cryptocurrency amount for `y` in the constant product formula.
-   * @param   {TransactionParameters}   parameters  (Optional) The additional transaction parameters (network specific).
-   * @return  {AssetIdentifier}         The automated pool shares asset identifier.
+   * @param   {PublicAccount}   provider    The public account of the liquidity provider.
+   * @param   {AssetAmount}     x           The cryptocurrency amount for `x` in the constant product formula.
+   * @param   {AssetAmount}     y           The cryptocurrency amount for `y` in the constant product formula.
+   * @param   {PoolOptions}     options     (Optional) The configuration of the pool.
+   * @return  {AssetIdentifier}             The automated pool shares asset identifier.
    **/
   public create(
     provider: PublicAccount,
     x: AssetAmount,
     y: AssetAmount,
-    parameters: TransactionParameters = new TransactionParameters(),
+    options: PoolOptions = {},
   ): AssetIdentifier {
-    // - Generates a deterministic LP Shares asset identifier
-    const sharesAssetId = this.identifier
+    const weights = options.weights ?? [ WeightedMathService.DEFAULT_WEIGHT, WeightedMathService.DEFAULT_WEIGHT ]
 
-    // - Execute digital automated pool command `CreatePool` (synchronize() not needed)
-    this.result = this.executeOffline(this.target, sharesAssetId, 'CreatePool', parameters, [
+    return this.createPool(options, [
       new CommandOption('provider', provider),
       new CommandOption('input_x', x),
       new CommandOption('input_y', y),
+      new CommandOption('amp', options.amp ?? StableSwapService.DEFAULT_AMP),
+      new CommandOption('weight_x', weights[0]),
+      new CommandOption('weight_y', weights[1]),
     ])
+  }
+
+  /**
+   * Creates a new multi-asset Automated Liquidity Pool given
+   * \a provider a funded public account and \a inputs the input
+   * amounts of all members of the pool, i.e. two to eight assets.
+   * Multi-asset pools are either constant product pools, of which
+   * the invariant is the geometric mean of reserves, or weighted
+   * pools that use the weights `weights` of members in percent.
+   *
+   * @see {create()}
+   * @access public
+   * @param   {PublicAccount}   provider    The public account of the liquidity provider.
+   * @param   {AssetAmount[]}   inputs      The cryptocurrency amounts of all members.
+   * @param   {PoolOptions}     options     (Optional) The configuration of the pool.
+   * @return  {AssetIdentifier}             The automated pool shares asset identifier.
+   **/
+  public createMultiAsset(
+    provider: PublicAccount,
+    inputs: AssetAmount[],
+    options: PoolOptions = {},
+  ): AssetIdentifier {
+    return this.createPool(options, [
+      new CommandOption('provider', provider),
+      new CommandOption('inputs', inputs),
+      new CommandOption('weights', options.weights ?? []),
+    ])
+  }
+
+  /**
+   * Executes the `CreatePool` command with the inputs \a argv and
+   * the pool configuration \a options. Optional fee rate bounds and
+   * price impact limits are omitted when not set such that the
+   * command applies its own defaults.
+   *
+   * @access protected
+   * @param   {PoolOptions}       options   The configuration of the pool.
+   * @param   {CommandOption[]}   argv      The inputs of the pool.
+   * @return  {AssetIdentifier}             The automated pool shares asset identifier.
+   **/
+  protected createPool(
+    options: PoolOptions,
+    argv: CommandOption[],
+  ): AssetIdentifier {
+    // - Generates a deterministic LP Shares asset identifier
+    const sharesAssetId = this.identifier
+
+    // - Prepares the configuration of the pool
+    const config: CommandOption[] = [
+      new CommandOption('fee_rate', options.feeRate ?? PricingService.DEFAULT_FEE_RATE),
+      new CommandOption('protocol_fee', options.protocolFee ?? 0),
+      new CommandOption('fee_to', options.feeTo ?? this.target),
+      new CommandOption('pool_type', options.poolType ?? PoolType.ConstantProduct),
+      new CommandOption('fee_mode', options.feeMode ?? FeeMode.Fixed),
+    ]
+
+    if (options.maxPriceImpact !== undefined) {
+      config.push(new CommandOption('max_price_impact', options.maxPriceImpact))
+    }
+
+    if (options.minFeeRate !== undefined) {
+      config.push(new CommandOption('min_fee_rate', options.minFeeRate))
+    }
+
+    if (options.maxFeeRate !== undefined) {
+      config.push(new CommandOption('max_fee_rate', options.maxFeeRate))
+    }
+
+    // - Execute digital automated pool command `CreatePool` (synchronize() not needed)
+    this.result = this.executeOffline(
+      this.target,
+      sharesAssetId,
+      'CreatePool',
+      options.parameters ?? new TransactionParameters(),
+      argv.concat(config),
+    )
 
     // - Returns the LP Shares asset identifier
     return sharesAssetId
@@ -396,6 +875,10 @@ export class AutomatedPool implements Market {
       // - Populates the synchronized data
       cmdFn.mosaicInfo = this.mosaicInfo
       cmdFn.reserveInfo = this.reserveInfo
+      cmdFn.poolInfo = this.poolInfo
+      cmdFn.assetInfos = this.assetInfos
+      cmdFn.actorInfo = this.actorInfo
+      cmdFn.snapshotHeight = this.snapshotHeight
 
       // - Executes the automated pool command
       return cmdFn.execute(this.target, argv)
@@ -432,6 +915,10 @@ export class AutomatedPool implements Market {
     // - Populate the synchronized data
     cmdFn.mosaicInfo = this.mosaicInfo
     cmdFn.reserveInfo = this.reserveInfo
+    cmdFn.poolInfo = this.poolInfo
+    cmdFn.assetInfos = this.assetInfos
+    cmdFn.actorInfo = this.actorInfo
+    cmdFn.snapshotHeight = this.snapshotHeight
 
     // - Uses `canExecute` from underlying \a command
     return cmdFn.canExecute(actor, argv)
@@ -458,7 +945,7 @@ export class AutomatedPool implements Market {
     argv: CommandOption[],
   ): Promise<TransactionURI<Transaction>> {
     // - Reads network information from blockchain "reader"
-    await this.synchronize()
+    await this.synchronize(actor)
 
     try {
       // - Instanciates a command in a context
@@ -468,6 +955,10 @@ export class AutomatedPool implements Market {
       // - Populates the synchronized data
       cmdFn.mosaicInfo = this.mosaicInfo
       cmdFn.reserveInfo = this.reserveInfo
+      cmdFn.poolInfo = this.poolInfo
+      cmdFn.assetInfos = this.assetInfos
+      cmdFn.actorInfo = this.actorInfo
+      cmdFn.snapshotHeight = this.snapshotHeight
 
       // - Executes the automated pool command
       return cmdFn.execute(actor, argv)
@@ -510,6 +1001,10 @@ export class AutomatedPool implements Market {
       // - Populates the synchronized data
       cmdFn.mosaicInfo = this.mosaicInfo
       cmdFn.reserveInfo = this.reserveInfo
+      cmdFn.poolInfo = this.poolInfo
+      cmdFn.assetInfos = this.assetInfos
+      cmdFn.actorInfo = this.actorInfo
+      cmdFn.snapshotHeight = this.snapshotHeight
 
       // - Executes the automated pool command
       return cmdFn.execute(actor, argv)
@@ -520,7 +1015,244 @@ export class AutomatedPool implements Market {
     }
   }
 
+  /**
+   * Verifies whether a digital \a contract is **stale**, i.e. whether
+   * the snapshot of reserves that is attached to its execution proof
+   * is expired at the block height of `synchronize()`, or whether the
+   * reserves of this automated pool have changed since the snapshot.
+   * Cosignatories of the target account should reject stale contracts.
+   *
+   * Contracts without an execution proof for this automated pool, or
+   * of which the execution proof has no snapshot, are stale too.
+   *
+   * This method does **not** call the `synchronize()` method.
+   *
+   * @access public
+   * @param   {AggregateTransaction}  contract    The digital contract, e.g. as received for cosignature.
+   * @return  {boolean}   Returns whether the contract must be rejected.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public isStale(
+    contract: AggregateTransaction,
+  ): boolean {
+    // - Asserts the presence of synchronized reserves
+    if (this.reserveInfo === undefined) {
+      throw new FailureEmptyReserve('Reserves of the automated pool are not available, did you call synchronize()?')
+    }
+
+    // - Reads the execution proofs that are sent to the target account
+    const sharesMosaicId: string = this.identifier.toMosaicId().toHex()
+    const proofs: ExecutionProof[] = contract.innerTransactions.filter(
+      (t): t is TransferTransaction => t instanceof TransferTransaction
+        && this.target.address.equals(t.recipientAddress)
+    ).map(
+      t => ExecutionProof.fromMessage(t.message.payload)
+    ).filter(
+      (proof): proof is ExecutionProof => proof !== undefined && proof.args.includes(sharesMosaicId)
+    )
+
+    // - Compares the current block height and reserves with each snapshot
+    const checksum: string = ReserveSnapshot.getChecksum(this.reserveInfo.mosaics, this.poolInfo?.mosaics)
+    return !proofs.length || proofs.map(
+      proof => ReserveSnapshot.fromProof(proof)
+    ).some(
+      snapshot => snapshot === undefined
+        || snapshot.isExpired(this.snapshotHeight)
+        || snapshot.checksum !== checksum
+    )
+  }
+
+  /**
+   * Creates an asset amount from a \a relative amount, e.g. "12.5",
+   * of asset \a identifier given the divisibility that was read with
+   * `synchronize()`. This method supports the automated pool shares
+   * and the paired assets of the automated pool.
+   *
+   * @access public
+   * @param   {AssetIdentifier}   identifier  The asset identifier.
+   * @param   {string|number}     relative    The relative amount (e.g.: "12.5").
+   * @return  {AssetAmount}       The asset amount with its absolute amount.
+   * @throws  {FailureInvalidAmount}  Given an unknown divisibility or an invalid amount.
+   **/
+  public fromRelative(
+    identifier: AssetIdentifier,
+    relative: string | number,
+  ): AssetAmount {
+    const mosaicId = identifier.toMosaicId()
+    const info = [ this.mosaicInfo, ...this.assetInfos ].find(
+      (m) => m !== undefined && m.id.equals(mosaicId)
+    )
+
+    if (info === undefined) {
+      throw new FailureInvalidAmount('Divisibility of asset "' + identifier.id + '" is unknown, did you call synchronize()?')
+    }
+
+    return AssetAmount.fromRelative(identifier, relative, info.divisibility)
+  }
+
+  /**
+   * Quotes a swap of \a input for \a output given the reserves
+   * that were read with `synchronize()`. This method builds no
+   * transactions and can thereby be called repeatedly.
+   *
+   * @access public
+   * @param   {AssetAmount}       input     The input amount and asset identifier.
+   * @param   {AssetIdentifier}   output    The output asset identifier.
+   * @return  {QuoteResult}       The output amount, fee paid, prices and price impact.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quoteSwap(
+    input: AssetAmount,
+    output: AssetIdentifier,
+  ): QuoteResult {
+    return this.quote('Swap', [
+      new CommandOption('input_x', input),
+      new CommandOption('output', output),
+    ])
+  }
+
+  /**
+   * Quotes an addition of liquidity \a x and \a y given the
+   * reserves that were read with `synchronize()`. This method
+   * builds no transactions and can thereby be called repeatedly.
+   *
+   * @access public
+   * @param   {AssetAmount}   x   The cryptocurrency amount for `x` in the constant product formula.
+   * @param   {AssetAmount}   y   The cryptocurrency amount for `y` in the constant product formula.
+   * @return  {QuoteResult}   The amount of automated pool shares minted and prices.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quoteAddLiquidity(
+    x: AssetAmount,
+    y: AssetAmount,
+  ): QuoteResult {
+    return this.quote('AddLiquidity', [
+      new CommandOption('input_x', x),
+      new CommandOption('input_y', y),
+    ])
+  }
+
+  /**
+   * Quotes an addition of liquidity \a inputs to a multi-asset pool
+   * given the reserves that were read with `synchronize()`. Inputs
+   * must list all members of the pool. This method builds no
+   * transactions and can thereby be called repeatedly.
+   *
+   * @access public
+   * @param   {AssetAmount[]}   inputs    The cryptocurrency amounts of all members.
+   * @return  {QuoteResult}     The amount of automated pool shares minted and prices.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quoteAddMultiAssetLiquidity(
+    inputs: AssetAmount[],
+  ): QuoteResult {
+    return this.quote('AddLiquidity', [
+      new CommandOption('inputs', inputs),
+    ])
+  }
+
+  /**
+   * Quotes a removal of liquidity by burning \a shares automated
+   * pool shares, given the reserves that were read with the method
+   * `synchronize()`. This method builds no transactions and can
+   * thereby be called repeatedly.
+   *
+   * @access public
+   * @param   {number|bigint}     shares  The amount of automated pool shares burned.
+   * @param   {AssetIdentifier}   x       The asset identifier of `x` in the constant product formula.
+   * @param   {AssetIdentifier}   y       The asset identifier of `y` in the constant product formula.
+   * @return  {QuoteResult}   The amounts of `x` and `y` paid out and prices.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quoteRemoveLiquidity(
+    shares: number | bigint,
+    x: AssetIdentifier,
+    y: AssetIdentifier,
+  ): QuoteResult {
+    return this.quote('RemoveLiquidity', [
+      new CommandOption('shares', shares),
+      new CommandOption('output_x', x),
+      new CommandOption('output_y', y),
+    ])
+  }
+
+  /**
+   * Quotes a removal of liquidity from a multi-asset pool by burning
+   * \a shares automated pool shares, given the reserves that were read
+   * with `synchronize()`. Outputs must list all members of the pool.
+   * This method builds no transactions and can thereby be called
+   * repeatedly.
+   *
+   * @access public
+   * @param   {number|bigint}       shares    The amount of automated pool shares burned.
+   * @param   {AssetIdentifier[]}   outputs   The asset identifiers of all members.
+   * @return  {QuoteResult}   The amounts of all members paid out and prices.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quoteRemoveMultiAssetLiquidity(
+    shares: number | bigint,
+    outputs: AssetIdentifier[],
+  ): QuoteResult {
+    return this.quote('RemoveLiquidity', [
+      new CommandOption('shares', shares),
+      new CommandOption('outputs', outputs),
+    ])
+  }
+
+  /**
+   * Quotes a single-sided addition of liquidity \a input for a pair
+   * with \a output given the reserves that were read with `synchronize()`.
+   * A portion of \a input is swapped for \a output before liquidity is
+   * added. This method builds no transactions and can thereby be called
+   * repeatedly.
+   *
+   * @access public
+   * @param   {AssetAmount}       input     The single-sided input amount and asset identifier.
+   * @param   {AssetIdentifier}   output    The asset identifier of the other asset of the pair.
+   * @return  {QuoteResult}       The amount of automated pool shares minted, fee paid and prices.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quoteZapIn(
+    input: AssetAmount,
+    output: AssetIdentifier,
+  ): QuoteResult {
+    return this.quote('ZapIn', [
+      new CommandOption('input', input),
+      new CommandOption('output', output),
+    ])
+  }
+
   /// region protected methods
+  /**
+   * Returns a read-only quote for \a command given \a argv
+   * command options and the synchronized data.
+   *
+   * @access protected
+   * @param   {string}            command   The automated pool command name (which command).
+   * @param   {CommandOption[]}   argv      The command options (arguments).
+   * @return  {QuoteResult}
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   */
+  protected quote(
+    command: string,
+    argv: CommandOption[],
+  ): QuoteResult {
+    // - Instanciates the command and context
+    const context = this.getContext(this.target, new TransactionParameters(), argv)
+    const cmdFn = this.getCommand(this.identifier, command, context) as Executable
+
+    // - Populates the synchronized data
+    cmdFn.mosaicInfo = this.mosaicInfo
+    cmdFn.reserveInfo = this.reserveInfo
+    cmdFn.poolInfo = this.poolInfo
+    cmdFn.assetInfos = this.assetInfos
+    cmdFn.actorInfo = this.actorInfo
+    cmdFn.snapshotHeight = this.snapshotHeight
+
+    // - Uses `quote` from underlying \a command
+    return cmdFn.quote()
+  }
+
   /**
    * Returns an execution context around an \a actor, \a argv
    * command options and \a parameters transaction parameters.
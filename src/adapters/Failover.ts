@@ -0,0 +1,416 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import {
+  AccountInfo,
+  Address,
+  Metadata,
+  MetadataSearchCriteria,
+  MosaicId,
+  MosaicInfo,
+  NetworkType,
+  Transaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { Reader as BaseReader } from '../contracts/Reader'
+import { FailureNetworkUnavailable } from '../errors/FailureNetworkUnavailable'
+import { NetworkPreset } from '../models/NetworkPreset'
+import { Reader as SymbolReader } from './Symbol'
+
+/**
+ * @type FailoverOptions
+ * @package Swapable
+ * @subpackage Adapters
+ * @since v1.4.0
+ * @description Type that describes the retry policy of a failover reader.
+ */
+export type FailoverOptions = {
+  /**
+   * @description The number of retries per node before the next node is read.
+   */
+  retries: number
+
+  /**
+   * @description The delay before the first retry (in milliseconds), it doubles with every retry.
+   */
+  backoff: number
+
+  /**
+   * @description The maximum duration of one read operation (in milliseconds).
+   */
+  timeout: number
+}
+
+/**
+ * @class Reader implements BaseReader
+ * @package Swapable
+ * @subpackage Adapters
+ * @since v1.4.0
+ * @description Class that describes a blockchain network adapter
+ *              that reads from several nodes of the same network.
+ *
+ * Read operations are retried with an exponential backoff and fail
+ * over to the next node given a node that does not respond. Nodes
+ * that failed are read last until they respond again. The health of
+ * all nodes can be checked with `checkHealth()`, e.g.:
+ *
+ * @example
+ * ```typescript
+ * const reader = Failover.Reader.fromPreset('symbol-mainnet')
+ * await reader.checkHealth()
+ *
+ * const pool = new Swapable.AutomatedPool('X:Y', reader, target)
+ * const report = await pool.synchronize()
+ * if (!report.isComplete) {
+ *   // e.g. `report.errors.poolInfo`, as read from `report.gatewayUrl`
+ *   throw new Error(Object.keys(report.errors).join(', '))
+ * }
+ * ```
+ */
+export class Reader implements BaseReader {
+  /**
+   * The default retry policy, i.e. 2 retries per node after
+   * 250ms and 500ms, and read operations of at most 10 seconds.
+   *
+   * @var {FailoverOptions}
+   */
+  public static readonly DEFAULT_OPTIONS: FailoverOptions = {
+    retries: 2,
+    backoff: 250,
+    timeout: 10000,
+  }
+
+  /**
+   * @description The health of nodes, in order of readers.
+   */
+  public healthy: boolean[]
+
+  /**
+   * @description The index of the node that is read first.
+   */
+  protected current: number = 0
+
+  /**
+   * Construct a failover reader around \a readers, one per
+   * node. All readers must be adapters of the same network.
+   *
+   * @param {BaseReader[]}      readers
+   * @param {FailoverOptions}   options
+   */
+  public constructor(
+    /**
+     * @description The network adapters, one per node, in order of preference
+     */
+    public readonly readers: BaseReader[],
+
+    /**
+     * @description The retry policy
+     */
+    public readonly options: FailoverOptions = Reader.DEFAULT_OPTIONS,
+  ) {
+    if (!readers.length) {
+      throw new FailureNetworkUnavailable('A failover reader requires at least one node.')
+    }
+
+    this.healthy = readers.map(() => true)
+  }
+
+  /**
+   * Constructs a failover reader for the network preset \a preset,
+   * given \a gatewayUrls or the default nodes of the preset. Nodes
+   * are read with the Symbol adapter.
+   *
+   * @static
+   * @access public
+   * @param   {string|NetworkPreset}  preset        The network preset, or its name.
+   * @param   {string[]}              gatewayUrls   (Optional) The REST endpoint URLs.
+   * @param   {FailoverOptions}       options       (Optional) The retry policy.
+   * @return  {Reader}
+   */
+  public static fromPreset(
+    preset: string | NetworkPreset,
+    gatewayUrls?: string[],
+    options: FailoverOptions = Reader.DEFAULT_OPTIONS,
+  ): Reader {
+    const network = preset instanceof NetworkPreset ? preset : NetworkPreset.get(preset)
+    return new Reader(
+      (gatewayUrls ?? network.nodes).map(url => SymbolReader.fromPreset(network, url)),
+      options,
+    )
+  }
+
+  /**
+   * Getter for the endpoint URL of the node that is read first.
+   *
+   * @return {string}
+   */
+  public get gatewayUrl(): string {
+    return this.readers[this.current].gatewayUrl
+  }
+
+  /**
+   * Getter for the network type.
+   *
+   * @return {NetworkType}
+   */
+  public get networkType(): NetworkType {
+    return this.readers[0].networkType
+  }
+
+  /**
+   * Getter for the network generation hash.
+   *
+   * @return {string}
+   */
+  public get generationHash(): string {
+    return this.readers[0].generationHash
+  }
+
+  /**
+   * Getter for the network epoch adjustment.
+   *
+   * @return {number}
+   */
+  public get epochAdjustment(): number {
+    return this.readers[0].epochAdjustment
+  }
+
+  /**
+   * Getter for the network fee mosaic id.
+   *
+   * @return {MosaicId}
+   */
+  public get feeMosaicId(): MosaicId {
+    return this.readers[0].feeMosaicId
+  }
+
+  /**
+   * Checks the health of all nodes, i.e. reads the chain height
+   * of each node once. The first healthy node is read first.
+   *
+   * @async
+   * @access public
+   * @return  {Promise<boolean[]>}  The health of nodes, in order of readers.
+   */
+  public async checkHealth(): Promise<boolean[]> {
+    this.healthy = await Promise.all(this.readers.map(
+      reader => this.withTimeout(reader.getChainHeight()).then(() => true, () => false)
+    ))
+
+    const index = this.healthy.indexOf(true)
+    this.current = index === -1 ? 0 : index
+    return this.healthy
+  }
+
+  /**
+   * Reads the information about the account \a address.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @return  {Promise<AccountInfo>}
+   */
+  public async getAccountInfo(
+    address: Address,
+  ): Promise<AccountInfo> {
+    return this.read(reader => reader.getAccountInfo(address))
+  }
+
+  /**
+   * Reads the information about the mosaic \a mosaicId.
+   *
+   * @access public
+   * @param   {MosaicId}  mosaicId  The mosaic id.
+   * @return  {Promise<MosaicInfo>}
+   */
+  public async getMosaicInfo(
+    mosaicId: MosaicId,
+  ): Promise<MosaicInfo> {
+    return this.read(reader => reader.getMosaicInfo(mosaicId))
+  }
+
+  /**
+   * Reads the metadata entries that match \a criteria.
+   *
+   * @access public
+   * @param   {MetadataSearchCriteria}  criteria  The search criteria.
+   * @return  {Promise<Metadata[]>}
+   */
+  public async getMetadata(
+    criteria: MetadataSearchCriteria,
+  ): Promise<Metadata[]> {
+    return this.read(reader => reader.getMetadata(criteria))
+  }
+
+  /**
+   * Reads the current block height of the network.
+   *
+   * @access public
+   * @return  {Promise<number>}
+   */
+  public async getChainHeight(): Promise<number> {
+    return this.read(reader => reader.getChainHeight())
+  }
+
+  /**
+   * Reads the timestamp of the block at \a height.
+   *
+   * @access public
+   * @param   {number}  height  The block height.
+   * @return  {Promise<number>}
+   */
+  public async getBlockTimestamp(
+    height: number,
+  ): Promise<number> {
+    return this.read(reader => reader.getBlockTimestamp(height))
+  }
+
+  /**
+   * Searches the confirmed transfers and aggregate transactions
+   * that involve \a address, starting after \a offset.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @param   {string}    offset    (Optional) The identifier of the last transaction already processed.
+   * @return  {Promise<Transaction[]>}
+   */
+  public async searchTransactions(
+    address: Address,
+    offset?: string,
+  ): Promise<Transaction[]> {
+    return this.read(reader => reader.searchTransactions(address, offset))
+  }
+
+  /**
+   * Reads at most \a count confirmed transfers and aggregate
+   * transactions that involve \a address, newest first, starting
+   * before \a offset.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @param   {number}    count     The maximum number of transactions.
+   * @param   {string}    offset    (Optional) The identifier of the oldest transaction already read.
+   * @return  {Promise<Transaction[]>}
+   */
+  public async getRecentTransactions(
+    address: Address,
+    count: number,
+    offset?: string,
+  ): Promise<Transaction[]> {
+    return this.read(reader => reader.getRecentTransactions(address, count, offset))
+  }
+
+  /**
+   * Executes the read operation \a operation with the node that
+   * is read first, and retries or fails over to the next nodes.
+   * Healthy nodes are read before nodes that failed. Given an
+   * error response of a node, e.g. an unknown account, the error
+   * is thrown without failover.
+   *
+   * @async
+   * @access protected
+   * @param   {(reader: BaseReader) => Promise<T>}  operation   The read operation.
+   * @return  {Promise<T>}
+   * @throws  {FailureNetworkUnavailable}   Given no node that responds.
+   */
+  protected async read<T>(
+    operation: (reader: BaseReader) => Promise<T>,
+  ): Promise<T> {
+    // - Orders nodes starting at the current node, healthy nodes first
+    const indexes = this.readers.map((_, i) => (this.current + i) % this.readers.length)
+    const ordered = indexes.filter(i => this.healthy[i]).concat(indexes.filter(i => !this.healthy[i]))
+
+    let lastError: unknown
+    for (const index of ordered) {
+      for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+        if (attempt > 0) {
+          await Reader.sleep(this.options.backoff * 2 ** (attempt - 1))
+        }
+
+        try {
+          const result = await this.withTimeout(operation(this.readers[index]))
+          this.healthy[index] = true
+          this.current = index
+          return result
+        }
+        catch (e) {
+          if (Reader.isErrorResponse(e)) {
+            throw e
+          }
+
+          lastError = e
+        }
+      }
+
+      this.healthy[index] = false
+    }
+
+    throw new FailureNetworkUnavailable('None of ' + this.readers.length + ' node(s) responded: '
+      + (lastError instanceof Error ? lastError.message : String(lastError)))
+  }
+
+  /**
+   * Rejects \a promise if it does not settle within the
+   * timeout of the retry policy.
+   *
+   * @access protected
+   * @param   {Promise<T>}  promise   The read operation.
+   * @return  {Promise<T>}
+   */
+  protected withTimeout<T>(
+    promise: Promise<T>,
+  ): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    return Promise.race([
+      promise,
+      new Promise<T>((_, reject) => timer = setTimeout(
+        () => reject(new Error('Timeout after ' + this.options.timeout + 'ms.')),
+        this.options.timeout,
+      )),
+    ]).then(
+      (result: T) => { clearTimeout(timer); return result },
+      (e) => { clearTimeout(timer); throw e },
+    )
+  }
+
+  /**
+   * Returns whether \a error is an error response of a node,
+   * i.e. a client error (HTTP 4xx) as thrown by symbol-sdk
+   * repositories, as opposed to a node that does not respond.
+   *
+   * @static
+   * @access protected
+   * @param   {unknown}   error   The error of a read operation.
+   * @return  {boolean}
+   */
+  protected static isErrorResponse(
+    error: unknown,
+  ): boolean {
+    try {
+      const { statusCode } = JSON.parse((error as Error).message)
+      return statusCode >= 400 && statusCode < 500
+    }
+    catch (e) {
+      return false
+    }
+  }
+
+  /**
+   * Waits for \a milliseconds.
+   *
+   * @static
+   * @access protected
+   * @param   {number}  milliseconds    The delay.
+   * @return  {Promise<void>}
+   */
+  protected static sleep(
+    milliseconds: number,
+  ): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, milliseconds))
+  }
+}
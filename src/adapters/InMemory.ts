@@ -0,0 +1,760 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import {
+  AccountInfo,
+  AccountMetadataTransaction,
+  AccountMosaicRestrictionTransaction,
+  AccountType,
+  Address,
+  AggregateTransaction,
+  AggregateTransactionCosignature,
+  AggregateTransactionInfo,
+  Convert,
+  InnerTransaction,
+  Metadata,
+  MetadataEntry,
+  MetadataSearchCriteria,
+  MetadataType,
+  Mosaic,
+  MosaicDefinitionTransaction,
+  MosaicFlags,
+  MosaicId,
+  MosaicInfo,
+  MosaicMetadataTransaction,
+  MosaicRestrictionFlag,
+  MosaicSupplyChangeAction,
+  MosaicSupplyChangeTransaction,
+  NetworkType,
+  PublicAccount,
+  SupplementalPublicKeys,
+  Transaction,
+  TransactionInfo,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { Reader as BaseReader } from '../contracts/Reader'
+import { FailureInvalidAmount } from '../errors/FailureInvalidAmount'
+import { FailureOperationForbidden } from '../errors/FailureOperationForbidden'
+
+/**
+ * @internal
+ * @description The state of one account of the in-memory network.
+ */
+interface AccountState {
+  address: Address
+  publicKey: string
+  balances: Map<string, bigint>
+  allowedMosaics: string[]
+  blockedMosaics: string[]
+}
+
+/**
+ * @internal
+ * @description The state of one mosaic of the in-memory network.
+ */
+interface MosaicState {
+  id: MosaicId
+  owner: Address
+  supply: bigint
+  divisibility: number
+  flags: MosaicFlags
+  startHeight: number
+}
+
+/**
+ * @internal
+ * @description The state of one metadata entry of the in-memory network.
+ */
+interface MetadataState {
+  source: Address
+  target: Address
+  key: UInt64
+  type: MetadataType
+  targetId?: MosaicId
+  value: Uint8Array
+}
+
+/**
+ * @internal
+ * @description The state of the in-memory network, i.e. all
+ *              accounts, mosaics and metadata entries.
+ */
+interface NetworkState {
+  accounts: Map<string, AccountState>
+  mosaics: Map<string, MosaicState>
+  metadata: Map<string, MetadataState>
+}
+
+/**
+ * @internal
+ * @description A confirmed transaction and the addresses it involves.
+ */
+interface ConfirmedTransaction {
+  transaction: Transaction
+  addresses: string[]
+}
+
+/**
+ * @class Reader implements BaseReader
+ * @package Swapable
+ * @subpackage Adapters
+ * @since v1.4.0
+ * @description Class that describes an in-memory simulated network,
+ *              i.e. a blockchain network adapter that keeps accounts,
+ *              mosaics, metadata, restrictions and the chain height
+ *              in memory and that confirms contracts on announcement.
+ *
+ * This adapter permits to run automated pools end-to-end *offline*,
+ * e.g. in integration tests. Contracts that are produced by `execute()`
+ * are announced with `announce()`, such that their inner transactions
+ * are applied and the next `synchronize()` reads the new reserves:
+ *
+ * @example
+ * ```typescript
+ * const reader = new InMemory.Reader(NetworkType.TEST_NET, generationHash, epochAdjustment, feeMosaicId)
+ * reader.addAccount(provider, [ new Mosaic(x, UInt64.fromUint(1000000)) ])
+ *
+ * const pool = new Swapable.AutomatedPool('X:Y', reader, target)
+ * pool.create(provider, new AssetAmount(x, 1000000), new AssetAmount(y, 1000000))
+ * await reader.announce(pool.result!.toTransaction())
+ * await pool.synchronize()
+ * ```
+ */
+export class Reader implements BaseReader {
+  /**
+   * The number of seconds between two blocks of the network.
+   *
+   * @var {number}
+   */
+  public static readonly BLOCK_TIME: number = 30
+
+  /**
+   * @description The endpoint URL, there is no network node.
+   */
+  public gatewayUrl: string = 'memory://'
+
+  /**
+   * @description The current block height, starts at the
+   *              nemesis block and increases with each
+   *              announced contract.
+   */
+  public chainHeight: number = 1
+
+  /**
+   * @description The state of the network (accounts, mosaics, metadata).
+   */
+  protected state: NetworkState = {
+    accounts: new Map(),
+    mosaics: new Map(),
+    metadata: new Map(),
+  }
+
+  /**
+   * @description The confirmed transactions, in order of confirmation.
+   */
+  protected transactions: ConfirmedTransaction[] = []
+
+  /**
+   * Construct an in-memory network object
+   *
+   * @param {NetworkType} networkType
+   * @param {string}      generationHash
+   * @param {number}      epochAdjustment
+   * @param {MosaicId}    feeMosaicId
+   */
+  public constructor(
+    /**
+     * @description The network type
+     */
+    public networkType: NetworkType,
+
+    /**
+     * @description The network generation hash
+     */
+    public generationHash: string,
+
+    /**
+     * @description The network epoch adjustment
+     */
+    public epochAdjustment: number,
+
+    /**
+     * @description The network fee mosaic id
+     */
+    public feeMosaicId: MosaicId,
+  ) {}
+
+  /**
+   * Registers the mosaic \a mosaicId owned by \a owner, with
+   * a supply of zero. Mosaics are otherwise created by the
+   * mosaic definitions of announced contracts.
+   *
+   * @access public
+   * @param   {MosaicId}      mosaicId      The mosaic id.
+   * @param   {Address}       owner         The address of the owner of the mosaic.
+   * @param   {number}        divisibility  (Optional) The divisibility of the mosaic, defaults to `0`.
+   * @param   {MosaicFlags}   flags         (Optional) The mosaic flags, defaults to mutable supply, transferable and restrictable.
+   * @return  {Reader}
+   */
+  public addMosaic(
+    mosaicId: MosaicId,
+    owner: Address,
+    divisibility: number = 0,
+    flags: MosaicFlags = MosaicFlags.create(true, true, true),
+  ): Reader {
+    this.state.mosaics.set(mosaicId.toHex(), {
+      id: mosaicId,
+      owner,
+      supply: BigInt(0),
+      divisibility,
+      flags,
+      startHeight: this.chainHeight,
+    })
+
+    return this
+  }
+
+  /**
+   * Registers the account \a account and credits it with
+   * \a mosaics, such that the supply of mosaics increases.
+   * Unknown mosaics are registered with \a account as the
+   * owner and a divisibility of `0`.
+   *
+   * @access public
+   * @param   {PublicAccount|Address}   account   The account, or its address.
+   * @param   {Mosaic[]}                mosaics   (Optional) The mosaics to credit.
+   * @return  {Reader}
+   */
+  public addAccount(
+    account: PublicAccount | Address,
+    mosaics: Mosaic[] = [],
+  ): Reader {
+    const address = account instanceof PublicAccount ? account.address : account
+    const state = Reader.getAccount(this.state, address)
+    if (account instanceof PublicAccount) {
+      state.publicKey = account.publicKey
+    }
+
+    mosaics.forEach((m: Mosaic) => {
+      const id = m.id.toHex()
+      if (!this.state.mosaics.has(id)) {
+        this.addMosaic(new MosaicId(id), address)
+      }
+
+      const amount = BigInt(m.amount.toString())
+      this.state.mosaics.get(id)!.supply += amount
+      state.balances.set(id, (state.balances.get(id) ?? BigInt(0)) + amount)
+    })
+
+    return this
+  }
+
+  /**
+   * Advances the chain height by \a blocks empty blocks, e.g.
+   * to expire the snapshots of reserves of contracts.
+   *
+   * @access public
+   * @param   {number}  blocks  (Optional) The number of blocks, defaults to `1`.
+   * @return  {number}  The new chain height.
+   */
+  public advance(
+    blocks: number = 1,
+  ): number {
+    return this.chainHeight += blocks
+  }
+
+  /**
+   * Announces the contract \a contract, i.e. applies its inner
+   * transactions to the state of the network and confirms it
+   * in a new block. Contracts are applied atomically: given one
+   * failing inner transaction, the state of the network does
+   * not change.
+   *
+   * Contracts are not required to be signed, cosignatures are
+   * not verified. Confirmed contracts are cosigned by the signers
+   * of their inner transactions, as the network requires, e.g. such
+   * that the contracts of a pool are cosigned by its target account.
+   *
+   * @async
+   * @access public
+   * @param   {Transaction}   contract    The aggregate contract, or one transaction.
+   * @return  {Promise<Transaction>}      The confirmed contract, with its transaction information.
+   * @throws  {FailureInvalidAmount}      Given a balance that is not sufficient.
+   * @throws  {FailureOperationForbidden} Given a transaction that the network rejects.
+   */
+  public async announce(
+    contract: Transaction,
+  ): Promise<Transaction> {
+    const inner: Transaction[] = contract instanceof AggregateTransaction
+      ? contract.innerTransactions
+      : [contract]
+
+    // - Applies all inner transactions to a copy of the state
+    const state = Reader.copyState(this.state)
+    const addresses: string[] = []
+    inner.forEach((transaction: Transaction) => addresses.push(
+      ...this.apply(state, transaction),
+    ))
+
+    // - Confirms the contract in a new block
+    this.state = state
+    this.chainHeight++
+
+    const height = UInt64.fromUint(this.chainHeight)
+    const id = ('0'.repeat(24) + (this.transactions.length + 1).toString(16).toUpperCase()).slice(-24)
+    const hash = Transaction.createTransactionHash(
+      contract.serialize(),
+      Array.from(Convert.hexToUint8(this.generationHash)),
+    )
+
+    // - Attaches the transaction information, also to inner transactions
+    const confirmed = Reader.withProperties(contract, {
+      transactionInfo: new TransactionInfo(height, 0, id, hash, hash),
+    })
+    if (confirmed instanceof AggregateTransaction) {
+      const cosigners = confirmed.innerTransactions.map(t => t.signer!).filter(
+        (signer, i, signers) => signers.findIndex(s => s.equals(signer)) === i
+          && (confirmed.signer === undefined || !confirmed.signer.equals(signer))
+          && !confirmed.cosignatures.some(c => c.signer.equals(signer))
+      )
+
+      Object.assign(confirmed, {
+        innerTransactions: confirmed.innerTransactions.map(
+          (transaction: InnerTransaction, index: number) => Reader.withProperties(transaction, {
+            transactionInfo: new AggregateTransactionInfo(height, index, id, hash, id),
+          })
+        ),
+        cosignatures: confirmed.cosignatures.concat(cosigners.map(
+          signer => new AggregateTransactionCosignature('', signer)
+        )),
+      })
+    }
+
+    this.transactions.push({
+      transaction: confirmed,
+      addresses: addresses.filter((a, i) => addresses.indexOf(a) === i),
+    })
+    return confirmed
+  }
+
+  /**
+   * Reads the information about the account \a address.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @return  {Promise<AccountInfo>}
+   */
+  public async getAccountInfo(
+    address: Address,
+  ): Promise<AccountInfo> {
+    const state = this.state.accounts.get(address.plain())
+    if (state === undefined) {
+      throw new Error('Account "' + address.plain() + '" does not exist.')
+    }
+
+    const mosaics: Mosaic[] = []
+    state.balances.forEach((amount: bigint, id: string) => amount > BigInt(0) && mosaics.push(
+      new Mosaic(new MosaicId(id), UInt64.fromNumericString(amount.toString())),
+    ))
+
+    return new AccountInfo(
+      1,
+      address.plain(),
+      address,
+      UInt64.fromUint(1),
+      state.publicKey,
+      UInt64.fromUint(1),
+      AccountType.Main,
+      new SupplementalPublicKeys(),
+      [],
+      mosaics,
+      UInt64.fromUint(0),
+      UInt64.fromUint(0),
+    )
+  }
+
+  /**
+   * Reads the information about the mosaic \a mosaicId.
+   *
+   * @access public
+   * @param   {MosaicId}  mosaicId  The mosaic id.
+   * @return  {Promise<MosaicInfo>}
+   */
+  public async getMosaicInfo(
+    mosaicId: MosaicId,
+  ): Promise<MosaicInfo> {
+    const state = this.state.mosaics.get(mosaicId.toHex())
+    if (state === undefined) {
+      throw new Error('Mosaic "' + mosaicId.toHex() + '" does not exist.')
+    }
+
+    return new MosaicInfo(
+      1,
+      mosaicId.toHex(),
+      state.id,
+      UInt64.fromNumericString(state.supply.toString()),
+      UInt64.fromUint(state.startHeight),
+      state.owner,
+      1,
+      state.flags,
+      state.divisibility,
+      UInt64.fromUint(0), // do-not-expire
+    )
+  }
+
+  /**
+   * Reads the metadata entries that match \a criteria. Paging
+   * and ordering criteria are ignored.
+   *
+   * @access public
+   * @param   {MetadataSearchCriteria}  criteria  The search criteria.
+   * @return  {Promise<Metadata[]>}
+   */
+  public async getMetadata(
+    criteria: MetadataSearchCriteria,
+  ): Promise<Metadata[]> {
+    const entries: Metadata[] = []
+    this.state.metadata.forEach((entry: MetadataState, compositeHash: string) => {
+      if ((criteria.sourceAddress !== undefined && !criteria.sourceAddress.equals(entry.source))
+        || (criteria.targetAddress !== undefined && !criteria.targetAddress.equals(entry.target))
+        || (criteria.scopedMetadataKey !== undefined && criteria.scopedMetadataKey.toUpperCase() !== entry.key.toHex())
+        || (criteria.targetId !== undefined && criteria.targetId.toHex() !== entry.targetId?.toHex())
+        || (criteria.metadataType !== undefined && criteria.metadataType !== entry.type)
+      ) {
+        return
+      }
+
+      entries.push(new Metadata(compositeHash, new MetadataEntry(
+        1,
+        compositeHash,
+        entry.source,
+        entry.target,
+        entry.key,
+        entry.type,
+        Convert.uint8ToUtf8(entry.value),
+        entry.targetId,
+      )))
+    })
+
+    return entries
+  }
+
+  /**
+   * Reads the current block height of the network.
+   *
+   * @access public
+   * @return  {Promise<number>}
+   */
+  public async getChainHeight(): Promise<number> {
+    return this.chainHeight
+  }
+
+  /**
+   * Reads the timestamp of the block at \a height, in seconds
+   * since the UNIX epoch. Blocks are created every `BLOCK_TIME`
+   * seconds after the network epoch.
+   *
+   * @access public
+   * @param   {number}  height  The block height.
+   * @return  {Promise<number>}
+   */
+  public async getBlockTimestamp(
+    height: number,
+  ): Promise<number> {
+    return this.epochAdjustment + (height - 1) * Reader.BLOCK_TIME
+  }
+
+  /**
+   * Searches the confirmed contracts that involve \a address,
+   * starting after \a offset, in order of confirmation.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @param   {string}    offset    (Optional) The identifier of the last transaction already processed.
+   * @return  {Promise<Transaction[]>}
+   */
+  public async searchTransactions(
+    address: Address,
+    offset?: string,
+  ): Promise<Transaction[]> {
+    const start = offset === undefined ? 0 : this.transactions.findIndex(
+      (t: ConfirmedTransaction) => t.transaction.transactionInfo?.id === offset,
+    ) + 1
+
+    return this.transactions.slice(start).filter(
+      (t: ConfirmedTransaction) => t.addresses.includes(address.plain()),
+    ).map(
+      (t: ConfirmedTransaction) => t.transaction,
+    )
+  }
+
+  /**
+   * Reads at most \a count confirmed contracts that involve
+   * \a address, newest first, starting before \a offset.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @param   {number}    count     The maximum number of transactions.
+   * @param   {string}    offset    (Optional) The identifier of the oldest transaction already read.
+   * @return  {Promise<Transaction[]>}
+   */
+  public async getRecentTransactions(
+    address: Address,
+    count: number,
+    offset?: string,
+  ): Promise<Transaction[]> {
+    const end = offset === undefined ? -1 : this.transactions.findIndex(
+      (t: ConfirmedTransaction) => t.transaction.transactionInfo?.id === offset,
+    )
+
+    return this.transactions.slice(0, end === -1 ? this.transactions.length : end).filter(
+      (t: ConfirmedTransaction) => t.addresses.includes(address.plain()),
+    ).map(
+      (t: ConfirmedTransaction) => t.transaction,
+    ).reverse().slice(0, count)
+  }
+
+  /**
+   * Applies \a transaction to \a state and returns the addresses
+   * that are involved in the transaction.
+   *
+   * @access protected
+   * @param   {NetworkState}  state         The state of the network (modified).
+   * @param   {Transaction}   transaction   The transaction to apply.
+   * @return  {string[]}
+   * @throws  {FailureInvalidAmount}      Given a balance that is not sufficient.
+   * @throws  {FailureOperationForbidden} Given a transaction that the network rejects.
+   */
+  protected apply(
+    state: NetworkState,
+    transaction: Transaction,
+  ): string[] {
+    if (transaction.signer === undefined) {
+      throw new FailureOperationForbidden('Transactions must have a signer.')
+    }
+
+    const signer = Reader.getAccount(state, transaction.signer.address)
+    signer.publicKey = transaction.signer.publicKey
+
+    if (transaction instanceof TransferTransaction) {
+      if (!(transaction.recipientAddress instanceof Address)) {
+        throw new FailureOperationForbidden('Recipient aliases are not supported.')
+      }
+
+      const recipient = Reader.getAccount(state, transaction.recipientAddress)
+      transaction.mosaics.forEach((m: Mosaic) => {
+        const id = m.id.toHex()
+        const amount = BigInt(m.amount.toString())
+        if (!state.mosaics.has(id)) {
+          throw new FailureOperationForbidden('Mosaic "' + id + '" does not exist.')
+        }
+
+        if ((recipient.allowedMosaics.length && !recipient.allowedMosaics.includes(id))
+          || recipient.blockedMosaics.includes(id)
+        ) {
+          throw new FailureOperationForbidden('Account "' + recipient.address.plain() + '" does not accept mosaic "' + id + '".')
+        }
+
+        Reader.debit(signer, id, amount)
+        recipient.balances.set(id, (recipient.balances.get(id) ?? BigInt(0)) + amount)
+      })
+
+      return [ signer.address.plain(), recipient.address.plain() ]
+    }
+    else if (transaction instanceof MosaicDefinitionTransaction) {
+      if (state.mosaics.has(transaction.mosaicId.toHex())) {
+        throw new FailureOperationForbidden('Mosaic "' + transaction.mosaicId.toHex() + '" already exists.')
+      }
+
+      state.mosaics.set(transaction.mosaicId.toHex(), {
+        id: transaction.mosaicId,
+        owner: signer.address,
+        supply: BigInt(0),
+        divisibility: transaction.divisibility,
+        flags: transaction.flags,
+        startHeight: this.chainHeight + 1,
+      })
+    }
+    else if (transaction instanceof MosaicSupplyChangeTransaction) {
+      const id = transaction.mosaicId.toHex()
+      const mosaic = state.mosaics.get(id)
+      if (mosaic === undefined || !mosaic.owner.equals(signer.address)) {
+        throw new FailureOperationForbidden('Supply of mosaic "' + id + '" can only be changed by its owner.')
+      }
+
+      const delta = BigInt(transaction.delta.toString())
+      if (transaction.action === MosaicSupplyChangeAction.Decrease) {
+        Reader.debit(signer, id, delta)
+        mosaic.supply -= delta
+      }
+      else {
+        signer.balances.set(id, (signer.balances.get(id) ?? BigInt(0)) + delta)
+        mosaic.supply += delta
+      }
+    }
+    else if (transaction instanceof AccountMetadataTransaction
+      || transaction instanceof MosaicMetadataTransaction
+    ) {
+      const target = transaction.targetAddress
+      if (!(target instanceof Address)) {
+        throw new FailureOperationForbidden('Target aliases are not supported.')
+      }
+
+      const targetId = transaction instanceof MosaicMetadataTransaction
+        ? new MosaicId(transaction.targetMosaicId.toHex())
+        : undefined
+      if (targetId !== undefined && !state.mosaics.has(targetId.toHex())) {
+        throw new FailureOperationForbidden('Mosaic "' + targetId.toHex() + '" does not exist.')
+      }
+
+      const type = targetId === undefined ? MetadataType.Account : MetadataType.Mosaic
+      const compositeHash = [
+        signer.address.plain(),
+        target.plain(),
+        transaction.scopedMetadataKey.toHex(),
+        type,
+        targetId?.toHex() ?? '',
+      ].join(':')
+
+      // values are XOR-ed with the previous value, if any
+      const previous = state.metadata.get(compositeHash)?.value ?? new Uint8Array(0)
+      const value = Convert.utf8ToUint8(transaction.value)
+      const next = new Uint8Array(previous.length + transaction.valueSizeDelta)
+      next.forEach((_, i) => next[i] = (previous[i] ?? 0) ^ (value[i] ?? 0))
+
+      state.metadata.set(compositeHash, {
+        source: signer.address,
+        target,
+        key: transaction.scopedMetadataKey,
+        type,
+        targetId,
+        value: next,
+      })
+
+      return [ signer.address.plain(), target.plain() ]
+    }
+    else if (transaction instanceof AccountMosaicRestrictionTransaction) {
+      const list = transaction.restrictionFlags === MosaicRestrictionFlag.BlockMosaic
+        ? signer.blockedMosaics
+        : signer.allowedMosaics
+
+      transaction.restrictionDeletions.forEach(m => list.includes(m.toHex()) && list.splice(list.indexOf(m.toHex()), 1))
+      transaction.restrictionAdditions.forEach(m => !list.includes(m.toHex()) && list.push(m.toHex()))
+    }
+    else {
+      throw new FailureOperationForbidden('Transaction type ' + transaction.type + ' is not supported.')
+    }
+
+    return [ signer.address.plain() ]
+  }
+
+  /**
+   * Returns the state of the account \a address, given \a state
+   * the state of the network. Unknown accounts are created.
+   *
+   * @static
+   * @access protected
+   * @param   {NetworkState}  state     The state of the network.
+   * @param   {Address}       address   The address of the account.
+   * @return  {AccountState}
+   */
+  protected static getAccount(
+    state: NetworkState,
+    address: Address,
+  ): AccountState {
+    if (!state.accounts.has(address.plain())) {
+      state.accounts.set(address.plain(), {
+        address,
+        publicKey: '0'.repeat(64),
+        balances: new Map(),
+        allowedMosaics: [],
+        blockedMosaics: [],
+      })
+    }
+
+    return state.accounts.get(address.plain())!
+  }
+
+  /**
+   * Debits \a amount of mosaic \a id from \a account.
+   *
+   * @static
+   * @access protected
+   * @param   {AccountState}  account   The state of the account (modified).
+   * @param   {string}        id        The mosaic id (hexadecimal).
+   * @param   {bigint}        amount    The amount to debit.
+   * @return  {void}
+   * @throws  {FailureInvalidAmount}    Given a balance that is not sufficient.
+   */
+  protected static debit(
+    account: AccountState,
+    id: string,
+    amount: bigint,
+  ): void {
+    const balance = account.balances.get(id) ?? BigInt(0)
+    if (balance < amount) {
+      throw new FailureInvalidAmount('Balance of ' + balance.toString() + ' of mosaic "' + id + '" '
+        + 'of account "' + account.address.plain() + '" is not sufficient to send ' + amount.toString() + '.')
+    }
+
+    account.balances.set(id, balance - amount)
+  }
+
+  /**
+   * Returns a copy of \a state, such that contracts can be
+   * applied atomically.
+   *
+   * @static
+   * @access protected
+   * @param   {NetworkState}  state   The state of the network.
+   * @return  {NetworkState}
+   */
+  protected static copyState(
+    state: NetworkState,
+  ): NetworkState {
+    const copy: NetworkState = {
+      accounts: new Map(),
+      mosaics: new Map(),
+      metadata: new Map(state.metadata),
+    }
+
+    state.accounts.forEach((a: AccountState, k: string) => copy.accounts.set(k, {
+      ...a,
+      balances: new Map(a.balances),
+      allowedMosaics: a.allowedMosaics.slice(),
+      blockedMosaics: a.blockedMosaics.slice(),
+    }))
+    state.mosaics.forEach((m: MosaicState, k: string) => copy.mosaics.set(k, { ...m }))
+    return copy
+  }
+
+  /**
+   * Returns a copy of \a transaction with \a properties, e.g.
+   * its transaction information once confirmed. Transactions
+   * of symbol-sdk are immutable.
+   *
+   * @static
+   * @access protected
+   * @param   {T}       transaction   The transaction.
+   * @param   {object}  properties    The properties to overwrite.
+   * @return  {T}
+   */
+  protected static withProperties<T extends Transaction>(
+    transaction: T,
+    properties: object,
+  ): T {
+    return Object.assign(
+      Object.create(Object.getPrototypeOf(transaction)),
+      transaction,
+      properties,
+    )
+  }
+}
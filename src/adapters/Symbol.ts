@@ -7,14 +7,24 @@
  * @license     LGPL-3.0-only
  */
 import {
-  RepositoryFactoryHttp,
-  RepositoryFactoryConfig,
-  NetworkType,
+  AccountInfo,
+  Address,
+  Metadata,
+  MetadataSearchCriteria,
   MosaicId,
+  MosaicInfo,
+  NetworkType,
+  RepositoryFactoryConfig,
+  RepositoryFactoryHttp,
+  Transaction,
+  UInt64,
 } from 'symbol-sdk'
 
 // internal dependencies
 import { Reader as BaseReader } from '../contracts/Reader'
+import { FailureUnknownNetwork } from '../errors/FailureUnknownNetwork'
+import { NetworkPreset } from '../models/NetworkPreset'
+import { TransactionService } from '../services/TransactionService'
 
 /**
  * @class Reader implements BaseReader
@@ -24,6 +34,17 @@ import { Reader as BaseReader } from '../contracts/Reader'
  * @description Class that describes the blockchain network adapter
  *              for Symbol from NEM compatible network nodes.
  * @link https://symbolplatform.com
+ *
+ * Readers can be constructed from a named network preset, e.g.:
+ *
+ * @example
+ * ```typescript
+ * const reader = Symbol.Reader.fromPreset('symbol-mainnet')
+ * const other = Symbol.Reader.fromPreset(
+ *   await Symbol.Reader.detectPreset('http://localhost:3000'),
+ *   'http://localhost:3000',
+ * )
+ * ```
  */
 export class Reader implements BaseReader {
 
@@ -79,4 +100,215 @@ export class Reader implements BaseReader {
       nodePublicKey,
     } as RepositoryFactoryConfig)
   }
+
+  /**
+   * Constructs a reader for the network preset \a preset, e.g.
+   * `symbol-mainnet` or `dhealth-mainnet`. Given no \a gatewayUrl,
+   * the first default node of the preset is used.
+   *
+   * @static
+   * @access public
+   * @param   {string|NetworkPreset}  preset      The network preset, or its name.
+   * @param   {string}                gatewayUrl  (Optional) The REST endpoint URL.
+   * @return  {Reader}
+   * @throws  {FailureUnknownNetwork}   Given an unknown preset name.
+   */
+  public static fromPreset(
+    preset: string | NetworkPreset,
+    gatewayUrl?: string,
+  ): Reader {
+    const network = preset instanceof NetworkPreset ? preset : NetworkPreset.get(preset)
+    return new this(
+      gatewayUrl ?? network.nodes[0],
+      network.networkType,
+      network.generationHash,
+      network.epochAdjustment,
+      network.feeMosaicId,
+    )
+  }
+
+  /**
+   * Detects the network preset of the node at \a gatewayUrl,
+   * i.e. reads the generation hash seed of its network
+   * properties (`/network/properties`).
+   *
+   * @static
+   * @access public
+   * @param   {string}                  gatewayUrl    The REST endpoint URL.
+   * @param   {RepositoryFactoryHttp}   factoryHttp   (Optional) The repository factory (symbol-sdk).
+   * @return  {Promise<NetworkPreset>}
+   * @throws  {FailureUnknownNetwork}   Given a node of an unknown network.
+   */
+  public static async detectPreset(
+    gatewayUrl: string,
+    factoryHttp: RepositoryFactoryHttp = new RepositoryFactoryHttp(gatewayUrl),
+  ): Promise<NetworkPreset> {
+    const properties = await factoryHttp.createNetworkRepository()
+      .getNetworkProperties()
+      .toPromise()
+
+    const generationHash = properties.network.generationHashSeed ?? ''
+    const preset = NetworkPreset.find(generationHash)
+    if (preset === undefined) {
+      throw new FailureUnknownNetwork('Node "' + gatewayUrl + '" runs an unknown network '
+        + 'with generation hash "' + generationHash + '".')
+    }
+
+    return preset
+  }
+
+  /**
+   * Reads the information about the account \a address.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @return  {Promise<AccountInfo>}
+   */
+  public async getAccountInfo(
+    address: Address,
+  ): Promise<AccountInfo> {
+    return await this.factoryHttp.createAccountRepository()
+      .getAccountInfo(address)
+      .toPromise()
+  }
+
+  /**
+   * Reads the information about the mosaic \a mosaicId.
+   *
+   * @access public
+   * @param   {MosaicId}  mosaicId  The mosaic id.
+   * @return  {Promise<MosaicInfo>}
+   */
+  public async getMosaicInfo(
+    mosaicId: MosaicId,
+  ): Promise<MosaicInfo> {
+    return await this.factoryHttp.createMosaicRepository()
+      .getMosaic(mosaicId)
+      .toPromise()
+  }
+
+  /**
+   * Reads the metadata entries that match \a criteria. Pages of
+   * search results are read until the last page such that all
+   * matching entries are returned.
+   *
+   * @access public
+   * @param   {MetadataSearchCriteria}  criteria  The search criteria.
+   * @return  {Promise<Metadata[]>}
+   */
+  public async getMetadata(
+    criteria: MetadataSearchCriteria,
+  ): Promise<Metadata[]> {
+    const repository = this.factoryHttp.createMetadataRepository()
+    const pageSize = 100
+
+    const entries: Metadata[] = []
+    for (let pageNumber = 1; ; pageNumber++) {
+      const page = await repository
+        .search({ ...criteria, pageSize, pageNumber })
+        .toPromise()
+
+      entries.push(...page.data)
+      if (page.data.length < pageSize) {
+        return entries
+      }
+    }
+  }
+
+  /**
+   * Reads the current block height of the network.
+   *
+   * @access public
+   * @return  {Promise<number>}
+   */
+  public async getChainHeight(): Promise<number> {
+    const chainInfo = await this.factoryHttp.createChainRepository()
+      .getChainInfo()
+      .toPromise()
+
+    return chainInfo.height.compact()
+  }
+
+  /**
+   * Reads the timestamp of the block at \a height, in seconds
+   * since the UNIX epoch.
+   *
+   * @access public
+   * @param   {number}  height  The block height.
+   * @return  {Promise<number>}
+   */
+  public async getBlockTimestamp(
+    height: number,
+  ): Promise<number> {
+    const block = await this.factoryHttp.createBlockRepository()
+      .getBlockByHeight(UInt64.fromUint(height))
+      .toPromise()
+
+    // block timestamps are in milliseconds since the network epoch
+    return Math.floor(block.timestamp.compact() / 1000) + this.epochAdjustment
+  }
+
+  /**
+   * Searches the confirmed transfers and aggregate transactions
+   * that involve \a address, starting after \a offset. Aliases
+   * are resolved.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @param   {string}    offset    (Optional) The identifier of the last transaction already processed.
+   * @return  {Promise<Transaction[]>}
+   */
+  public async searchTransactions(
+    address: Address,
+    offset?: string,
+  ): Promise<Transaction[]> {
+    const service = this.getTransactionService(100)
+    const transactions = await service.getUnprocessedTransactions(address, offset).toPromise()
+    return transactions.length
+      ? await service.resolveTransactionsAliases(transactions).toPromise()
+      : []
+  }
+
+  /**
+   * Reads at most \a count confirmed transfers and aggregate
+   * transactions that involve \a address, newest first, starting
+   * before \a offset. Aliases are resolved.
+   *
+   * @access public
+   * @param   {Address}   address   The address of the account.
+   * @param   {number}    count     The maximum number of transactions.
+   * @param   {string}    offset    (Optional) The identifier of the oldest transaction already read.
+   * @return  {Promise<Transaction[]>}
+   */
+  public async getRecentTransactions(
+    address: Address,
+    count: number,
+    offset?: string,
+  ): Promise<Transaction[]> {
+    const service = this.getTransactionService(count)
+    const transactions = await service.getRecentTransactions(address, offset).toPromise()
+    return transactions.length
+      ? await service.resolveTransactionsAliases(transactions).toPromise()
+      : []
+  }
+
+  /**
+   * Returns a transaction service that reads pages of \a pageSize
+   * transactions with the repositories of this reader.
+   *
+   * @access protected
+   * @param   {number}  pageSize  The page size for transaction listings.
+   * @return  {TransactionService}
+   */
+  protected getTransactionService(
+    pageSize: number,
+  ): TransactionService {
+    return new TransactionService(
+      this.factoryHttp.createAccountRepository(),
+      this.factoryHttp.createChainRepository(),
+      this.factoryHttp.createTransactionRepository(),
+      this.factoryHttp.createReceiptRepository(),
+      pageSize,
+    )
+  }
 }
@@ -0,0 +1,24 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { Reader as SymbolReader } from './Symbol'
+
+/**
+ * @class Reader extends SymbolReader
+ * @package Swapable
+ * @subpackage Adapters
+ * @since v1.4.0
+ * @description Class that describes the blockchain network adapter
+ *              for dHealth network nodes. dHealth Network runs the
+ *              Symbol protocol such that its nodes expose the same
+ *              REST interface, the adapter is constructed with the
+ *              network descriptors of a dHealth node, e.g. its fee mosaic,
+ *              or with the `dhealth-mainnet` network preset.
+ * @link https://dhealth.network
+ */
+export class Reader extends SymbolReader {}
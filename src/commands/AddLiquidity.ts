@@ -12,7 +12,6 @@ import {
   Transaction,
   TransferTransaction,
   PlainMessage,
-  UInt64,
   MosaicSupplyChangeTransaction,
   MosaicSupplyChangeAction,
   Mosaic,
@@ -23,15 +22,11 @@ import {
 import {
   AllowanceResult,
   AssetAmount,
-  AssetIdentifier,
   CommandOption,
-  Symbol,
+  QuoteResult,
 } from '../../index'
 import { Executable } from './Executable'
-
-// XXX remove this, used only for type-discovery in command options below.
-const Symbol_Testnet_SWP = new AssetIdentifier('00000001', new PublicAccount())
-const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
+import { PricingService } from '../services/PricingService'
 
 /**
  * @class Swapable.AddLiquidity
@@ -48,6 +43,15 @@ const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
  * | provider | Liquidity provider | `new PublicAccount(...)` |
  * | input_x | Amount and asset identifier of `x` (first in pair) | `new AssetAmount(...)` |
  * | input_y | Amount and asset identifier of `y` (second in pair) | `new AssetAmount(...)` |
+ * | amount_x_min | (Optional) Minimum amount of `x` that must be added, or the deposit fails. | `1000` |
+ * | amount_y_min | (Optional) Minimum amount of `y` that must be added, or the deposit fails. | `1000` |
+ * | inputs | (Optional) Amounts and asset identifiers of **all** members of multi-asset pools, replaces `input_x` and `input_y` | `[new AssetAmount(...), ...]` |
+ * | amounts_min | (Optional) Minimum amounts of all members of multi-asset pools, in the order of `inputs` | `[1000, 1000, 1000]` |
+ *
+ * Amounts `input_x` and `input_y` are *desired* amounts. Only the amounts
+ * that match the ratio of current reserves are transferred to the pool,
+ * i.e. one of both amounts is reduced to its optimal counterpart amount.
+ * Deposits in multi-asset pools must list all members of the pool.
  *
  * The execution of this command results in the creation of
  * the following list of transactions with their respective
@@ -57,8 +61,11 @@ const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
  * | --- | --- | --- | --- |
  * | 01 | MosaicSupplyChangeTransaction | Target Account | Creates an amount of automated pool shares that is proportional to the amount of liquidity added in the pool. These shares represent the contribution made to the pool by the liquidity provider. |
  * | 02 | TransferTransaction | Target Account | Transfers the added automated pool shares to the liquidity provider. |
- * | 03 | TransferTransaction | Provider Account | Transfers the **added liquidity** of `x` and `y` to the target account. |
- * | 04 | TransferTransaction | Provider Account | Adds an execution proof message sent to the **target** account. |
+ * | 03 | TransferTransaction | Provider Account | Transfers the **added liquidity** of `x` and `y` (or of all members) to the target account, i.e. the optimal amounts given current reserves. |
+ * | 04 | AccountMetadataTransaction | Target Account | Updates the `K_Last` metadata value of the **target** account, i.e. the value of `k` after this liquidity event. |
+ * | 05 | MosaicSupplyChangeTransaction | Target Account | (Optional) Creates the protocol fee shares, given a protocol fee and a growth of `sqrt(k)` since the last liquidity event. |
+ * | 06 | TransferTransaction | Target Account | (Optional) Transfers the protocol fee shares to the `Fee_To` account. |
+ * | 07 | TransferTransaction | Provider Account | Adds an execution proof message sent to the **target** account. The `ReserveSnapshot` is attached last such that cosignatories can reject stale contracts. |
  *
  */
 export class AddLiquidity extends Executable {
@@ -80,6 +87,10 @@ export class AddLiquidity extends Executable {
    *
    * This method asserts the presence of mandatory arguments.
    *
+   * Additionally, this method asserts that all members of the pool
+   * are listed and that the optimal amounts that are added to the
+   * pool are not below minimum amounts.
+   *
    * @access public
    * @param   {PublicAccount}           actor   The actor is whom executes the command.
    * @param   {Array<CommandOption>}    argv    The command options (arguments).
@@ -91,12 +102,130 @@ export class AddLiquidity extends Executable {
     argv?: CommandOption[]
   ): AllowanceResult {
     // - Asserts the presence of mandatory inputs
-    super.assertHasMandatoryArguments(argv, this.arguments)
+    // :note: Multi-asset pools replace `input_x` and `input_y` with `inputs`.
+    super.assertHasMandatoryArguments(argv, this.context.getInput('inputs', null) !== null
+      ? [ 'provider', 'inputs' ]
+      : this.arguments
+    )
+
+    // - Reads external arguments to check for amounts
+    const inputs: AssetAmount[] = this.getInputs()
+    const amounts_min: bigint[] = this.context.getInput<Array<number | bigint>>('amounts_min', [
+      this.context.getInput('amount_x_min', 0),
+      this.context.getInput('amount_y_min', 0),
+    ]).map(amount => PricingService.toBigInt(amount))
 
     // - Allows anyone to add liquidity to automated pools
     //   given a connected command execution (read-only).
-    return new AllowanceResult(
-      !!this.reserveInfo && !!this.mosaicInfo
+    const isAllowed = !!this.reserveInfo && !!this.mosaicInfo
+    if (!isAllowed) {
+      return new AllowanceResult(false)
+    }
+
+    // - Denies deposits that do not concern all members of the pool
+    if (!this.isMemberList(inputs.map(input => input.identifier))) {
+      return new AllowanceResult(false, 'Deposits must add liquidity of all '
+        + this.poolInfo!.mosaics.length + ' members of the automated pool.')
+    }
+
+    // - Denies deposits that add less than the minimum amounts
+    const optimal: AssetAmount[] = this.getOptimalAmounts(inputs)
+    for (let i = 0, m = optimal.length; i < m; i++) {
+      const amount_min = amounts_min[i] ?? BigInt(0)
+      if (optimal[i].amount < amount_min) {
+        return new AllowanceResult(false, 'Amount of ' + this.labelOf(i, optimal[i].identifier)
+          + ' of ' + optimal[i].amount + ' is below the minimum amount of ' + amount_min + '.')
+      }
+    }
+
+    // - Denies deposits that do not mint any automated pool shares
+    const liquidity: bigint = this.getLiquidityAmount(optimal)
+    if (liquidity <= BigInt(0)) {
+      return new AllowanceResult(false, 'Amount of ' + liquidity
+        + ' shares is too small, increase the deposit amounts.')
+    }
+
+    return new AllowanceResult(true)
+  }
+
+  /**
+   * Returns the amounts of all members that are added to the pool
+   * given *desired* amounts \a inputs, such that amounts match the
+   * ratio of current reserves.
+   *
+   * @access protected
+   * @param   {AssetAmount[]}   inputs    The desired amounts and asset identifiers, e.g. of `x` and `y`.
+   * @return  {AssetAmount[]}   The optimal amounts, in the same order.
+   */
+  protected getOptimalAmounts(
+    inputs: AssetAmount[],
+  ): AssetAmount[] {
+    const amounts = PricingService.getOptimalBasketAmounts(
+      inputs.map(input => PricingService.toBigInt(input.amount)),
+      inputs.map(input => this.reserveOf(input.identifier)),
+    )
+
+    return inputs.map(
+      (input, i) => this.toAssetAmount(input.identifier, amounts[i])
+    )
+  }
+
+  /**
+   * Returns the amount of automated pool shares that represent
+   * amounts \a inputs given current reserves and the current
+   * supply of automated pool shares.
+   *
+   * @access protected
+   * @param   {AssetAmount[]}   inputs    The amounts and asset identifiers, e.g. of `x` and `y`.
+   * @return  {bigint}          The amount of automated pool shares.
+   */
+  protected getLiquidityAmount(
+    inputs: AssetAmount[],
+  ): bigint {
+    // - Reads shares and reserves information
+    // :note: Protocol fee shares are minted prior to liquidity shares.
+    const supply_lp: bigint = this.supplyOf() + this.getProtocolFeeShares()
+
+    return PricingService.getBasketLiquidityAmount(
+      inputs.map(input => PricingService.toBigInt(input.amount)),
+      inputs.map(input => this.reserveOf(input.identifier)),
+      supply_lp,
+    )
+  }
+
+  /**
+   * Returns a read-only quote for the execution of this command
+   * given the synchronized reserves.
+   *
+   * @access public
+   * @return  {QuoteResult}           The amount of automated pool shares minted and prices.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quote(): QuoteResult {
+    // - Asserts the presence of synchronized reserves
+    this.assertHasReserves()
+
+    // - Reads external arguments
+    const inputs: AssetAmount[] = this.getInputs()
+
+    // - Calculate the amounts added at the ratio of current reserves
+    // :note: Prices are expressed for the first two members, i.e. `x` in `y`.
+    const optimal: AssetAmount[] = this.getOptimalAmounts(inputs)
+    const [ optimal_x, optimal_y ] = optimal
+    const amount_x: bigint = PricingService.toBigInt(optimal_x.amount)
+    const amount_y: bigint = PricingService.toBigInt(optimal_y.amount)
+
+    // - Calculate liquidity proportions ("contribution of provider")
+    const liquidity = this.getLiquidityAmount(optimal)
+
+    return new QuoteResult(
+      optimal,
+      [ this.toAssetAmount(this.identifier, liquidity) ],
+      BigInt(0), // no trading fee
+      PricingService.getPrice(amount_y, amount_x),
+      this.getMidPrice(optimal_x.identifier, optimal_y.identifier),
+      0, // no price impact
+      liquidity,
     )
   }
 
@@ -150,36 +279,20 @@ export class AddLiquidity extends Executable {
   protected get transactions(): Transaction[] {
 
     // - Reads the execution context
-    const reader = this.context.reader as Symbol.Reader
+    const reader = this.context.reader
 
     // - Reads external arguments
     const provider = this.context.getInput('provider', new PublicAccount())
-    const input_x = this.context.getInput('input_x', new AssetAmount(Symbol_Testnet_SWP, 10))
-    const input_y = this.context.getInput('input_y', new AssetAmount(Symbol_Testnet_XYM, 10))
+    const inputs: AssetAmount[] = this.getInputs()
 
-    // - Reads shares and reserves information
-    const supply_lp: number = this.mosaicInfo?.supply?.compact() ?? 0
-    const reserve_x: number = this.reserveOf(input_x.identifier)
-    const reserve_y: number = this.reserveOf(input_y.identifier)
-
-    // MINT FEE principle (0.05 % of shares issued), 
-    // https://github.com/Uniswap/uniswap-v2-core/blob/master/contracts/UniswapV2Pair.sol#L117
-    // if fee is on, mint liquidity equivalent to 1/6th of the growth in sqrt(k)
-    // XXX if (pool_exists)
-    // XXX   rootK = Math.sqrt(reserve0 * reserve1)
-    // XXX   rootKLast = Math.sqrt(kLast)
-    // XXX   if (rootK > rootKLast)
-    // XXX     numerator = totalSupply.mul(rootK.sub(rootKLast));
-    // XXX     denominator = rootK.mul(5).add(rootKLast);
-    // XXX     liquidity = numerator / denominator;
-    // XXX     if (liquidity > 0) _mint(feeTo, liquidity);
-    // XXX else kLast = 0
+    // - Calculate the protocol fee ("growth of sqrt(k) since last liquidity event")
+    const fee_lp: bigint = this.getProtocolFeeShares()
+
+    // - Calculate the amounts added at the ratio of current reserves
+    const optimal: AssetAmount[] = this.getOptimalAmounts(inputs)
 
     // - Calculate liquidity proportions ("contribution of provider")
-    const liquidity = Math.min(
-      (input_x.amount * supply_lp) / reserve_x,
-      (input_y.amount * supply_lp) / reserve_y
-    )
+    const liquidity = this.getLiquidityAmount(optimal)
 
     // - Prepares the response
     const transactions: InnerTransaction[] = []
@@ -191,7 +304,7 @@ export class AddLiquidity extends Executable {
       this.context.parameters.deadline,
       this.mosaicInfo?.id!,
       MosaicSupplyChangeAction.Increase,
-      UInt64.fromUint(liquidity),
+      PricingService.toUInt64(liquidity),
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
@@ -206,7 +319,7 @@ export class AddLiquidity extends Executable {
       [
         new Mosaic(
           this.identifier.toMosaicId(),
-          UInt64.fromUint(liquidity)
+          PricingService.toUInt64(liquidity)
         ),
       ],
       EmptyMessage,
@@ -221,16 +334,10 @@ export class AddLiquidity extends Executable {
     transactions.push(TransferTransaction.create(
       this.context.parameters.deadline,
       this.target.address,
-      [
-        new Mosaic(
-          input_x.identifier.toMosaicId(),
-          UInt64.fromUint(input_x.amount)
-        ),
-        new Mosaic(
-          input_y.identifier.toMosaicId(),
-          UInt64.fromUint(input_y.amount)
-        ),
-      ],
+      optimal.map(amount => new Mosaic(
+        amount.identifier.toMosaicId(),
+        PricingService.toUInt64(amount.amount)
+      )),
       EmptyMessage,
       reader.networkType,
       undefined, // maxFee 0 for inner
@@ -239,20 +346,65 @@ export class AddLiquidity extends Executable {
     // - Transaction 03 is issued by **provider** account
     signers.push(provider)
 
-    // - Transaction 04: Add execution proof transaction
+    // - Transaction 04: AccountMetadataTransaction updating `K_Last`
+    transactions.push(this.getKLastTransaction(this.getK(optimal.map(amount => [
+      amount.identifier,
+      this.reserveOf(amount.identifier) + PricingService.toBigInt(amount.amount),
+    ]))))
+
+    // - Transaction 04 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transactions 05 and 06 are only added given a protocol fee
+    if (fee_lp > BigInt(0)) {
+      // - Transaction 05: MosaicSupplyChangeTransaction for protocol fee shares
+      transactions.push(MosaicSupplyChangeTransaction.create(
+        this.context.parameters.deadline,
+        this.mosaicInfo?.id!,
+        MosaicSupplyChangeAction.Increase,
+        PricingService.toUInt64(fee_lp),
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 05 is issued by **target** account
+      signers.push(this.target)
+
+      // - Transaction 06: Transfers protocol fee shares to the `Fee_To` account
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        this.poolInfo!.feeTo,
+        [
+          new Mosaic(
+            this.identifier.toMosaicId(),
+            PricingService.toUInt64(fee_lp)
+          ),
+        ],
+        EmptyMessage,
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 06 is issued by **target** account
+      signers.push(this.target)
+    }
+
+    // - Transaction 05 (or 07): Add execution proof transaction
     transactions.push(TransferTransaction.create(
       this.context.parameters.deadline,
       this.target.address,
       [], // no mosaics
-      PlainMessage.create(this.descriptor 
-        + ':' + this.mosaicInfo?.id!.toHex() 
-        + ':' + input_x.identifier.toMosaicId().toHex()
-        + ':' + input_y.identifier.toMosaicId().toHex()),
+      PlainMessage.create(this.descriptor
+        + ':' + this.mosaicInfo?.id!.toHex()
+        + inputs.map(input => ':' + input.identifier.toMosaicId().toHex()).join('')
+        + ':' + liquidity
+        + optimal.map(amount => ':' + amount.amount).join('')
+        + ':' + this.snapshot.message),
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
 
-    // - Transaction 04 is issued by **provider** account ("the actor")
+    // - Transaction 05 (or 07) is issued by **provider** account ("the actor")
     signers.push(provider)
 
     // - Assigns correct signer to each transaction
@@ -32,15 +32,14 @@ import {
 import {
   AllowanceResult,
   AssetAmount,
-  AssetIdentifier,
   CommandOption,
-  Symbol,
 } from '../../index'
 import { Executable } from './Executable'
-
-// XXX remove this, used only for type-discovery in command options below.
-const Symbol_Testnet_SWP = new AssetIdentifier('00000001', new PublicAccount())
-const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
+import { FeeMode } from '../models/FeeMode'
+import { PoolType } from '../models/PoolType'
+import { PricingService } from '../services/PricingService'
+import { StableSwapService } from '../services/StableSwapService'
+import { WeightedMathService } from '../services/WeightedMathService'
 
 /**
  * @class Swapable.CreatePool
@@ -57,6 +56,23 @@ const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
  * | provider | Liquidity provider | `new PublicAccount(...)` |
  * | input_x | Amount and asset identifier of `x` (first in pair) | `new AssetAmount(...)` |
  * | input_y | Amount and asset identifier of `y` (second in pair) | `new AssetAmount(...)` |
+ * | fee_rate | (Optional) Trading fee rate in basis points, defaults to `30` (0.30%) | `30` |
+ * | fee_to | (Optional) Account that receives protocol fee shares, defaults to the **target** account | `new PublicAccount(...)` |
+ * | protocol_fee | (Optional) Protocol fee in basis points of the growth of `sqrt(k)`, defaults to `0` (off) | `1667` |
+ * | pool_type | (Optional) Type of the pool, i.e. its invariant, defaults to constant product | `PoolType.StableSwap` |
+ * | amp | (Optional) Amplification coefficient of StableSwap pools, defaults to `100` | `100` |
+ * | weight_x | (Optional) Weight of `x` in percent for weighted pools, defaults to `50` | `80` |
+ * | weight_y | (Optional) Weight of `y` in percent for weighted pools, defaults to `50` | `20` |
+ * | inputs | (Optional) Amounts and asset identifiers of **all** members of multi-asset pools (2 to 8), replaces `input_x` and `input_y` | `[new AssetAmount(...), ...]` |
+ * | weights | (Optional) Weights of all members in percent for weighted multi-asset pools, replaces `weight_x` and `weight_y` | `[50, 25, 25]` |
+ * | max_price_impact | (Optional) Maximum price impact of swaps in basis points, defaults to no limit | `500` |
+ * | fee_mode | (Optional) Mode of the trading fee rate, i.e. fixed or driven by the volatility of recent swaps, defaults to fixed | `FeeMode.Dynamic` |
+ * | min_fee_rate | (Optional) Lower bound of the trading fee rate in basis points for the dynamic fee mode, defaults to `fee_rate` | `5` |
+ * | max_fee_rate | (Optional) Upper bound of the trading fee rate in basis points for the dynamic fee mode, defaults to `100` (1.00%) | `100` |
+ *
+ * Multi-asset pools (i.e. "index" pools) of three to eight members are
+ * created with the `inputs` argument and are constant product pools or
+ * weighted pools. StableSwap pools are always pairs of assets.
  *
  * The execution of this command results in the creation of
  * the following list of transactions with their respective
@@ -66,14 +82,35 @@ const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
  * | --- | --- | --- | --- |
  * | 01 | AccountMetadataTransaction | Target Account | Assigns the `Pool_Id` metadata value to the **target** account. |
  * | 02 | MosaicDefinitionTransaction | Target Account | Creates the automated pool shares mosaic. Automated pool shares are distributed **at pro-rata** rates amongst liquidity providers. There is **one** automated pool shares **mosaic** per each automated liquidity pool. |
- * | 03 | MosaicSupplyChangeTransaction | Target Account | Creates the initial supply of automated pool shares for a liquidity pool pairing cryptocurrencies `x` (left-side input) and `y` (right-side input). The added amount is equal to `sqrt(x * y)`. |
+ * | 03 | MosaicSupplyChangeTransaction | Target Account | Creates the initial supply of automated pool shares for a liquidity pool pairing cryptocurrencies `x` (left-side input) and `y` (right-side input). The added amount is equal to `sqrt(x * y)`, or `D / 2` for StableSwap pools, or `x^(wx/100) * y^(wy/100)` for weighted pools, or the geometric mean of amounts for multi-asset pools. |
  * | 04 | MosaicMetadataTransaction | Target Account | Assigns the `Pool_Id` metadata value to the automated pool shares **mosaic**. |
  * | 05 | MosaicMetadataTransaction | Target Account | Assigns the `X_Id` metadata value to the automated pool shares **mosaic**. |
  * | 06 | MosaicMetadataTransaction | Target Account | Assigns the `Y_Id` metadata value to the automated pool shares **mosaic**. |
- * | 07 | AccountMosaicRestrictionTransaction | Target Account | Restricts the **target** account such that it can **only hold** the concerned mosaics (i.e.: the automated pool shares mosaic, the network fee mosaic, the `x` mosaic and the `y` mosaic). :warning: This transaction protects the **target** account from SPAM transactions/mosaics. |
- * | 08 | TransferTransaction | Target Account | Transfers the initially created supply of automated pool shares to the liquidity provider. |
- * | 09 | TransferTransaction | Provider Account | Transfers the initially **added liquidity** of `x` and `y` to the target account. |
- * | 10 | TransferTransaction | Provider Account | Adds an execution proof message sent to the **target** account. |
+ * | 07 | MosaicMetadataTransaction | Target Account | Assigns the `Fee_Rate` metadata value (in basis points) to the automated pool shares **mosaic**. |
+ * | 08 | MosaicMetadataTransaction | Target Account | Assigns the `Fee_To` metadata value (an address) to the automated pool shares **mosaic**. |
+ * | 09 | MosaicMetadataTransaction | Target Account | Assigns the `Protocol_Fee` metadata value (in basis points) to the automated pool shares **mosaic**. |
+ * | 10 | AccountMetadataTransaction | Target Account | Assigns the `K_Last` metadata value to the **target** account, i.e. the value of `k = x * y` (or its equivalent for other pool types) after this liquidity event. |
+ * | 11 | MosaicMetadataTransaction | Target Account | Assigns the `Pool_Type` metadata value (e.g. `stable-swap`) to the automated pool shares **mosaic**. |
+ * | 12 | MosaicMetadataTransaction | Target Account | Assigns the `Amp` metadata value (the amplification coefficient, `0` for constant product pools) to the automated pool shares **mosaic**. |
+ * | 13 | MosaicMetadataTransaction | Target Account | Assigns the `X_Weight` metadata value (in percent, `50` for pools that are not weighted) to the automated pool shares **mosaic**. |
+ * | 14 | MosaicMetadataTransaction | Target Account | Assigns the `Y_Weight` metadata value (in percent, `50` for pools that are not weighted) to the automated pool shares **mosaic**. |
+ * | 15 to 10 + 2N | MosaicMetadataTransaction | Target Account | (Optional) Assigns the `Asset_n_Id` and `Asset_n_Weight` metadata values to the automated pool shares **mosaic**, for each member `n` from `3` to `N` of multi-asset pools. |
+ * | 11 + 2N | MosaicMetadataTransaction | Target Account | (Optional) Assigns the `Max_Price_Impact` metadata value (in basis points) to the automated pool shares **mosaic**, given a maximum price impact. |
+ * | 11 + 2N + P to 13 + 2N + P | MosaicMetadataTransaction | Target Account | (Optional) Assigns the `Fee_Mode`, `Min_Fee_Rate` and `Max_Fee_Rate` metadata values (in basis points) to the automated pool shares **mosaic**, given a dynamic fee mode. These follow the `Max_Price_Impact` metadata value, if any. |
+ * | 11 + 2N + M | AccountMosaicRestrictionTransaction | Target Account | Restricts the **target** account such that it can **only hold** the concerned mosaics (i.e.: the automated pool shares mosaic, the network fee mosaic and the mosaics of all members, e.g. `x` and `y`). :warning: This transaction protects the **target** account from SPAM transactions/mosaics. |
+ * | 12 + 2N + M | TransferTransaction | Target Account | Transfers the initially created supply of automated pool shares to the liquidity provider, *except* the minimum liquidity of `1000` shares which is permanently locked in the **target** account. |
+ * | 13 + 2N + M | TransferTransaction | Provider Account | Transfers the initially **added liquidity** of all members, e.g. `x` and `y`, to the target account. |
+ * | 14 + 2N + M | TransferTransaction | Provider Account | Adds an execution proof message sent to the **target** account. |
+ *
+ * With `N` the number of members of the pool, i.e. transactions `15` to
+ * `18` for pairs of assets, `P` the number of `Max_Price_Impact` metadata
+ * values, i.e. `1` given a maximum price impact or `0`, and `M` the number
+ * of optional metadata values, i.e. `P` plus `3` given a dynamic fee mode.
+ *
+ * Pools with a dynamic fee mode charge the `Min_Fee_Rate` plus the
+ * realized volatility of recent swaps (in basis points), capped at the
+ * `Max_Fee_Rate`. The `Fee_Rate` applies to readers that do not know
+ * the dynamic fee mode.
  *
  */
 export class CreatePool extends Executable {
@@ -95,6 +132,12 @@ export class CreatePool extends Executable {
    *
    * This method asserts the presence of mandatory arguments.
    *
+   * Additionally, this method asserts that the pool consists of
+   * two to eight distinct assets, that the trading fee rate and the
+   * protocol fee are valid amounts of basis points, and that the
+   * pool type, amplification, weights and maximum price impact
+   * are valid, if they are present.
+   *
    * @access public
    * @param   {PublicAccount}           actor   The actor is whom executes the command.
    * @param   {Array<CommandOption>}    argv    The command options (arguments).
@@ -106,12 +149,179 @@ export class CreatePool extends Executable {
     argv?: CommandOption[]
   ): AllowanceResult {
     // - Asserts the presence of mandatory inputs
-    super.assertHasMandatoryArguments(argv, this.arguments)
+    // :note: Multi-asset pools replace `input_x` and `input_y` with `inputs`.
+    super.assertHasMandatoryArguments(argv, this.context.getInput('inputs', null) !== null
+      ? [ 'provider', 'inputs' ]
+      : this.arguments
+    )
+
+    // - Denies pools of less than 2 or more than 8 distinct assets
+    const inputs = this.getInputs()
+    if (inputs.length < 2 || inputs.length > PricingService.MAX_ASSETS) {
+      return new AllowanceResult(false, 'Invalid number of assets "' + inputs.length
+        + '", must be between 2 and ' + PricingService.MAX_ASSETS + '.')
+    }
+
+    const mosaicIds = inputs.map(input => input.identifier.toMosaicId())
+    if (mosaicIds.some((mosaicId, i) => mosaicIds.findIndex(m => m.equals(mosaicId)) !== i)) {
+      return new AllowanceResult(false, 'Assets of automated pools must be distinct.')
+    }
+
+    // - Reads the optional trading fee rate (in basis points)
+    const fee_rate = this.context.getInput('fee_rate', PricingService.DEFAULT_FEE_RATE)
+    if (!PricingService.isValidFeeRate(fee_rate)) {
+      return new AllowanceResult(false, 'Invalid trading fee rate "' + fee_rate + '", must be an integer in [0, 10000) basis points.')
+    }
+
+    // - Reads the optional protocol fee (in basis points)
+    const protocol_fee = this.context.getInput('protocol_fee', 0)
+    if (!PricingService.isValidFeeRate(protocol_fee)) {
+      return new AllowanceResult(false, 'Invalid protocol fee "' + protocol_fee + '", must be an integer in [0, 10000) basis points.')
+    }
+
+    // - Reads the optional pool type and amplification coefficient
+    const pool_type = this.context.getInput<PoolType>('pool_type', PoolType.ConstantProduct)
+    if (![ PoolType.ConstantProduct, PoolType.StableSwap, PoolType.Weighted ].includes(pool_type)) {
+      return new AllowanceResult(false, 'Invalid pool type "' + pool_type + '".')
+    }
+
+    const amp = this.context.getInput('amp', StableSwapService.DEFAULT_AMP)
+    if (pool_type === PoolType.StableSwap && !StableSwapService.isValidAmp(amp)) {
+      return new AllowanceResult(false, 'Invalid amplification coefficient "' + amp + '", must be an integer in [1, ' + StableSwapService.MAX_AMP + '].')
+    }
+    else if (pool_type === PoolType.StableSwap && inputs.length > 2) {
+      return new AllowanceResult(false, 'StableSwap pools must consist of a pair of assets.')
+    }
+
+    const weights = this.getWeights()
+    if (pool_type === PoolType.Weighted && (
+      weights.length !== inputs.length || !WeightedMathService.isValidWeights(weights)
+    )) {
+      return new AllowanceResult(false, 'Invalid weights "' + weights.join('/') + '", must be integer percentages that sum up to 100.')
+    }
+
+    const max_price_impact = this.context.getInput<number | null>('max_price_impact', null)
+    if (max_price_impact !== null && !PricingService.isValidPriceImpact(max_price_impact)) {
+      return new AllowanceResult(false, 'Invalid maximum price impact "' + max_price_impact + '", must be an integer in (0, 10000] basis points.')
+    }
+
+    // - Reads the optional fee mode and the bounds of dynamic fee rates
+    const fee_mode = this.context.getInput<FeeMode>('fee_mode', FeeMode.Fixed)
+    if (![ FeeMode.Fixed, FeeMode.Dynamic ].includes(fee_mode)) {
+      return new AllowanceResult(false, 'Invalid fee mode "' + fee_mode + '".')
+    }
+
+    const [ min_fee_rate, max_fee_rate ] = this.getFeeRateBounds()
+    if (fee_mode === FeeMode.Dynamic && (
+      !PricingService.isValidFeeRate(min_fee_rate) || !PricingService.isValidFeeRate(max_fee_rate)
+    )) {
+      return new AllowanceResult(false, 'Invalid fee rate bounds "' + min_fee_rate + '/' + max_fee_rate + '", must be integers in [0, 10000) basis points.')
+    }
+    else if (fee_mode === FeeMode.Dynamic && min_fee_rate > max_fee_rate) {
+      return new AllowanceResult(false, 'Minimum fee rate of ' + min_fee_rate + ' must not exceed the maximum fee rate of ' + max_fee_rate + '.')
+    }
+
+    // - Denies pools of which the initial shares do not exceed the locked shares
+    const shares: bigint = this.getInitialShares()
+    if (shares <= PricingService.MINIMUM_LIQUIDITY) {
+      return new AllowanceResult(false, 'Initial amount of ' + shares
+        + ' shares must exceed the minimum liquidity of ' + PricingService.MINIMUM_LIQUIDITY + ' shares.')
+    }
 
     // - Allows anyone to create automated liquidity pools
     return new AllowanceResult(true)
   }
 
+  /**
+   * Returns the initial amount of automated pool shares, which is
+   * equal to `sqrt(x * y)` with 6 decimals, or `D / 2` for StableSwap
+   * pools, or `x^(wx/100) * y^(wy/100)` for weighted pools, or the
+   * geometric mean of amounts for multi-asset pools. This amount
+   * *includes* the locked minimum liquidity.
+   *
+   * @access protected
+   * @return  {bigint}    The initial amount of automated pool shares.
+   */
+  protected getInitialShares(): bigint {
+    const amounts = this.getInputs().map(input => PricingService.toBigInt(input.amount))
+    const pool_type = this.context.getInput<PoolType>('pool_type', PoolType.ConstantProduct)
+
+    if (pool_type === PoolType.StableSwap) {
+      return StableSwapService.getInitialShares(
+        amounts[0],
+        amounts[1],
+        this.context.getInput('amp', StableSwapService.DEFAULT_AMP),
+      )
+    }
+
+    if (pool_type === PoolType.Weighted || amounts.length > 2) {
+      return WeightedMathService.getInitialShares(amounts, this.getWeights())
+    }
+
+    return PricingService.getInitialShares(amounts[0], amounts[1])
+  }
+
+  /**
+   * Returns the initial value of `k`, which is equal to `x * y`,
+   * or `(D / 2)^2` for StableSwap pools, or the square of the
+   * weighted invariant for weighted and multi-asset pools.
+   *
+   * @access protected
+   * @return  {bigint}    The value of `k` after the creation of the pool.
+   */
+  protected getInitialK(): bigint {
+    const amounts = this.getInputs().map(input => PricingService.toBigInt(input.amount))
+    const pool_type = this.context.getInput<PoolType>('pool_type', PoolType.ConstantProduct)
+
+    if (pool_type === PoolType.StableSwap) {
+      return StableSwapService.getK(
+        amounts[0],
+        amounts[1],
+        this.context.getInput('amp', StableSwapService.DEFAULT_AMP),
+      )
+    }
+
+    if (pool_type === PoolType.Weighted || amounts.length > 2) {
+      return WeightedMathService.getK(amounts, this.getWeights())
+    }
+
+    return amounts[0] * amounts[1]
+  }
+
+  /**
+   * Returns the weights of all members in percent. Pools that are
+   * not weighted pools always have equal weights.
+   *
+   * @access protected
+   * @return  {number[]}    The weights of members (in percent).
+   */
+  protected getWeights(): number[] {
+    const pool_type = this.context.getInput<PoolType>('pool_type', PoolType.ConstantProduct)
+    if (pool_type !== PoolType.Weighted) {
+      return this.getInputs().map(() => WeightedMathService.DEFAULT_WEIGHT)
+    }
+
+    return this.context.getInput<number[]>('weights', [
+      this.context.getInput('weight_x', WeightedMathService.DEFAULT_WEIGHT),
+      this.context.getInput('weight_y', WeightedMathService.DEFAULT_WEIGHT),
+    ])
+  }
+
+  /**
+   * Returns the lower and the upper bound of the trading fee rate
+   * of pools with a dynamic fee mode, in basis points.
+   *
+   * @access protected
+   * @return  {number[]}    The minimum and the maximum fee rate.
+   */
+  protected getFeeRateBounds(): number[] {
+    const fee_rate = this.context.getInput('fee_rate', PricingService.DEFAULT_FEE_RATE)
+    return [
+      this.context.getInput('min_fee_rate', fee_rate),
+      this.context.getInput('max_fee_rate', Math.max(fee_rate, PricingService.DEFAULT_MAX_FEE_RATE)),
+    ]
+  }
+
   // region abstract methods
   /**
    * This method returns the automated pool command name,
@@ -162,16 +372,34 @@ export class CreatePool extends Executable {
   protected get transactions(): Transaction[] {
     // - Reads the execution context
     const target = this.target
-    const reader = this.context.reader as Symbol.Reader
+    const reader = this.context.reader
     const identifier = this.identifier.id
 
     // - Read external arguments
     const provider = this.context.getInput('provider', new PublicAccount())
-    const input_x = this.context.getInput('input_x', new AssetAmount(Symbol_Testnet_SWP, 10))
-    const input_y = this.context.getInput('input_y', new AssetAmount(Symbol_Testnet_XYM, 10))
-
-    // - The amount of shares sent is equal to sqrt(x * y) with 6 decimals
-    const shares = 1_000_000 * Math.sqrt(input_x.amount * input_y.amount)
+    const inputs: AssetAmount[] = this.getInputs()
+    const [ input_x, input_y ] = inputs
+    const fee_rate = this.context.getInput('fee_rate', PricingService.DEFAULT_FEE_RATE).toString()
+    const fee_to = this.context.getInput('fee_to', this.target).address.plain()
+    const protocol_fee = this.context.getInput('protocol_fee', 0).toString()
+    const pool_type: string = this.context.getInput<PoolType>('pool_type', PoolType.ConstantProduct)
+    const amp = (pool_type === PoolType.StableSwap
+      ? this.context.getInput('amp', StableSwapService.DEFAULT_AMP)
+      : 0
+    ).toString()
+    const weights: string[] = this.getWeights().map(w => w.toString())
+    const [ weight_x, weight_y ] = weights
+    const max_price_impact = this.context.getInput<number | null>('max_price_impact', null)
+    const fee_mode = this.context.getInput<FeeMode>('fee_mode', FeeMode.Fixed)
+    const fee_rate_bounds: string[] = this.getFeeRateBounds().map(f => f.toString())
+
+    // - The amount of shares created is equal to the invariant, e.g. sqrt(x * y), with 6 decimals
+    // :note: The minimum liquidity is locked in the target account.
+    const shares: bigint = this.getInitialShares()
+    const provider_shares: bigint = shares - PricingService.MINIMUM_LIQUIDITY
+
+    // - The value of `k` is tracked to calculate protocol fees
+    const k_last: string = this.getInitialK().toString()
 
     // - Prepares the response
     const transactions: InnerTransaction[] = []
@@ -213,7 +441,7 @@ export class CreatePool extends Executable {
       this.context.parameters.deadline,
       mosaicId,
       MosaicSupplyChangeAction.Increase,
-      UInt64.fromUint(shares),
+      PricingService.toUInt64(shares),
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
@@ -266,7 +494,207 @@ export class CreatePool extends Executable {
     // - Transaction 06 is issued by **target** account
     signers.push(this.target)
 
-    // - Transaction 07: AccountMosaicRestrictionTransaction with MosaicId = [mosaicId, feeMosaicId, x, y]
+    // - Transaction 07: MosaicMetadataTransaction attaching `Fee_Rate`
+    transactions.push(MosaicMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('Fee_Rate'),
+      mosaicId,
+      fee_rate.length,
+      fee_rate,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 07 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 08: MosaicMetadataTransaction attaching `Fee_To`
+    transactions.push(MosaicMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('Fee_To'),
+      mosaicId,
+      fee_to.length,
+      fee_to,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 08 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 09: MosaicMetadataTransaction attaching `Protocol_Fee`
+    transactions.push(MosaicMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('Protocol_Fee'),
+      mosaicId,
+      protocol_fee.length,
+      protocol_fee,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 09 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 10: AccountMetadataTransaction attaching `K_Last`
+    transactions.push(AccountMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('K_Last'),
+      k_last.length,
+      k_last,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 10 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 11: MosaicMetadataTransaction attaching `Pool_Type`
+    transactions.push(MosaicMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('Pool_Type'),
+      mosaicId,
+      pool_type.length,
+      pool_type,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 11 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 12: MosaicMetadataTransaction attaching `Amp`
+    transactions.push(MosaicMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('Amp'),
+      mosaicId,
+      amp.length,
+      amp,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 12 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 13: MosaicMetadataTransaction attaching `X_Weight`
+    transactions.push(MosaicMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('X_Weight'),
+      mosaicId,
+      weight_x.length,
+      weight_x,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 13 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 14: MosaicMetadataTransaction attaching `Y_Weight`
+    transactions.push(MosaicMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('Y_Weight'),
+      mosaicId,
+      weight_y.length,
+      weight_y,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 14 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transactions 15 to 10 + 2N are only added for multi-asset pools (N > 2)
+    inputs.slice(2).forEach((input, i) => {
+      const n = i + 3
+
+      // - Transaction 9 + 2n: MosaicMetadataTransaction attaching `Asset_n_Id`
+      transactions.push(MosaicMetadataTransaction.create(
+        this.context.parameters.deadline,
+        this.target.address,
+        KeyGenerator.generateUInt64Key(`Asset_${n}_Id`),
+        mosaicId,
+        input.identifier.id.length,
+        input.identifier.id,
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 9 + 2n is issued by **target** account
+      signers.push(this.target)
+
+      // - Transaction 10 + 2n: MosaicMetadataTransaction attaching `Asset_n_Weight`
+      transactions.push(MosaicMetadataTransaction.create(
+        this.context.parameters.deadline,
+        this.target.address,
+        KeyGenerator.generateUInt64Key(`Asset_${n}_Weight`),
+        mosaicId,
+        weights[n - 1].length,
+        weights[n - 1],
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 10 + 2n is issued by **target** account
+      signers.push(this.target)
+    })
+
+    // - Transaction 11 + 2N is only added given a maximum price impact
+    if (max_price_impact !== null) {
+      const value = max_price_impact.toString()
+
+      // - Transaction 11 + 2N: MosaicMetadataTransaction attaching `Max_Price_Impact`
+      transactions.push(MosaicMetadataTransaction.create(
+        this.context.parameters.deadline,
+        this.target.address,
+        KeyGenerator.generateUInt64Key('Max_Price_Impact'),
+        mosaicId,
+        value.length,
+        value,
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 11 + 2N is issued by **target** account
+      signers.push(this.target)
+    }
+
+    // - Transactions 11 + 2N + P to 13 + 2N + P are only added given a dynamic fee mode, after `Max_Price_Impact`
+    if (fee_mode === FeeMode.Dynamic) {
+      const values: string[][] = [
+        [ 'Fee_Mode', fee_mode ],
+        [ 'Min_Fee_Rate', fee_rate_bounds[0] ],
+        [ 'Max_Fee_Rate', fee_rate_bounds[1] ],
+      ]
+
+      values.forEach(([ key, value ]) => {
+        // - MosaicMetadataTransaction attaching `Fee_Mode`, `Min_Fee_Rate` or `Max_Fee_Rate`
+        transactions.push(MosaicMetadataTransaction.create(
+          this.context.parameters.deadline,
+          this.target.address,
+          KeyGenerator.generateUInt64Key(key),
+          mosaicId,
+          value.length,
+          value,
+          reader.networkType,
+          undefined, // maxFee 0 for inner
+        ))
+
+        // - Fee mode metadata is issued by **target** account
+        signers.push(this.target)
+      })
+    }
+
+    // - Transaction 15 (or 11 + 2N + M): AccountMosaicRestrictionTransaction with MosaicId = [mosaicId, feeMosaicId, x, y, ...]
     // :warning: This transaction **restricts** the account to accept only the listed mosaics. Transfers
     // to this account, that hold any other mosaic(s) will not be accepted by the network anymore.
     transactions.push(AccountMosaicRestrictionTransaction.create(
@@ -275,25 +703,24 @@ export class CreatePool extends Executable {
       [
         mosaicId,
         reader.feeMosaicId,
-        input_x.identifier.toMosaicId(),
-        input_y.identifier.toMosaicId(),
+        ...inputs.map(input => input.identifier.toMosaicId()),
       ],
       [],
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
 
-    // - Transaction 07 is issued by **target** account
+    // - Transaction 15 (or 11 + 2N + M) is issued by **target** account
     signers.push(this.target)
 
-    // - Transaction 08: Transfers initially issued automated pool shares to liquidity provider
+    // - Transaction 16 (or 12 + 2N + M): Transfers initially issued automated pool shares to liquidity provider
     transactions.push(TransferTransaction.create(
       this.context.parameters.deadline,
       provider.address,
       [
         new Mosaic(
           this.identifier.toMosaicId(),
-          UInt64.fromUint(shares)
+          PricingService.toUInt64(provider_shares)
         ),
       ],
       EmptyMessage,
@@ -301,45 +728,38 @@ export class CreatePool extends Executable {
       undefined, // maxFee 0 for inner
     ))
 
-    // - Transaction 08 is issued by **target** account
+    // - Transaction 16 (or 12 + 2N + M) is issued by **target** account
     signers.push(this.target)
 
-    // - Transaction 09: Transfers initially added liquidity to target account
+    // - Transaction 17 (or 13 + 2N + M): Transfers initially added liquidity to target account
     transactions.push(TransferTransaction.create(
       this.context.parameters.deadline,
       this.target.address,
-      [
-        new Mosaic(
-          input_x.identifier.toMosaicId(),
-          UInt64.fromUint(input_x.amount)
-        ),
-        new Mosaic(
-          input_y.identifier.toMosaicId(),
-          UInt64.fromUint(input_y.amount)
-        ),
-      ],
+      inputs.map(input => new Mosaic(
+        input.identifier.toMosaicId(),
+        PricingService.toUInt64(input.amount)
+      )),
       EmptyMessage,
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
 
-    // - Transaction 09 is issued by **provider** account
+    // - Transaction 17 (or 13 + 2N + M) is issued by **provider** account
     signers.push(provider)
 
-    // - Transaction 10: Add execution proof transaction
+    // - Transaction 18 (or 14 + 2N + M): Add execution proof transaction
     transactions.push(TransferTransaction.create(
       this.context.parameters.deadline,
       this.target.address,
       [], // no mosaics
       PlainMessage.create(this.descriptor 
         + ':' + mosaicId.toHex() 
-        + ':' + input_x.identifier.toMosaicId().toHex()
-        + ':' + input_y.identifier.toMosaicId().toHex()),
+        + inputs.map(input => ':' + input.identifier.toMosaicId().toHex()).join('')),
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
 
-    // - Transaction 10 is issued by **provider** account ("the actor")
+    // - Transaction 18 (or 14 + 2N + M) is issued by **provider** account ("the actor")
     signers.push(provider)
 
     // - Assigns correct signer to each transaction
@@ -9,7 +9,12 @@
 import { TransactionURI } from 'symbol-uri-scheme'
 import {
   AccountInfo,
+  AccountMetadataTransaction,
   AggregateTransaction,
+  Convert,
+  InnerTransaction,
+  KeyGenerator,
+  MosaicId,
   MosaicInfo,
   PublicAccount,
   Transaction,
@@ -19,13 +24,22 @@ import {
 // internal dependencies
 import {
   AllowanceResult,
+  AssetAmount,
   AssetIdentifier,
   BaseCommand,
   CommandOption,
   Context,
-  Symbol,
+  FailureInvalidCommand,
+  QuoteResult,
 } from '../../index'
 import { FailureEmptyContract } from '../errors/FailureEmptyContract'
+import { FailureEmptyReserve } from '../errors/FailureEmptyReserve'
+import { PoolType } from '../models/PoolType'
+import { ReserveSnapshot } from '../models/ReserveSnapshot'
+import { PoolInfo } from '../services/PoolService'
+import { PricingService } from '../services/PricingService'
+import { StableSwapService } from '../services/StableSwapService'
+import { WeightedMathService } from '../services/WeightedMathService'
 
 /**
  * @abstract
@@ -70,6 +84,35 @@ export abstract class Executable extends BaseCommand {
    */
   public reserveInfo: AccountInfo | undefined
 
+  /**
+   * @access public
+   * @description Pool information as read from the automated pool
+   *              shares mosaic metadata, e.g. the trading fee rate.
+   */
+  public poolInfo: PoolInfo | undefined
+
+  /**
+   * @access public
+   * @description Mosaic information for the paired assets of an
+   *              automated liquidity pool, e.g. their divisibility.
+   */
+  public assetInfos: MosaicInfo[] = []
+
+  /**
+   * @access public
+   * @description Account information for the actor that executes
+   *              a command. This variable holds balances of e.g.
+   *              automated pool shares under the `mosaics` field.
+   */
+  public actorInfo: AccountInfo | undefined
+
+  /**
+   * @access public
+   * @description The block height at which reserves were read with
+   *              `synchronize()`, or `0` given an unknown height.
+   */
+  public snapshotHeight: number = 0
+
   /**
    * Construct an executable command object around \a context
    * and an \a identifier of automated pool shares.
@@ -193,6 +236,20 @@ export abstract class Executable extends BaseCommand {
     return new TransactionURI(contract.serialize(), TransactionMapping.createFromPayload)
   }
 
+  /**
+   * Returns a read-only quote for the execution of this command
+   * given the synchronized reserves. No transactions are built
+   * by this method. By default, commands do not support quotes.
+   *
+   * @access public
+   * @return  {QuoteResult}           The amounts, prices and shares that would result from an execution.
+   * @throws  {FailureInvalidCommand} On commands that do not support quotes.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quote(): QuoteResult {
+    throw new FailureInvalidCommand('Quotes are not supported by ' + this.name + '.')
+  }
+
   /**
    * Wraps the resulting transactions inside an aggregate bonded
    * transaction. We will later refer to this transaction as the
@@ -216,7 +273,7 @@ export abstract class Executable extends BaseCommand {
     }
 
     // - Shortcut for network information
-    const reader = this.context.reader as Symbol.Reader
+    const reader = this.context.reader
 
     // - Creates a so-called digital contract
     return AggregateTransaction.createBonded(
@@ -228,33 +285,558 @@ export abstract class Executable extends BaseCommand {
     )
   }
 
+  /**
+   * Asserts that the automated pool shares mosaic information and
+   * the reserves information have been synchronized.
+   *
+   * @access protected
+   * @return  {boolean}
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   */
+  protected assertHasReserves(): boolean {
+    if (this.reserveInfo === undefined || this.mosaicInfo === undefined) {
+      throw new FailureEmptyReserve('Reserves of the automated pool are not available, did you call synchronize()?')
+    }
+
+    return true
+  }
+
+  /**
+   * Returns the trading fee rate that applies to swaps of this pool,
+   * in basis points. Pools with a dynamic fee mode are synchronized
+   * with the fee rate that follows their recent volatility.
+   *
+   * @access protected
+   * @return  {number}
+   */
+  protected get feeRate(): number {
+    return this.poolInfo?.feeRate ?? PricingService.DEFAULT_FEE_RATE
+  }
+
+  /**
+   * Returns the snapshot of the synchronized reserves, i.e. the block
+   * height of `synchronize()`, the last block height at which the
+   * contract is valid and a checksum of the reserves of all members.
+   * The snapshot is attached to the execution proof of commands that
+   * depend on reserves.
+   *
+   * @access protected
+   * @return  {ReserveSnapshot}
+   */
+  protected get snapshot(): ReserveSnapshot {
+    return ReserveSnapshot.create(
+      this.snapshotHeight,
+      this.context.parameters.validity,
+      this.reserveInfo?.mosaics ?? [],
+      this.poolInfo?.mosaics,
+    )
+  }
+
   /**
    * Returns the available **reserve** of asset \a r. This method
    * is used internally to determine the available balance in the
    * automated pool and calculate the liquidity shares ratio.
    *
    * @access protected
-   * @param   {AssetIdentifier}   r   The asset identifier (i.e. for which to check reserves).
-   * @return  number              The total balance (reserve) available.
+   * @param   {AssetIdentifier|MosaicId}  r   The asset identifier (i.e. for which to check reserves).
+   * @return  bigint              The total balance (reserve) available.
    */
   protected reserveOf(
-    r: AssetIdentifier
-  ): number {
+    r: AssetIdentifier | MosaicId
+  ): bigint {
     // - Step out if we don't have the info
     if (this.reserveInfo === undefined) {
-      return 0 // XXX FailureEmptyReserve
+      return BigInt(0) // XXX FailureEmptyReserve
     }
 
     // - Reads reserve mosaic balance
+    const mosaicId = r instanceof MosaicId ? r : r.toMosaicId()
     const reserve = this.reserveInfo?.mosaics.filter(
-      (m) => m.id.id.equals(r.toMosaicId().id)
+      (m) => m.id.id.equals(mosaicId.id)
     )
 
     // - Step out if we don't have the info
     if (!reserve.length) {
-      return 0 // XXX FailureEmptyReserve
+      return BigInt(0) // XXX FailureEmptyReserve
+    }
+
+    return PricingService.toBigInt(reserve[0].amount)
+  }
+
+  /**
+   * Returns the amount of automated pool shares that are minted as
+   * a **protocol fee** prior to a liquidity event. This amount is
+   * zero unless the automated pool was created with a protocol fee.
+   *
+   * @access protected
+   * @return  bigint              The amount of protocol fee shares.
+   */
+  protected getProtocolFeeShares(): bigint {
+    // - Step out if we don't have the info
+    if (this.poolInfo === undefined || this.poolInfo.kLast === undefined) {
+      return BigInt(0)
+    }
+
+    return PricingService.getProtocolFeeShares(
+      this.getK(this.poolInfo.mosaics.map(
+        (mosaicId) => [ mosaicId, this.reserveOf(mosaicId) ]
+      )),
+      this.poolInfo.kLast,
+      this.supplyOf(),
+      this.poolInfo.protocolFee,
+    )
+  }
+
+  /**
+   * Returns the amounts and asset identifiers that are *added* to the
+   * automated pool, i.e. the `inputs` argument for multi-asset pools,
+   * or the `input_x` and `input_y` arguments for pairs.
+   *
+   * @access protected
+   * @return  {AssetAmount[]}   The input amounts, in the order of members.
+   */
+  protected getInputs(): AssetAmount[] {
+    const inputs = this.context.getInput<AssetAmount[]>('inputs', [])
+    if (inputs.length) {
+      return inputs
+    }
+
+    return [ 'input_x', 'input_y' ]
+      .map((name) => this.context.getInput<AssetAmount | null>(name, null))
+      .filter((input): input is AssetAmount => input !== null)
+  }
+
+  /**
+   * Returns whether the asset identifiers \a r list every member of
+   * the automated pool exactly once. Multi-asset pools accept only
+   * liquidity events that concern *all* of their members.
+   *
+   * @access protected
+   * @param   {AssetIdentifier[]}   r   The asset identifiers.
+   * @return  {boolean}           True given unknown pool information.
+   */
+  protected isMemberList(
+    r: AssetIdentifier[],
+  ): boolean {
+    // - Step out if we don't have the info
+    if (this.poolInfo === undefined) {
+      return true
+    }
+
+    const mosaicIds = r.map((identifier) => identifier.toMosaicId())
+    return mosaicIds.length === this.poolInfo.mosaics.length
+      && this.poolInfo.mosaics.every((m) => mosaicIds.some((mosaicId) => mosaicId.equals(m)))
+  }
+
+  /**
+   * Returns whether the asset identifiers \a r are distinct members
+   * of the automated pool, e.g. the input and output of a swap. For
+   * pairs of assets, this is equivalent to `isMemberList()`.
+   *
+   * @access protected
+   * @param   {AssetIdentifier[]}   r   The asset identifiers.
+   * @return  {boolean}           True given unknown pool information.
+   */
+  protected isMemberSubset(
+    r: AssetIdentifier[],
+  ): boolean {
+    const mosaicIds = r.map((identifier) => identifier.toMosaicId())
+    const isDistinct = mosaicIds.every(
+      (mosaicId, i) => mosaicIds.findIndex((m) => m.equals(mosaicId)) === i
+    )
+
+    // - Step out if we don't have the info
+    if (this.poolInfo === undefined) {
+      return isDistinct
+    }
+
+    return isDistinct && mosaicIds.every(
+      (mosaicId) => this.poolInfo!.mosaics.some((m) => m.equals(mosaicId))
+    )
+  }
+
+  /**
+   * Returns the label of the member at \a index with asset identifier
+   * \a r as used in messages, i.e. `x` and `y` for the first members
+   * and the asset identifier for other members.
+   *
+   * @access protected
+   * @param   {number}            index   The position of the member.
+   * @param   {AssetIdentifier}   r       The asset identifier.
+   * @return  {string}
+   */
+  protected labelOf(
+    index: number,
+    r: AssetIdentifier,
+  ): string {
+    return '`' + ([ 'x', 'y' ][index] ?? r.id) + '`'
+  }
+
+  /**
+   * Returns the **type** of the automated pool, i.e. its invariant.
+   * Pools created prior to v1.4.0 are constant product pools. Given
+   * a StableSwap pool without a valid amplification coefficient, the
+   * constant product invariant is used, i.e. the limit of StableSwap
+   * for an amplification of `0`.
+   *
+   * @access protected
+   * @return  {PoolType}
+   */
+  protected get poolType(): PoolType {
+    if (this.poolInfo?.poolType === PoolType.StableSwap && !StableSwapService.isValidAmp(this.amp)) {
+      return PoolType.ConstantProduct
+    }
+
+    return this.poolInfo?.poolType ?? PoolType.ConstantProduct
+  }
+
+  /**
+   * Returns the **amplification coefficient** of the automated pool,
+   * or `0` given a pool that is not a StableSwap pool.
+   *
+   * @access protected
+   * @return  {number}
+   */
+  protected get amp(): number {
+    return this.poolInfo?.amp ?? 0
+  }
+
+  /**
+   * Returns the **weight** of asset \a r in the automated pool, in
+   * percent. Pools that are not weighted pools have equal weights.
+   *
+   * @access protected
+   * @param   {AssetIdentifier|MosaicId}  r   The asset identifier.
+   * @return  {number}            The weight (in percent).
+   */
+  protected weightOf(
+    r: AssetIdentifier | MosaicId,
+  ): number {
+    // - Step out if we don't have the info
+    if (this.poolInfo === undefined || this.poolType !== PoolType.Weighted) {
+      return WeightedMathService.DEFAULT_WEIGHT
     }
 
-    return reserve[0].amount.compact()
+    const mosaicId = r instanceof MosaicId ? r : r.toMosaicId()
+    const index = this.poolInfo.mosaics.findIndex(
+      (m) => m.equals(mosaicId)
+    )
+
+    return index !== -1 && this.poolInfo.weights[index] !== undefined
+      ? this.poolInfo.weights[index]
+      : WeightedMathService.DEFAULT_WEIGHT
+  }
+
+  /**
+   * Returns the output amount of a swap of \a amountIn of \a input
+   * for \a output given the current reserves, using the invariant of
+   * the pool and its trading fee rate.
+   *
+   * @access protected
+   * @param   {bigint}            amountIn  The input amount (absolute).
+   * @param   {AssetIdentifier}   input     The input asset identifier.
+   * @param   {AssetIdentifier}   output    The output asset identifier.
+   * @return  {bigint}            The output amount (rounded down).
+   */
+  protected getAmountOut(
+    amountIn: bigint,
+    input: AssetIdentifier,
+    output: AssetIdentifier,
+  ): bigint {
+    const reserveIn: bigint = this.reserveOf(input)
+    const reserveOut: bigint = this.reserveOf(output)
+    const feeRate: number = this.feeRate
+
+    switch (this.poolType) {
+      case PoolType.StableSwap:
+        return StableSwapService.getAmountOut(amountIn, reserveIn, reserveOut, feeRate, this.amp)
+
+      case PoolType.Weighted:
+        return WeightedMathService.getAmountOut(
+          amountIn, reserveIn, reserveOut, this.weightOf(input), this.weightOf(output), feeRate,
+        )
+
+      default:
+        return PricingService.getAmountOut(amountIn, reserveIn, reserveOut, feeRate)
+    }
+  }
+
+  /**
+   * Returns the amount of \a input that is required to receive exactly
+   * \a amountOut of \a output given the current reserves, using the
+   * invariant of the pool and its trading fee rate.
+   *
+   * @access protected
+   * @param   {bigint}            amountOut   The desired output amount (absolute).
+   * @param   {AssetIdentifier}   input       The input asset identifier.
+   * @param   {AssetIdentifier}   output      The output asset identifier.
+   * @return  {bigint|undefined}  The required input amount (rounded up), or `undefined` given insufficient reserves.
+   */
+  protected getAmountIn(
+    amountOut: bigint,
+    input: AssetIdentifier,
+    output: AssetIdentifier,
+  ): bigint | undefined {
+    const reserveIn: bigint = this.reserveOf(input)
+    const reserveOut: bigint = this.reserveOf(output)
+    const feeRate: number = this.feeRate
+
+    switch (this.poolType) {
+      case PoolType.StableSwap:
+        return StableSwapService.getAmountIn(amountOut, reserveIn, reserveOut, feeRate, this.amp)
+
+      case PoolType.Weighted:
+        return WeightedMathService.getAmountIn(
+          amountOut, reserveIn, reserveOut, this.weightOf(input), this.weightOf(output), feeRate,
+        )
+
+      default:
+        return PricingService.getAmountIn(amountOut, reserveIn, reserveOut, feeRate)
+    }
+  }
+
+  /**
+   * Returns the marginal price of \a base, in units of \a quote, given
+   * the current reserves and using the invariant of the pool. Reserves
+   * \a reserveIn and \a reserveOut can be overwritten, e.g. to read
+   * the mid price that results from a swap.
+   *
+   * @access protected
+   * @param   {AssetIdentifier}   base          The base asset identifier.
+   * @param   {AssetIdentifier}   quote         The quoted asset identifier.
+   * @param   {bigint}            reserveIn     (Optional) The reserve of \a base.
+   * @param   {bigint}            reserveOut    (Optional) The reserve of \a quote.
+   * @return  {number}            The price, or `0` given empty reserves.
+   */
+  protected getMidPrice(
+    base: AssetIdentifier,
+    quote: AssetIdentifier,
+    reserveIn: bigint = this.reserveOf(base),
+    reserveOut: bigint = this.reserveOf(quote),
+  ): number {
+    switch (this.poolType) {
+      case PoolType.StableSwap:
+        return StableSwapService.getPrice(reserveIn, reserveOut, this.amp)
+
+      case PoolType.Weighted:
+        return WeightedMathService.getPrice(reserveIn, reserveOut, this.weightOf(base), this.weightOf(quote))
+
+      default:
+        return PricingService.getPrice(reserveOut, reserveIn)
+    }
+  }
+
+  /**
+   * Returns the price impact of a swap of \a amountIn of \a input for
+   * \a amountOut of \a output, i.e. the relative decrease of the mid
+   * price of \a input. The trading fee is added to the reserves.
+   *
+   * @access protected
+   * @param   {bigint}            amountIn    The input amount (absolute).
+   * @param   {bigint}            amountOut   The output amount (absolute).
+   * @param   {AssetIdentifier}   input       The input asset identifier.
+   * @param   {AssetIdentifier}   output      The output asset identifier.
+   * @return  {number}            The price impact (e.g. `0.01` for 1%).
+   */
+  protected getPriceImpact(
+    amountIn: bigint,
+    amountOut: bigint,
+    input: AssetIdentifier,
+    output: AssetIdentifier,
+  ): number {
+    return PricingService.getPriceImpact(
+      this.getMidPrice(input, output),
+      this.getMidPrice(
+        input,
+        output,
+        this.reserveOf(input) + amountIn,
+        this.reserveOf(output) - amountOut,
+      ),
+    )
+  }
+
+  /**
+   * Returns the maximum price impact of swaps in basis points, i.e.
+   * the lower value of the `max_price_impact` argument and the cap
+   * that is set in the pool's `Max_Price_Impact` metadata.
+   *
+   * @access protected
+   * @return  {number}    The maximum price impact (in basis points), or `0` given no limit.
+   */
+  protected getMaxPriceImpact(): number {
+    const caps: number[] = [
+      this.context.getInput('max_price_impact', 0),
+      this.poolInfo?.maxPriceImpact ?? 0,
+    ].filter(cap => cap > 0)
+
+    return caps.length ? Math.min(...caps) : 0
+  }
+
+  /**
+   * Returns a denial given a \a priceImpact above \a maxPriceImpact,
+   * i.e. given a swap that moves the mid price of a pool by more than
+   * the maximum price impact. This check is shared by all commands
+   * that swap assets, including the legs of `SwapRoute`.
+   *
+   * @static
+   * @access public
+   * @param   {number}    priceImpact     The price impact (e.g. `0.01` for 1%).
+   * @param   {number}    maxPriceImpact  The maximum price impact (in basis points), or `0` given no limit.
+   * @return  {AllowanceResult|undefined}  The denial, or `undefined` given an allowed price impact.
+   */
+  public static denyPriceImpact(
+    priceImpact: number,
+    maxPriceImpact: number,
+  ): AllowanceResult | undefined {
+    if (maxPriceImpact <= 0 || priceImpact * PricingService.FEE_DENOMINATOR <= maxPriceImpact) {
+      return undefined
+    }
+
+    return new AllowanceResult(false, 'Price impact of ' + (priceImpact * 100).toFixed(2)
+      + '% exceeds the maximum price impact of ' + (maxPriceImpact / 100).toFixed(2) + '%.')
+  }
+
+  /**
+   * Returns the value of `k` given a list of \a reserves, i.e. pairs
+   * of an asset identifier and its reserve, using the invariant of the
+   * pool. This value is tracked with the `K_Last` metadata to calculate
+   * protocol fees. For constant product pools of more than two assets,
+   * this is the square of the geometric mean of reserves such that
+   * `sqrt(k)` grows linearly with liquidity.
+   *
+   * @access protected
+   * @param   {Array<[AssetIdentifier|MosaicId, bigint]>}   reserves    The reserves by asset.
+   * @return  {bigint}
+   */
+  protected getK(
+    reserves: Array<[AssetIdentifier | MosaicId, bigint]>,
+  ): bigint {
+    const amounts: bigint[] = reserves.map(([ , amount ]) => amount)
+
+    switch (this.poolType) {
+      case PoolType.StableSwap:
+        return StableSwapService.getK(amounts[0], amounts[1], this.amp)
+
+      case PoolType.Weighted:
+        return WeightedMathService.getK(amounts, reserves.map(([ r ]) => this.weightOf(r)))
+
+      default:
+        return amounts.length > 2
+          ? WeightedMathService.getK(amounts, amounts.map(() => 1))
+          : amounts.reduce((k, amount) => k * amount, BigInt(1))
+    }
+  }
+
+  /**
+   * Returns a transaction that updates the `K_Last` metadata value
+   * of the **target** account to \a kLast. Metadata updates attach
+   * the XOR of the previous and the new value as per the protocol.
+   *
+   * @link https://docs.symbolplatform.com/concepts/metadata.html
+   *
+   * @access protected
+   * @param   {bigint}            kLast   The value of `k` after the liquidity event.
+   * @return  {InnerTransaction}  The account metadata transaction (unsigned).
+   */
+  protected getKLastTransaction(
+    kLast: bigint,
+  ): InnerTransaction {
+    // - Shortcut for network information
+    const reader = this.context.reader
+
+    // - Reads the previous value (pools prior to v1.4.0 have none)
+    const previousValue = Convert.utf8ToUint8(this.poolInfo?.kLast?.toString() ?? '')
+    const nextValue = Convert.utf8ToUint8(kLast.toString())
+
+    return AccountMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      KeyGenerator.generateUInt64Key('K_Last'),
+      nextValue.length - previousValue.length,
+      Convert.decodeHex(Convert.xor(previousValue, nextValue)),
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    )
+  }
+
+  /**
+   * Returns the **balance** of asset \a r owned by \a account, given
+   * the synchronized account information of the actor. This method
+   * is used internally to verify amounts that are sent by accounts.
+   *
+   * @access protected
+   * @param   {PublicAccount}     account   The account that owns the balance.
+   * @param   {AssetIdentifier}   r         The asset identifier (i.e. for which to check balances).
+   * @return  {bigint|undefined}  The balance, or `undefined` given unknown account information.
+   */
+  protected balanceOf(
+    account: PublicAccount,
+    r: AssetIdentifier,
+  ): bigint | undefined {
+    // - Step out if we don't have the info
+    if (this.actorInfo === undefined || !this.actorInfo.address.equals(account.address)) {
+      return undefined
+    }
+
+    // - Reads mosaic balance (defaults to zero)
+    const balance = this.actorInfo.mosaics.find(
+      (m) => m.id.id.equals(r.toMosaicId().id)
+    )
+
+    return balance !== undefined
+      ? PricingService.toBigInt(balance.amount)
+      : BigInt(0)
+  }
+
+  /**
+   * Returns the total **supply** of automated pool shares. This
+   * method is used internally to calculate the liquidity shares
+   * ratio.
+   *
+   * @access protected
+   * @return  bigint              The total supply of automated pool shares.
+   */
+  protected supplyOf(): bigint {
+    // - Step out if we don't have the info
+    if (this.mosaicInfo === undefined) {
+      return BigInt(0)
+    }
+
+    return PricingService.toBigInt(this.mosaicInfo.supply)
+  }
+
+  /**
+   * Returns the **divisibility** of asset \a r, given the synchronized
+   * mosaic information of the automated pool shares and paired assets.
+   *
+   * @access protected
+   * @param   {AssetIdentifier}   r   The asset identifier.
+   * @return  {number|undefined}  The divisibility, or `undefined` if unknown.
+   */
+  protected divisibilityOf(
+    r: AssetIdentifier
+  ): number | undefined {
+    const mosaicId = r.toMosaicId()
+    const info = [ this.mosaicInfo, ...this.assetInfos ].find(
+      (m) => m !== undefined && m.id.equals(mosaicId)
+    )
+
+    return info?.divisibility
+  }
+
+  /**
+   * Returns an asset amount of \a amount (absolute) for asset \a r
+   * which carries the divisibility of the asset whenever known.
+   *
+   * @access protected
+   * @param   {AssetIdentifier}   r         The asset identifier.
+   * @param   {number|bigint}     amount    The amount (absolute).
+   * @return  {AssetAmount}
+   */
+  protected toAssetAmount(
+    r: AssetIdentifier,
+    amount: number | bigint,
+  ): AssetAmount {
+    return new AssetAmount(r, amount, this.divisibilityOf(r))
   }
 }
@@ -18,7 +18,6 @@
 import {
   AllowanceResult,
   CommandOption,
-  Symbol,
 } from '../../index'
 import { Executable } from './Executable'
 
@@ -131,7 +130,7 @@ export class Publish extends Executable {
    **/
   protected get transactions(): Transaction[] {
     // - Reads the execution context
-    const reader = this.context.reader as Symbol.Reader
+    const reader = this.context.reader
 
     // - Read external arguments
     const registry = this.context.getInput('registry', new PublicAccount())
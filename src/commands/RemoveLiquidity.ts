@@ -12,7 +12,6 @@ import {
   Transaction,
   TransferTransaction,
   PlainMessage,
-  UInt64,
   MosaicSupplyChangeTransaction,
   MosaicSupplyChangeAction,
   Mosaic,
@@ -22,16 +21,13 @@ import {
 // internal dependencies
 import {
   AllowanceResult,
-  AssetAmount,
   AssetIdentifier,
   CommandOption,
-  Symbol,
+  FailureInvalidAmount,
+  QuoteResult,
 } from '../../index'
 import { Executable } from './Executable'
-
-// XXX remove this, used only for type-discovery in command options below.
-const Symbol_Testnet_SWP = new AssetIdentifier('00000001', new PublicAccount())
-const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
+import { PricingService } from '../services/PricingService'
 
 /**
  * @class Swapable.RemoveLiquidity
@@ -46,8 +42,18 @@ const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
  * | Argument | Description | Example |
  * | --- | --- | --- |
  * | provider | Liquidity provider | `new PublicAccount(...)` |
- * | input_x | Amount and asset identifier of `x` (first in pair) | `new AssetAmount(...)` |
- * | input_y | Amount and asset identifier of `y` (second in pair) | `new AssetAmount(...)` |
+ * | shares | Amount of automated pool shares that are burned | `1000` |
+ * | output_x | Asset identifier of `x` (first in pair) | `new AssetIdentifier(...)` |
+ * | output_y | Asset identifier of `y` (second in pair) | `new AssetIdentifier(...)` |
+ * | min_x | (Optional) Minimum amount of `x` that must be received, or the withdrawal fails. | `1000` |
+ * | min_y | (Optional) Minimum amount of `y` that must be received, or the withdrawal fails. | `1000` |
+ * | outputs | (Optional) Asset identifiers of **all** members of multi-asset pools, replaces `output_x` and `output_y` | `[new AssetIdentifier(...), ...]` |
+ * | min_outputs | (Optional) Minimum amounts of all members of multi-asset pools, in the order of `outputs` | `[1000, 1000, 1000]` |
+ *
+ * The amounts of `x` and `y` that are paid out are calculated
+ * as `shares / supply * reserve` for both sides of the pair, or
+ * for all members of multi-asset pools. The minimum liquidity that
+ * is locked at the creation of automated pools cannot be redeemed.
  *
  * The execution of this command results in the creation of
  * the following list of transactions with their respective
@@ -55,10 +61,13 @@ const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
  *
  * | Sequence | Type | Signer | Description |
  * | --- | --- | --- | --- |
- * | 01 | TransferTransaction | Provider Account | Transfers a proportional amount of automated pool shares to the **target** account, where they will be burned. |
- * | 02 | MosaicSupplyChangeTransaction | Target Account | Removes the amount of automated pool shares that is proportional to the amount of liquidity removed from the pool. |
- * | 03 | TransferTransaction | Target Account | Transfers the **removed liquidity** of `x` and `y` to the provider account. |
- * | 04 | TransferTransaction | Provider Account | Adds an execution proof message sent to the **target** account. |
+ * | 01 | TransferTransaction | Provider Account | Transfers the burned amount of automated pool shares to the **target** account. |
+ * | 02 | MosaicSupplyChangeTransaction | Target Account | Removes the burned amount of automated pool shares from the supply. |
+ * | 03 | TransferTransaction | Target Account | Transfers the **removed liquidity** of `x` and `y` (or of all members) to the provider account. |
+ * | 04 | AccountMetadataTransaction | Target Account | Updates the `K_Last` metadata value of the **target** account, i.e. the value of `k` after this liquidity event. |
+ * | 05 | MosaicSupplyChangeTransaction | Target Account | (Optional) Creates the protocol fee shares, given a protocol fee and a growth of `sqrt(k)` since the last liquidity event. |
+ * | 06 | TransferTransaction | Target Account | (Optional) Transfers the protocol fee shares to the `Fee_To` account. |
+ * | 07 | TransferTransaction | Provider Account | Adds an execution proof message sent to the **target** account. The `ReserveSnapshot` is attached last. |
  *
  */
 export class RemoveLiquidity extends Executable {
@@ -69,8 +78,9 @@ export class RemoveLiquidity extends Executable {
    */
   public arguments: string[] = [
     'provider',
-    'input_x',
-    'input_y',
+    'shares',
+    'output_x',
+    'output_y',
   ]
 
   /**
@@ -80,6 +90,11 @@ export class RemoveLiquidity extends Executable {
    *
    * This method asserts the presence of mandatory arguments.
    *
+   * Additionally, this method asserts that the provider owns
+   * the burned amount of automated pool shares, that all members
+   * of the pool are listed and that the amounts paid out are not
+   * below the minimum amounts.
+   *
    * @access public
    * @param   {PublicAccount}           actor   The actor is whom executes the command.
    * @param   {Array<CommandOption>}    argv    The command options (arguments).
@@ -91,12 +106,158 @@ export class RemoveLiquidity extends Executable {
     argv?: CommandOption[]
   ): AllowanceResult {
     // - Asserts the presence of mandatory inputs
-    super.assertHasMandatoryArguments(argv, this.arguments)
+    // :note: Multi-asset pools replace `output_x` and `output_y` with `outputs`.
+    super.assertHasMandatoryArguments(argv, this.context.getInput('outputs', null) !== null
+      ? [ 'provider', 'shares', 'outputs' ]
+      : this.arguments
+    )
 
-    // - Allows anyone to add liquidity to automated pools
+    // - Reads external arguments to check for amounts
+    const provider = this.context.getInput('provider', new PublicAccount())
+    const shares = PricingService.toBigInt(this.context.getInput('shares', 0))
+    const outputs: AssetIdentifier[] = this.getOutputs()
+    const min_outputs: bigint[] = this.context.getInput<Array<number | bigint>>('min_outputs', [
+      this.context.getInput('min_x', 0),
+      this.context.getInput('min_y', 0),
+    ]).map(amount => PricingService.toBigInt(amount))
+
+    // - Allows anyone to remove liquidity from automated pools
     //   given a connected command execution (read-only).
-    return new AllowanceResult(
-      !!this.reserveInfo && !!this.mosaicInfo
+    const isAllowed = !!this.reserveInfo && !!this.mosaicInfo
+      && shares > BigInt(0)
+
+    if (!isAllowed) {
+      return new AllowanceResult(false)
+    }
+
+    // - Denies withdrawals of the locked minimum liquidity
+    const redeemable: bigint = this.getRedeemableShares()
+    if (shares > redeemable) {
+      return new AllowanceResult(false, 'Amount of ' + shares
+        + ' shares exceeds the redeemable amount of ' + redeemable + ' shares.')
+    }
+
+    // - Denies withdrawals of shares that are not owned by the provider
+    const balance: bigint | undefined = this.balanceOf(provider, this.identifier)
+    if (balance === undefined) {
+      return new AllowanceResult(false, 'Balance of automated pool shares of the provider is not available.')
+    }
+    else if (balance < shares) {
+      return new AllowanceResult(false, 'Balance of ' + balance
+        + ' automated pool shares is below the amount of ' + shares + ' shares.')
+    }
+
+    // - Denies withdrawals that do not concern all members of the pool
+    if (!this.isMemberList(outputs)) {
+      return new AllowanceResult(false, 'Withdrawals must remove liquidity of all '
+        + this.poolInfo!.mosaics.length + ' members of the automated pool.')
+    }
+
+    // - Denies withdrawals that pay out less than the minimum amounts
+    for (let i = 0, m = outputs.length; i < m; i++) {
+      const amount: bigint = this.getPayoutAmount(shares, outputs[i])
+      const amount_min: bigint = min_outputs[i] ?? BigInt(0)
+      if (amount < amount_min) {
+        return new AllowanceResult(false, 'Output amount of ' + amount
+          + ' is below the minimum amount of ' + this.labelOf(i, outputs[i]) + ' of ' + amount_min + '.')
+      }
+    }
+
+    return new AllowanceResult(true)
+  }
+
+  /**
+   * Returns the asset identifiers of the assets that are *paid out*,
+   * i.e. the `outputs` argument for multi-asset pools, or the
+   * `output_x` and `output_y` arguments for pairs.
+   *
+   * @access protected
+   * @return  {AssetIdentifier[]}   The output asset identifiers, in the order of members.
+   */
+  protected getOutputs(): AssetIdentifier[] {
+    const outputs = this.context.getInput<AssetIdentifier[]>('outputs', [])
+    if (outputs.length) {
+      return outputs
+    }
+
+    return [ 'output_x', 'output_y' ]
+      .map((name) => this.context.getInput<AssetIdentifier | null>(name, null))
+      .filter((output): output is AssetIdentifier => output !== null)
+  }
+
+  /**
+   * Returns the amount of automated pool shares that can be redeemed,
+   * i.e. the current supply *excluding* the minimum liquidity which
+   * is permanently locked at the creation of automated pools.
+   *
+   * @access protected
+   * @return  {bigint}    The amount of redeemable automated pool shares.
+   */
+  protected getRedeemableShares(): bigint {
+    const redeemable = this.supplyOf() - PricingService.MINIMUM_LIQUIDITY
+    return redeemable > BigInt(0) ? redeemable : BigInt(0)
+  }
+
+  /**
+   * Returns the amount of \a output that is paid out when burning
+   * \a shares automated pool shares, given the current reserves
+   * and the current supply of automated pool shares.
+   *
+   * @access protected
+   * @param   {bigint}            shares    The amount of automated pool shares burned.
+   * @param   {AssetIdentifier}   output    The output asset identifier.
+   * @return  {bigint}            The amount paid out.
+   */
+  protected getPayoutAmount(
+    shares: bigint,
+    output: AssetIdentifier,
+  ): bigint {
+    // :note: Protocol fee shares are minted prior to burning shares.
+    return PricingService.getPayoutAmount(
+      shares,
+      this.reserveOf(output),
+      this.supplyOf() + this.getProtocolFeeShares(),
+    )
+  }
+
+  /**
+   * Returns a read-only quote for the execution of this command
+   * given the synchronized reserves.
+   *
+   * @access public
+   * @return  {QuoteResult}           The amounts of `x` and `y` paid out and prices.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   * @throws  {FailureInvalidAmount}  Given more shares than the redeemable amount.
+   **/
+  public quote(): QuoteResult {
+    // - Asserts the presence of synchronized reserves
+    this.assertHasReserves()
+
+    // - Reads external arguments
+    const shares = PricingService.toBigInt(this.context.getInput('shares', 0))
+    const outputs: AssetIdentifier[] = this.getOutputs()
+    const [ output_x, output_y ] = outputs
+
+    // - Asserts that the locked minimum liquidity is not redeemed
+    const redeemable: bigint = this.getRedeemableShares()
+    if (shares > redeemable) {
+      throw new FailureInvalidAmount('Amount of ' + shares
+        + ' shares exceeds the redeemable amount of ' + redeemable + ' shares.')
+    }
+
+    // - Calculate payouts ("share of provider")
+    // :note: Prices are expressed for the first two members, i.e. `x` in `y`.
+    const amounts: bigint[] = outputs.map(output => this.getPayoutAmount(shares, output))
+    const [ amount_x, amount_y ] = amounts
+
+    return new QuoteResult(
+      [ this.toAssetAmount(this.identifier, shares) ],
+      outputs.map((output, i) => this.toAssetAmount(output, amounts[i])),
+      BigInt(0), // no trading fee
+      PricingService.getPrice(amount_y, amount_x),
+      this.getMidPrice(output_x, output_y),
+      0, // no price impact
+      shares,
     )
   }
 
@@ -150,49 +311,31 @@ export class RemoveLiquidity extends Executable {
   protected get transactions(): Transaction[] {
 
     // - Reads the execution context
-    const reader = this.context.reader as Symbol.Reader
+    const reader = this.context.reader
 
     // - Reads external arguments
     const provider = this.context.getInput('provider', new PublicAccount())
-    const input_x = this.context.getInput('input_x', new AssetAmount(Symbol_Testnet_SWP, 10))
-    const input_y = this.context.getInput('input_y', new AssetAmount(Symbol_Testnet_XYM, 10))
-
-    // - Reads shares and reserves information
-    const supply_lp: number = this.mosaicInfo?.supply?.compact() ?? 0
-    const reserve_x: number = this.reserveOf(input_x.identifier)
-    const reserve_y: number = this.reserveOf(input_y.identifier)
-
-    // MINT FEE principle (0.05 % of shares issued), 
-    // https://github.com/Uniswap/uniswap-v2-core/blob/master/contracts/UniswapV2Pair.sol#L117
-    // if fee is on, mint liquidity equivalent to 1/6th of the growth in sqrt(k)
-    // XXX if (pool_exists)
-    // XXX   rootK = Math.sqrt(reserve0 * reserve1)
-    // XXX   rootKLast = Math.sqrt(kLast)
-    // XXX   if (rootK > rootKLast)
-    // XXX     numerator = totalSupply.mul(rootK.sub(rootKLast));
-    // XXX     denominator = rootK.mul(5).add(rootKLast);
-    // XXX     liquidity = numerator / denominator;
-    // XXX     if (liquidity > 0) _mint(feeTo, liquidity);
-    // XXX else kLast = 0
-
-    // - Calculate liquidity proportions ("contribution of provider")
-    const liquidity = Math.min(
-      (input_x.amount * supply_lp) / reserve_x,
-      (input_y.amount * supply_lp) / reserve_y
-    )
+    const shares = PricingService.toBigInt(this.context.getInput('shares', 0))
+    const outputs: AssetIdentifier[] = this.getOutputs()
+
+    // - Calculate the protocol fee ("growth of sqrt(k) since last liquidity event")
+    const fee_lp: bigint = this.getProtocolFeeShares()
+
+    // - Calculate payouts ("share of provider")
+    const amounts: bigint[] = outputs.map(output => this.getPayoutAmount(shares, output))
 
     // - Prepares the response
     const transactions: InnerTransaction[] = []
     const signers: PublicAccount[] = []
 
-    // - Transaction 01: Transfers proportional automated pool shares to liquidity provider
+    // - Transaction 01: Transfers the burned automated pool shares to the target account
     transactions.push(TransferTransaction.create(
       this.context.parameters.deadline,
       this.target.address,
       [
         new Mosaic(
           this.identifier.toMosaicId(),
-          UInt64.fromUint(liquidity)
+          PricingService.toUInt64(shares)
         ),
       ],
       EmptyMessage,
@@ -210,7 +353,7 @@ export class RemoveLiquidity extends Executable {
       this.context.parameters.deadline,
       this.mosaicInfo?.id!,
       MosaicSupplyChangeAction.Decrease,
-      UInt64.fromUint(liquidity),
+      PricingService.toUInt64(shares),
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
@@ -218,20 +361,14 @@ export class RemoveLiquidity extends Executable {
     // - Transaction 02 is issued by **target** account
     signers.push(this.target)
 
-    // - Transaction 03: Transfers the removed liquidity of `x` and `y` to the provider account. 
+    // - Transaction 03: Transfers the removed liquidity of `x` and `y` (or of all members) to the provider account.
     transactions.push(TransferTransaction.create(
       this.context.parameters.deadline,
       provider.address,
-      [
-        new Mosaic(
-          input_x.identifier.toMosaicId(),
-          UInt64.fromUint(input_x.amount)
-        ),
-        new Mosaic(
-          input_y.identifier.toMosaicId(),
-          UInt64.fromUint(input_y.amount)
-        ),
-      ],
+      outputs.map((output, i) => new Mosaic(
+        output.toMosaicId(),
+        PricingService.toUInt64(amounts[i])
+      )),
       EmptyMessage,
       reader.networkType,
       undefined, // maxFee 0 for inner
@@ -240,20 +377,65 @@ export class RemoveLiquidity extends Executable {
     // - Transaction 03 is issued by **target** account
     signers.push(this.target)
 
-    // - Transaction 04: Add execution proof transaction
+    // - Transaction 04: AccountMetadataTransaction updating `K_Last`
+    transactions.push(this.getKLastTransaction(this.getK(outputs.map((output, i) => [
+      output,
+      this.reserveOf(output) - amounts[i],
+    ]))))
+
+    // - Transaction 04 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transactions 05 and 06 are only added given a protocol fee
+    if (fee_lp > BigInt(0)) {
+      // - Transaction 05: MosaicSupplyChangeTransaction for protocol fee shares
+      transactions.push(MosaicSupplyChangeTransaction.create(
+        this.context.parameters.deadline,
+        this.mosaicInfo?.id!,
+        MosaicSupplyChangeAction.Increase,
+        PricingService.toUInt64(fee_lp),
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 05 is issued by **target** account
+      signers.push(this.target)
+
+      // - Transaction 06: Transfers protocol fee shares to the `Fee_To` account
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        this.poolInfo!.feeTo,
+        [
+          new Mosaic(
+            this.identifier.toMosaicId(),
+            PricingService.toUInt64(fee_lp)
+          ),
+        ],
+        EmptyMessage,
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 06 is issued by **target** account
+      signers.push(this.target)
+    }
+
+    // - Transaction 05 (or 07): Add execution proof transaction
     transactions.push(TransferTransaction.create(
       this.context.parameters.deadline,
       this.target.address,
       [], // no mosaics
-      PlainMessage.create(this.descriptor 
-        + ':' + this.mosaicInfo?.id!.toHex() 
-        + ':' + input_x.identifier.toMosaicId().toHex()
-        + ':' + input_y.identifier.toMosaicId().toHex()),
+      PlainMessage.create(this.descriptor
+        + ':' + this.mosaicInfo?.id!.toHex()
+        + outputs.map(output => ':' + output.toMosaicId().toHex()).join('')
+        + ':' + shares
+        + amounts.map(amount => ':' + amount).join('')
+        + ':' + this.snapshot.message),
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
 
-    // - Transaction 04 is issued by **provider** account ("the actor")
+    // - Transaction 05 (or 07) is issued by **provider** account ("the actor")
     signers.push(provider)
 
     // - Assigns correct signer to each transaction
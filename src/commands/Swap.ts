@@ -12,7 +12,6 @@ import {
   Transaction,
   TransferTransaction,
   PlainMessage,
-  UInt64,
   Mosaic,
   EmptyMessage,
 } from 'symbol-sdk'
@@ -23,9 +22,10 @@ import {
   AssetAmount,
   AssetIdentifier,
   CommandOption,
-  Symbol,
+  QuoteResult,
 } from '../../index'
 import { Executable } from './Executable'
+import { PricingService } from '../services/PricingService'
 
 // XXX remove this, used only for type-discovery in command options below.
 const Symbol_Testnet_SWP = new AssetIdentifier('00000001', new PublicAccount())
@@ -46,6 +46,8 @@ const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
  * | trader | Trader | `new PublicAccount(...)` |
  * | input_x | Amount and asset identifier of `x` (first in pair) | `new AssetAmount(...)` |
  * | output | Asset identifier of `y` (second in pair). | `new AssetIdentifier(...)` |
+ * | min_output | (Optional) Minimum amount of `y` that must be received, or the swap fails. | `1000` |
+ * | max_price_impact | (Optional) Maximum price impact in basis points, or the swap fails. The pool's `Max_Price_Impact` applies too. | `500` |
  *
  * The execution of this command results in the creation of
  * the following list of transactions with their respective
@@ -54,8 +56,8 @@ const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
  * | Sequence | Type | Signer | Description |
  * | --- | --- | --- | --- |
  * | 01 | TransferTransaction | Trader Account | Transfers the **input** currency to the **target** account. |
- * | 02 | TransferTransaction | Target Account | Transfers the **output** currency to the **trader** account. Note that the amount that is sent to the trader is automatically calculated. |
- * | 03 | TransferTransaction | Target Account | Adds an execution proof message sent to the **target** account. |
+ * | 02 | TransferTransaction | Target Account | Transfers the **output** currency to the **trader** account. Note that the amount that is sent to the trader is automatically calculated and that the pool's trading fee is deducted from the input amount beforehand. |
+ * | 03 | TransferTransaction | Target Account | Adds an execution proof message sent to the **target** account. The minimum output amount is attached such that cosignatories can enforce it against live reserves, followed by the input and output mosaics such that the price of the swap can be read from the proof, by the applied trading fee rate (in basis points) and by the `ReserveSnapshot` of the synchronized reserves. |
  *
  */
 export class Swap extends Executable {
@@ -78,7 +80,13 @@ export class Swap extends Executable {
    * This method asserts the presence of mandatory arguments.
    *
    * Additionally, this method asserts that amounts of assets
-   * do not overflow in relation with available pool reserves.
+   * do not overflow in relation with available pool reserves
+   * and that the calculated output amount is not below the
+   * minimum output amount, if present.
+   *
+   * Finally, this method asserts that the swap does not move the
+   * mid price of the pool by more than the maximum price impact,
+   * if present, or by more than the pool's maximum price impact.
    *
    * @access public
    * @param   {PublicAccount}           actor   The actor is whom executes the command.
@@ -95,15 +103,118 @@ export class Swap extends Executable {
 
     // - Reads external arguments to check for amounts
     const input_x = this.context.getInput('input_x', new AssetAmount(Symbol_Testnet_SWP, 10))
+    const output = this.context.getInput('output', new AssetIdentifier('00000001', new PublicAccount()))
+    const min_output_arg = this.context.getInput<number | bigint>('min_output', 0)
+    const max_price_impact = this.context.getInput<number | null>('max_price_impact', null)
+    const amount_x = PricingService.toBigInt(input_x.amount)
+
+    // - Denies invalid minimum output amounts
+    if (!PricingService.isValidAmount(min_output_arg)) {
+      return new AllowanceResult(false, 'Invalid minimum output amount "' + min_output_arg + '", must be a non-negative integer.')
+    }
+
+    // - Denies invalid maximum price impacts
+    if (max_price_impact !== null && !PricingService.isValidPriceImpact(max_price_impact)) {
+      return new AllowanceResult(false, 'Invalid maximum price impact "' + max_price_impact + '", must be an integer in (0, 10000] basis points.')
+    }
+
+    const min_output = PricingService.toBigInt(min_output_arg)
 
     // - Reads reserves information
-    const reserve_x: number = this.reserveOf(input_x.identifier)
+    const reserve_x: bigint = this.reserveOf(input_x.identifier)
 
     // - Allows anyone to add liquidity to automated pools
     //   given a connected command execution (read-only).
-    return new AllowanceResult(!!this.reserveInfo && !!this.mosaicInfo
-      && input_x.amount > 0
-      && reserve_x > input_x.amount
+    const isAllowed = !!this.reserveInfo && !!this.mosaicInfo
+      && amount_x > BigInt(0)
+      && reserve_x > amount_x
+
+    if (!isAllowed) {
+      return new AllowanceResult(false)
+    }
+
+    // - Denies swaps between assets that are not distinct members of the pool
+    if (!this.isMemberSubset([ input_x.identifier, output ])) {
+      return new AllowanceResult(false, 'Swaps are only possible between two distinct members of the pool.')
+    }
+
+    // - Denies swaps that result in no output or less than the minimum output
+    const output_y: bigint = this.getOutputAmount(input_x, output)
+    if (output_y <= BigInt(0)) {
+      return new AllowanceResult(false, 'Output amount of ' + output_y + ' is too small, increase the input amount.')
+    }
+
+    if (output_y < min_output) {
+      return new AllowanceResult(false, 'Output amount of ' + output_y
+        + ' is below the minimum output amount of ' + min_output + '.')
+    }
+
+    // - Denies swaps that move the mid price by more than the maximum price impact
+    const denial = Executable.denyPriceImpact(
+      this.getPriceImpact(amount_x, output_y, input_x.identifier, output),
+      this.getMaxPriceImpact(),
+    )
+
+    return denial ?? new AllowanceResult(true)
+  }
+
+  /**
+   * Returns the amount of \a output that is received when an
+   * amount \a input_x is swapped, given the current reserves,
+   * the pool's invariant and its trading fee rate.
+   *
+   * @access protected
+   * @param   {AssetAmount}       input_x   The input amount and asset identifier.
+   * @param   {AssetIdentifier}   output    The output asset identifier.
+   * @return  {bigint}            The output amount.
+   */
+  protected getOutputAmount(
+    input_x: AssetAmount,
+    output: AssetIdentifier,
+  ): bigint {
+    // - Calculate "output" with the trading fee deducted from input
+    return this.getAmountOut(
+      PricingService.toBigInt(input_x.amount),
+      input_x.identifier,
+      output,
+    )
+  }
+
+  /**
+   * Returns a read-only quote for the execution of this command
+   * given the synchronized reserves. The price impact excludes
+   * the trading fee.
+   *
+   * @access public
+   * @return  {QuoteResult}           The output amount, fee paid and prices of the swap.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quote(): QuoteResult {
+    // - Asserts the presence of synchronized reserves
+    this.assertHasReserves()
+
+    // - Reads external arguments
+    const input_x = this.context.getInput('input_x', new AssetAmount(Symbol_Testnet_SWP, 10))
+    const output = this.context.getInput('output', new AssetIdentifier('00000001', new PublicAccount()))
+
+    // - Reads the pool's trading fee rate (in basis points)
+    const amount_x: bigint = PricingService.toBigInt(input_x.amount)
+    const feeRate: number = this.feeRate
+
+    // - Calculate "output" and prices
+    const output_y: bigint = this.getOutputAmount(input_x, output)
+    const fee: bigint = PricingService.getFeeAmount(amount_x, feeRate)
+    const midPrice: number = this.getMidPrice(input_x.identifier, output)
+    const executionPrice: number = PricingService.getPrice(output_y, amount_x)
+    const spotOutput: number = Number(amount_x - fee) * midPrice
+
+    return new QuoteResult(
+      [ this.toAssetAmount(input_x.identifier, input_x.amount) ],
+      [ this.toAssetAmount(output, output_y) ],
+      fee,
+      executionPrice,
+      midPrice,
+      spotOutput > 0 ? 1 - (Number(output_y) / spotOutput) : 0,
     )
   }
 
@@ -152,23 +263,16 @@ export class Swap extends Executable {
   protected get transactions(): Transaction[] {
 
     // - Reads the execution context
-    const reader = this.context.reader as Symbol.Reader
+    const reader = this.context.reader
 
     // - Reads external arguments
     const trader = this.context.getInput('trader', new PublicAccount())
     const input_x = this.context.getInput('input_x', new AssetAmount(Symbol_Testnet_SWP, 10))
     const output = this.context.getInput('output', new AssetIdentifier('00000001', new PublicAccount()))
+    const min_output = this.context.getInput('min_output', 0)
 
-    // - Reads reserves information
-    const reserve_x: number = this.reserveOf(input_x.identifier)
-    const reserve_y: number = this.reserveOf(output)
-
-    // - Calculate constant product of reserves ("current K")
-    const kLast: number = reserve_x * reserve_y // + "unconfirmed in pool" + "partials in pool"
-
-    // - Calculate "output"
-    // XXX input * 0.003 ?
-    const output_y: number = reserve_y - (kLast / (reserve_x + input_x.amount))
+    // - Calculate "output" with the trading fee deducted from input
+    const output_y: bigint = this.getOutputAmount(input_x, output)
 
     // - Prepares the response
     const transactions: InnerTransaction[] = []
@@ -181,7 +285,7 @@ export class Swap extends Executable {
       [
         new Mosaic(
           input_x.identifier.toMosaicId(),
-          UInt64.fromUint(input_x.amount)
+          PricingService.toUInt64(input_x.amount)
         ),
       ],
       EmptyMessage,
@@ -199,7 +303,7 @@ export class Swap extends Executable {
       [
         new Mosaic(
           output.toMosaicId(),
-          UInt64.fromUint(output_y)
+          PricingService.toUInt64(output_y)
         ),
       ],
       EmptyMessage,
@@ -218,7 +322,12 @@ export class Swap extends Executable {
       PlainMessage.create(this.descriptor 
         + ':' + this.mosaicInfo?.id!.toHex() 
         + ':' + input_x.amount
-        + ':' + output_y),
+        + ':' + output_y
+        + ':' + min_output
+        + ':' + input_x.identifier.toMosaicId().toHex()
+        + ':' + output.toMosaicId().toHex()
+        + ':' + this.feeRate
+        + ':' + this.snapshot.message),
       reader.networkType,
       undefined, // maxFee 0 for inner
     ))
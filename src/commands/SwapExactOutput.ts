@@ -0,0 +1,305 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import {
+  InnerTransaction,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  PlainMessage,
+  Mosaic,
+  EmptyMessage,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AllowanceResult,
+  AssetAmount,
+  AssetIdentifier,
+  CommandOption,
+} from '../../index'
+import { Executable } from './Executable'
+import { PricingService } from '../services/PricingService'
+
+// XXX remove this, used only for type-discovery in command options below.
+const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
+
+/**
+ * @class Swapable.SwapExactOutput
+ * @package Swapable
+ * @subpackage Commands
+ * @since v1.4.0
+ * @description Class that describes a command for swapping assets
+ *              in automated liquidity pools given an exact output
+ *              amount (i.e. "buy").
+ * @summary
+ * This automated pool command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | trader | Trader | `new PublicAccount(...)` |
+ * | output_y | Exact amount and asset identifier of `y` that must be received | `new AssetAmount(...)` |
+ * | input | Asset identifier of `x` (first in pair). | `new AssetIdentifier(...)` |
+ * | max_input | Maximum amount of `x` that can be charged, or the swap fails. | `1000` |
+ * | max_price_impact | (Optional) Maximum price impact in basis points, or the swap fails. The pool's `Max_Price_Impact` applies too. | `500` |
+ *
+ * The execution of this command results in the creation of
+ * the following list of transactions with their respective
+ * *signer* and a description:
+ *
+ * | Sequence | Type | Signer | Description |
+ * | --- | --- | --- | --- |
+ * | 01 | TransferTransaction | Trader Account | Transfers the **input** currency to the **target** account. Note that the amount that is charged to the trader is automatically calculated and includes the pool's trading fee. |
+ * | 02 | TransferTransaction | Target Account | Transfers the exact **output** currency amount to the **trader** account. |
+ * | 03 | TransferTransaction | Target Account | Adds an execution proof message sent to the **target** account. The maximum input amount is attached such that cosignatories can enforce it against live reserves, followed by the input and output mosaics such that the price of the swap can be read from the proof, by the trading fee rate that was applied to the input amount and by the `ReserveSnapshot` of the synchronized reserves. |
+ *
+ */
+export class SwapExactOutput extends Executable {
+  /**
+   * @access public
+   * @description The list of **required** arguments to execute
+   *              *this* automated pool command.
+   */
+  public arguments: string[] = [
+    'trader',
+    'output_y',
+    'input',
+    'max_input',
+  ]
+
+  /**
+   * Verifies **allowance** of \a actor to execute a command
+   * with arguments \a argv. This method returns true if all
+   * required arguments are present.
+   *
+   * This method asserts the presence of mandatory arguments.
+   *
+   * Additionally, this method asserts that amounts of assets
+   * do not overflow in relation with available pool reserves
+   * and that the calculated input amount does not exceed the
+   * maximum input amount.
+   *
+   * Finally, this method asserts that the swap does not move the
+   * mid price of the pool by more than the maximum price impact,
+   * if present, or by more than the pool's maximum price impact.
+   *
+   * @access public
+   * @param   {PublicAccount}           actor   The actor is whom executes the command.
+   * @param   {Array<CommandOption>}    argv    The command options (arguments).
+   * @return  {AllowanceResult}         Returns whether an actor is authorized to execute this command.
+   * @throws  {FailureMissingArgument}  On missing mandatory argument(s).
+   **/
+  public canExecute(
+    actor: PublicAccount,
+    argv?: CommandOption[]
+  ): AllowanceResult {
+    // - Asserts the presence of mandatory inputs
+    super.assertHasMandatoryArguments(argv, this.arguments)
+
+    // - Reads external arguments to check for amounts
+    const output_y = this.context.getInput('output_y', new AssetAmount(Symbol_Testnet_XYM, 10))
+    const input = this.context.getInput('input', new AssetIdentifier('00000001', new PublicAccount()))
+    const max_input_arg = this.context.getInput<number | bigint>('max_input', 0)
+    const max_price_impact = this.context.getInput<number | null>('max_price_impact', null)
+    const amount_y = PricingService.toBigInt(output_y.amount)
+
+    // - Denies invalid maximum input amounts
+    if (!PricingService.isValidAmount(max_input_arg)) {
+      return new AllowanceResult(false, 'Invalid maximum input amount "' + max_input_arg + '", must be a non-negative integer.')
+    }
+
+    // - Denies invalid maximum price impacts
+    if (max_price_impact !== null && !PricingService.isValidPriceImpact(max_price_impact)) {
+      return new AllowanceResult(false, 'Invalid maximum price impact "' + max_price_impact + '", must be an integer in (0, 10000] basis points.')
+    }
+
+    const max_input = PricingService.toBigInt(max_input_arg)
+
+    // - Reads reserves information
+    const reserve_y: bigint = this.reserveOf(output_y.identifier)
+
+    // - Allows anyone to swap in automated pools
+    //   given a connected command execution (read-only).
+    const isAllowed = !!this.reserveInfo && !!this.mosaicInfo
+      && amount_y > BigInt(0)
+      && reserve_y > amount_y
+
+    if (!isAllowed) {
+      return new AllowanceResult(false)
+    }
+
+    // - Denies swaps that cannot be provided by reserves
+    const input_x: bigint | undefined = this.getInputAmount(output_y, input)
+    if (input_x === undefined) {
+      return new AllowanceResult(false, 'Output amount of ' + amount_y
+        + ' cannot be provided by the automated pool reserves.')
+    }
+
+    // - Denies swaps that require more than the maximum input
+    if (input_x > max_input) {
+      return new AllowanceResult(false, 'Input amount of ' + input_x
+        + ' exceeds the maximum input amount of ' + max_input + '.')
+    }
+
+    // - Denies swaps that move the mid price by more than the maximum price impact
+    const denial = Executable.denyPriceImpact(
+      this.getPriceImpact(input_x, amount_y, input, output_y.identifier),
+      this.getMaxPriceImpact(),
+    )
+
+    return denial ?? new AllowanceResult(true)
+  }
+
+  /**
+   * Returns the amount of \a input that is required to receive
+   * exactly \a output_y, given the current reserves, the
+   * pool's invariant and its trading fee rate.
+   *
+   * @access protected
+   * @param   {AssetAmount}       output_y  The output amount and asset identifier.
+   * @param   {AssetIdentifier}   input     The input asset identifier.
+   * @return  {bigint|undefined}  The input amount, or `undefined` given insufficient reserves.
+   */
+  protected getInputAmount(
+    output_y: AssetAmount,
+    input: AssetIdentifier,
+  ): bigint | undefined {
+    // - Calculate "input" with the trading fee included
+    return this.getAmountIn(
+      PricingService.toBigInt(output_y.amount),
+      input,
+      output_y.identifier,
+    )
+  }
+
+  // region abstract methods
+  /**
+   * This method returns the automated pool command name,
+   * e.g. "CreatePool" or "AddLiquidity", etc.
+   *
+   * @access public
+   * @return {string}
+   **/
+  public get name(): string {
+    return 'SwapExactOutput'
+  }
+
+  /**
+   * This method MUST return a unique automated pool command
+   * descriptor which includes:
+   *
+   * - the open standard descriptor (e.g.: "Swapable") ;
+   * - the open standard *revision* (e.g.: 1) ;
+   * - the kebab-case command name (e.g.: "create-pool") ;
+   * - and the automated pool shares asset identifier.
+   *
+   * Items are joined with the `:` operator and attached to a
+   * so-called execution proof transaction.
+   *
+   * @access public
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'Swapable(v' + this.context.revision + ')' + ':swap-exact-output:' + this.identifier.id
+  }
+
+  /**
+   * This method returns a list of unsigned transactions in a
+   * sequencial order of execution. The resulting transaction
+   * array is later wrapped inside a digital contract that is
+   * executed atomically such that either all transactions do
+   * succeed or all transactions are cancelled.
+   *
+   * @see {execute()}
+   * @access public
+   * @return  {Transaction[]}   Given the execution of a command, returns a list of unsigned transactions.
+   **/
+  protected get transactions(): Transaction[] {
+
+    // - Reads the execution context
+    const reader = this.context.reader
+
+    // - Reads external arguments
+    const trader = this.context.getInput('trader', new PublicAccount())
+    const output_y = this.context.getInput('output_y', new AssetAmount(Symbol_Testnet_XYM, 10))
+    const input = this.context.getInput('input', new AssetIdentifier('00000001', new PublicAccount()))
+    const max_input = this.context.getInput('max_input', 0)
+
+    // - Calculate "input" with the trading fee included
+    // - Note that canExecute() denies insufficient reserves
+    const input_x: bigint = this.getInputAmount(output_y, input)!
+
+    // - Prepares the response
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // - Transaction 01: Transfers the **input** currency to the **target** account.
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [
+        new Mosaic(
+          input.toMosaicId(),
+          PricingService.toUInt64(input_x)
+        ),
+      ],
+      EmptyMessage,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 01 is issued by **trader** account
+    signers.push(trader)
+
+    // - Transaction 02: Transfers the **output** currency to the **trader** account.
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      trader.address,
+      [
+        new Mosaic(
+          output_y.identifier.toMosaicId(),
+          PricingService.toUInt64(output_y.amount)
+        ),
+      ],
+      EmptyMessage,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 02 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 03: Add execution proof transaction, the slippage
+    //   bound slot holds `max_input` (@see {ExecutionProof})
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [], // no mosaics
+      PlainMessage.create(this.descriptor
+        + ':' + this.mosaicInfo?.id!.toHex()
+        + ':' + input_x
+        + ':' + output_y.amount
+        + ':' + max_input
+        + ':' + input.toMosaicId().toHex()
+        + ':' + output_y.identifier.toMosaicId().toHex()
+        + ':' + this.feeRate
+        + ':' + this.snapshot.message),
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 03 is issued by **target** account
+    signers.push(this.target)
+
+    // - Assigns correct signer to each transaction
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
@@ -0,0 +1,390 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { TransactionURI } from 'symbol-uri-scheme'
+import {
+  AggregateTransaction,
+  InnerTransaction,
+  PublicAccount,
+  Transaction,
+  TransactionMapping,
+  TransferTransaction,
+  PlainMessage,
+  Mosaic,
+  EmptyMessage,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AllowanceResult,
+  BaseCommand,
+  CommandOption,
+} from '../../index'
+import { FailureEmptyContract } from '../errors/FailureEmptyContract'
+import { Executable } from './Executable'
+import { PricingService } from '../services/PricingService'
+import { ReserveSnapshot } from '../models/ReserveSnapshot'
+import { Route, RouteLeg, RoutePool, RouterService } from '../services/RouterService'
+
+/**
+ * @class Swapable.SwapRoute
+ * @package Swapable
+ * @subpackage Commands
+ * @since v1.4.0
+ * @description Class that describes a command for swapping assets
+ *              across more than one automated liquidity pool, e.g.
+ *              `X -> Y -> Z` given no direct `X:Z` pool.
+ * @summary
+ * This command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | trader | Trader | `new PublicAccount(...)` |
+ * | route | The route of chained swaps, e.g. as found by a `Router` | `RouterService.getBestRoute(...)` |
+ * | min_output | (Optional) Minimum amount of the last output that must be received, or the swap fails. | `1000` |
+ * | max_price_impact | (Optional) Maximum price impact of *each* swap in basis points, or the swap fails. The `Max_Price_Impact` of each pool applies too. | `500` |
+ *
+ * The execution of this command results in the creation of the
+ * following list of transactions *per swap of the route*, with their
+ * respective *signer* and a description:
+ *
+ * | Sequence | Type | Signer | Description |
+ * | --- | --- | --- | --- |
+ * | 01 | TransferTransaction | Trader Account | Transfers the **input** currency of this swap to the **target** account of the pool. |
+ * | 02 | TransferTransaction | Target Account | Transfers the **output** currency of this swap to the **trader** account. This amount is the input amount of the next swap. |
+ * | 03 | TransferTransaction | Target Account | Adds an execution proof message sent to the **target** account of the pool. The minimum output amount of the *route* is attached such that cosignatories can enforce it against live reserves, followed by the input and output mosaics of this swap, by the fee rate of the pool and by the `ReserveSnapshot` of the pool. |
+ *
+ * All swaps are wrapped in one digital contract such that either all
+ * swaps succeed or all swaps are cancelled. The target account of each
+ * pool of the route must cosign the contract.
+ */
+export class SwapRoute extends BaseCommand {
+  /**
+   * @access public
+   * @description The list of **required** arguments to execute
+   *              *this* command.
+   */
+  public arguments: string[] = [
+    'trader',
+    'route',
+  ]
+
+  /**
+   * @access public
+   * @description The block height at which the reserves of pools
+   *              were read, e.g. with `Router.synchronize()`, or `0`
+   *              given an unknown height.
+   */
+  public snapshotHeight: number = 0
+
+  /**
+   * Verifies **allowance** of \a actor to execute a command
+   * with arguments \a argv. This method returns true if all
+   * required arguments are present.
+   *
+   * This method asserts the presence of mandatory arguments.
+   *
+   * Additionally, this method asserts that the swaps of the
+   * route are chained, i.e. that each swap uses the output of
+   * the previous swap, that the output amount of each swap is
+   * the output amount of its pool given the reserves and fee
+   * rate of the pool, and that the output amount of the route
+   * is not below the minimum output amount, if present.
+   *
+   * Finally, this method asserts that no swap moves the mid price
+   * of its pool by more than the maximum price impact, if present,
+   * or by more than the maximum price impact of its pool.
+   *
+   * @access public
+   * @param   {PublicAccount}           actor   The actor is whom executes the command.
+   * @param   {Array<CommandOption>}    argv    The command options (arguments).
+   * @return  {AllowanceResult}         Returns whether an actor is authorized to execute this command.
+   * @throws  {FailureMissingArgument}  On missing mandatory argument(s).
+   **/
+  public canExecute(
+    actor: PublicAccount,
+    argv?: CommandOption[]
+  ): AllowanceResult {
+    // - Asserts the presence of mandatory inputs
+    super.assertHasMandatoryArguments(argv, this.arguments)
+
+    // - Reads external arguments
+    const routes = this.getRoutes()
+    const min_output = PricingService.toBigInt(this.context.getInput('min_output', 0))
+    const max_price_impact = this.context.getInput<number | null>('max_price_impact', null)
+
+    // - Denies invalid maximum price impacts
+    if (max_price_impact !== null && !PricingService.isValidPriceImpact(max_price_impact)) {
+      return new AllowanceResult(false, 'Invalid maximum price impact "' + max_price_impact + '", must be an integer in (0, 10000] basis points.')
+    }
+
+    // - Allows anyone to swap across automated pools given
+    //   routes of at most `MAX_HOPS` chained swaps.
+    const isAllowed = routes.length > 0
+      && routes.every(route => route.legs.length > 0
+        && route.legs.length <= RouterService.MAX_HOPS
+        && route.legs.every((leg, i) => leg.amountIn > BigInt(0) && leg.amountOut > BigInt(0)
+          && (i === 0 || (leg.input.equals(route.legs[i - 1].output)
+            && leg.amountIn === route.legs[i - 1].amountOut))))
+
+    if (!isAllowed) {
+      return new AllowanceResult(false)
+    }
+
+    // - Denies swaps of which the output amount does not match the pool
+    for (const route of routes) {
+      for (const leg of route.legs) {
+        const amountOut: bigint = RouterService.getAmountOut(leg.pool, leg.amountIn, leg.input, leg.output)
+        if (leg.amountOut !== amountOut) {
+          return new AllowanceResult(false, 'Output amount of ' + leg.amountOut + ' for ' + leg.output.toHex()
+            + ' does not match the output amount of ' + amountOut + ' of pool ' + leg.pool.info.pMosaic.toHex() + '.')
+        }
+      }
+
+      if (route.amountIn !== route.legs[0].amountIn || route.amountOut !== route.legs[route.legs.length - 1].amountOut) {
+        return new AllowanceResult(false, 'Amounts of the route do not match the amounts of its swaps.')
+      }
+    }
+
+    // - Denies swaps that result in less than the minimum output
+    const amountOut = routes.reduce((s, route) => s + route.amountOut, BigInt(0))
+    if (amountOut < min_output) {
+      return new AllowanceResult(false, 'Output amount of ' + amountOut
+        + ' is below the minimum output amount of ' + min_output + '.')
+    }
+
+    // - Denies swaps that move the mid price of a pool by more than the maximum price impact
+    for (const leg of ([] as RouteLeg[]).concat(...routes.map(route => route.legs))) {
+      const caps: number[] = [
+        max_price_impact ?? 0,
+        leg.pool.info.maxPriceImpact ?? 0,
+      ].filter(cap => cap > 0)
+
+      const denial = Executable.denyPriceImpact(
+        RouterService.getPriceImpact(leg),
+        caps.length ? Math.min(...caps) : 0,
+      )
+
+      if (denial !== undefined) {
+        return denial
+      }
+    }
+
+    return new AllowanceResult(true)
+  }
+
+  /**
+   * Executes a swap across the pools of a route with \a actor
+   * given \a argv command options.
+   *
+   * @access public
+   * @param   {PublicAccount}           actor   The actor is whom executes the command.
+   * @param   {Array<CommandOption>}    argv    The command options (arguments).
+   * @return  {TransactionURI<T>}         Returns one transaction URI with all transactions.
+   * @throws  {FailureMissingArgument}    On missing mandatory argument(s).
+   * @throws  {FailureOperationForbidden} On denial of authorization.
+   **/
+  public execute(
+    actor: PublicAccount,
+    argv?: CommandOption[]
+  ): TransactionURI<Transaction> {
+    // - Verifies the authorization to execute
+    super.assertExecutionAllowance(actor, argv)
+
+    // - Creates a digital contract for this execution
+    const contract = this.prepare()
+
+    // - Formats the result as a transaction URI
+    return new TransactionURI(contract.serialize(), TransactionMapping.createFromPayload)
+  }
+
+  /**
+   * Returns the routes that are executed by this command, i.e. the
+   * `route` argument. The output amounts of all routes are added up
+   * and compared with the minimum output amount.
+   *
+   * @access protected
+   * @return  {Route[]}
+   */
+  protected getRoutes(): Route[] {
+    return [
+      this.context.getInput('route', { legs: [], amountIn: BigInt(0), amountOut: BigInt(0) } as Route),
+    ]
+  }
+
+  /**
+   * Returns the snapshot of the reserves of \a pool, i.e. the block
+   * height at which reserves were read, the last block height at which
+   * the contract is valid and a checksum of the reserves.
+   *
+   * @access protected
+   * @param   {RoutePool}   pool    The liquidity pool of a swap.
+   * @return  {ReserveSnapshot}
+   */
+  protected getSnapshot(
+    pool: RoutePool,
+  ): ReserveSnapshot {
+    return ReserveSnapshot.create(
+      this.snapshotHeight,
+      this.context.parameters.validity,
+      pool.info.mosaics.map((mosaicId, i) => new Mosaic(
+        mosaicId,
+        PricingService.toUInt64(pool.reserves[i] ?? BigInt(0)),
+      )),
+    )
+  }
+
+  // region abstract methods
+  /**
+   * This method returns the command name.
+   *
+   * @access public
+   * @return {string}
+   **/
+  public get name(): string {
+    return 'SwapRoute'
+  }
+
+  /**
+   * This method returns a unique command descriptor which
+   * includes:
+   *
+   * - the open standard descriptor (e.g.: "Swapable") ;
+   * - the open standard *revision* (e.g.: 1) ;
+   * - and the kebab-case command name (e.g.: "swap-route").
+   *
+   * The automated pool shares asset identifier of each pool of
+   * the route is attached to the execution proof of its swap.
+   *
+   * @access public
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'Swapable(v' + this.context.revision + ')' + ':swap-route'
+  }
+
+  /**
+   * Wraps the resulting transactions inside an aggregate bonded
+   * transaction, i.e. the **digital contract**, which must be
+   * cosigned by the target account of each pool of the route.
+   *
+   * @access protected
+   * @return  {AggregateTransaction} Aggregate bonded transaction
+   * @throws  {FailureEmptyContract} Given a misconfigured digital contract which is empty.
+   **/
+  protected prepare(): AggregateTransaction | Transaction {
+    // - Sanity check
+    if (!this.transactions.length) {
+      throw new FailureEmptyContract('No transactions result from the execution of this contract.')
+    }
+
+    // - Shortcut for network information
+    const reader = this.context.reader
+
+    // - Creates a so-called digital contract
+    return AggregateTransaction.createBonded(
+      this.context.parameters.deadline,
+      this.transactions,
+      reader.networkType,
+      [], // "unsigned"
+      this.context.parameters.maxFee,
+    )
+  }
+
+  /**
+   * This method returns a list of unsigned transactions in a
+   * sequencial order of execution. The resulting transaction
+   * array is later wrapped inside a digital contract that is
+   * executed atomically such that either all transactions do
+   * succeed or all transactions are cancelled.
+   *
+   * @see {execute()}
+   * @access public
+   * @return  {Transaction[]}   Given the execution of a command, returns a list of unsigned transactions.
+   **/
+  protected get transactions(): Transaction[] {
+
+    // - Reads the execution context
+    const reader = this.context.reader
+
+    // - Reads external arguments
+    const trader = this.context.getInput('trader', new PublicAccount())
+    const min_output = this.context.getInput('min_output', 0)
+
+    // - Prepares the response
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    this.getRoutes().forEach((route) => route.legs.forEach((leg) => {
+      const target = leg.pool.info.target
+
+      // - Transaction 01: Transfers the input currency of this swap to the pool **target** account.
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        target.address,
+        [
+          new Mosaic(
+            leg.input,
+            PricingService.toUInt64(leg.amountIn)
+          ),
+        ],
+        EmptyMessage,
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 01 is issued by **trader** account
+      signers.push(trader)
+
+      // - Transaction 02: Transfers the output currency of this swap to the **trader** account.
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        trader.address,
+        [
+          new Mosaic(
+            leg.output,
+            PricingService.toUInt64(leg.amountOut)
+          ),
+        ],
+        EmptyMessage,
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 02 is issued by the pool **target** account
+      signers.push(target)
+
+      // - Transaction 03: Add execution proof transaction
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        target.address,
+        [], // no mosaics
+        PlainMessage.create(this.descriptor
+          + ':' + leg.pool.info.pMosaic.toHex()
+          + ':' + leg.amountIn
+          + ':' + leg.amountOut
+          + ':' + min_output
+          + ':' + leg.input.toHex()
+          + ':' + leg.output.toHex()
+          + ':' + leg.pool.info.feeRate
+          + ':' + this.getSnapshot(leg.pool).message),
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 03 is issued by the pool **target** account
+      signers.push(target)
+    }))
+
+    // - Assigns correct signer to each transaction
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
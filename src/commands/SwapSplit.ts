@@ -0,0 +1,84 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+
+// internal dependencies
+import { SwapRoute } from './SwapRoute'
+import { Route, Split } from '../services/RouterService'
+
+/**
+ * @class Swapable.SwapSplit
+ * @package Swapable
+ * @subpackage Commands
+ * @since v1.4.0
+ * @description Class that describes a command for swapping assets
+ *              with an input amount that is split across more than
+ *              one automated liquidity pool of the same pair.
+ * @summary
+ * This command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | trader | Trader | `new PublicAccount(...)` |
+ * | split | The allocations of the input amount per pool, e.g. as found by a `Router` | `RouterService.getSplit(...)` |
+ * | min_output | (Optional) Minimum amount of the output of *all* pools that must be received, or the swap fails. | `1000` |
+ *
+ * The execution of this command results in the creation of the same
+ * list of transactions as the {@link SwapRoute} command, *per pool*
+ * of the split order. All swaps are wrapped in one digital contract
+ * which must be cosigned by the target account of each pool.
+ */
+export class SwapSplit extends SwapRoute {
+  /**
+   * @access public
+   * @description The list of **required** arguments to execute
+   *              *this* command.
+   */
+  public arguments: string[] = [
+    'trader',
+    'split',
+  ]
+
+  /**
+   * Returns the routes that are executed by this command, i.e. the
+   * swap of each pool of the `split` argument.
+   *
+   * @access protected
+   * @return  {Route[]}
+   */
+  protected getRoutes(): Route[] {
+    return this.context.getInput('split', { routes: [], amountIn: BigInt(0), amountOut: BigInt(0) } as Split).routes
+  }
+
+  // region abstract methods
+  /**
+   * This method returns the command name.
+   *
+   * @access public
+   * @return {string}
+   **/
+  public get name(): string {
+    return 'SwapSplit'
+  }
+
+  /**
+   * This method returns a unique command descriptor which
+   * includes:
+   *
+   * - the open standard descriptor (e.g.: "Swapable") ;
+   * - the open standard *revision* (e.g.: 1) ;
+   * - and the kebab-case command name (e.g.: "swap-split").
+   *
+   * @access public
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'Swapable(v' + this.context.revision + ')' + ':swap-split'
+  }
+  // end-region abstract methods
+}
@@ -0,0 +1,537 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import {
+  InnerTransaction,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  PlainMessage,
+  MosaicSupplyChangeTransaction,
+  MosaicSupplyChangeAction,
+  Mosaic,
+  EmptyMessage,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AllowanceResult,
+  AssetAmount,
+  AssetIdentifier,
+  CommandOption,
+  QuoteResult,
+} from '../../index'
+import { Executable } from './Executable'
+import { PoolType } from '../models/PoolType'
+import { PricingService } from '../services/PricingService'
+
+// XXX remove this, used only for type-discovery in command options below.
+const Symbol_Testnet_SWP = new AssetIdentifier('00000001', new PublicAccount())
+const Symbol_Testnet_XYM = new AssetIdentifier('00000002', new PublicAccount())
+
+// internal types
+type ZapAmounts = {
+  swap_x: bigint,
+  output_y: bigint,
+  amount_x: bigint,
+  amount_y: bigint,
+  fee_lp: bigint,
+  liquidity: bigint,
+}
+
+/**
+ * @class Swapable.ZapIn
+ * @package Swapable
+ * @subpackage Commands
+ * @since v1.4.0
+ * @description Class that describes a command for adding a single
+ *              asset in automated liquidity pools (i.e. "zap in").
+ * @summary
+ * This automated pool command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | provider | Liquidity provider | `new PublicAccount(...)` |
+ * | input | Amount and asset identifier of the single-sided deposit, e.g. of `x` | `new AssetAmount(...)` |
+ * | output | Asset identifier of the other asset of the pair, e.g. of `y` | `new AssetIdentifier(...)` |
+ * | min_shares | (Optional) Minimum amount of automated pool shares that must be received, or the deposit fails. | `1000` |
+ * | max_price_impact | (Optional) Maximum price impact of the swapped portion in basis points, or the deposit fails. The pool's `Max_Price_Impact` applies too. | `500` |
+ *
+ * A portion of the `input` amount is swapped for the `output` asset
+ * such that the remaining input amount and the output of the swap
+ * match the ratio of reserves *after* the swap. Both amounts are then
+ * added to the pool within the same contract, i.e. the price cannot
+ * move between the swap and the addition of liquidity. Dust that does
+ * not match the ratio of reserves is kept by the provider.
+ *
+ * The execution of this command results in the creation of
+ * the following list of transactions with their respective
+ * *signer* and a description:
+ *
+ * | Sequence | Type | Signer | Description |
+ * | --- | --- | --- | --- |
+ * | 01 | TransferTransaction | Provider Account | Transfers the **swapped portion** of the input currency to the **target** account. |
+ * | 02 | TransferTransaction | Target Account | Transfers the **output** currency of the swap to the **provider** account. The pool's trading fee is deducted from the swapped portion beforehand. |
+ * | 03 | MosaicSupplyChangeTransaction | Target Account | Creates an amount of automated pool shares that is proportional to the amount of liquidity added in the pool. |
+ * | 04 | TransferTransaction | Target Account | Transfers the added automated pool shares to the liquidity provider. |
+ * | 05 | TransferTransaction | Provider Account | Transfers the **added liquidity**, i.e. the remaining input amount and the output of the swap, to the target account. |
+ * | 06 | AccountMetadataTransaction | Target Account | Updates the `K_Last` metadata value of the **target** account, i.e. the value of `k` after this liquidity event. |
+ * | 07 | MosaicSupplyChangeTransaction | Target Account | (Optional) Creates the protocol fee shares, given a protocol fee and a growth of `sqrt(k)` since the last liquidity event. |
+ * | 08 | TransferTransaction | Target Account | (Optional) Transfers the protocol fee shares to the `Fee_To` account. |
+ * | 09 | TransferTransaction | Provider Account | Adds an execution proof message sent to the **target** account. The minimum amount of shares is attached such that cosignatories can enforce it against live reserves. The `ReserveSnapshot` of the synchronized reserves follows. |
+ *
+ */
+export class ZapIn extends Executable {
+  /**
+   * @access public
+   * @description The list of **required** arguments to execute
+   *              *this* automated pool command.
+   */
+  public arguments: string[] = [
+    'provider',
+    'input',
+    'output',
+  ]
+
+  /**
+   * Verifies **allowance** of \a actor to execute a command
+   * with arguments \a argv. This method returns true if all
+   * required arguments are present.
+   *
+   * This method asserts the presence of mandatory arguments.
+   *
+   * Additionally, this method asserts that the pool is a pair
+   * of assets with non-empty reserves, and that the amount of
+   * automated pool shares received is not below the minimum
+   * amount of shares, if present.
+   *
+   * Finally, this method asserts that the swapped portion does not
+   * move the mid price of the pool by more than the maximum price
+   * impact, if present, or by more than the pool's maximum price impact.
+   *
+   * @access public
+   * @param   {PublicAccount}           actor   The actor is whom executes the command.
+   * @param   {Array<CommandOption>}    argv    The command options (arguments).
+   * @return  {AllowanceResult}         Returns whether an actor is authorized to execute this command.
+   * @throws  {FailureMissingArgument}  On missing mandatory argument(s).
+   **/
+  public canExecute(
+    actor: PublicAccount,
+    argv?: CommandOption[]
+  ): AllowanceResult {
+    // - Asserts the presence of mandatory inputs
+    super.assertHasMandatoryArguments(argv, this.arguments)
+
+    // - Reads external arguments to check for amounts
+    const input = this.context.getInput('input', new AssetAmount(Symbol_Testnet_SWP, 10))
+    const output = this.context.getInput('output', Symbol_Testnet_XYM)
+    const min_shares = PricingService.toBigInt(this.context.getInput('min_shares', 0))
+    const max_price_impact = this.context.getInput<number | null>('max_price_impact', null)
+
+    // - Denies invalid maximum price impacts
+    if (max_price_impact !== null && !PricingService.isValidPriceImpact(max_price_impact)) {
+      return new AllowanceResult(false, 'Invalid maximum price impact "' + max_price_impact + '", must be an integer in (0, 10000] basis points.')
+    }
+
+    // - Allows anyone to add liquidity to automated pools
+    //   given a connected command execution (read-only).
+    const isAllowed = !!this.reserveInfo && !!this.mosaicInfo
+      && PricingService.toBigInt(input.amount) > BigInt(0)
+      && this.reserveOf(input.identifier) > BigInt(0)
+      && this.reserveOf(output) > BigInt(0)
+
+    if (!isAllowed) {
+      return new AllowanceResult(false)
+    }
+
+    // - Denies single-sided deposits in multi-asset pools
+    if (!this.isMemberList([ input.identifier, output ])) {
+      return new AllowanceResult(false, 'Single-sided liquidity can only be added to pairs of assets.')
+    }
+
+    // - Denies deposits that result in less than the minimum shares
+    const { swap_x, output_y, liquidity } = this.getZapAmounts(input, output)
+    if (liquidity <= BigInt(0) || liquidity < min_shares) {
+      return new AllowanceResult(false, 'Amount of ' + liquidity
+        + ' shares is below the minimum amount of ' + min_shares + ' shares.')
+    }
+
+    // - Denies swaps that move the mid price by more than the maximum price impact
+    const denial = Executable.denyPriceImpact(
+      this.getPriceImpact(swap_x, output_y, input.identifier, output),
+      this.getMaxPriceImpact(),
+    )
+
+    return denial ?? new AllowanceResult(true)
+  }
+
+  /**
+   * Returns the portion of \a input that is swapped for \a output
+   * such that the remaining input amount and the output of the swap
+   * match the ratio of reserves after the swap. Constant product
+   * pools use a closed formula, other pool types are bisected with
+   * their invariant.
+   *
+   * @access protected
+   * @param   {AssetAmount}       input     The single-sided input amount and asset identifier.
+   * @param   {AssetIdentifier}   output    The asset identifier of the other asset of the pair.
+   * @return  {bigint}            The amount that is swapped.
+   */
+  protected getSwapAmount(
+    input: AssetAmount,
+    output: AssetIdentifier,
+  ): bigint {
+    const amount: bigint = PricingService.toBigInt(input.amount)
+    const reserve_x: bigint = this.reserveOf(input.identifier)
+    const reserve_y: bigint = this.reserveOf(output)
+
+    if (this.poolType === PoolType.ConstantProduct) {
+      return PricingService.getZapSwapAmount(
+        amount,
+        reserve_x,
+        this.feeRate,
+      )
+    }
+
+    // - Finds the largest swap after which the remainder is not short of `x`
+    const one = BigInt(1), two = BigInt(2)
+    let low = BigInt(0), high = amount
+    while (low < high) {
+      const mid = (low + high + one) / two
+      const output_y = this.getAmountOut(mid, input.identifier, output)
+      if ((amount - mid) * (reserve_y - output_y) >= output_y * (reserve_x + mid)) {
+        low = mid
+      }
+      else {
+        high = mid - one
+      }
+    }
+
+    return low
+  }
+
+  /**
+   * Returns the amounts of a single-sided deposit of \a input, i.e.
+   * the swapped portion, the output of the swap, the amounts added
+   * at the ratio of reserves after the swap, the protocol fee shares
+   * and the amount of automated pool shares minted.
+   *
+   * @access protected
+   * @param   {AssetAmount}       input     The single-sided input amount and asset identifier.
+   * @param   {AssetIdentifier}   output    The asset identifier of the other asset of the pair.
+   * @return  {ZapAmounts}
+   */
+  protected getZapAmounts(
+    input: AssetAmount,
+    output: AssetIdentifier,
+  ): ZapAmounts {
+    // - Calculate the swapped portion and the output of the swap
+    const swap_x: bigint = this.getSwapAmount(input, output)
+    const output_y: bigint = this.getAmountOut(swap_x, input.identifier, output)
+
+    // - Reserves after the swap (the trading fee remains in reserves)
+    const reserve_x: bigint = this.reserveOf(input.identifier) + swap_x
+    const reserve_y: bigint = this.reserveOf(output) - output_y
+
+    // - Calculate the protocol fee given the reserves after the swap
+    // :note: Protocol fee shares are minted prior to liquidity shares.
+    const fee_lp: bigint = this.poolInfo === undefined || this.poolInfo.kLast === undefined
+      ? BigInt(0)
+      : PricingService.getProtocolFeeShares(
+        this.getK([ [ input.identifier, reserve_x ], [ output, reserve_y ] ]),
+        this.poolInfo.kLast,
+        this.supplyOf(),
+        this.poolInfo.protocolFee,
+      )
+
+    // - Calculate the amounts added at the ratio of reserves after the swap
+    const [ amount_x, amount_y ] = PricingService.getOptimalAmounts(
+      PricingService.toBigInt(input.amount) - swap_x,
+      output_y,
+      reserve_x,
+      reserve_y,
+    )
+
+    // - Calculate liquidity proportions ("contribution of provider")
+    const liquidity: bigint = PricingService.getLiquidityAmount(
+      amount_x,
+      amount_y,
+      reserve_x,
+      reserve_y,
+      this.supplyOf() + fee_lp,
+    )
+
+    return { swap_x, output_y, amount_x, amount_y, fee_lp, liquidity }
+  }
+
+  /**
+   * Returns a read-only quote for the execution of this command
+   * given the synchronized reserves. The fee, prices and price
+   * impact are those of the swapped portion.
+   *
+   * @access public
+   * @return  {QuoteResult}           The amount of automated pool shares minted, fee paid and prices.
+   * @throws  {FailureEmptyReserve}   Given missing synchronized reserves.
+   **/
+  public quote(): QuoteResult {
+    // - Asserts the presence of synchronized reserves
+    this.assertHasReserves()
+
+    // - Reads external arguments
+    const input = this.context.getInput('input', new AssetAmount(Symbol_Testnet_SWP, 10))
+    const output = this.context.getInput('output', Symbol_Testnet_XYM)
+
+    // - Calculate the single-sided deposit
+    const { swap_x, output_y, liquidity } = this.getZapAmounts(input, output)
+    const feeRate: number = this.feeRate
+
+    // - Calculate the fee and prices of the swapped portion
+    const fee: bigint = PricingService.getFeeAmount(swap_x, feeRate)
+    const midPrice: number = this.getMidPrice(input.identifier, output)
+    const spotOutput: number = Number(swap_x - fee) * midPrice
+
+    return new QuoteResult(
+      [ this.toAssetAmount(input.identifier, input.amount) ],
+      [ this.toAssetAmount(this.identifier, liquidity) ],
+      fee,
+      PricingService.getPrice(output_y, swap_x),
+      midPrice,
+      spotOutput > 0 ? 1 - (Number(output_y) / spotOutput) : 0,
+      liquidity,
+    )
+  }
+
+  // region abstract methods
+  /**
+   * This method returns the automated pool command name,
+   * e.g. "CreatePool" or "AddLiquidity", etc.
+   *
+   * @access public
+   * @return {string}
+   **/
+  public get name(): string {
+    return 'ZapIn'
+  }
+
+  /**
+   * This method MUST return a unique automated pool command
+   * descriptor which includes:
+   *
+   * - the open standard descriptor (e.g.: "Swapable") ;
+   * - the open standard *revision* (e.g.: 1) ;
+   * - the kebab-case command name (e.g.: "create-pool") ;
+   * - and the automated pool shares asset identifier.
+   *
+   * Items are joined with the `:` operator and attached to a
+   * so-called execution proof transaction.
+   *
+   * @access public
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'Swapable(v' + this.context.revision + ')' + ':zap-in:' + this.identifier.id
+  }
+
+  /**
+   * This method returns a list of unsigned transactions in a
+   * sequencial order of execution. The resulting transaction
+   * array is later wrapped inside a digital contract that is
+   * executed atomically such that either all transactions do
+   * succeed or all transactions are cancelled.
+   *
+   * @see {execute()}
+   * @access public
+   * @return  {Transaction[]}   Given the execution of a command, returns a list of unsigned transactions.
+   **/
+  protected get transactions(): Transaction[] {
+
+    // - Reads the execution context
+    const reader = this.context.reader
+
+    // - Reads external arguments
+    const provider = this.context.getInput('provider', new PublicAccount())
+    const input = this.context.getInput('input', new AssetAmount(Symbol_Testnet_SWP, 10))
+    const output = this.context.getInput('output', Symbol_Testnet_XYM)
+    const min_shares = this.context.getInput('min_shares', 0)
+
+    // - Calculate the single-sided deposit
+    const {
+      swap_x,
+      output_y,
+      amount_x,
+      amount_y,
+      fee_lp,
+      liquidity,
+    } = this.getZapAmounts(input, output)
+
+    // - Prepares the response
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // - Transaction 01: Transfers the swapped portion of the input currency to the **target** account.
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [
+        new Mosaic(
+          input.identifier.toMosaicId(),
+          PricingService.toUInt64(swap_x)
+        ),
+      ],
+      EmptyMessage,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 01 is issued by **provider** account
+    signers.push(provider)
+
+    // - Transaction 02: Transfers the **output** currency of the swap to the **provider** account.
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      provider.address,
+      [
+        new Mosaic(
+          output.toMosaicId(),
+          PricingService.toUInt64(output_y)
+        ),
+      ],
+      EmptyMessage,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 02 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 03: MosaicSupplyChangeTransaction
+    // :note: The canExecute() method verifies that `mosaicInfo` is set.
+    transactions.push(MosaicSupplyChangeTransaction.create(
+      this.context.parameters.deadline,
+      this.mosaicInfo?.id!,
+      MosaicSupplyChangeAction.Increase,
+      PricingService.toUInt64(liquidity),
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 03 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 04: Transfers added automated pool shares to liquidity provider
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      provider.address,
+      [
+        new Mosaic(
+          this.identifier.toMosaicId(),
+          PricingService.toUInt64(liquidity)
+        ),
+      ],
+      EmptyMessage,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 04 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transaction 05: Transfers the added liquidity to target account
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [
+        new Mosaic(
+          input.identifier.toMosaicId(),
+          PricingService.toUInt64(amount_x)
+        ),
+        new Mosaic(
+          output.toMosaicId(),
+          PricingService.toUInt64(amount_y)
+        ),
+      ],
+      EmptyMessage,
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 05 is issued by **provider** account
+    signers.push(provider)
+
+    // - Transaction 06: AccountMetadataTransaction updating `K_Last`
+    transactions.push(this.getKLastTransaction(this.getK([
+      [ input.identifier, this.reserveOf(input.identifier) + swap_x + amount_x ],
+      [ output, this.reserveOf(output) - output_y + amount_y ],
+    ])))
+
+    // - Transaction 06 is issued by **target** account
+    signers.push(this.target)
+
+    // - Transactions 07 and 08 are only added given a protocol fee
+    if (fee_lp > BigInt(0)) {
+      // - Transaction 07: MosaicSupplyChangeTransaction for protocol fee shares
+      transactions.push(MosaicSupplyChangeTransaction.create(
+        this.context.parameters.deadline,
+        this.mosaicInfo?.id!,
+        MosaicSupplyChangeAction.Increase,
+        PricingService.toUInt64(fee_lp),
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 07 is issued by **target** account
+      signers.push(this.target)
+
+      // - Transaction 08: Transfers protocol fee shares to the `Fee_To` account
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        this.poolInfo!.feeTo,
+        [
+          new Mosaic(
+            this.identifier.toMosaicId(),
+            PricingService.toUInt64(fee_lp)
+          ),
+        ],
+        EmptyMessage,
+        reader.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // - Transaction 08 is issued by **target** account
+      signers.push(this.target)
+    }
+
+    // - Transaction 07 (or 09): Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [], // no mosaics
+      PlainMessage.create(this.descriptor
+        + ':' + this.mosaicInfo?.id!.toHex()
+        + ':' + input.identifier.toMosaicId().toHex()
+        + ':' + output.toMosaicId().toHex()
+        + ':' + input.amount
+        + ':' + swap_x
+        + ':' + output_y
+        + ':' + liquidity
+        + ':' + min_shares
+        + ':' + this.snapshot.message),
+      reader.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // - Transaction 07 (or 09) is issued by **provider** account ("the actor")
+    signers.push(provider)
+
+    // - Assigns correct signer to each transaction
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
@@ -10,6 +10,10 @@ import { CreatePool as CreatePoolImpl } from './CreatePool'
 import { AddLiquidity as AddLiquidityImpl } from './AddLiquidity'
 import { RemoveLiquidity as RemoveLiquidityImpl } from './RemoveLiquidity'
 import { Swap as SwapImpl } from './Swap'
+import { SwapExactOutput as SwapExactOutputImpl } from './SwapExactOutput'
+import { SwapRoute as SwapRouteImpl } from './SwapRoute'
+import { SwapSplit as SwapSplitImpl } from './SwapSplit'
+import { ZapIn as ZapInImpl } from './ZapIn'
 import { Publish as PublishImpl } from './Publish'
 
 /**
@@ -33,6 +37,18 @@ export namespace PoolCommands {
   // - Exports an alias to the `Swap` command implementation
   export class Swap extends SwapImpl {}
 
+  // - Exports an alias to the `SwapExactOutput` command implementation
+  export class SwapExactOutput extends SwapExactOutputImpl {}
+
+  // - Exports an alias to the `SwapRoute` command implementation
+  export class SwapRoute extends SwapRouteImpl {}
+
+  // - Exports an alias to the `SwapSplit` command implementation
+  export class SwapSplit extends SwapSplitImpl {}
+
+  // - Exports an alias to the `ZapIn` command implementation
+  export class ZapIn extends ZapInImpl {}
+
   // - Exports an alias to the `Publish` command implementation
   export class Publish extends PublishImpl {}
 
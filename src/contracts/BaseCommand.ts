@@ -120,7 +120,8 @@ export abstract class BaseCommand implements Command {
     // check that `actor` is allowed to execute
     const authResult = this.canExecute(actor, argv)
     if (!authResult.status) {
-      throw new FailureOperationForbidden('Operation forbidden (' + this.name + ')')
+      throw new FailureOperationForbidden('Operation forbidden (' + this.name + ')'
+        + (authResult.message ? ': ' + authResult.message : ''))
     }
 
     return true
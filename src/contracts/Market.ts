@@ -15,6 +15,7 @@ import {
   AssetIdentifier,
   CommandOption,
   Reader,
+  SyncReport,
   TransactionParameters,
 } from '../../index'
 
@@ -36,9 +37,9 @@ export interface Market {
    * be used to fetch data required for execution (sometimes optional).
    *
    * @async
-   * @return {Promise<boolean>}
+   * @return {Promise<SyncReport>}
    */
-  synchronize(): Promise<boolean>
+  synchronize(): Promise<SyncReport>
 
   /**
    * Verifies the autorization for \a actor to execute a pool
@@ -6,6 +6,30 @@
  * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
  * @license     LGPL-3.0-only
  */
+import {
+  AccountInfo,
+  Address,
+  Metadata,
+  MetadataSearchCriteria,
+  MosaicId,
+  MosaicInfo,
+  NetworkType,
+  Transaction,
+} from 'symbol-sdk'
+
+/**
+ * @interface Reader
+ * @package Swapable
+ * @subpackage Contracts
+ * @since v1.0.0
+ * @description Interface that describes a blockchain network adapter,
+ *              i.e. the network descriptors that are needed to create
+ *              contracts and the read operations that are needed to
+ *              synchronize automated pools.
+ *
+ * Commands and services depend *only* on this contract, such that
+ * any network can be supported by implementing one adapter.
+ */
 export interface Reader {
 
   /**
@@ -17,4 +41,92 @@ export interface Reader {
    */
   gatewayUrl: string
 
+  /**
+   * @description The network type, e.g. `NetworkType.TEST_NET`.
+   */
+  networkType: NetworkType
+
+  /**
+   * @description The network generation hash, i.e. the hash of the
+   *              first block of the network.
+   */
+  generationHash: string
+
+  /**
+   * @description The network epoch adjustment, in seconds since the
+   *              UNIX epoch.
+   */
+  epochAdjustment: number
+
+  /**
+   * @description The mosaic id of the currency that pays network fees.
+   */
+  feeMosaicId: MosaicId
+
+  /**
+   * Reads the information about the account \a address, including
+   * its balances of mosaics.
+   *
+   * @param   {Address}   address   The address of the account.
+   * @return  {Promise<AccountInfo>}
+   */
+  getAccountInfo(address: Address): Promise<AccountInfo>
+
+  /**
+   * Reads the information about the asset \a mosaicId, e.g. its
+   * supply and its divisibility.
+   *
+   * @param   {MosaicId}  mosaicId  The mosaic id of the asset.
+   * @return  {Promise<MosaicInfo>}
+   */
+  getMosaicInfo(mosaicId: MosaicId): Promise<MosaicInfo>
+
+  /**
+   * Reads the metadata entries that match \a criteria, e.g. all
+   * entries of one mosaic or one entry of an account by key.
+   *
+   * @param   {MetadataSearchCriteria}  criteria  The search criteria.
+   * @return  {Promise<Metadata[]>}
+   */
+  getMetadata(criteria: MetadataSearchCriteria): Promise<Metadata[]>
+
+  /**
+   * Reads the current block height of the network.
+   *
+   * @return  {Promise<number>}
+   */
+  getChainHeight(): Promise<number>
+
+  /**
+   * Reads the timestamp of the block at \a height, in seconds since
+   * the UNIX epoch.
+   *
+   * @param   {number}  height  The block height.
+   * @return  {Promise<number>}
+   */
+  getBlockTimestamp(height: number): Promise<number>
+
+  /**
+   * Searches the confirmed transfers and contracts that involve the
+   * account \a address, starting after the transaction \a offset.
+   * Contracts are returned with their inner transactions.
+   *
+   * @param   {Address}   address   The address of the account.
+   * @param   {string}    offset    (Optional) The identifier of the last transaction already processed.
+   * @return  {Promise<Transaction[]>}
+   */
+  searchTransactions(address: Address, offset?: string): Promise<Transaction[]>
+
+  /**
+   * Reads at most \a count confirmed transfers and contracts that
+   * involve the account \a address, newest first, starting before
+   * the transaction \a offset. Contracts are returned with their
+   * inner transactions.
+   *
+   * @param   {Address}   address   The address of the account.
+   * @param   {number}    count     The maximum number of transactions.
+   * @param   {string}    offset    (Optional) The identifier of the oldest transaction already read.
+   * @return  {Promise<Transaction[]>}
+   */
+  getRecentTransactions(address: Address, count: number, offset?: string): Promise<Transaction[]>
 }
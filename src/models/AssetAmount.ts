@@ -7,6 +7,7 @@
  * @license     LGPL-3.0-only
  */
 import { AssetIdentifier } from './AssetIdentifier'
+import { FailureInvalidAmount } from '../errors/FailureInvalidAmount'
 
 /**
  * @class AssetAmount
@@ -14,13 +15,19 @@ import { AssetIdentifier } from './AssetIdentifier'
  * @subpackage Models
  * @since v1.0.0
  * @description Model that describes an amount of a digital asset.
+ *
+ * The `amount` field always holds an **absolute** amount, i.e. in
+ * atomic units of the digital asset. Relative amounts, e.g. "12.5"
+ * for 12.5 XYM, can be converted with {@link fromRelative()} and
+ * {@link toRelative()} given the divisibility of the asset.
  */
 export class AssetAmount {
   /**
    * Constructor for AssetAmount objects
    *
    * @param {AssetIdentifier} identifier
-   * @param {number}          amount
+   * @param {number|bigint}   amount
+   * @param {number}          divisibility
    */
   public constructor(
     /**
@@ -29,9 +36,147 @@ export class AssetAmount {
     public identifier: AssetIdentifier,
 
     /**
-     * @description The amount
+     * @description The amount (absolute), numbers must be safe integers
      */
-    public amount: number,
+    public amount: number | bigint,
+
+    /**
+     * @description (Optional) The divisibility of the digital asset, i.e.
+     *              the number of decimal places (e.g. `6` for XYM).
+     */
+    public divisibility?: number,
   )
   {}
+
+  /**
+   * Creates an asset amount from a \a relative amount, e.g. "12.5",
+   * given the \a divisibility of the digital asset.
+   *
+   * @static
+   * @access public
+   * @param   {AssetIdentifier}   identifier      The digital asset identifier.
+   * @param   {string|number}     relative        The relative amount (e.g.: "12.5").
+   * @param   {number}            divisibility    The divisibility of the digital asset.
+   * @return  {AssetAmount}       The asset amount with its absolute amount.
+   * @throws  {FailureInvalidAmount}  Given an invalid amount or more decimal places than \a divisibility.
+   */
+  public static fromRelative(
+    identifier: AssetIdentifier,
+    relative: string | number,
+    divisibility: number,
+  ): AssetAmount {
+    AssetAmount.assertValidDivisibility(divisibility)
+
+    // - Numbers are read in their plain decimal notation
+    const value: string = typeof relative === 'number'
+      ? relative.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+      : relative.trim()
+
+    if (! /^\d+(\.\d+)?$/.test(value)) {
+      throw new FailureInvalidAmount('Amount "' + relative + '" is not a valid relative amount.')
+    }
+
+    const [ integer, fraction = '' ] = value.split('.')
+    if (fraction.replace(/0+$/, '').length > divisibility) {
+      throw new FailureInvalidAmount('Amount "' + relative + '" has more than ' + divisibility + ' decimal places.')
+    }
+
+    return new AssetAmount(
+      identifier,
+      BigInt(integer + (fraction + '0'.repeat(divisibility)).substr(0, divisibility)),
+      divisibility,
+    )
+  }
+
+  /**
+   * Returns a copy of this asset amount with \a divisibility.
+   *
+   * @access public
+   * @param   {number}        divisibility    The divisibility of the digital asset.
+   * @return  {AssetAmount}
+   */
+  public withDivisibility(
+    divisibility: number,
+  ): AssetAmount {
+    return new AssetAmount(this.identifier, this.amount, divisibility)
+  }
+
+  /**
+   * Returns the **absolute** amount, i.e. in atomic units.
+   *
+   * @access public
+   * @return  {bigint}
+   * @throws  {FailureInvalidAmount}  Given an unsafe numeric amount.
+   */
+  public toAbsolute(): bigint {
+    if (typeof this.amount === 'number' && !Number.isSafeInteger(this.amount)) {
+      throw new FailureInvalidAmount('Amount "' + this.amount + '" is not a safe integer.')
+    }
+
+    return BigInt(this.amount)
+  }
+
+  /**
+   * Returns the **relative** amount, e.g. "12.5" for an absolute
+   * amount of `12500000` and a divisibility of `6`. Trailing zeros
+   * are removed from the decimal places.
+   *
+   * @access public
+   * @return  {string}
+   * @throws  {FailureInvalidAmount}  Given an unknown divisibility.
+   */
+  public toRelative(): string {
+    if (this.divisibility === undefined) {
+      throw new FailureInvalidAmount('Divisibility of asset "' + this.identifier.id + '" is unknown.')
+    }
+
+    AssetAmount.assertValidDivisibility(this.divisibility)
+
+    const absolute = this.toAbsolute()
+    const sign = absolute < BigInt(0) ? '-' : ''
+    const plain = (sign.length ? -absolute : absolute).toString()
+    const digits = '0'.repeat(Math.max(0, this.divisibility + 1 - plain.length)) + plain
+
+    const integer = digits.substr(0, digits.length - this.divisibility)
+    const fraction = digits.substr(digits.length - this.divisibility).replace(/0+$/, '')
+    return sign + integer + (fraction.length ? '.' + fraction : '')
+  }
+
+  /**
+   * Formats this asset amount for display, e.g. "12.5 XYM". Given
+   * an unknown divisibility, the absolute amount is displayed.
+   *
+   * @access public
+   * @param   {string}  symbol  (Optional) The ticker symbol of the digital asset (defaults to the identifier).
+   * @return  {string}
+   */
+  public format(
+    symbol?: string,
+  ): string {
+    const amount = this.divisibility !== undefined
+      ? this.toRelative()
+      : this.toAbsolute().toString()
+
+    return amount + ' ' + (symbol ?? this.identifier.id)
+  }
+
+  /**
+   * Asserts that \a divisibility is a valid divisibility, i.e. an
+   * integer in the interval `[0, 6]` as per Symbol mosaics.
+   *
+   * @static
+   * @access protected
+   * @param   {number}  divisibility
+   * @return  {boolean}
+   * @throws  {FailureInvalidAmount}  Given an invalid divisibility.
+   */
+  protected static assertValidDivisibility(
+    divisibility: number,
+  ): boolean {
+    if (!Number.isInteger(divisibility) || divisibility < 0 || divisibility > 6) {
+      throw new FailureInvalidAmount('Divisibility "' + divisibility + '" must be an integer between 0 and 6.')
+    }
+
+    return true
+  }
 }
@@ -0,0 +1,125 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { TransferTransaction } from 'symbol-sdk'
+
+/**
+ * @class ExecutionProof
+ * @package Swapable
+ * @subpackage Models
+ * @since v1.4.0
+ * @description Model that describes an execution proof, i.e. the message
+ *              that is attached to the contracts of automated pool commands,
+ *              e.g. `Swapable(v2):swap:<id>:<shares>:<in>:<out>:<min>`.
+ *
+ * Execution proofs of swaps share one layout of values, the automated
+ * pool shares identifier is preceded by the pool identifier for `swap`
+ * and `swap-exact-output` and is the first value of the proofs of each
+ * leg of `swap-route` and `swap-split`:
+ *
+ * | Slot       | Value                                                      |
+ * |------------|------------------------------------------------------------|
+ * | `shares`   | The automated pool shares mosaic id (hexadecimal)          |
+ * | `amountIn` | The input amount (absolute)                                |
+ * | `amountOut`| The output amount (absolute)                               |
+ * | `bound`    | The slippage bound, i.e. `min_output` for `swap`, `swap-route` and `swap-split`, and `max_input` for `swap-exact-output` |
+ * | `input`    | The input mosaic id (hexadecimal)                          |
+ * | `output`   | The output mosaic id (hexadecimal)                         |
+ * | `feeRate`  | The trading fee rate (in basis points)                     |
+ * | snapshot   | The reserve snapshot, i.e. `height:validUntil:checksum`    |
+ *
+ * The `bound` slot must thereby be interpreted with the command name.
+ */
+export class ExecutionProof {
+  /**
+   * Constructor for ExecutionProof objects
+   *
+   * @param {number}    revision
+   * @param {string}    command
+   * @param {string[]}  args
+   * @param {number}    height
+   */
+  public constructor(
+    /**
+     * @description The open standard revision (e.g.: 2)
+     */
+    public revision: number,
+
+    /**
+     * @description The kebab-case command name (e.g.: "swap")
+     */
+    public command: string,
+
+    /**
+     * @description The values that follow the command name, in order
+     */
+    public args: string[],
+
+    /**
+     * @description The block height at which the proof was confirmed, or `0`
+     */
+    public height: number = 0,
+  )
+  {}
+
+  /**
+   * Getter for the execution proof message.
+   *
+   * @return {string}
+   */
+  public get message(): string {
+    return [ 'Swapable(v' + this.revision + ')', this.command ]
+      .concat(this.args)
+      .join(':')
+  }
+
+  /**
+   * Creates an execution proof from a \a message, e.g. the message
+   * of a transfer transaction sent to the target of a pool.
+   *
+   * @static
+   * @access public
+   * @param   {string}    message   The execution proof message.
+   * @param   {number}    height    (Optional) The block height of the proof.
+   * @return  {ExecutionProof|undefined}  The execution proof, or `undefined` given a different message.
+   */
+  public static fromMessage(
+    message: string,
+    height: number = 0,
+  ): ExecutionProof | undefined {
+    const matches = message.match(/^Swapable\(v([0-9]+)\):([a-z-]+)(:.*)?$/)
+    if (matches === null) {
+      return undefined
+    }
+
+    return new ExecutionProof(
+      parseInt(matches[1], 10),
+      matches[2],
+      matches[3] === undefined ? [] : matches[3].substr(1).split(':'),
+      height,
+    )
+  }
+
+  /**
+   * Creates an execution proof from a confirmed \a transfer.
+   *
+   * @static
+   * @access public
+   * @param   {TransferTransaction}   transfer  The transfer transaction.
+   * @return  {ExecutionProof|undefined}  The execution proof, or `undefined` given a different message.
+   */
+  public static fromTransfer(
+    transfer: TransferTransaction,
+  ): ExecutionProof | undefined {
+    const height = transfer.transactionInfo?.height
+    return ExecutionProof.fromMessage(
+      transfer.message.payload,
+      height === undefined ? 0 : height.compact(),
+    )
+  }
+}
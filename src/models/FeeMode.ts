@@ -0,0 +1,33 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+
+/**
+ * @enum FeeMode
+ * @package Swapable
+ * @subpackage Models
+ * @since v1.4.0
+ * @description Enumeration of the modes with which the trading fee rate
+ *              of automated liquidity pools is determined. The fee mode
+ *              is stored in the `Fee_Mode` metadata of automated pool
+ *              shares.
+ */
+export enum FeeMode {
+  /**
+   * @description The trading fee rate is the `Fee_Rate` metadata value
+   *              and does not change.
+   */
+  Fixed = 'fixed',
+
+  /**
+   * @description The trading fee rate follows the realized volatility
+   *              of recent swaps, bounded by the `Min_Fee_Rate` and the
+   *              `Max_Fee_Rate` metadata values.
+   */
+  Dynamic = 'dynamic',
+}
@@ -0,0 +1,158 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { MosaicId, NetworkType } from 'symbol-sdk'
+
+// internal dependencies
+import { FailureUnknownNetwork } from '../errors/FailureUnknownNetwork'
+
+/**
+ * @class NetworkPreset
+ * @package Swapable
+ * @subpackage Models
+ * @since v1.4.0
+ * @description Model that describes a named blockchain network, i.e.
+ *              the network descriptors that are needed to construct
+ *              a network adapter and the default nodes of the network.
+ *
+ * Presets are registered by name in {@link NetworkPreset.PRESETS}, e.g.
+ * `symbol-mainnet`, `symbol-testnet` or `dhealth-mainnet`, and can be
+ * found by generation hash to auto-detect the network of a node.
+ */
+export class NetworkPreset {
+  /**
+   * Constructor for NetworkPreset objects
+   *
+   * @param {string}      name
+   * @param {NetworkType} networkType
+   * @param {string}      generationHash
+   * @param {number}      epochAdjustment
+   * @param {MosaicId}    feeMosaicId
+   * @param {number}      divisibility
+   * @param {string[]}    nodes
+   */
+  public constructor(
+    /**
+     * @description The name of the preset, e.g. `symbol-mainnet`
+     */
+    public readonly name: string,
+
+    /**
+     * @description The network type
+     */
+    public readonly networkType: NetworkType,
+
+    /**
+     * @description The network generation hash
+     */
+    public readonly generationHash: string,
+
+    /**
+     * @description The network epoch adjustment, in seconds since the UNIX epoch
+     */
+    public readonly epochAdjustment: number,
+
+    /**
+     * @description The mosaic id of the network currency, i.e. that pays network fees
+     */
+    public readonly feeMosaicId: MosaicId,
+
+    /**
+     * @description The divisibility of the network currency
+     */
+    public readonly divisibility: number,
+
+    /**
+     * @description The default node URLs of the network, the first one is preferred
+     */
+    public readonly nodes: string[],
+  )
+  {}
+
+  /**
+   * The registry of named network presets.
+   *
+   * @var {NetworkPreset[]}
+   */
+  public static readonly PRESETS: NetworkPreset[] = [
+    new NetworkPreset(
+      'symbol-mainnet',
+      NetworkType.MAIN_NET,
+      '57F7DA205008026C776CB6AED843393F04CD458E0AA2D9F1D5F31A402072B2D6',
+      1615853185,
+      new MosaicId('6BED913FA20223F8'),
+      6,
+      [
+        'http://ngl-dual-101.symbolblockchain.io:3000',
+        'http://ngl-dual-201.symbolblockchain.io:3000',
+      ],
+    ),
+    new NetworkPreset(
+      'symbol-testnet',
+      NetworkType.TEST_NET,
+      '49D6E1CE276A85B70EAFE52349AACCA389302E7A9754BCF1221E79494FC665A4',
+      1667250467,
+      new MosaicId('72C0212E67A08BCE'),
+      6,
+      [
+        'http://sym-test-01.opening-line.jp:3000',
+        'http://sym-test-03.opening-line.jp:3000',
+      ],
+    ),
+    new NetworkPreset(
+      'dhealth-mainnet',
+      NetworkType.MAIN_NET,
+      'ED5761EA890A096C50D3F50B7C2F0CCB4B84AFC9EA870F381E84DDE36D04EF16',
+      1616978397,
+      new MosaicId('39E0C49FA322A459'),
+      6,
+      [
+        'http://dual-01.dhealth.cloud:3000',
+        'http://dual-02.dhealth.cloud:3000',
+      ],
+    ),
+  ]
+
+  /**
+   * Returns the network preset with name \a name.
+   *
+   * @static
+   * @access public
+   * @param   {string}  name    The name of the preset, e.g. `dhealth-mainnet`.
+   * @return  {NetworkPreset}
+   * @throws  {FailureUnknownNetwork}   Given an unknown preset name.
+   */
+  public static get(
+    name: string,
+  ): NetworkPreset {
+    const preset = NetworkPreset.PRESETS.find(p => p.name === name)
+    if (preset === undefined) {
+      throw new FailureUnknownNetwork('Network preset "' + name + '" does not exist, '
+        + 'available presets are: ' + NetworkPreset.PRESETS.map(p => p.name).join(', ') + '.')
+    }
+
+    return preset
+  }
+
+  /**
+   * Returns the network preset of which the generation hash
+   * is \a generationHash, i.e. the network of a node.
+   *
+   * @static
+   * @access public
+   * @param   {string}  generationHash    The network generation hash (case insensitive).
+   * @return  {NetworkPreset|undefined}   The preset, or `undefined` given an unknown network.
+   */
+  public static find(
+    generationHash: string,
+  ): NetworkPreset | undefined {
+    return NetworkPreset.PRESETS.find(
+      p => p.generationHash === generationHash.toUpperCase()
+    )
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+
+/**
+ * @enum PoolType
+ * @package Swapable
+ * @subpackage Models
+ * @since v1.4.0
+ * @description Enumeration of the invariants that automated liquidity
+ *              pools can be created with. The pool type is stored in
+ *              the `Pool_Type` metadata of automated pool shares.
+ */
+export enum PoolType {
+  /**
+   * @description The constant product invariant `x * y = k`, suited
+   *              for pairs of assets with uncorrelated prices.
+   */
+  ConstantProduct = 'constant-product',
+
+  /**
+   * @description The StableSwap invariant with an amplification
+   *              coefficient, suited for pairs of pegged assets.
+   */
+  StableSwap = 'stable-swap',
+
+  /**
+   * @description The weighted invariant `x^wx * y^wy = k`, suited for
+   *              pairs with unequal exposure, e.g. 80/20 pairs.
+   */
+  Weighted = 'weighted',
+}
@@ -0,0 +1,69 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { AssetAmount } from './AssetAmount'
+
+/**
+ * @class QuoteResult
+ * @package Swapable
+ * @subpackage Models
+ * @since v1.4.0
+ * @description Model that describes the result of a read-only quote of an
+ *              automated pool command. Prices are expressed in amount of
+ *              the second asset per unit of the first asset of a pair.
+ */
+export class QuoteResult {
+  /**
+   * Constructor for QuoteResult objects
+   *
+   * @param {AssetAmount[]} inputs
+   * @param {AssetAmount[]} outputs
+   * @param {bigint}        fee
+   * @param {number}        executionPrice
+   * @param {number}        midPrice
+   * @param {number}        priceImpact
+   * @param {bigint}        shares
+   */
+  public constructor(
+    /**
+     * @description The amounts that are sent to the automated pool
+     */
+    public inputs: AssetAmount[],
+
+    /**
+     * @description The amounts that are received from the automated pool
+     */
+    public outputs: AssetAmount[],
+
+    /**
+     * @description The fee paid, in units of the first input asset
+     */
+    public fee: bigint,
+
+    /**
+     * @description The effective price of the execution
+     */
+    public executionPrice: number,
+
+    /**
+     * @description The price given current reserves
+     */
+    public midPrice: number,
+
+    /**
+     * @description The price impact, excluding fees (e.g. `0.01` for 1%)
+     */
+    public priceImpact: number,
+
+    /**
+     * @description The amount of automated pool shares minted or burned
+     */
+    public shares: bigint = BigInt(0),
+  )
+  {}
+}
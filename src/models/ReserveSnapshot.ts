@@ -0,0 +1,169 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import {
+  Convert,
+  Mosaic,
+  MosaicId,
+  SHA3Hasher,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { ExecutionProof } from './ExecutionProof'
+
+/**
+ * @class ReserveSnapshot
+ * @package Swapable
+ * @subpackage Models
+ * @since v1.4.0
+ * @description Model that describes the state of the reserves of an
+ *              automated pool at the time a contract was created, i.e.
+ *              the block height of `synchronize()`, the last block height
+ *              at which the contract is valid and a checksum of reserves.
+ *
+ * Snapshots are attached to execution proofs as the last three values,
+ * e.g. `Swapable(v2):swap:<id>:...:<height>:<valid_until>:<checksum>`,
+ * such that cosignatories can reject contracts that are too old or of
+ * which the reserves have changed in the meantime.
+ */
+export class ReserveSnapshot {
+  /**
+   * The default number of blocks during which a contract is valid
+   * after the snapshot of reserves, i.e. 2 hours with 30s blocks.
+   *
+   * @var {number}
+   */
+  public static readonly DEFAULT_VALIDITY: number = 240
+
+  /**
+   * Constructor for ReserveSnapshot objects
+   *
+   * @param {number}  height
+   * @param {number}  validUntil
+   * @param {string}  checksum
+   */
+  public constructor(
+    /**
+     * @description The block height at which reserves were read, or `0`
+     */
+    public height: number,
+
+    /**
+     * @description The last block height at which the contract is valid, or `0` for no bound
+     */
+    public validUntil: number,
+
+    /**
+     * @description The checksum of reserves (8 hexadecimal characters)
+     */
+    public checksum: string,
+  )
+  {}
+
+  /**
+   * Getter for the execution proof values of this snapshot.
+   *
+   * @return {string}
+   */
+  public get message(): string {
+    return [ this.height, this.validUntil, this.checksum ].join(':')
+  }
+
+  /**
+   * Returns whether the contract is expired at block \a height.
+   *
+   * @access public
+   * @param   {number}    height    The current block height.
+   * @return  {boolean}
+   */
+  public isExpired(
+    height: number,
+  ): boolean {
+    return this.validUntil > 0 && height > this.validUntil
+  }
+
+  /**
+   * Creates a snapshot of \a reserves that are read at block
+   * \a height and valid during \a validity blocks. Given an
+   * unknown height (`0`), the snapshot is not bounded.
+   *
+   * @static
+   * @access public
+   * @param   {number}      height      The block height at which reserves were read.
+   * @param   {number}      validity    The number of blocks during which the contract is valid.
+   * @param   {Mosaic[]}    reserves    The reserves of the automated pool.
+   * @param   {MosaicId[]}  members     (Optional) The mosaics to include, defaults to all.
+   * @return  {ReserveSnapshot}
+   */
+  public static create(
+    height: number,
+    validity: number,
+    reserves: Mosaic[],
+    members?: MosaicId[],
+  ): ReserveSnapshot {
+    return new ReserveSnapshot(
+      height,
+      height > 0 ? height + validity : 0,
+      ReserveSnapshot.getChecksum(reserves, members),
+    )
+  }
+
+  /**
+   * Reads the snapshot of reserves that is attached to an
+   * execution \a proof, i.e. its last three values.
+   *
+   * @static
+   * @access public
+   * @param   {ExecutionProof}  proof   The execution proof.
+   * @return  {ReserveSnapshot|undefined}   The snapshot, or `undefined` given a proof without snapshot.
+   */
+  public static fromProof(
+    proof: ExecutionProof,
+  ): ReserveSnapshot | undefined {
+    const [ height, validUntil, checksum ] = proof.args.slice(-3)
+    if (proof.args.length < 3
+      || !/^[0-9]+$/.test(height)
+      || !/^[0-9]+$/.test(validUntil)
+      || !/^[0-9A-F]{8}$/.test(checksum)
+    ) {
+      return undefined
+    }
+
+    return new ReserveSnapshot(
+      parseInt(height, 10),
+      parseInt(validUntil, 10),
+      checksum,
+    )
+  }
+
+  /**
+   * Returns the checksum of \a reserves, i.e. the 4 left-most bytes
+   * of the sha3-256 hash of amounts sorted by mosaic id. The order of
+   * \a reserves does not change the checksum.
+   *
+   * @static
+   * @access public
+   * @param   {Mosaic[]}    reserves    The reserves of the automated pool.
+   * @param   {MosaicId[]}  members     (Optional) The mosaics to include, defaults to all.
+   * @return  {string}
+   */
+  public static getChecksum(
+    reserves: Mosaic[],
+    members?: MosaicId[],
+  ): string {
+    const data = reserves.filter(
+      r => members === undefined || members.some(m => m.equals(r.id))
+    ).map(
+      r => r.id.toHex() + '=' + r.amount.toString()
+    ).sort().join(',')
+
+    const hash = new Uint8Array(32)
+    SHA3Hasher.func(hash, Convert.utf8ToUint8(data), 32)
+    return Convert.uint8ToHex(hash.slice(0, 4))
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+
+/**
+ * @type SyncField
+ * @package Swapable
+ * @subpackage Models
+ * @since v1.4.0
+ * @description Type that describes the network information that is
+ *              read with `synchronize()`.
+ */
+export type SyncField = 'height' | 'mosaicInfo' | 'reserveInfo' | 'poolInfo' | 'assetInfos' | 'actorInfo'
+
+/**
+ * @class SyncReport
+ * @package Swapable
+ * @subpackage Models
+ * @since v1.4.0
+ * @description Model that describes the result of `synchronize()`,
+ *              i.e. the network information that was read, the node
+ *              from which it was read and the block height, as well
+ *              as the errors of network information that could not
+ *              be read.
+ */
+export class SyncReport {
+  /**
+   * Constructor for SyncReport objects
+   *
+   * @param {string}      gatewayUrl
+   * @param {number}      height
+   * @param {SyncField[]} fetched
+   * @param {object}      errors
+   */
+  public constructor(
+    /**
+     * @description The endpoint URL of the node that was read
+     */
+    public gatewayUrl: string,
+
+    /**
+     * @description The block height at which the information was read, or `0`
+     */
+    public height: number = 0,
+
+    /**
+     * @description The network information that was read
+     */
+    public fetched: SyncField[] = [],
+
+    /**
+     * @description The error messages of network information that could not be read
+     */
+    public errors: { [field: string]: string } = {},
+  )
+  {}
+
+  /**
+   * Getter for whether all network information was read.
+   *
+   * @return {boolean}
+   */
+  public get isComplete(): boolean {
+    return Object.keys(this.errors).length === 0
+  }
+
+  /**
+   * Returns whether the network information \a field was read.
+   *
+   * @access public
+   * @param   {SyncField}   field   The network information, e.g. `reserveInfo`.
+   * @return  {boolean}
+   */
+  public has(
+    field: SyncField,
+  ): boolean {
+    return this.fetched.includes(field)
+  }
+
+  /**
+   * Reads the network information \a field with \a read and
+   * records whether it was read. Errors are recorded in this
+   * report instead of being thrown.
+   *
+   * @async
+   * @access public
+   * @param   {SyncField}         field   The network information, e.g. `reserveInfo`.
+   * @param   {() => Promise<T>}  read    The read operation.
+   * @return  {Promise<T|undefined>}  The network information, or `undefined` given an error.
+   */
+  public async fetch<T>(
+    field: SyncField,
+    read: () => Promise<T>,
+  ): Promise<T | undefined> {
+    try {
+      const value = await read()
+      this.fetched.push(field)
+      return value
+    }
+    catch (e) {
+      this.errors[field] = e instanceof Error ? e.message : String(e)
+      return undefined
+    }
+  }
+}
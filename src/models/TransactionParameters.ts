@@ -11,6 +11,9 @@ import {
   UInt64,
 } from 'symbol-sdk'
 
+// internal dependencies
+import { ReserveSnapshot } from './ReserveSnapshot'
+
 /**
  * @class TransactionParameters
  * @package Swapable
@@ -29,6 +32,7 @@ export class TransactionParameters {
    *
    * @param {Deadline}            Deadline
    * @param {UInt64|undefined}    maxFee
+   * @param {number}              validity
    */
   public constructor(
     /**
@@ -46,6 +50,11 @@ export class TransactionParameters {
      */
     public maxFeeInt?: number,
 
+    /**
+     * @description The number of blocks during which contracts are valid after the snapshot of reserves
+     */
+    public validity: number = ReserveSnapshot.DEFAULT_VALIDITY,
+
   ) {
     if (this.maxFeeInt !== undefined) {
       this.maxFee = UInt64.fromUint(this.maxFeeInt)
@@ -0,0 +1,557 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import {
+  Address,
+  AggregateTransaction,
+  MosaicId,
+  MosaicSupplyChangeAction,
+  MosaicSupplyChangeTransaction,
+  PublicAccount,
+  Transaction,
+  TransactionType,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { Service } from '../contracts/Service'
+import { ExecutionProof } from '../models/ExecutionProof'
+import { PoolType } from '../models/PoolType'
+import { OracleService } from './OracleService'
+import { PoolInfo, PoolService } from './PoolService'
+import { StableSwapService } from './StableSwapService'
+import { TransactionService } from './TransactionService'
+import { WeightedMathService } from './WeightedMathService'
+import { Reader } from '../contracts/Reader'
+
+/**
+ * @type PoolState
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes the state of a pool after one
+ *              replayed execution proof.
+ */
+export type PoolState = {
+  /**
+   * The block height of the last replayed execution proof.
+   *
+   * @var {number}
+   */
+  height: number,
+
+  /**
+   * The reserves of the pool, in the order of its member mosaics.
+   *
+   * @var {bigint[]}
+   */
+  reserves: bigint[],
+
+  /**
+   * The total supply of automated pool shares.
+   *
+   * @var {bigint}
+   */
+  supply: bigint,
+
+  /**
+   * The value of `k` for the reserves, or its equivalent for pools
+   * that are not constant product pools.
+   *
+   * @var {bigint}
+   */
+  k: bigint,
+}
+
+/**
+ * @type PoolEvent
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes one replayed execution proof and the
+ *              state of the pool after its execution.
+ */
+export type PoolEvent = {
+  /**
+   * The kebab-case command name of the proof, e.g. `add-liquidity`.
+   *
+   * @var {string}
+   */
+  command: string,
+
+  /**
+   * The block height of the proof.
+   *
+   * @var {number}
+   */
+  height: number,
+
+  /**
+   * The hash of the contract that holds the proof.
+   *
+   * @var {string|undefined}
+   */
+  hash: string | undefined,
+
+  /**
+   * The account that executed the command, i.e. the provider of
+   * liquidity events or the trader of swaps.
+   *
+   * @var {Address|undefined}
+   */
+  actor: Address | undefined,
+
+  /**
+   * The changes of reserves, in the order of member mosaics.
+   *
+   * @var {bigint[]}
+   */
+  reserveChanges: bigint[],
+
+  /**
+   * The change of the total supply of automated pool shares.
+   *
+   * @var {bigint}
+   */
+  supplyChange: bigint,
+
+  /**
+   * The state of the pool after this event.
+   *
+   * @var {PoolState}
+   */
+  state: PoolState,
+}
+
+/**
+ * @type PoolContract
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes one contract that holds an execution
+ *              proof of a pool and the changes that result from it.
+ */
+export type PoolContract = {
+  /**
+   * The execution proof of the pool.
+   *
+   * @var {ExecutionProof}
+   */
+  proof: ExecutionProof,
+
+  /**
+   * The account that sent the execution proof.
+   *
+   * @var {Address|undefined}
+   */
+  actor: Address | undefined,
+
+  /**
+   * The changes of reserves, in the order of member mosaics.
+   *
+   * @var {bigint[]}
+   */
+  reserveChanges: bigint[],
+
+  /**
+   * The change of the total supply of automated pool shares.
+   *
+   * @var {bigint}
+   */
+  supplyChange: bigint,
+}
+
+/**
+ * @type PoolTimeline
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes the history of a pool as replayed
+ *              from execution proofs. Timelines are passed back to
+ *              `sync()` to resume from their `cursor`.
+ */
+export type PoolTimeline = {
+  /**
+   * The liquidity pool information.
+   *
+   * @var {PoolInfo}
+   */
+  info: PoolInfo,
+
+  /**
+   * The identifier of the last processed transaction, or `undefined`
+   * given a timeline that was never synchronized.
+   *
+   * @var {string|undefined}
+   */
+  cursor: string | undefined,
+
+  /**
+   * The current state of the pool.
+   *
+   * @var {PoolState}
+   */
+  state: PoolState,
+
+  /**
+   * The replayed events, sorted by block height.
+   *
+   * @var {PoolEvent[]}
+   */
+  events: PoolEvent[],
+}
+
+/**
+ * @class IndexerService
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Class that describes a service that indexes the state of
+ *              liquidity pools by replaying the execution proofs that
+ *              are sent to their target account, i.e. `create-pool`,
+ *              `add-liquidity`, `remove-liquidity`, `zap-in` and swaps.
+ *
+ * Only contracts that the target account signed or cosigned are
+ * replayed, such that execution proofs cannot be forged by other
+ * accounts. Changes of reserves are read from the transfers of member
+ * mosaics to and from the target account in the contract that holds
+ * an execution proof, rather than from the values of the proof itself.
+ * Changes of the supply of automated pool shares are read from the
+ * supply changes of the same contract, including the shares that are
+ * minted as protocol fees.
+ */
+export class IndexerService extends Service {
+  /**
+   * The kebab-case command names of liquidity events.
+   *
+   * @var {string[]}
+   */
+  public static readonly LIQUIDITY_COMMANDS: string[] = [
+    'create-pool',
+    'add-liquidity',
+    'remove-liquidity',
+    'zap-in',
+  ]
+
+  /**
+   * Getter method for networkReader.
+   *
+   * @access protected
+   * @var {Reader}
+   */
+  protected get networkReader(): Reader {
+    return this.context.reader
+  }
+
+  /**
+   * Helper function to synchronize the timeline of a liquidity pool
+   * that is hosted by \a target, given its automated pool shares
+   * mosaic \a lpSharesMosaic. Given a previous \a timeline, only the
+   * transactions that follow its cursor are replayed.
+   *
+   * @async
+   * @access public
+   * @param   {PublicAccount|Address}   target            The target account of the pool.
+   * @param   {MosaicId}                lpSharesMosaic    The mosaic id of liquidity provider shares.
+   * @param   {PoolTimeline}            timeline          (Optional) The timeline to resume from.
+   * @return  {Promise<PoolTimeline>}   The updated timeline.
+   */
+  public async sync(
+    target: PublicAccount | Address,
+    lpSharesMosaic: MosaicId,
+    timeline?: PoolTimeline,
+  ): Promise<PoolTimeline> {
+    const targetAddress = target instanceof PublicAccount
+      ? target.address
+      : target as Address
+
+    // read the pool configuration once, e.g. its members and its type
+    const current: PoolTimeline = timeline !== undefined ? timeline : {
+      info: await new PoolService(this.context).getInfo(targetAddress, lpSharesMosaic),
+      cursor: undefined,
+      state: { height: 0, reserves: [], supply: BigInt(0), k: BigInt(0) },
+      events: [],
+    }
+
+    // read the contracts that follow the cursor
+    const transactions: Transaction[] = await this.networkReader.searchTransactions(
+      targetAddress,
+      current.cursor,
+    )
+
+    return IndexerService.replay(current, transactions)
+  }
+
+  /**
+   * @function Swapable.IndexerService.replay()
+   * @static
+   * @access public
+   * @description Helper function to replay the execution proofs of
+   *              \a transactions onto \a timeline. Transactions of
+   *              other pools, transactions that are not signed by the
+   *              target account and the transaction at the cursor of
+   *              \a timeline are ignored.
+   *
+   * @param   {PoolTimeline}    timeline        The timeline to resume from.
+   * @param   {Transaction[]}   transactions    The transactions that follow the cursor.
+   * @return  {PoolTimeline}    The updated timeline.
+   */
+  public static replay(
+    timeline: PoolTimeline,
+    transactions: Transaction[],
+  ): PoolTimeline {
+    const sorted = transactions.filter(
+      t => t.transactionInfo?.id !== timeline.cursor
+    ).sort(
+      (a, b) => IndexerService.heightOf(a) - IndexerService.heightOf(b)
+    )
+
+    let state = timeline.state
+    const events: PoolEvent[] = timeline.events.slice()
+    sorted.forEach((transaction) => {
+      const contract = IndexerService.readContract(timeline.info, transaction)
+      if (contract === undefined) {
+        return
+      }
+
+      const reserves = timeline.info.mosaics.map(
+        (_, i) => (state.reserves[i] ?? BigInt(0)) + contract.reserveChanges[i]
+      )
+
+      state = {
+        height: contract.proof.height,
+        reserves,
+        supply: state.supply + contract.supplyChange,
+        k: IndexerService.getK(timeline.info, reserves),
+      }
+
+      events.push({
+        command: contract.proof.command,
+        height: contract.proof.height,
+        hash: TransactionService.getTransactionHash(transaction),
+        actor: contract.actor,
+        reserveChanges: contract.reserveChanges,
+        supplyChange: contract.supplyChange,
+        state,
+      })
+    })
+
+    return {
+      info: timeline.info,
+      cursor: sorted.length
+        ? sorted[sorted.length - 1].transactionInfo?.id
+        : timeline.cursor,
+      state,
+      events,
+    }
+  }
+
+  /**
+   * @function Swapable.IndexerService.readContract()
+   * @static
+   * @access public
+   * @description Helper function to read the execution proof of the
+   *              pool \a info that is held by \a transaction, e.g. a
+   *              contract, and the changes that result from it. Given
+   *              more than one proof, the first proof of the pool is
+   *              read such that reserves change once per contract.
+   *
+   * @param   {PoolInfo}      info          The liquidity pool information.
+   * @param   {Transaction}   transaction   The transaction, e.g. a contract.
+   * @return  {PoolContract|undefined}  The contract, or `undefined` given no proof of the pool or a transaction that the target account did not sign.
+   */
+  public static readContract(
+    info: PoolInfo,
+    transaction: Transaction,
+  ): PoolContract | undefined {
+    const targetAddress = info.target.address
+    if (!TransactionService.filterSignedTransactions([ transaction ], targetAddress).length) {
+      return undefined
+    }
+
+    const inner: Transaction[] = transaction instanceof AggregateTransaction
+      ? transaction.innerTransactions
+      : [ transaction ]
+
+    for (const proofTx of TransactionService.filterElligibleIncomingTransfers(inner, targetAddress)) {
+      const proof = ExecutionProof.fromMessage(proofTx.message.payload, IndexerService.heightOf(transaction))
+      const changes = proof === undefined
+        ? undefined
+        : IndexerService.getReserveChanges(info, proof, inner)
+
+      if (proof !== undefined && changes !== undefined) {
+        return {
+          proof,
+          actor: proofTx.signer?.address,
+          reserveChanges: changes,
+          supplyChange: IndexerService.getSupplyChange(info, inner),
+        }
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * @function Swapable.IndexerService.getProviderEvents()
+   * @static
+   * @access public
+   * @description Helper function to read the liquidity events of one
+   *              \a provider from \a timeline, i.e. its `create-pool`,
+   *              `add-liquidity`, `remove-liquidity` and `zap-in` events.
+   *
+   * @param   {PoolTimeline}    timeline    The timeline of the pool.
+   * @param   {Address}         provider    The address of the liquidity provider.
+   * @return  {PoolEvent[]}
+   */
+  public static getProviderEvents(
+    timeline: PoolTimeline,
+    provider: Address,
+  ): PoolEvent[] {
+    return timeline.events.filter(
+      e => IndexerService.LIQUIDITY_COMMANDS.includes(e.command)
+        && e.actor !== undefined
+        && e.actor.equals(provider)
+    )
+  }
+
+  /**
+   * @function Swapable.IndexerService.getReserveChanges()
+   * @static
+   * @access public
+   * @description Helper function to read the changes of reserves of
+   *              the pool \a info that result from the \a contract
+   *              which holds an execution \a proof, in the order of
+   *              member mosaics, i.e. the transfers of members to and
+   *              from the target account of the pool.
+   *
+   * @param   {PoolInfo}          info        The liquidity pool information.
+   * @param   {ExecutionProof}    proof       The execution proof.
+   * @param   {Transaction[]}     contract    The transactions of the contract that holds the proof.
+   * @return  {bigint[]|undefined}  The changes, or `undefined` given a proof of another pool or command.
+   */
+  public static getReserveChanges(
+    info: PoolInfo,
+    proof: ExecutionProof,
+    contract: Transaction[],
+  ): bigint[] | undefined {
+    // swap commands attach the shares at an offset, pool commands
+    // attach the pool identifier first
+    // :note: Proofs created prior to v1.4.0 do not attach mosaics.
+    const swapOffset = OracleService.SWAP_COMMANDS[proof.command]
+    const shares = swapOffset !== undefined
+      ? proof.args[swapOffset]
+      : IndexerService.LIQUIDITY_COMMANDS.includes(proof.command) ? proof.args[1] : undefined
+
+    if (shares !== info.pMosaic.toHex()) {
+      return undefined
+    }
+
+    // reserves change with the transfers to and from the target account
+    const members = info.mosaics.map(m => m.toHex())
+    const changes = members.map(() => BigInt(0))
+    TransactionService.filterTransferTransactions(contract).forEach((transfer) => {
+      const isIncoming = transfer.recipientAddress instanceof Address
+        && transfer.recipientAddress.equals(info.target.address)
+      const isOutgoing = transfer.signer !== undefined
+        && transfer.signer.address.equals(info.target.address)
+
+      // :note: Transfers of the target account to itself do not change reserves.
+      if (isIncoming === isOutgoing) {
+        return
+      }
+
+      transfer.mosaics.forEach((mosaic) => {
+        const i = members.indexOf(mosaic.id.toHex())
+        if (i !== -1) {
+          changes[i] += BigInt(mosaic.amount.toString()) * BigInt(isIncoming ? 1 : -1)
+        }
+      })
+    })
+
+    return changes
+  }
+
+  /**
+   * @function Swapable.IndexerService.getSupplyChange()
+   * @static
+   * @access public
+   * @description Helper function to read the change of the supply of
+   *              automated pool shares of the pool \a info from the
+   *              supply changes of a \a contract.
+   *
+   * @param   {PoolInfo}          info        The liquidity pool information.
+   * @param   {Transaction[]}     contract    The transactions of the contract.
+   * @return  {bigint}
+   */
+  public static getSupplyChange(
+    info: PoolInfo,
+    contract: Transaction[],
+  ): bigint {
+    return contract.filter(
+      t => t.type === TransactionType.MOSAIC_SUPPLY_CHANGE
+    ).map(
+      t => t as MosaicSupplyChangeTransaction
+    ).filter(
+      t => t.mosaicId.toHex() === info.pMosaic.toHex()
+    ).reduce(
+      (sum, t) => t.action === MosaicSupplyChangeAction.Increase
+        ? sum + BigInt(t.delta.toString())
+        : sum - BigInt(t.delta.toString()),
+      BigInt(0),
+    )
+  }
+
+  /**
+   * @function Swapable.IndexerService.getK()
+   * @static
+   * @access public
+   * @description Helper function to calculate the value of `k` of the
+   *              pool \a info given its \a reserves, or its equivalent
+   *              for StableSwap and weighted pools.
+   *
+   * @param   {PoolInfo}    info        The liquidity pool information.
+   * @param   {bigint[]}    reserves    The reserves, in the order of member mosaics.
+   * @return  {bigint}
+   */
+  public static getK(
+    info: PoolInfo,
+    reserves: bigint[],
+  ): bigint {
+    if (reserves.some(r => r <= BigInt(0))) {
+      return BigInt(0)
+    }
+
+    switch (info.poolType) {
+      case PoolType.StableSwap:
+        return StableSwapService.getK(reserves[0], reserves[1], info.amp)
+
+      case PoolType.Weighted:
+        return WeightedMathService.getK(reserves, info.weights)
+
+      default:
+        return reserves.length > 2
+          ? WeightedMathService.getK(reserves, reserves.map(() => 1))
+          : reserves.reduce((k, amount) => k * amount, BigInt(1))
+    }
+  }
+
+  /**
+   * Returns the block height of \a transaction, or `0`.
+   *
+   * @static
+   * @access protected
+   * @param   {Transaction}   transaction   The transaction.
+   * @return  {number}
+   */
+  protected static heightOf(
+    transaction: Transaction,
+  ): number {
+    const height = transaction.transactionInfo?.height
+    return height === undefined ? 0 : height.compact()
+  }
+}
@@ -0,0 +1,539 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import {
+  AccountInfo,
+  Address,
+  MosaicId,
+  PublicAccount,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { Service } from '../contracts/Service'
+import { FeeMode } from '../models/FeeMode'
+import { PoolType } from '../models/PoolType'
+import { IndexerService, PoolTimeline } from './IndexerService'
+import { PoolInfo } from './PoolService'
+import { PricingService } from './PricingService'
+import { StableSwapService } from './StableSwapService'
+import { WeightedMathService } from './WeightedMathService'
+import { Reader } from '../contracts/Reader'
+
+/**
+ * @type PriceObservation
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes the price of a pool after the last
+ *              swap of one block, as replayed from execution proofs.
+ */
+export type PriceObservation = {
+  /**
+   * The block height of the swap.
+   *
+   * @var {number}
+   */
+  height: number,
+
+  /**
+   * The timestamp of the block, in seconds since the UNIX epoch, or
+   * `0` given a timestamp that was not read.
+   *
+   * @var {number}
+   */
+  timestamp: number,
+
+  /**
+   * The mid price of the pool after the swap, in units of the quoted
+   * asset per unit of the base asset.
+   *
+   * @var {number}
+   */
+  price: number,
+}
+
+/**
+ * @class OracleService
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Class that describes a service around the price history
+ *              of liquidity pools. Prices are read from the reserves of
+ *              a pool as replayed from the execution proofs that are sent
+ *              to its target account and averaged over time, i.e. a TWAP.
+ *
+ * The price of a block is the mid price of the pool after its *last*
+ * swap and applies until the next block with a swap. Moving a time-weighted
+ * average price thereby requires to hold a manipulated price during
+ * many blocks rather than during one swap. Reserves are replayed with
+ * the {@link IndexerService}, i.e. only from contracts that the target
+ * account signed or cosigned, such that proofs cannot be forged.
+ */
+export class OracleService extends Service {
+  /**
+   * The position of the values of swap execution proofs, by command.
+   * Pool commands attach the automated pool shares identifier first.
+   *
+   * @var {{ [command: string]: number }}
+   */
+  public static readonly SWAP_COMMANDS: { [command: string]: number } = {
+    'swap': 1,
+    'swap-exact-output': 1,
+    'swap-route': 0,
+    'swap-split': 0,
+  }
+
+  /**
+   * The number of most recent price changes from which the realized
+   * volatility of a pool is calculated, i.e. the last 20 blocks with
+   * swaps *after* the first one.
+   *
+   * @var {number}
+   */
+  public static readonly VOLATILITY_WINDOW: number = 20
+
+  /**
+   * The number of transactions that are read per request given the
+   * most recent swaps of a pool, i.e. to calculate its volatility.
+   *
+   * @var {number}
+   */
+  public static readonly PAGE_SIZE: number = 100
+
+  /**
+   * @access public
+   * @description The timelines of pools by automated pool shares mosaic
+   *              id (hexadecimal). Timelines are kept between calls such
+   *              that only the transactions that follow their cursor are
+   *              replayed, and can be set to resume from a timeline.
+   */
+  public timelines: { [lpSharesMosaic: string]: PoolTimeline } = {}
+
+  /**
+   * @access protected
+   * @description The timestamps of blocks by height, kept between calls.
+   */
+  protected timestamps: { [height: number]: number } = {}
+
+  /**
+   * Getter method for networkReader.
+   *
+   * @access protected
+   * @var {Reader}
+   */
+  protected get networkReader(): Reader {
+    return this.context.reader
+  }
+
+  /**
+   * Helper function to synchronize the timeline of a liquidity pool
+   * that is hosted by \a target, given its automated pool shares
+   * mosaic \a lpSharesMosaic. The timeline is resumed from the one
+   * that is kept by this service, if any, and is kept for next calls.
+   *
+   * @async
+   * @access public
+   * @param   {PublicAccount|Address}   target            The target account of the pool.
+   * @param   {MosaicId}                lpSharesMosaic    The mosaic id of liquidity provider shares.
+   * @return  {Promise<PoolTimeline>}   The updated timeline.
+   */
+  public async getTimeline(
+    target: PublicAccount | Address,
+    lpSharesMosaic: MosaicId,
+  ): Promise<PoolTimeline> {
+    const key = lpSharesMosaic.toHex()
+    this.timelines[key] = await new IndexerService(this.context).sync(
+      target,
+      lpSharesMosaic,
+      this.timelines[key],
+    )
+
+    return this.timelines[key]
+  }
+
+  /**
+   * Helper function to read the price path of a liquidity pool
+   * that is hosted by \a target, given its automated pool shares
+   * mosaic \a lpSharesMosaic. Prices are expressed in units of
+   * \a quote per unit of \a base, one observation per block.
+   *
+   * Only the observations of the window between \a from and \a to
+   * are read, and the last observation before the window, i.e. the
+   * price that applies at its start. The window is expressed in
+   * seconds since the UNIX epoch, or in block heights given \a byHeight.
+   * Timestamps of blocks are read one after the other and are found
+   * with a binary search given a window that is expressed in seconds.
+   *
+   * @async
+   * @access public
+   * @param   {PublicAccount|Address}   target            The target account of the pool.
+   * @param   {MosaicId}                lpSharesMosaic    The mosaic id of liquidity provider shares.
+   * @param   {MosaicId}                base              The base mosaic.
+   * @param   {MosaicId}                quote             The quoted mosaic.
+   * @param   {number}                  from              (Optional) The start of the window.
+   * @param   {number}                  to                (Optional) The end of the window.
+   * @param   {boolean}                 byHeight          (Optional) Whether the window is expressed in block heights.
+   * @return  {Promise<PriceObservation[]>}   The observations, sorted by block height.
+   */
+  public async getPricePath(
+    target: PublicAccount | Address,
+    lpSharesMosaic: MosaicId,
+    base: MosaicId,
+    quote: MosaicId,
+    from: number = 0,
+    to: number = Number.MAX_SAFE_INTEGER,
+    byHeight: boolean = false,
+  ): Promise<PriceObservation[]> {
+    const prices = OracleService.getPrices(
+      await this.getTimeline(target, lpSharesMosaic),
+      base,
+      quote,
+    )
+
+    // find the first observation of the window
+    // :note: Timestamps of blocks increase with their heights.
+    const timeOf = async (i: number) => byHeight
+      ? prices[i].height
+      : await this.getTimestamp(prices[i].height)
+
+    let low = 0, high = prices.length
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2)
+      if (await timeOf(mid) < from) {
+        low = mid + 1
+      }
+      else {
+        high = mid
+      }
+    }
+
+    // read the timestamps of the window and of the observation before it
+    const observations: PriceObservation[] = []
+    for (let i = Math.max(low - 1, 0); i < prices.length && await timeOf(i) <= to; i++) {
+      observations.push({ ...prices[i], timestamp: await this.getTimestamp(prices[i].height) })
+    }
+
+    return observations
+  }
+
+  /**
+   * Helper function to read the time-weighted average price of a
+   * liquidity pool over the window between \a from and \a to. The window is
+   * expressed in seconds since the UNIX epoch, or in block heights
+   * given \a byHeight.
+   *
+   * @async
+   * @access public
+   * @param   {PublicAccount|Address}   target            The target account of the pool.
+   * @param   {MosaicId}                lpSharesMosaic    The mosaic id of liquidity provider shares.
+   * @param   {MosaicId}                base              The base mosaic.
+   * @param   {MosaicId}                quote             The quoted mosaic.
+   * @param   {number}                  from              The start of the window.
+   * @param   {number}                  to                The end of the window.
+   * @param   {boolean}                 byHeight          (Optional) Whether the window is expressed in block heights.
+   * @return  {Promise<number>}   The average price, or `0` given no observations.
+   */
+  public async getTWAP(
+    target: PublicAccount | Address,
+    lpSharesMosaic: MosaicId,
+    base: MosaicId,
+    quote: MosaicId,
+    from: number,
+    to: number,
+    byHeight: boolean = false,
+  ): Promise<number> {
+    return OracleService.getTimeWeightedPrice(
+      await this.getPricePath(target, lpSharesMosaic, base, quote, from, to, byHeight),
+      from,
+      to,
+      byHeight,
+    )
+  }
+
+  /**
+   * Helper function to read the trading fee rate that applies to
+   * the next swap of the liquidity pool \a info. Pools with a fixed
+   * fee mode use their `Fee_Rate`, pools with a dynamic fee mode use
+   * the realized volatility of the `x:y` prices of recent swaps.
+   *
+   * @async
+   * @access public
+   * @param   {PoolInfo}      info          The liquidity pool information.
+   * @param   {AccountInfo}   reserveInfo   (Optional) The account information of the target account, read if not given.
+   * @return  {Promise<number>}   The fee rate (in basis points).
+   */
+  public async getFeeRate(
+    info: PoolInfo,
+    reserveInfo?: AccountInfo,
+  ): Promise<number> {
+    if (info.feeMode !== FeeMode.Dynamic) {
+      return info.feeRate
+    }
+
+    const observations = await this.getRecentPrices(
+      info,
+      info.xMosaic,
+      info.yMosaic,
+      reserveInfo,
+    )
+
+    return PricingService.getDynamicFeeRate(
+      OracleService.getRealizedVolatility(observations),
+      info.minFeeRate,
+      info.maxFeeRate,
+    )
+  }
+
+  /**
+   * Helper function to read the prices of the liquidity pool \a info
+   * after its most recent swaps, i.e. of the last `VOLATILITY_WINDOW + 1`
+   * blocks with swaps, in units of \a quote per unit of \a base.
+   *
+   * Contracts are read newest first and their changes of reserves are
+   * rewound from the current reserves, such that only the contracts that
+   * follow the oldest of these swaps are read. Only contracts that the
+   * target account signed or cosigned are rewound. Timestamps of blocks
+   * are not read, i.e. observations have a timestamp of `0`.
+   *
+   * @async
+   * @access public
+   * @param   {PoolInfo}      info          The liquidity pool information.
+   * @param   {MosaicId}      base          The base mosaic.
+   * @param   {MosaicId}      quote         The quoted mosaic.
+   * @param   {AccountInfo}   reserveInfo   (Optional) The account information of the target account, read if not given.
+   * @return  {Promise<PriceObservation[]>}   The observations, sorted by block height.
+   */
+  public async getRecentPrices(
+    info: PoolInfo,
+    base: MosaicId,
+    quote: MosaicId,
+    reserveInfo?: AccountInfo,
+  ): Promise<PriceObservation[]> {
+    const targetAddress = info.target.address
+    const account = reserveInfo !== undefined
+      ? reserveInfo
+      : await this.networkReader.getAccountInfo(targetAddress)
+
+    // start from the current reserves, in the order of member mosaics
+    let reserves: bigint[] = info.mosaics.map((mosaicId) => {
+      const mosaic = account.mosaics.find(m => m.id.equals(mosaicId))
+      return mosaic === undefined ? BigInt(0) : BigInt(mosaic.amount.toString())
+    })
+
+    const observations: PriceObservation[] = []
+    let offset: string | undefined
+    do {
+      const transactions = await this.networkReader.getRecentTransactions(
+        targetAddress,
+        OracleService.PAGE_SIZE,
+        offset,
+      )
+
+      for (const transaction of transactions) {
+        const contract = IndexerService.readContract(info, transaction)
+        if (contract === undefined) {
+          continue
+        }
+
+        // the reserves *after* the last swap of a block are read first
+        const price = OracleService.SWAP_COMMANDS[contract.proof.command] === undefined
+          ? undefined
+          : OracleService.getMidPrice(info, reserves, base, quote)
+
+        const last = observations[observations.length - 1]
+        if (price !== undefined && (last === undefined || last.height !== contract.proof.height)) {
+          observations.push({ height: contract.proof.height, timestamp: 0, price })
+        }
+
+        reserves = reserves.map((r, i) => r - contract.reserveChanges[i])
+      }
+
+      offset = transactions.length === OracleService.PAGE_SIZE
+        ? transactions[transactions.length - 1].transactionInfo?.id
+        : undefined
+    }
+    while (offset !== undefined && observations.length <= OracleService.VOLATILITY_WINDOW)
+
+    return observations.slice(0, OracleService.VOLATILITY_WINDOW + 1).reverse()
+  }
+
+  /**
+   * @function Swapable.OracleService.getPrices()
+   * @static
+   * @access public
+   * @description Helper function to read the prices of the pool of
+   *              \a timeline after the last swap of each block, in units
+   *              of \a quote per unit of \a base. Timestamps of blocks
+   *              are not read, i.e. observations have a timestamp of `0`.
+   *
+   * @param   {PoolTimeline}    timeline    The timeline of the pool.
+   * @param   {MosaicId}        base        The base mosaic.
+   * @param   {MosaicId}        quote       The quoted mosaic.
+   * @return  {PriceObservation[]}  The observations, sorted by block height.
+   */
+  public static getPrices(
+    timeline: PoolTimeline,
+    base: MosaicId,
+    quote: MosaicId,
+  ): PriceObservation[] {
+    const observations: PriceObservation[] = []
+    timeline.events.filter(
+      e => OracleService.SWAP_COMMANDS[e.command] !== undefined
+    ).forEach((event) => {
+      const price = OracleService.getMidPrice(timeline.info, event.state.reserves, base, quote)
+      if (price === undefined) {
+        return
+      }
+
+      // keep the mid price after the last swap per block
+      const last = observations[observations.length - 1]
+      if (last !== undefined && last.height === event.height) {
+        observations.pop()
+      }
+
+      observations.push({ height: event.height, timestamp: 0, price })
+    })
+
+    return observations
+  }
+
+  /**
+   * @function Swapable.OracleService.getMidPrice()
+   * @static
+   * @access public
+   * @description Helper function to calculate the mid price of the pool
+   *              \a info given its \a reserves, in units of \a quote per
+   *              unit of \a base, using the invariant of the pool.
+   *
+   * @param   {PoolInfo}    info        The liquidity pool information.
+   * @param   {bigint[]}    reserves    The reserves, in the order of member mosaics.
+   * @param   {MosaicId}    base        The base mosaic.
+   * @param   {MosaicId}    quote       The quoted mosaic.
+   * @return  {number|undefined}  The price, or `undefined` given non-members or empty reserves.
+   */
+  public static getMidPrice(
+    info: PoolInfo,
+    reserves: bigint[],
+    base: MosaicId,
+    quote: MosaicId,
+  ): number | undefined {
+    const i = info.mosaics.findIndex(m => m.equals(base))
+    const o = info.mosaics.findIndex(m => m.equals(quote))
+    if (i === -1 || o === -1 || i === o) {
+      return undefined
+    }
+
+    const reserveIn: bigint = reserves[i] ?? BigInt(0)
+    const reserveOut: bigint = reserves[o] ?? BigInt(0)
+    if (reserveIn <= BigInt(0) || reserveOut <= BigInt(0)) {
+      return undefined
+    }
+
+    switch (info.poolType) {
+      case PoolType.StableSwap:
+        return StableSwapService.isValidAmp(info.amp)
+          ? StableSwapService.getPrice(reserveIn, reserveOut, info.amp)
+          : PricingService.getPrice(reserveOut, reserveIn)
+
+      case PoolType.Weighted:
+        return WeightedMathService.getPrice(reserveIn, reserveOut, info.weights[i], info.weights[o])
+
+      default:
+        return PricingService.getPrice(reserveOut, reserveIn)
+    }
+  }
+
+  /**
+   * @function Swapable.OracleService.getTimeWeightedPrice()
+   * @static
+   * @access public
+   * @description Helper function to calculate the time-weighted average
+   *              of the prices of \a observations over the window between
+   *              \a from and \a to. Each price applies until the next
+   *              observation, the last observation before the window
+   *              applies from its start.
+   *
+   * @param   {PriceObservation[]}  observations  The observations, sorted by block height.
+   * @param   {number}              from          The start of the window.
+   * @param   {number}              to            The end of the window.
+   * @param   {boolean}             byHeight      (Optional) Whether the window is expressed in block heights.
+   * @return  {number}  The average price, or `0` given no observations.
+   */
+  public static getTimeWeightedPrice(
+    observations: PriceObservation[],
+    from: number,
+    to: number,
+    byHeight: boolean = false,
+  ): number {
+    const timeOf = (o: PriceObservation) => byHeight ? o.height : o.timestamp
+
+    let sum = 0, total = 0
+    observations.forEach((o, i) => {
+      const start = Math.max(timeOf(o), from)
+      const end = i + 1 < observations.length
+        ? Math.min(timeOf(observations[i + 1]), to)
+        : to
+
+      if (end > start) {
+        sum += o.price * (end - start)
+        total += end - start
+      }
+    })
+
+    return total > 0 ? sum / total : 0
+  }
+
+  /**
+   * @function Swapable.OracleService.getRealizedVolatility()
+   * @static
+   * @access public
+   * @description Helper function to calculate the realized volatility
+   *              of the prices of \a observations, i.e. the root mean
+   *              square of the logarithmic returns between consecutive
+   *              observations. Only the last \a window returns are used.
+   *
+   * @param   {PriceObservation[]}  observations  The observations, sorted by block height.
+   * @param   {number}              window        (Optional) The number of returns, defaults to `20`.
+   * @return  {number}  The volatility (e.g. `0.005` for 0.5%), or `0` given less than 2 observations.
+   */
+  public static getRealizedVolatility(
+    observations: PriceObservation[],
+    window: number = OracleService.VOLATILITY_WINDOW,
+  ): number {
+    const prices = observations.slice(-(window + 1)).map(o => o.price).filter(p => p > 0)
+    if (prices.length < 2) {
+      return 0
+    }
+
+    let sum = 0
+    for (let i = 1; i < prices.length; i++) {
+      sum += Math.pow(Math.log(prices[i] / prices[i - 1]), 2)
+    }
+
+    return Math.sqrt(sum / (prices.length - 1))
+  }
+
+  /**
+   * Returns the timestamp of the block at \a height, in seconds
+   * since the UNIX epoch. Timestamps are kept between calls.
+   *
+   * @async
+   * @access protected
+   * @param   {number}  height  The block height.
+   * @return  {Promise<number>}
+   */
+  protected async getTimestamp(
+    height: number,
+  ): Promise<number> {
+    if (this.timestamps[height] === undefined) {
+      this.timestamps[height] = await this.networkReader.getBlockTimestamp(height)
+    }
+
+    return this.timestamps[height]
+  }
+}
@@ -18,10 +18,15 @@ import {
 
 // internal dependencies
 import { Service } from '../contracts/Service'
+import { FailureSynchronization } from '../errors/FailureSynchronization'
+import { FeeMode } from '../models/FeeMode'
+import { PoolType } from '../models/PoolType'
+import { OracleService } from './OracleService'
 import { TransactionService } from './TransactionService'
-import {
-  Reader as ReaderImpl,
-} from '../adapters/Symbol'
+import { PricingService } from './PricingService'
+import { StableSwapService } from './StableSwapService'
+import { WeightedMathService } from './WeightedMathService'
+import { Reader } from '../contracts/Reader'
 
 // internal types
 type FormattedMetadata = {
@@ -78,6 +83,107 @@ export type PoolInfo = {
    * @var {MosaicId}
    */
   yMosaic: MosaicId,
+
+  /**
+   * The mosaics of all members of the liquidity pool, in order, i.e.
+   * `x`, `y` and up to six more mosaics for multi-asset pools.
+   *
+   * @var {MosaicId[]}
+   */
+  mosaics: MosaicId[],
+
+  /**
+   * The trading fee rate in basis points, i.e. `30` for 0.30%. This
+   * fee is deducted from the input amount of swaps and added to the
+   * liquidity pool reserves. For pools with a dynamic fee mode, this
+   * is the fee rate that applies to the next swap.
+   *
+   * @var {number}
+   */
+  feeRate: number,
+
+  /**
+   * The account that receives protocol fee shares. Protocol fee shares
+   * are minted with liquidity events given a protocol fee.
+   *
+   * @var {Address}
+   */
+  feeTo: Address,
+
+  /**
+   * The protocol fee in basis points of the growth of `sqrt(k)`, e.g.
+   * `1667` for 1/6th of the growth. A protocol fee of `0` is off.
+   *
+   * @var {number}
+   */
+  protocolFee: number,
+
+  /**
+   * The value of `k = x * y` after the last liquidity event, as read
+   * from the `K_Last` target account metadata. For StableSwap pools,
+   * this value is equal to `(D / 2)^2`.
+   *
+   * @var {bigint|undefined}
+   */
+  kLast: bigint | undefined,
+
+  /**
+   * The type of the liquidity pool, i.e. the invariant that is used
+   * to price swaps, e.g. constant product or StableSwap.
+   *
+   * @var {PoolType}
+   */
+  poolType: PoolType,
+
+  /**
+   * The amplification coefficient of StableSwap pools. This value is
+   * `0` for constant product pools.
+   *
+   * @var {number}
+   */
+  amp: number,
+
+  /**
+   * The weights of the member mosaics in percent, e.g. `[80, 20]` for
+   * an 80/20 weighted pool, in the order of `mosaics`. Other pools have
+   * equal weights.
+   *
+   * @var {number[]}
+   */
+  weights: number[],
+
+  /**
+   * The maximum price impact of swaps in basis points, e.g. `500` for
+   * 5%. Swaps that move the mid price of the pool by more than this
+   * value are denied. A value of `0` does not limit price impacts.
+   *
+   * @var {number}
+   */
+  maxPriceImpact: number,
+
+  /**
+   * The mode with which the trading fee rate is determined, i.e. a
+   * fixed fee rate or a fee rate that follows recent volatility.
+   *
+   * @var {FeeMode}
+   */
+  feeMode: FeeMode,
+
+  /**
+   * The lower bound of the trading fee rate in basis points. This
+   * value is equal to `feeRate` for pools with a fixed fee mode.
+   *
+   * @var {number}
+   */
+  minFeeRate: number,
+
+  /**
+   * The upper bound of the trading fee rate in basis points. This
+   * value is equal to `feeRate` for pools with a fixed fee mode.
+   *
+   * @var {number}
+   */
+  maxFeeRate: number,
 }
 
 /**
@@ -101,16 +207,47 @@ export class PoolService extends Service {
     '8399C1CBB066F944': 'identifier', // KeyGenerator("Pool_Id")
     '9B2823771F48325D': 'x_mosaic_id', // KeyGenerator("X_Id")
     '826A59AE988FFE4B': 'y_mosaic_id', // KeyGenerator("Y_Id")
+    'FEB21B653D5651EE': 'fee_rate', // KeyGenerator("Fee_Rate")
+    '9AD977DEEF35BD90': 'fee_to', // KeyGenerator("Fee_To")
+    '89253CDAAAAE9913': 'protocol_fee', // KeyGenerator("Protocol_Fee")
+    'F93FEBA408AC9BD9': 'pool_type', // KeyGenerator("Pool_Type")
+    'BE2A617D5C85A237': 'amp', // KeyGenerator("Amp")
+    'FF7BBBCDCC20E3A2': 'x_weight', // KeyGenerator("X_Weight")
+    'BEFDD63C9F991F5C': 'y_weight', // KeyGenerator("Y_Weight")
+    'BC8A1E827D354C69': 'asset_3_id', // KeyGenerator("Asset_3_Id")
+    '90A846A8061FD6C0': 'asset_3_weight', // KeyGenerator("Asset_3_Weight")
+    'C1C3F958F9BB8238': 'asset_4_id', // KeyGenerator("Asset_4_Id")
+    'B338397342F962E6': 'asset_4_weight', // KeyGenerator("Asset_4_Weight")
+    '9C04AC65AD7946A1': 'asset_5_id', // KeyGenerator("Asset_5_Id")
+    'EA2BF066E82F6F89': 'asset_5_weight', // KeyGenerator("Asset_5_Weight")
+    '8A201062E8436BD0': 'asset_6_id', // KeyGenerator("Asset_6_Id")
+    'BC97C52836F86DCB': 'asset_6_weight', // KeyGenerator("Asset_6_Weight")
+    'D2F9738874972DBB': 'asset_7_id', // KeyGenerator("Asset_7_Id")
+    'C5A4F2CFA1FD1D4B': 'asset_7_weight', // KeyGenerator("Asset_7_Weight")
+    'BC6B4868E01C5BD5': 'asset_8_id', // KeyGenerator("Asset_8_Id")
+    'E14D4B0AB780F49C': 'asset_8_weight', // KeyGenerator("Asset_8_Weight")
+    '9E189681C7C41B9B': 'max_price_impact', // KeyGenerator("Max_Price_Impact")
+    'E56619101D495432': 'fee_mode', // KeyGenerator("Fee_Mode")
+    'C5E0700BA5B5BD16': 'min_fee_rate', // KeyGenerator("Min_Fee_Rate")
+    'EFFFD4A5AB4CC750': 'max_fee_rate', // KeyGenerator("Max_Fee_Rate")
   }
 
+  /**
+   * The `K_Last` target account metadata key, i.e. the value
+   * of `k` after the last liquidity event.
+   *
+   * @var {string}
+   */
+  private K_LAST_METADATA: string = 'FEA93B16523477AD' // KeyGenerator("K_Last")
+
   /**
    * Getter method for networkReader.
    *
    * @access protected
-   * @var {ReaderImpl}
+   * @var {Reader}
    */
-  protected get networkReader(): ReaderImpl {
-    return this.context.reader as ReaderImpl
+  protected get networkReader(): Reader {
+    return this.context.reader
   }
 
   /**
@@ -131,20 +268,13 @@ export class PoolService extends Service {
       ? authority.address
       : authority as Address
 
-    // use transaction service to read state
-    const service = new TransactionService(
-      this.networkReader.factoryHttp.createAccountRepository(),
-      this.networkReader.factoryHttp.createChainRepository(),
-      this.networkReader.factoryHttp.createTransactionRepository(),
-      this.networkReader.factoryHttp.createReceiptRepository(),
-      100, // pageSize
-    )
-
     // read transfers to find CreatePool descriptor
-    const transactions: TransferTransaction[] = await service.getIncomingTransfers(
+    const transactions: TransferTransaction[] = TransactionService.filterElligibleIncomingTransfers(
+      TransactionService.flattenAggregateTransactions(
+        await this.networkReader.searchTransactions(registryAddress),
+      ),
       registryAddress,
-      0, // no more than 1 block confirmation required
-    ).toPromise()
+    )
 
     // filter by contract signature
     const contractSignature: string = `Swapable(v${revision}):publish:`
@@ -183,6 +313,7 @@ export class PoolService extends Service {
    * @access public
    * @param   {MosaicId}   lpSharesMosaic        The mosaic id of liquidity provider shares.
    * @return  {PoolInfo}
+   * @throws  {FailureSynchronization}  Given a dynamic fee rate that cannot be read.
    */
   public async getInfo(
     targetAddress: Address,
@@ -190,19 +321,13 @@ export class PoolService extends Service {
   ): Promise<PoolInfo> {
 
     // read account info
-    const targetInfo = await this.networkReader.factoryHttp
-      .createAccountRepository()
-      .getAccountInfo(targetAddress)
-      .toPromise()
+    const targetInfo = await this.networkReader.getAccountInfo(targetAddress)
 
     // read all metadata values from network
-    const entries = await this.networkReader.factoryHttp
-      .createMetadataRepository()
-      .search({ targetId: lpSharesMosaic })
-      .toPromise()
+    const entries = await this.networkReader.getMetadata({ targetId: lpSharesMosaic })
 
     // format metadata accordingly
-    const mosaicMetadata = entries.data.map(
+    const mosaicMetadata = entries.map(
       (metadata: Metadata) => this.formatMetadata(metadata)
     )
 
@@ -214,14 +339,94 @@ export class PoolService extends Service {
       return indexA - indexB
     })
 
+    // read the value of `k` after the last liquidity event, as
+    // assigned by the target account (i.e. not by other accounts)
+    const kLastEntry = (await this.networkReader.getMetadata({
+      targetAddress,
+      scopedMetadataKey: this.K_LAST_METADATA,
+      metadataType: MetadataType.Account,
+    })).find(
+      (metadata: Metadata) => metadata.metadataEntry.sourceAddress.equals(targetAddress)
+    )
+
     // read details about this liquidity pool
     const poolData = this.interpretMetadata(mosaicMetadata);
-    return {
+
+    // read members of multi-asset pools, i.e. `Asset_3_Id` to `Asset_8_Id`
+    const memberKeys: string[][] = [ [ 'x_mosaic_id', 'x_weight' ], [ 'y_mosaic_id', 'y_weight' ] ]
+    for (let n = 3; n <= PricingService.MAX_ASSETS && poolData[`asset_${n}_id`].length; n++) {
+      memberKeys.push([ `asset_${n}_id`, `asset_${n}_weight` ])
+    }
+
+    // pools created prior to v1.4.0 have a fixed fee rate
+    const feeRate = poolData['fee_rate'].length
+      ? parseInt(poolData['fee_rate'], 10)
+      : PricingService.DEFAULT_FEE_RATE
+    const feeMode = poolData['fee_mode'].length
+      ? poolData['fee_mode'] as FeeMode
+      : FeeMode.Fixed
+
+    const amp = poolData['amp'].length
+      ? parseInt(poolData['amp'], 10)
+      : 0
+
+    const info = {
       target: targetInfo.publicAccount,
       pMosaic: lpSharesMosaic,
       xMosaic: new MosaicId(poolData['x_mosaic_id']),
       yMosaic: new MosaicId(poolData['y_mosaic_id']),
+      mosaics: memberKeys.map(([ id ]) => new MosaicId(poolData[id])),
+      // pools created prior to v1.4.0 do not have a `Fee_Rate`
+      feeRate,
+      // pools created prior to v1.4.0 do not have a protocol fee
+      feeTo: poolData['fee_to'].length
+        ? Address.createFromRawAddress(poolData['fee_to'])
+        : targetInfo.address,
+      protocolFee: poolData['protocol_fee'].length
+        ? parseInt(poolData['protocol_fee'], 10)
+        : 0,
+      // values of `k` that cannot be parsed are considered `0`
+      kLast: kLastEntry === undefined
+        ? undefined
+        : /^[0-9]+$/.test(kLastEntry.metadataEntry.value)
+          ? BigInt(kLastEntry.metadataEntry.value)
+          : BigInt(0),
+      // pools created prior to v1.4.0 are constant product pools,
+      // StableSwap pools without a valid `Amp` use constant product
+      poolType: poolData['pool_type'].length
+        && (poolData['pool_type'] !== PoolType.StableSwap || StableSwapService.isValidAmp(amp))
+        ? poolData['pool_type'] as PoolType
+        : PoolType.ConstantProduct,
+      amp,
+      // pools created prior to v1.4.0 have equal weights
+      weights: memberKeys.map(([ , weight ]) => poolData[weight]).map(
+        w => w.length ? parseInt(w, 10) : WeightedMathService.DEFAULT_WEIGHT
+      ),
+      // pools created prior to v1.4.0 do not limit price impacts
+      maxPriceImpact: poolData['max_price_impact'].length
+        ? parseInt(poolData['max_price_impact'], 10)
+        : 0,
+      feeMode,
+      minFeeRate: feeMode === FeeMode.Dynamic && poolData['min_fee_rate'].length
+        ? parseInt(poolData['min_fee_rate'], 10)
+        : feeRate,
+      maxFeeRate: feeMode === FeeMode.Dynamic && poolData['max_fee_rate'].length
+        ? parseInt(poolData['max_fee_rate'], 10)
+        : feeRate,
     } as PoolInfo
+
+    // dynamic fee rates are read from the execution proofs of recent swaps
+    if (feeMode === FeeMode.Dynamic) {
+      try {
+        info.feeRate = await new OracleService(this.context).getFeeRate(info, targetInfo)
+      }
+      catch (e) {
+        throw new FailureSynchronization('Fee rate of pool "' + lpSharesMosaic.toHex()
+          + '" could not be read: ' + (e instanceof Error ? e.message : String(e)))
+      }
+    }
+
+    return info
   }
 
   /**
@@ -275,17 +480,18 @@ export class PoolService extends Service {
     formattedMetadata: FormattedMetadata[],
   ): KeyValueDictionary  {
     const fields = Object.keys(this.KNOWN_METADATAS)
-    let known: KeyValueDictionary = {}
-    for (let i = 0, m = fields.length; i < m; i++) {
+    const known: KeyValueDictionary = {}
+
+    // known fields that are not present are empty
+    fields.forEach(f => known[this.getKnownMetadataKey(f)] = '')
+
+    for (let i = 0, m = formattedMetadata.length; i < m; i++) {
       const entry = formattedMetadata[i]
       const field = this.getKnownMetadataKey(entry.scopedMetadataKey)
 
       if (fields.includes(entry.scopedMetadataKey)) {
         known[field] = entry.metadataValue
       }
-      else {
-        known[field] = ''
-      }
     }
 
     return known
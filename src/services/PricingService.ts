@@ -0,0 +1,656 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import { FailureInvalidAmount } from '../errors/FailureInvalidAmount'
+
+/**
+ * @class PricingService
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Class that describes a service around the pricing of
+ *              assets in automated liquidity pools. Fee rates are
+ *              always expressed in basis points (1 bps = 0.01%).
+ *
+ * All amounts are handled as arbitrary-precision integers and any
+ * rounding that happens here always favours the automated pool.
+ */
+export class PricingService {
+  /**
+   * The number of basis points that represent 100%.
+   *
+   * @var {number}
+   */
+  public static readonly FEE_DENOMINATOR: number = 10_000
+
+  /**
+   * The default trading fee rate, i.e. 0.30% of the input
+   * amount of a swap which is added to token reserves.
+   *
+   * @var {number}
+   */
+  public static readonly DEFAULT_FEE_RATE: number = 30
+
+  /**
+   * The default upper bound of the trading fee rate of pools with
+   * a dynamic fee mode, i.e. 1.00% of the input amount of a swap.
+   *
+   * @var {number}
+   */
+  public static readonly DEFAULT_MAX_FEE_RATE: number = 100
+
+  /**
+   * The amount of automated pool shares that is permanently locked
+   * in the **target** account at the creation of a pool. Locked
+   * shares cannot be redeemed and protect pools from share price
+   * inflation by the first liquidity provider.
+   *
+   * @var {bigint}
+   */
+  public static readonly MINIMUM_LIQUIDITY: bigint = BigInt(1000)
+
+  /**
+   * The maximum number of member assets of an automated pool, i.e.
+   * multi-asset pools hold between two and eight mosaics.
+   *
+   * @var {number}
+   */
+  public static readonly MAX_ASSETS: number = 8
+
+  /**
+   * The maximum value that can be represented with a UInt64.
+   *
+   * @var {bigint}
+   */
+  public static readonly MAX_UINT64: bigint = BigInt('18446744073709551615')
+
+  /**
+   * @function Swapable.PricingService.isValidFeeRate()
+   * @static
+   * @access public
+   * @description Helper function to validate a fee rate \a feeRate
+   *              in basis points. Valid fee rates are integers in
+   *              the interval `[0, 10000)`.
+   *
+   * @param   {number}  feeRate   The fee rate (in basis points).
+   * @return  {boolean}
+   */
+  public static isValidFeeRate(
+    feeRate: number,
+  ): boolean {
+    return Number.isInteger(feeRate)
+      && feeRate >= 0
+      && feeRate < PricingService.FEE_DENOMINATOR
+  }
+
+  /**
+   * @function Swapable.PricingService.isValidAmount()
+   * @static
+   * @access public
+   * @description Helper function to validate an \a amount bound, e.g.
+   *              a minimum output amount. Valid values are safe integers,
+   *              big integers or UInt64 values that are not negative.
+   *
+   * @param   {number|bigint|UInt64}  amount  The amount (absolute).
+   * @return  {boolean}
+   */
+  public static isValidAmount(
+    amount: number | bigint | UInt64,
+  ): boolean {
+    if (amount instanceof UInt64) {
+      return true
+    }
+
+    return (typeof amount === 'bigint' || Number.isSafeInteger(amount))
+      && amount >= 0
+  }
+
+  /**
+   * @function Swapable.PricingService.getAmountOut()
+   * @static
+   * @access public
+   * @description Helper function to calculate the output amount of
+   *              a swap of \a amountIn given \a reserveIn, \a reserveOut
+   *              and a fee rate \a feeRate. The fee is deducted from the
+   *              input *before* the constant product formula is applied
+   *              such that it is added to reserves.
+   *
+   * @param   {bigint}  amountIn      The input amount (absolute).
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {bigint}  reserveOut    The reserve of the output asset.
+   * @param   {number}  feeRate       The fee rate (in basis points).
+   * @return  {bigint}  The output amount (rounded down).
+   */
+  public static getAmountOut(
+    amountIn: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    feeRate: number = PricingService.DEFAULT_FEE_RATE,
+  ): bigint {
+    // - Step out if we don't have enough information
+    const zero = BigInt(0)
+    if (amountIn <= zero || reserveIn <= zero || reserveOut <= zero) {
+      return zero
+    }
+
+    // - Deducts the trading fee from the input amount
+    const denominatorFee = BigInt(PricingService.FEE_DENOMINATOR)
+    const amountInWithFee = amountIn * (denominatorFee - BigInt(feeRate))
+
+    // - Constant product: (x + dx') * (y - dy) = x * y
+    const numerator = amountInWithFee * reserveOut
+    const denominator = reserveIn * denominatorFee + amountInWithFee
+
+    return numerator / denominator
+  }
+
+  /**
+   * @function Swapable.PricingService.getAmountIn()
+   * @static
+   * @access public
+   * @description Helper function to calculate the input amount that
+   *              is required to receive exactly \a amountOut given
+   *              \a reserveIn, \a reserveOut and a fee rate \a feeRate.
+   *              This is the inverse of {@link getAmountOut()}.
+   *
+   * @param   {bigint}  amountOut     The desired output amount (absolute).
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {bigint}  reserveOut    The reserve of the output asset.
+   * @param   {number}  feeRate       The fee rate (in basis points).
+   * @return  {bigint|undefined}  The required input amount (rounded up), or `undefined` given insufficient reserves.
+   */
+  public static getAmountIn(
+    amountOut: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    feeRate: number = PricingService.DEFAULT_FEE_RATE,
+  ): bigint | undefined {
+    // - Step out if the output cannot be provided by reserves
+    const zero = BigInt(0)
+    if (amountOut <= zero || reserveIn <= zero || amountOut >= reserveOut) {
+      return undefined
+    }
+
+    // - Constant product: (x + dx') * (y - dy) = x * y
+    const denominatorFee = BigInt(PricingService.FEE_DENOMINATOR)
+    const numerator = reserveIn * amountOut * denominatorFee
+    const denominator = (reserveOut - amountOut) * (denominatorFee - BigInt(feeRate))
+
+    return numerator / denominator + BigInt(1)
+  }
+
+  /**
+   * @function Swapable.PricingService.getFeeAmount()
+   * @static
+   * @access public
+   * @description Helper function to calculate the fee amount that is
+   *              paid on an input amount \a amountIn given a fee rate
+   *              of \a feeRate.
+   *
+   * @param   {bigint}  amountIn      The input amount (absolute).
+   * @param   {number}  feeRate       The fee rate (in basis points).
+   * @return  {bigint}  The fee amount (rounded up).
+   */
+  public static getFeeAmount(
+    amountIn: bigint,
+    feeRate: number = PricingService.DEFAULT_FEE_RATE,
+  ): bigint {
+    return PricingService.divCeil(
+      amountIn * BigInt(feeRate),
+      BigInt(PricingService.FEE_DENOMINATOR),
+    )
+  }
+
+  /**
+   * @function Swapable.PricingService.getPrice()
+   * @static
+   * @access public
+   * @description Helper function to calculate a price as the ratio of
+   *              \a amount over \a base. Prices are informational and
+   *              are thereby returned as (floating-point) numbers.
+   *
+   * @param   {bigint}  amount    The amount of the quoted asset.
+   * @param   {bigint}  base      The amount of the base asset.
+   * @return  {number}  The price, or `0` given an empty base amount.
+   */
+  public static getPrice(
+    amount: bigint,
+    base: bigint,
+  ): number {
+    return base > BigInt(0)
+      ? Number(amount) / Number(base)
+      : 0
+  }
+
+  /**
+   * @function Swapable.PricingService.getDynamicFeeRate()
+   * @static
+   * @access public
+   * @description Helper function to calculate the trading fee rate of a
+   *              pool with a dynamic fee mode, given the realized \a volatility
+   *              of its recent swaps. The volatility, in basis points, is
+   *              added to \a minFeeRate and the result is capped at
+   *              \a maxFeeRate, e.g. a volatility of 0.5% adds 50 bps.
+   *
+   * @param   {number}  volatility    The realized volatility (e.g. `0.005` for 0.5%).
+   * @param   {number}  minFeeRate    The minimum fee rate (in basis points).
+   * @param   {number}  maxFeeRate    The maximum fee rate (in basis points).
+   * @return  {number}  The fee rate (in basis points).
+   */
+  public static getDynamicFeeRate(
+    volatility: number,
+    minFeeRate: number,
+    maxFeeRate: number,
+  ): number {
+    const premium = Number.isFinite(volatility) && volatility > 0
+      ? Math.ceil(volatility * PricingService.FEE_DENOMINATOR)
+      : 0
+
+    return Math.max(minFeeRate, Math.min(maxFeeRate, minFeeRate + premium))
+  }
+
+  /**
+   * @function Swapable.PricingService.isValidPriceImpact()
+   * @static
+   * @access public
+   * @description Helper function to validate a maximum price impact
+   *              \a maxPriceImpact in basis points. Valid values are
+   *              integers in the interval `(0, 10000]`.
+   *
+   * @param   {number}  maxPriceImpact  The maximum price impact (in basis points).
+   * @return  {boolean}
+   */
+  public static isValidPriceImpact(
+    maxPriceImpact: number,
+  ): boolean {
+    return Number.isInteger(maxPriceImpact)
+      && maxPriceImpact > 0
+      && maxPriceImpact <= PricingService.FEE_DENOMINATOR
+  }
+
+  /**
+   * @function Swapable.PricingService.getPriceImpact()
+   * @static
+   * @access public
+   * @description Helper function to calculate the price impact of a
+   *              swap, i.e. the relative decrease of the mid price of
+   *              the input asset from \a midPrice before the swap to
+   *              \a newMidPrice after the swap.
+   *
+   * @param   {number}  midPrice      The mid price before the swap.
+   * @param   {number}  newMidPrice   The mid price after the swap.
+   * @return  {number}  The price impact (e.g. `0.01` for 1%), or `0` given an empty mid price.
+   */
+  public static getPriceImpact(
+    midPrice: number,
+    newMidPrice: number,
+  ): number {
+    return midPrice > 0
+      ? Math.max(0, 1 - (newMidPrice / midPrice))
+      : 0
+  }
+
+  /**
+   * @function Swapable.PricingService.getInitialShares()
+   * @static
+   * @access public
+   * @description Helper function to calculate the initial supply of
+   *              automated pool shares given amounts \a amountX and
+   *              \a amountY. The supply is equal to `sqrt(x * y)` with
+   *              6 decimals.
+   *
+   * @param   {bigint}  amountX     The amount of `x` (absolute).
+   * @param   {bigint}  amountY     The amount of `y` (absolute).
+   * @return  {bigint}  The amount of automated pool shares (rounded down).
+   */
+  public static getInitialShares(
+    amountX: bigint,
+    amountY: bigint,
+  ): bigint {
+    // sqrt(x * y * 10^12) = 10^6 * sqrt(x * y)
+    return PricingService.sqrt(amountX * amountY * BigInt(1_000_000_000_000))
+  }
+
+  /**
+   * @function Swapable.PricingService.getLiquidityAmount()
+   * @static
+   * @access public
+   * @description Helper function to calculate the amount of automated
+   *              pool shares that are minted for amounts \a amountX and
+   *              \a amountY given reserves and the \a supply of shares.
+   *
+   * @param   {bigint}  amountX     The amount of `x` (absolute).
+   * @param   {bigint}  amountY     The amount of `y` (absolute).
+   * @param   {bigint}  reserveX    The reserve of `x`.
+   * @param   {bigint}  reserveY    The reserve of `y`.
+   * @param   {bigint}  supply      The supply of automated pool shares.
+   * @return  {bigint}  The amount of automated pool shares (rounded down).
+   */
+  public static getLiquidityAmount(
+    amountX: bigint,
+    amountY: bigint,
+    reserveX: bigint,
+    reserveY: bigint,
+    supply: bigint,
+  ): bigint {
+    return PricingService.getBasketLiquidityAmount(
+      [ amountX, amountY ],
+      [ reserveX, reserveY ],
+      supply,
+    )
+  }
+
+  /**
+   * @function Swapable.PricingService.getBasketLiquidityAmount()
+   * @static
+   * @access public
+   * @description Helper function to calculate the amount of automated
+   *              pool shares that are minted for \a amounts of all the
+   *              members of a pool given their \a reserves and the
+   *              \a supply of shares.
+   *
+   * @param   {bigint[]}  amounts     The amounts of members (absolute).
+   * @param   {bigint[]}  reserves    The reserves of members, in the same order.
+   * @param   {bigint}    supply      The supply of automated pool shares.
+   * @return  {bigint}    The amount of automated pool shares (rounded down).
+   */
+  public static getBasketLiquidityAmount(
+    amounts: bigint[],
+    reserves: bigint[],
+    supply: bigint,
+  ): bigint {
+    // - Step out if we don't have enough information
+    const zero = BigInt(0)
+    if (!reserves.length || reserves.some(r => r <= zero)) {
+      return zero
+    }
+
+    // - Calculate liquidity proportions ("contribution of provider")
+    return amounts.map((amount, i) => (amount * supply) / reserves[i]).reduce(
+      (min, shares) => shares < min ? shares : min
+    )
+  }
+
+  /**
+   * @function Swapable.PricingService.getProtocolFeeShares()
+   * @static
+   * @access public
+   * @description Helper function to calculate the amount of automated
+   *              pool shares that are minted as a protocol fee, given the
+   *              growth of `sqrt(k)` since the last liquidity event. The
+   *              protocol fee \a protocolFee is the fraction of the growth
+   *              that is attributed to the protocol, in basis points.
+   *
+   * @link https://github.com/Uniswap/uniswap-v2-core/blob/master/contracts/UniswapV2Pair.sol#L89
+   *
+   * @param   {bigint}  k             The current value of `k`, e.g. `x * y`.
+   * @param   {bigint}  kLast         The value of `k` after the last liquidity event.
+   * @param   {bigint}  supply        The supply of automated pool shares.
+   * @param   {number}  protocolFee   The protocol fee (in basis points of the growth).
+   * @return  {bigint}  The amount of automated pool shares (rounded down).
+   */
+  public static getProtocolFeeShares(
+    k: bigint,
+    kLast: bigint,
+    supply: bigint,
+    protocolFee: number,
+  ): bigint {
+    // - Step out if the protocol fee is off
+    const zero = BigInt(0)
+    if (protocolFee <= 0 || kLast <= zero || supply <= zero) {
+      return zero
+    }
+
+    // - Step out if `k` did not grow
+    const rootK = PricingService.sqrt(k)
+    const rootKLast = PricingService.sqrt(kLast)
+    if (rootK <= rootKLast) {
+      return zero
+    }
+
+    // - S * (rootK - rootKLast) * p / ((1 - p) * rootK + p * rootKLast)
+    const fee = BigInt(protocolFee)
+    const numerator = supply * (rootK - rootKLast) * fee
+    const denominator = (BigInt(PricingService.FEE_DENOMINATOR) - fee) * rootK + fee * rootKLast
+    return numerator / denominator
+  }
+
+  /**
+   * @function Swapable.PricingService.getOptimalAmounts()
+   * @static
+   * @access public
+   * @description Helper function to calculate the amounts of `x` and `y`
+   *              that are added to reserves given desired amounts \a amountX
+   *              and \a amountY. One of both amounts is reduced such that
+   *              the amounts match the ratio of current reserves.
+   *
+   * @param   {bigint}  amountX     The desired amount of `x` (absolute).
+   * @param   {bigint}  amountY     The desired amount of `y` (absolute).
+   * @param   {bigint}  reserveX    The reserve of `x`.
+   * @param   {bigint}  reserveY    The reserve of `y`.
+   * @return  {[bigint, bigint]}    The amounts of `x` and `y` (rounded down).
+   */
+  public static getOptimalAmounts(
+    amountX: bigint,
+    amountY: bigint,
+    reserveX: bigint,
+    reserveY: bigint,
+  ): [bigint, bigint] {
+    const [ optimalX, optimalY ] = PricingService.getOptimalBasketAmounts(
+      [ amountX, amountY ],
+      [ reserveX, reserveY ],
+    )
+
+    return [optimalX, optimalY]
+  }
+
+  /**
+   * @function Swapable.PricingService.getOptimalBasketAmounts()
+   * @static
+   * @access public
+   * @description Helper function to calculate the amounts of all the
+   *              members of a pool that are added to reserves given
+   *              desired \a amounts. The first member of which the
+   *              desired amount can be used entirely is used and other
+   *              amounts are reduced to match the ratio of reserves.
+   *
+   * @param   {bigint[]}  amounts     The desired amounts of members (absolute).
+   * @param   {bigint[]}  reserves    The reserves of members, in the same order.
+   * @return  {bigint[]}  The amounts of members (rounded down).
+   */
+  public static getOptimalBasketAmounts(
+    amounts: bigint[],
+    reserves: bigint[],
+  ): bigint[] {
+    // - Empty reserves accept any ratio
+    const zero = BigInt(0)
+    if (reserves.some(r => r <= zero)) {
+      return amounts.slice()
+    }
+
+    // - Finds a member for which enough of every other member is provided
+    // :note: The member with the smallest ratio `amount / reserve` always is.
+    const getOptimalAmount = (l: number, i: number) => (amounts[l] * reserves[i]) / reserves[l]
+    const limit = amounts.findIndex(
+      (_, l) => amounts.every((amount, i) => getOptimalAmount(l, i) <= amount)
+    )
+
+    // - Uses all of that member and reduces the other amounts
+    return amounts.map((amount, i) => i === limit ? amount : getOptimalAmount(limit, i))
+  }
+
+  /**
+   * @function Swapable.PricingService.getZapSwapAmount()
+   * @static
+   * @access public
+   * @description Helper function to calculate the portion of \a amountIn
+   *              that must be swapped given \a reserveIn and a fee rate
+   *              \a feeRate, such that the remaining input amount and the
+   *              output of the swap match the ratio of reserves *after*
+   *              the swap, i.e. for single-sided liquidity ("zap in").
+   *
+   *     s = (sqrt(((2 - f) * R)^2 + 4 * (1 - f) * A * R) - (2 - f) * R) / (2 * (1 - f))
+   *
+   * @param   {bigint}  amountIn      The single-sided input amount (absolute).
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {number}  feeRate       The fee rate (in basis points).
+   * @return  {bigint}  The amount that is swapped (rounded down).
+   */
+  public static getZapSwapAmount(
+    amountIn: bigint,
+    reserveIn: bigint,
+    feeRate: number = PricingService.DEFAULT_FEE_RATE,
+  ): bigint {
+    // - Step out if we don't have enough information
+    const zero = BigInt(0)
+    if (amountIn <= zero || reserveIn <= zero) {
+      return zero
+    }
+
+    // - Fees are expressed with the fee denominator, i.e. (1 - f) = (D - r) / D
+    const denominatorFee = BigInt(PricingService.FEE_DENOMINATOR)
+    const amountFactor = denominatorFee - BigInt(feeRate)
+    const b = (denominatorFee + amountFactor) * reserveIn
+    const root = PricingService.sqrt(b * b + BigInt(4) * amountFactor * denominatorFee * amountIn * reserveIn)
+
+    return (root - b) / (BigInt(2) * amountFactor)
+  }
+
+  /**
+   * @function Swapable.PricingService.getPayoutAmount()
+   * @static
+   * @access public
+   * @description Helper function to calculate the amount of a reserve
+   *              that is paid out when burning \a shares automated pool
+   *              shares, i.e. `shares / supply * reserve`.
+   *
+   * @param   {bigint}  shares      The amount of automated pool shares burned.
+   * @param   {bigint}  reserve     The reserve of the paid out asset.
+   * @param   {bigint}  supply      The supply of automated pool shares.
+   * @return  {bigint}  The amount paid out (rounded down).
+   */
+  public static getPayoutAmount(
+    shares: bigint,
+    reserve: bigint,
+    supply: bigint,
+  ): bigint {
+    // - Step out if we don't have enough information
+    const zero = BigInt(0)
+    if (shares <= zero || supply <= zero) {
+      return zero
+    }
+
+    return (shares * reserve) / supply
+  }
+
+  /**
+   * @function Swapable.PricingService.sqrt()
+   * @static
+   * @access public
+   * @description Helper function to calculate the integer square root
+   *              of \a value, i.e. the largest integer `r` for which
+   *              `r * r <= value` (rounded down).
+   *
+   * @param   {bigint}  value   The (non-negative) radicand.
+   * @return  {bigint}
+   * @throws  {FailureInvalidAmount}  Given a negative value.
+   */
+  public static sqrt(
+    value: bigint,
+  ): bigint {
+    const one = BigInt(1)
+    if (value < BigInt(0)) {
+      throw new FailureInvalidAmount('Cannot calculate the square root of a negative amount.')
+    }
+
+    if (value < BigInt(2)) {
+      return value
+    }
+
+    // - Newton's method starting above the root
+    let x0 = value
+    let x1 = (value >> one) + one
+    while (x1 < x0) {
+      x0 = x1
+      x1 = (x1 + value / x1) >> one
+    }
+
+    return x0
+  }
+
+  /**
+   * @function Swapable.PricingService.divCeil()
+   * @static
+   * @access public
+   * @description Helper function to divide \a numerator by \a denominator
+   *              and round the quotient up (non-negative operands).
+   *
+   * @param   {bigint}  numerator
+   * @param   {bigint}  denominator
+   * @return  {bigint}
+   */
+  public static divCeil(
+    numerator: bigint,
+    denominator: bigint,
+  ): bigint {
+    const quotient = numerator / denominator
+    return quotient * denominator === numerator
+      ? quotient
+      : quotient + BigInt(1)
+  }
+
+  /**
+   * @function Swapable.PricingService.toBigInt()
+   * @static
+   * @access public
+   * @description Helper function to convert an \a amount to a bigint.
+   *              Numbers must be safe integers, i.e. numbers that are
+   *              not subject to loss of precision.
+   *
+   * @param   {number|bigint|UInt64}   amount
+   * @return  {bigint}
+   * @throws  {FailureInvalidAmount}  Given a float or an unsafe integer.
+   */
+  public static toBigInt(
+    amount: number | bigint | UInt64,
+  ): bigint {
+    if (amount instanceof UInt64) {
+      return BigInt(amount.toString())
+    }
+
+    if (typeof amount === 'number' && !Number.isSafeInteger(amount)) {
+      throw new FailureInvalidAmount('Amount "' + amount + '" is not a safe integer.')
+    }
+
+    return BigInt(amount)
+  }
+
+  /**
+   * @function Swapable.PricingService.toUInt64()
+   * @static
+   * @access public
+   * @description Helper function to convert an \a amount to a UInt64.
+   *
+   * @param   {number|bigint}   amount
+   * @return  {UInt64}
+   * @throws  {FailureInvalidAmount}  Given an amount that does not fit in a UInt64.
+   */
+  public static toUInt64(
+    amount: number | bigint,
+  ): UInt64 {
+    const value = PricingService.toBigInt(amount)
+    if (value < BigInt(0) || value > PricingService.MAX_UINT64) {
+      throw new FailureInvalidAmount('Amount "' + value.toString() + '" does not fit in a UInt64.')
+    }
+
+    return UInt64.fromNumericString(value.toString())
+  }
+}
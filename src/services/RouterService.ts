@@ -0,0 +1,459 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { MosaicId } from 'symbol-sdk'
+
+// internal dependencies
+import { PoolType } from '../models/PoolType'
+import { PoolInfo } from './PoolService'
+import { PricingService } from './PricingService'
+import { StableSwapService } from './StableSwapService'
+import { WeightedMathService } from './WeightedMathService'
+
+/**
+ * @type RoutePool
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes a liquidity pool that can be used
+ *              in routes, i.e. its pool information and its reserves.
+ */
+export type RoutePool = {
+  /**
+   * The pool information as read from the automated pool shares
+   * mosaic metadata, e.g. with `Registry.getPools()`.
+   *
+   * @var {PoolInfo}
+   */
+  info: PoolInfo,
+
+  /**
+   * The reserves of the members of the liquidity pool, in the order
+   * of `info.mosaics`.
+   *
+   * @var {bigint[]}
+   */
+  reserves: bigint[],
+}
+
+/**
+ * @type RouteLeg
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes one swap of a route, i.e. a swap
+ *              of \a input for \a output in the liquidity pool \a pool.
+ */
+export type RouteLeg = {
+  /**
+   * The liquidity pool in which this swap is executed.
+   *
+   * @var {RoutePool}
+   */
+  pool: RoutePool,
+
+  /**
+   * The input mosaic of this swap.
+   *
+   * @var {MosaicId}
+   */
+  input: MosaicId,
+
+  /**
+   * The output mosaic of this swap.
+   *
+   * @var {MosaicId}
+   */
+  output: MosaicId,
+
+  /**
+   * The input amount of this swap, i.e. the output amount of the
+   * previous swap of the route.
+   *
+   * @var {bigint}
+   */
+  amountIn: bigint,
+
+  /**
+   * The output amount of this swap (rounded down).
+   *
+   * @var {bigint}
+   */
+  amountOut: bigint,
+}
+
+/**
+ * @type Route
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes a route of chained swaps, e.g. of
+ *              `X -> Y` and `Y -> Z` given no direct `X:Z` pool.
+ */
+export type Route = {
+  /**
+   * The chained swaps, in order of execution.
+   *
+   * @var {RouteLeg[]}
+   */
+  legs: RouteLeg[],
+
+  /**
+   * The input amount of the first swap.
+   *
+   * @var {bigint}
+   */
+  amountIn: bigint,
+
+  /**
+   * The output amount of the last swap.
+   *
+   * @var {bigint}
+   */
+  amountOut: bigint,
+}
+
+/**
+ * @type Split
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Type that describes a split order, i.e. an input amount
+ *              that is allocated across more than one pool of the same
+ *              pair, e.g. pools with different targets or fee tiers.
+ */
+export type Split = {
+  /**
+   * The swap of each pool, i.e. routes of one swap. The input amount
+   * of each route is the allocation of the pool.
+   *
+   * @var {Route[]}
+   */
+  routes: Route[],
+
+  /**
+   * The input amount of all swaps.
+   *
+   * @var {bigint}
+   */
+  amountIn: bigint,
+
+  /**
+   * The output amount of all swaps.
+   *
+   * @var {bigint}
+   */
+  amountOut: bigint,
+}
+
+// internal types
+type Hop = [RoutePool, MosaicId, MosaicId]
+
+/**
+ * @class RouterService
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Class that describes a service around the routing of
+ *              swaps across automated liquidity pools. Pools form a
+ *              graph of pairs in which every pool connects each of its
+ *              members with all of its other members.
+ *
+ * Routes are simple paths in this graph, i.e. assets and pools are
+ * never visited twice. The best route is the route with the highest
+ * output amount, ties are resolved with the lowest number of swaps.
+ */
+export class RouterService {
+  /**
+   * The default maximum number of swaps of a route.
+   *
+   * @var {number}
+   */
+  public static readonly MAX_HOPS: number = 3
+
+  /**
+   * The default number of parts in which split orders are allocated.
+   *
+   * @var {number}
+   */
+  public static readonly SPLIT_PARTS: number = 100
+
+  /**
+   * @function Swapable.RouterService.getAmountOut()
+   * @static
+   * @access public
+   * @description Helper function to calculate the output amount of a
+   *              swap of \a amountIn of \a input for \a output in the
+   *              liquidity pool \a pool, using the invariant of the pool
+   *              and its trading fee rate.
+   *
+   * @param   {RoutePool}   pool        The liquidity pool.
+   * @param   {bigint}      amountIn    The input amount (absolute).
+   * @param   {MosaicId}    input       The input mosaic.
+   * @param   {MosaicId}    output      The output mosaic.
+   * @return  {bigint}      The output amount (rounded down), or `0` given non-members.
+   */
+  public static getAmountOut(
+    pool: RoutePool,
+    amountIn: bigint,
+    input: MosaicId,
+    output: MosaicId,
+  ): bigint {
+    const i = pool.info.mosaics.findIndex(m => m.equals(input))
+    const o = pool.info.mosaics.findIndex(m => m.equals(output))
+
+    // - Step out if we don't have enough information
+    if (i === -1 || o === -1 || i === o) {
+      return BigInt(0)
+    }
+
+    const reserveIn: bigint = pool.reserves[i] ?? BigInt(0)
+    const reserveOut: bigint = pool.reserves[o] ?? BigInt(0)
+    const feeRate: number = pool.info.feeRate
+
+    switch (pool.info.poolType) {
+      case PoolType.StableSwap:
+        return StableSwapService.getAmountOut(amountIn, reserveIn, reserveOut, feeRate, pool.info.amp)
+
+      case PoolType.Weighted:
+        return WeightedMathService.getAmountOut(
+          amountIn, reserveIn, reserveOut, pool.info.weights[i], pool.info.weights[o], feeRate,
+        )
+
+      default:
+        return PricingService.getAmountOut(amountIn, reserveIn, reserveOut, feeRate)
+    }
+  }
+
+  /**
+   * @function Swapable.RouterService.getPriceImpact()
+   * @static
+   * @access public
+   * @description Helper function to calculate the price impact of the
+   *              swap of a route \a leg, i.e. the relative decrease of
+   *              the mid price of its input in the pool of the swap.
+   *
+   * @param   {RouteLeg}  leg   The swap of a route.
+   * @return  {number}    The price impact (e.g. `0.01` for 1%).
+   */
+  public static getPriceImpact(
+    leg: RouteLeg,
+  ): number {
+    const pool = leg.pool
+    const i = pool.info.mosaics.findIndex(m => m.equals(leg.input))
+    const o = pool.info.mosaics.findIndex(m => m.equals(leg.output))
+
+    // - Step out if we don't have enough information
+    if (i === -1 || o === -1 || i === o) {
+      return 0
+    }
+
+    const reserveIn: bigint = pool.reserves[i] ?? BigInt(0)
+    const reserveOut: bigint = pool.reserves[o] ?? BigInt(0)
+    const getMidPrice = (rIn: bigint, rOut: bigint): number => {
+      switch (pool.info.poolType) {
+        case PoolType.StableSwap:
+          return StableSwapService.getPrice(rIn, rOut, pool.info.amp)
+
+        case PoolType.Weighted:
+          return WeightedMathService.getPrice(rIn, rOut, pool.info.weights[i], pool.info.weights[o])
+
+        default:
+          return PricingService.getPrice(rOut, rIn)
+      }
+    }
+
+    return PricingService.getPriceImpact(
+      getMidPrice(reserveIn, reserveOut),
+      getMidPrice(reserveIn + leg.amountIn, reserveOut - leg.amountOut),
+    )
+  }
+
+  /**
+   * @function Swapable.RouterService.getPaths()
+   * @static
+   * @access public
+   * @description Helper function to find all simple paths from \a input
+   *              to \a output in the graph of pairs of \a pools, of at
+   *              most \a maxHops swaps.
+   *
+   * @param   {RoutePool[]}   pools     The liquidity pools.
+   * @param   {MosaicId}      input     The input mosaic.
+   * @param   {MosaicId}      output    The output mosaic.
+   * @param   {number}        maxHops   (Optional) The maximum number of swaps.
+   * @return  {Array<Array<[RoutePool, MosaicId, MosaicId]>>}   The paths as lists of pool, input and output.
+   */
+  public static getPaths(
+    pools: RoutePool[],
+    input: MosaicId,
+    output: MosaicId,
+    maxHops: number = RouterService.MAX_HOPS,
+  ): Hop[][] {
+    const paths: Hop[][] = []
+
+    // - Depth-first search of paths that end with `output`
+    const visit = (asset: MosaicId, path: Hop[], assets: MosaicId[]): void => {
+      if (path.length >= maxHops) {
+        return
+      }
+
+      pools.filter(
+        (pool) => !path.some(([ p ]) => p === pool)
+          && pool.info.mosaics.some(m => m.equals(asset))
+      ).forEach((pool) => pool.info.mosaics.filter(
+        (m) => !assets.some(a => a.equals(m))
+      ).forEach((next) => {
+        const hops: Hop[] = path.concat([ [ pool, asset, next ] ])
+        if (next.equals(output)) {
+          paths.push(hops)
+        }
+        else {
+          visit(next, hops, assets.concat([ next ]))
+        }
+      }))
+    }
+
+    visit(input, [], [ input ])
+    return paths
+  }
+
+  /**
+   * @function Swapable.RouterService.getRoute()
+   * @static
+   * @access public
+   * @description Helper function to calculate the amounts of each swap
+   *              of a \a path given an input amount \a amountIn. The
+   *              output amount of each swap is the input amount of the
+   *              next swap.
+   *
+   * @param   {Array<[RoutePool, MosaicId, MosaicId]>}  path  The path as a list of pool, input and output.
+   * @param   {bigint}    amountIn    The input amount (absolute).
+   * @return  {Route}
+   */
+  public static getRoute(
+    path: Hop[],
+    amountIn: bigint,
+  ): Route {
+    const legs: RouteLeg[] = []
+    path.reduce((amount, [ pool, input, output ]) => {
+      const amountOut = RouterService.getAmountOut(pool, amount, input, output)
+      legs.push({ pool, input, output, amountIn: amount, amountOut })
+      return amountOut
+    }, amountIn)
+
+    return {
+      legs,
+      amountIn,
+      amountOut: legs.length ? legs[legs.length - 1].amountOut : BigInt(0),
+    }
+  }
+
+  /**
+   * @function Swapable.RouterService.getBestRoute()
+   * @static
+   * @access public
+   * @description Helper function to find the route with the highest
+   *              output amount for a swap of \a amountIn of \a input for
+   *              \a output across \a pools, of at most \a maxHops swaps.
+   *
+   * @param   {RoutePool[]}   pools       The liquidity pools.
+   * @param   {bigint}        amountIn    The input amount (absolute).
+   * @param   {MosaicId}      input       The input mosaic.
+   * @param   {MosaicId}      output      The output mosaic.
+   * @param   {number}        maxHops     (Optional) The maximum number of swaps.
+   * @return  {Route|undefined}   The best route, or `undefined` given no route with a positive output.
+   */
+  public static getBestRoute(
+    pools: RoutePool[],
+    amountIn: bigint,
+    input: MosaicId,
+    output: MosaicId,
+    maxHops: number = RouterService.MAX_HOPS,
+  ): Route | undefined {
+    return RouterService.getPaths(pools, input, output, maxHops).map(
+      (path) => RouterService.getRoute(path, amountIn)
+    ).filter(
+      (route) => route.amountOut > BigInt(0)
+    ).reduce((best: Route | undefined, route: Route) => {
+      if (best === undefined || route.amountOut > best.amountOut) {
+        return route
+      }
+
+      return route.amountOut === best.amountOut && route.legs.length < best.legs.length
+        ? route
+        : best
+    }, undefined)
+  }
+
+  /**
+   * @function Swapable.RouterService.getSplit()
+   * @static
+   * @access public
+   * @description Helper function to allocate a swap of \a amountIn of
+   *              \a input for \a output across all \a pools of the pair
+   *              such that the total output amount is maximised.
+   *
+   * The input amount is divided in \a parts equal parts, the remainder
+   * is added to the first part. Each part is allocated to the pool with
+   * the highest marginal output given its previous allocations. As the
+   * output of swaps is concave in the input amount, this allocation is
+   * optimal up to the size of one part.
+   *
+   * @param   {RoutePool[]}   pools       The liquidity pools.
+   * @param   {bigint}        amountIn    The input amount (absolute).
+   * @param   {MosaicId}      input       The input mosaic.
+   * @param   {MosaicId}      output      The output mosaic.
+   * @param   {number}        parts       (Optional) The number of parts.
+   * @return  {Split|undefined}   The allocations, or `undefined` given no pool with a positive output.
+   */
+  public static getSplit(
+    pools: RoutePool[],
+    amountIn: bigint,
+    input: MosaicId,
+    output: MosaicId,
+    parts: number = RouterService.SPLIT_PARTS,
+  ): Split | undefined {
+    const zero = BigInt(0)
+    const candidates = pools.filter((pool) => [ input, output ].every(
+      (m) => pool.info.mosaics.some((mosaicId, i) => mosaicId.equals(m) && pool.reserves[i] > zero)
+    ))
+
+    // - Step out if we don't have enough information
+    if (amountIn <= zero || !candidates.length) {
+      return undefined
+    }
+
+    // - Divides the input amount in parts of at least `1`
+    const count = amountIn < BigInt(parts) ? amountIn : BigInt(parts)
+    const part = amountIn / count
+    const allocations: bigint[] = candidates.map(() => zero)
+    const outputs: bigint[] = candidates.map(() => zero)
+
+    for (let n = zero; n < count; n++) {
+      const size = n === zero ? part + amountIn % count : part
+
+      // - Allocates the part to the pool with the highest marginal output
+      const marginals = candidates.map(
+        (pool, i) => RouterService.getAmountOut(pool, allocations[i] + size, input, output) - outputs[i]
+      )
+      const best = marginals.reduce((b, m, i) => m > marginals[b] ? i : b, 0)
+
+      allocations[best] += size
+      outputs[best] += marginals[best]
+    }
+
+    const routes = candidates.map(
+      (pool, i) => RouterService.getRoute([ [ pool, input, output ] ], allocations[i])
+    ).filter(
+      (route) => route.amountIn > zero
+    )
+
+    const amountOut = routes.reduce((s, r) => s + r.amountOut, zero)
+    return amountOut > zero ? { routes, amountIn, amountOut } : undefined
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+
+// internal dependencies
+import { PricingService } from './PricingService'
+
+/**
+ * @class StableSwapService
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Class that describes a service around the pricing of
+ *              assets in StableSwap automated liquidity pools, i.e.
+ *              pools of pegged assets with an amplification `A`.
+ *
+ * The StableSwap invariant for a pair of reserves `x` and `y` is:
+ *
+ *     4A * (x + y) + D = 4A * D + D^3 / (4 * x * y)
+ *
+ * Amplified pools behave close to a constant sum around the peg and
+ * close to a constant product as reserves become imbalanced. As for
+ * the {@link PricingService}, rounding always favours the pool.
+ *
+ * @link https://curve.fi/files/stableswap-paper.pdf
+ */
+export class StableSwapService {
+  /**
+   * The default amplification coefficient of StableSwap pools.
+   *
+   * @var {number}
+   */
+  public static readonly DEFAULT_AMP: number = 100
+
+  /**
+   * The maximum amplification coefficient of StableSwap pools.
+   *
+   * @var {number}
+   */
+  public static readonly MAX_AMP: number = 1_000_000
+
+  /**
+   * The maximum number of iterations of Newton's method.
+   *
+   * @var {number}
+   */
+  protected static readonly MAX_ITERATIONS: number = 255
+
+  /**
+   * @function Swapable.StableSwapService.isValidAmp()
+   * @static
+   * @access public
+   * @description Helper function to validate an amplification
+   *              coefficient \a amp. Valid coefficients are integers
+   *              in the interval `[1, 1000000]`.
+   *
+   * @param   {number}  amp   The amplification coefficient.
+   * @return  {boolean}
+   */
+  public static isValidAmp(
+    amp: number,
+  ): boolean {
+    return Number.isInteger(amp)
+      && amp >= 1
+      && amp <= StableSwapService.MAX_AMP
+  }
+
+  /**
+   * @function Swapable.StableSwapService.getInvariant()
+   * @static
+   * @access public
+   * @description Helper function to calculate the StableSwap invariant
+   *              `D` given reserves \a reserveX, \a reserveY and the
+   *              amplification coefficient \a amp. For balanced reserves,
+   *              `D` is equal to `x + y`.
+   *
+   * @link https://github.com/curvefi/curve-contract/blob/master/contracts/pool-templates/base/SwapTemplateBase.vy#L193
+   *
+   * @param   {bigint}  reserveX    The reserve of `x`.
+   * @param   {bigint}  reserveY    The reserve of `y`.
+   * @param   {number}  amp         The amplification coefficient.
+   * @return  {bigint}  The invariant `D` (rounded down).
+   */
+  public static getInvariant(
+    reserveX: bigint,
+    reserveY: bigint,
+    amp: number,
+  ): bigint {
+    // - Step out if we don't have enough information
+    const zero = BigInt(0), one = BigInt(1), two = BigInt(2)
+    if (reserveX <= zero || reserveY <= zero) {
+      return zero
+    }
+
+    const sum = reserveX + reserveY
+    const ann = BigInt(amp) * BigInt(4)
+
+    // - Newton's method starting at the constant sum
+    let d = sum
+    for (let i = 0; i < StableSwapService.MAX_ITERATIONS; i++) {
+      // D_P = D^3 / (4 * x * y)
+      const dP = d * d / (reserveX * two) * d / (reserveY * two)
+      const previous = d
+
+      d = (ann * sum + dP * two) * d / ((ann - one) * d + BigInt(3) * dP)
+      if (StableSwapService.isConverged(d, previous)) {
+        break
+      }
+    }
+
+    return d
+  }
+
+  /**
+   * @function Swapable.StableSwapService.getReserve()
+   * @static
+   * @access public
+   * @description Helper function to calculate the reserve of one asset
+   *              given the reserve \a reserve of the *other* asset, the
+   *              invariant \a d and the amplification coefficient \a amp.
+   *
+   * @link https://github.com/curvefi/curve-contract/blob/master/contracts/pool-templates/base/SwapTemplateBase.vy#L389
+   *
+   * @param   {bigint}  reserve     The reserve of the other asset.
+   * @param   {bigint}  d           The invariant `D`.
+   * @param   {number}  amp         The amplification coefficient.
+   * @return  {bigint}  The reserve of the asset (rounded down).
+   */
+  public static getReserve(
+    reserve: bigint,
+    d: bigint,
+    amp: number,
+  ): bigint {
+    // - Step out if we don't have enough information
+    const zero = BigInt(0), two = BigInt(2)
+    if (reserve <= zero || d <= zero) {
+      return zero
+    }
+
+    // - y^2 + (b - D) * y = c
+    const ann = BigInt(amp) * BigInt(4)
+    const c = d * d / (reserve * two) * d / (ann * two)
+    const b = reserve + d / ann
+
+    // - Newton's method starting at D
+    let y = d
+    for (let i = 0; i < StableSwapService.MAX_ITERATIONS; i++) {
+      const previous = y
+
+      y = (y * y + c) / (two * y + b - d)
+      if (StableSwapService.isConverged(y, previous)) {
+        break
+      }
+    }
+
+    return y
+  }
+
+  /**
+   * @function Swapable.StableSwapService.getAmountOut()
+   * @static
+   * @access public
+   * @description Helper function to calculate the output amount of
+   *              a swap of \a amountIn given \a reserveIn, \a reserveOut,
+   *              a fee rate \a feeRate and the amplification \a amp. The
+   *              fee is deducted from the input *before* the invariant is
+   *              applied such that it is added to reserves.
+   *
+   * @param   {bigint}  amountIn      The input amount (absolute).
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {bigint}  reserveOut    The reserve of the output asset.
+   * @param   {number}  feeRate       The fee rate (in basis points).
+   * @param   {number}  amp           The amplification coefficient.
+   * @return  {bigint}  The output amount (rounded down).
+   */
+  public static getAmountOut(
+    amountIn: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    feeRate: number = PricingService.DEFAULT_FEE_RATE,
+    amp: number = StableSwapService.DEFAULT_AMP,
+  ): bigint {
+    // - Step out if we don't have enough information
+    const zero = BigInt(0)
+    if (amountIn <= zero || reserveIn <= zero || reserveOut <= zero) {
+      return zero
+    }
+
+    // - Deducts the trading fee from the input amount
+    const denominatorFee = BigInt(PricingService.FEE_DENOMINATOR)
+    const amountInWithFee = amountIn * (denominatorFee - BigInt(feeRate)) / denominatorFee
+
+    // - Invariant: D(x + dx', y - dy) = D(x, y)
+    const d = StableSwapService.getInvariant(reserveIn, reserveOut, amp)
+    const reserve = StableSwapService.getReserve(reserveIn + amountInWithFee, d, amp)
+
+    // :note: One unit is kept in reserves to account for rounding.
+    const amountOut = reserveOut - reserve - BigInt(1)
+    return amountOut > zero ? amountOut : zero
+  }
+
+  /**
+   * @function Swapable.StableSwapService.getAmountIn()
+   * @static
+   * @access public
+   * @description Helper function to calculate the input amount that
+   *              is required to receive exactly \a amountOut given
+   *              \a reserveIn, \a reserveOut, a fee rate \a feeRate and
+   *              the amplification \a amp. This is the inverse of
+   *              {@link getAmountOut()}.
+   *
+   * @param   {bigint}  amountOut     The desired output amount (absolute).
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {bigint}  reserveOut    The reserve of the output asset.
+   * @param   {number}  feeRate       The fee rate (in basis points).
+   * @param   {number}  amp           The amplification coefficient.
+   * @return  {bigint|undefined}  The required input amount (rounded up), or `undefined` given insufficient reserves.
+   */
+  public static getAmountIn(
+    amountOut: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    feeRate: number = PricingService.DEFAULT_FEE_RATE,
+    amp: number = StableSwapService.DEFAULT_AMP,
+  ): bigint | undefined {
+    // - Step out if the output cannot be provided by reserves
+    const zero = BigInt(0), one = BigInt(1)
+    if (amountOut <= zero || reserveIn <= zero || amountOut >= reserveOut) {
+      return undefined
+    }
+
+    // - Invariant: D(x + dx', y - dy) = D(x, y)
+    const d = StableSwapService.getInvariant(reserveIn, reserveOut, amp)
+    const reserve = StableSwapService.getReserve(reserveOut - amountOut, d, amp)
+    const amountInWithFee = reserve > reserveIn ? reserve - reserveIn + one : one
+
+    // - Adds the trading fee to the input amount
+    const denominatorFee = BigInt(PricingService.FEE_DENOMINATOR)
+    let amountIn = PricingService.divCeil(
+      amountInWithFee * denominatorFee,
+      denominatorFee - BigInt(feeRate),
+    )
+
+    // - Compensates for the rounding of the Newton's method
+    while (StableSwapService.getAmountOut(amountIn, reserveIn, reserveOut, feeRate, amp) < amountOut) {
+      amountIn += one
+    }
+
+    return amountIn
+  }
+
+  /**
+   * @function Swapable.StableSwapService.getPrice()
+   * @static
+   * @access public
+   * @description Helper function to calculate the marginal price of
+   *              the input asset, in units of the output asset, given
+   *              \a reserveIn, \a reserveOut and the amplification \a amp.
+   *              This is the slope `-dy/dx` of the invariant curve.
+   *
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {bigint}  reserveOut    The reserve of the output asset.
+   * @param   {number}  amp           The amplification coefficient.
+   * @return  {number}  The price, or `0` given empty reserves.
+   */
+  public static getPrice(
+    reserveIn: bigint,
+    reserveOut: bigint,
+    amp: number = StableSwapService.DEFAULT_AMP,
+  ): number {
+    const d = StableSwapService.getInvariant(reserveIn, reserveOut, amp)
+    if (d <= BigInt(0)) {
+      return 0
+    }
+
+    // - (16A * x^2 * y^2 + D^3 * y) / (16A * x^2 * y^2 + D^3 * x)
+    const amplified = BigInt(amp) * BigInt(16) * reserveIn * reserveIn * reserveOut * reserveOut
+    const d3 = d * d * d
+    return PricingService.getPrice(amplified + d3 * reserveOut, amplified + d3 * reserveIn)
+  }
+
+  /**
+   * @function Swapable.StableSwapService.getInitialShares()
+   * @static
+   * @access public
+   * @description Helper function to calculate the initial supply of
+   *              automated pool shares given amounts \a amountX and
+   *              \a amountY. The supply is equal to `D / 2` with 6
+   *              decimals, i.e. `sqrt(x * y)` given balanced amounts.
+   *
+   * @param   {bigint}  amountX     The amount of `x` (absolute).
+   * @param   {bigint}  amountY     The amount of `y` (absolute).
+   * @param   {number}  amp         The amplification coefficient.
+   * @return  {bigint}  The amount of automated pool shares (rounded down).
+   */
+  public static getInitialShares(
+    amountX: bigint,
+    amountY: bigint,
+    amp: number,
+  ): bigint {
+    const d = StableSwapService.getInvariant(amountX, amountY, amp)
+    return d * BigInt(1_000_000) / BigInt(2)
+  }
+
+  /**
+   * @function Swapable.StableSwapService.getK()
+   * @static
+   * @access public
+   * @description Helper function to calculate the equivalent of `k`
+   *              for StableSwap reserves, i.e. `(D / 2)^2`, such that
+   *              protocol fees are calculated given the growth of `D`.
+   *
+   * @param   {bigint}  reserveX    The reserve of `x`.
+   * @param   {bigint}  reserveY    The reserve of `y`.
+   * @param   {number}  amp         The amplification coefficient.
+   * @return  {bigint}
+   */
+  public static getK(
+    reserveX: bigint,
+    reserveY: bigint,
+    amp: number,
+  ): bigint {
+    const halfD = StableSwapService.getInvariant(reserveX, reserveY, amp) / BigInt(2)
+    return halfD * halfD
+  }
+
+  /**
+   * Returns whether Newton's method converged, i.e. whether the
+   * \a next and \a previous approximations differ by at most one.
+   *
+   * @static
+   * @access protected
+   * @param   {bigint}  next
+   * @param   {bigint}  previous
+   * @return  {boolean}
+   */
+  protected static isConverged(
+    next: bigint,
+    previous: bigint,
+  ): boolean {
+    const delta = next > previous ? next - previous : previous - next
+    return delta <= BigInt(1)
+  }
+}
@@ -16,11 +16,13 @@ import {
   ChainRepository,
   MosaicId,
   PlainMessage,
+  Order,
   ReceiptRepository,
   Transaction,
   TransactionGroup,
   TransactionInfo,
   TransactionRepository,
+  TransactionSearchCriteria,
   TransactionService as LibTransactionService,
   TransactionType,
   TransferTransaction,
@@ -119,8 +121,8 @@ export class TransactionService {
   ): Observable<Transaction[]> {
 
     // Keeps only transfers and aggregate transactions starting
-    // at offset `lastTransactionId`.
-    return this.transactionHttp.search({
+    // at offset `lastTransactionId`, in ascending order.
+    const criteria: TransactionSearchCriteria = {
       address: address,
       group: TransactionGroup.Confirmed,
       type: [
@@ -128,22 +130,21 @@ export class TransactionService {
         TransactionType.AGGREGATE_COMPLETE,
         TransactionType.AGGREGATE_BONDED,
       ],
+      order: Order.Asc,
+      pageSize: this.pageSize,
       offset: lastTransactionId,
-    }).pipe(
-      // Expands to get all transactions pending to be processed
+    }
+
+    return this.transactionHttp.search(criteria).pipe(
+      // Expands to get all transactions pending to be processed,
+      // the next page starts after the last transaction of a page
       expand((page: Page<Transaction>) => {
         const transactions = page.data
         if (transactions.length === this.pageSize) {
           return this.transactionHttp.search({
-            address: address,
-            group: TransactionGroup.Confirmed,
-            type: [
-              TransactionType.TRANSFER,
-              TransactionType.AGGREGATE_COMPLETE,
-              TransactionType.AGGREGATE_BONDED,
-            ],
-            offset: lastTransactionId,
-          }).toPromise()
+            ...criteria,
+            offset: transactions[transactions.length - 1].transactionInfo!.id,
+          })
         }
 
         return EMPTY
@@ -152,6 +153,37 @@ export class TransactionService {
       toArray())
   }
 
+  /**
+   * @function Swapable.TransactionService.getRecentTransactions()
+   * @access public
+   * @description Gets one page of the most recent transactions, newest first.
+   *
+   * @param   {Address}   address               The address that will be read.
+   * @param   {string}    oldestTransactionId   (Optional) Resource identifier of the oldest transaction already read.
+   * @returns Observable <Transaction[]>
+   */
+  public getRecentTransactions(
+    address: Address,
+    oldestTransactionId?: string,
+  ): Observable<Transaction[]> {
+
+    // Keeps only transfers and aggregate transactions that precede
+    // offset `oldestTransactionId`, in descending order.
+    return this.transactionHttp.search({
+      address: address,
+      group: TransactionGroup.Confirmed,
+      type: [
+        TransactionType.TRANSFER,
+        TransactionType.AGGREGATE_COMPLETE,
+        TransactionType.AGGREGATE_BONDED,
+      ],
+      order: Order.Desc,
+      pageSize: this.pageSize,
+      offset: oldestTransactionId,
+    }).pipe(
+      map((page: Page<Transaction>) => page.data))
+  }
+
   /**
    * @function Swapable.TransactionService.getIncomingTransfers()
    * @access public
@@ -323,6 +355,34 @@ export class TransactionService {
       )
   }
 
+  /**
+   * @function Swapable.TransactionService.filterSignedTransactions()
+   * @static
+   * @access public
+   * @description Given an array of transactions, returns only the ones that
+   *              are signed by an address, i.e. of which it is the signer or,
+   *              for aggregate transactions, one of the cosignatories.
+   *
+   * This filter must be applied *before* aggregate transactions are
+   * flattened, e.g. to read only the execution proofs of contracts that
+   * the target account of a pool has signed or cosigned.
+   *
+   * @param   {Transaction[]}   transactions    List of transactions.
+   * @param   {Address}         signerAddr      The address considered the "signer" or "cosigner".
+   * @returns {Transaction[]}
+   */
+  public static filterSignedTransactions(
+    transactions: Transaction[],
+    signerAddr: Address,
+  ): Transaction[] {
+    return transactions.filter((transaction) => (
+      (transaction.signer !== undefined && transaction.signer.address.equals(signerAddr))
+      || (transaction instanceof AggregateTransaction && transaction.cosignatures.some(
+        (cosignature) => cosignature.signer.address.equals(signerAddr)
+      ))
+    ))
+  }
+
   /**
    * @function Swapable.TransactionService.filterElligibleOutgoingTransfers()
    * @static
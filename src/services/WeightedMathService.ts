@@ -0,0 +1,345 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+
+// internal dependencies
+import { FailureInvalidAmount } from '../errors/FailureInvalidAmount'
+import { PricingService } from './PricingService'
+
+/**
+ * @class WeightedMathService
+ * @package Swapable
+ * @subpackage Services
+ * @since v1.4.0
+ * @description Class that describes a service around the pricing of
+ *              assets in weighted automated liquidity pools, e.g. an
+ *              80/20 pair. Weights are integer percentages that must
+ *              sum up to `100`.
+ *
+ * The weighted invariant for reserves `B_i` with weights `w_i` is:
+ *
+ *     V = Π B_i ^ (w_i / 100)
+ *
+ * Equal weights result in the constant product formula. Fractional
+ * powers are calculated with integer roots such that the results are
+ * exact and, as for the {@link PricingService}, favour the pool.
+ *
+ * @link https://balancer.fi/whitepaper.pdf
+ */
+export class WeightedMathService {
+  /**
+   * The sum of the weights of a pool, i.e. weights are percentages.
+   *
+   * @var {number}
+   */
+  public static readonly WEIGHTS_TOTAL: number = 100
+
+  /**
+   * The default weight of assets, i.e. a 50/50 pair.
+   *
+   * @var {number}
+   */
+  public static readonly DEFAULT_WEIGHT: number = 50
+
+  /**
+   * @function Swapable.WeightedMathService.isValidWeights()
+   * @static
+   * @access public
+   * @description Helper function to validate the \a weights of a pool.
+   *              Valid weights are integer percentages of at least `1`
+   *              which sum up to `100`.
+   *
+   * @param   {number[]}  weights   The weights (in percent).
+   * @return  {boolean}
+   */
+  public static isValidWeights(
+    weights: number[],
+  ): boolean {
+    return weights.length >= 2
+      && weights.every(w => Number.isInteger(w) && w >= 1)
+      && weights.reduce((s, w) => s + w, 0) === WeightedMathService.WEIGHTS_TOTAL
+  }
+
+  /**
+   * @function Swapable.WeightedMathService.getInvariant()
+   * @static
+   * @access public
+   * @description Helper function to calculate the weighted invariant
+   *              `V` given \a reserves and their \a weights. This value
+   *              is the weighted geometric mean of reserves and scales
+   *              linearly with reserves, i.e. `sqrt(x * y)` for a 50/50
+   *              pair. Equal weights of more than two reserves result in
+   *              the geometric mean of reserves.
+   *
+   * @param   {bigint[]}  reserves    The reserves (absolute).
+   * @param   {number[]}  weights     The weights (in percent).
+   * @return  {bigint}    The invariant `V` (rounded down).
+   */
+  public static getInvariant(
+    reserves: bigint[],
+    weights: number[],
+  ): bigint {
+    // - Step out if we don't have enough information
+    if (reserves.some(r => r <= BigInt(0))) {
+      return BigInt(0)
+    }
+
+    // - Reduces exponents with the greatest common divisor of weights
+    const divisor = weights.reduce((g, w) => WeightedMathService.gcd(g, w), 0)
+    const product = reserves.reduce(
+      (p, r, i) => p * r ** BigInt(weights[i] / divisor),
+      BigInt(1),
+    )
+
+    // :note: Weights of pools sum up to 100, relative weights are accepted too.
+    const total = weights.reduce((s, w) => s + w, 0)
+    return WeightedMathService.nthRoot(product, total / divisor)
+  }
+
+  /**
+   * @function Swapable.WeightedMathService.getAmountOut()
+   * @static
+   * @access public
+   * @description Helper function to calculate the output amount of
+   *              a swap of \a amountIn given \a reserveIn, \a reserveOut,
+   *              their weights \a weightIn, \a weightOut and a fee rate
+   *              \a feeRate. The fee is deducted from the input *before*
+   *              the invariant is applied such that it is added to reserves.
+   *
+   * @param   {bigint}  amountIn      The input amount (absolute).
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {bigint}  reserveOut    The reserve of the output asset.
+   * @param   {number}  weightIn      The weight of the input asset (in percent).
+   * @param   {number}  weightOut     The weight of the output asset (in percent).
+   * @param   {number}  feeRate       The fee rate (in basis points).
+   * @return  {bigint}  The output amount (rounded down).
+   */
+  public static getAmountOut(
+    amountIn: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    weightIn: number,
+    weightOut: number,
+    feeRate: number = PricingService.DEFAULT_FEE_RATE,
+  ): bigint {
+    // - Step out if we don't have enough information
+    const zero = BigInt(0)
+    if (amountIn <= zero || reserveIn <= zero || reserveOut <= zero) {
+      return zero
+    }
+
+    // - Deducts the trading fee from the input amount
+    const denominatorFee = BigInt(PricingService.FEE_DENOMINATOR)
+    const amountInWithFee = amountIn * (denominatorFee - BigInt(feeRate))
+
+    // - Invariant: (x + dx')^wi * (y - dy)^wo = x^wi * y^wo
+    const divisor = WeightedMathService.gcd(weightIn, weightOut)
+    const p = BigInt(weightIn / divisor), q = weightOut / divisor
+    const numerator = reserveOut ** BigInt(q) * (reserveIn * denominatorFee) ** p
+    const denominator = (reserveIn * denominatorFee + amountInWithFee) ** p
+
+    // :note: The remaining reserve is rounded up in favour of the pool.
+    const reserve = WeightedMathService.nthRoot(
+      PricingService.divCeil(numerator, denominator),
+      q,
+      true,
+    )
+
+    return reserveOut > reserve ? reserveOut - reserve : zero
+  }
+
+  /**
+   * @function Swapable.WeightedMathService.getAmountIn()
+   * @static
+   * @access public
+   * @description Helper function to calculate the input amount that
+   *              is required to receive exactly \a amountOut given
+   *              \a reserveIn, \a reserveOut, their weights \a weightIn,
+   *              \a weightOut and a fee rate \a feeRate. This is the
+   *              inverse of {@link getAmountOut()}.
+   *
+   * @param   {bigint}  amountOut     The desired output amount (absolute).
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {bigint}  reserveOut    The reserve of the output asset.
+   * @param   {number}  weightIn      The weight of the input asset (in percent).
+   * @param   {number}  weightOut     The weight of the output asset (in percent).
+   * @param   {number}  feeRate       The fee rate (in basis points).
+   * @return  {bigint|undefined}  The required input amount (rounded up), or `undefined` given insufficient reserves.
+   */
+  public static getAmountIn(
+    amountOut: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    weightIn: number,
+    weightOut: number,
+    feeRate: number = PricingService.DEFAULT_FEE_RATE,
+  ): bigint | undefined {
+    // - Step out if the output cannot be provided by reserves
+    const zero = BigInt(0), one = BigInt(1)
+    if (amountOut <= zero || reserveIn <= zero || amountOut >= reserveOut) {
+      return undefined
+    }
+
+    // - Invariant: (x + dx')^wi * (y - dy)^wo = x^wi * y^wo
+    const divisor = WeightedMathService.gcd(weightIn, weightOut)
+    const p = weightIn / divisor, q = BigInt(weightOut / divisor)
+    const reserve = WeightedMathService.nthRoot(
+      PricingService.divCeil(
+        reserveIn ** BigInt(p) * reserveOut ** q,
+        (reserveOut - amountOut) ** q,
+      ),
+      p,
+      true,
+    )
+
+    // - Adds the trading fee to the input amount
+    const denominatorFee = BigInt(PricingService.FEE_DENOMINATOR)
+    let amountIn = PricingService.divCeil(
+      (reserve - reserveIn) * denominatorFee,
+      denominatorFee - BigInt(feeRate),
+    )
+
+    // - Compensates for the rounding of the roots and of the input fee
+    const getAmountOut = (a: bigint) => WeightedMathService.getAmountOut(
+      a, reserveIn, reserveOut, weightIn, weightOut, feeRate,
+    )
+
+    while (getAmountOut(amountIn) < amountOut) {
+      amountIn += one
+    }
+
+    while (amountIn > one && getAmountOut(amountIn - one) >= amountOut) {
+      amountIn -= one
+    }
+
+    return amountIn
+  }
+
+  /**
+   * @function Swapable.WeightedMathService.getPrice()
+   * @static
+   * @access public
+   * @description Helper function to calculate the spot price of the
+   *              input asset, in units of the output asset, given
+   *              \a reserveIn, \a reserveOut and their weights, i.e.
+   *              `(y / wo) / (x / wi)`.
+   *
+   * @param   {bigint}  reserveIn     The reserve of the input asset.
+   * @param   {bigint}  reserveOut    The reserve of the output asset.
+   * @param   {number}  weightIn      The weight of the input asset (in percent).
+   * @param   {number}  weightOut     The weight of the output asset (in percent).
+   * @return  {number}  The price, or `0` given empty reserves.
+   */
+  public static getPrice(
+    reserveIn: bigint,
+    reserveOut: bigint,
+    weightIn: number,
+    weightOut: number,
+  ): number {
+    return PricingService.getPrice(
+      reserveOut * BigInt(weightIn),
+      reserveIn * BigInt(weightOut),
+    )
+  }
+
+  /**
+   * @function Swapable.WeightedMathService.getInitialShares()
+   * @static
+   * @access public
+   * @description Helper function to calculate the initial supply of
+   *              automated pool shares given \a amounts and \a weights.
+   *              The supply is equal to the invariant `V` with 6 decimals.
+   *
+   * @param   {bigint[]}  amounts     The amounts (absolute).
+   * @param   {number[]}  weights     The weights (in percent).
+   * @return  {bigint}    The amount of automated pool shares (rounded down).
+   */
+  public static getInitialShares(
+    amounts: bigint[],
+    weights: number[],
+  ): bigint {
+    return WeightedMathService.getInvariant(amounts, weights) * BigInt(1_000_000)
+  }
+
+  /**
+   * @function Swapable.WeightedMathService.getK()
+   * @static
+   * @access public
+   * @description Helper function to calculate the equivalent of `k`
+   *              for weighted reserves, i.e. `V^2`, such that protocol
+   *              fees are calculated given the growth of `V`.
+   *
+   * @param   {bigint[]}  reserves    The reserves (absolute).
+   * @param   {number[]}  weights     The weights (in percent).
+   * @return  {bigint}
+   */
+  public static getK(
+    reserves: bigint[],
+    weights: number[],
+  ): bigint {
+    const v = WeightedMathService.getInvariant(reserves, weights)
+    return v * v
+  }
+
+  /**
+   * @function Swapable.WeightedMathService.nthRoot()
+   * @static
+   * @access public
+   * @description Helper function to calculate the integer \a n-th root
+   *              of \a value, i.e. the largest integer `r` for which
+   *              `r^n <= value`, or the smallest integer `r` for which
+   *              `r^n >= value` given \a roundUp.
+   *
+   * @param   {bigint}    value     The (non-negative) radicand.
+   * @param   {number}    n         The degree of the root.
+   * @param   {boolean}   roundUp   (Optional) Whether to round up.
+   * @return  {bigint}
+   * @throws  {FailureInvalidAmount}  Given a negative value.
+   */
+  public static nthRoot(
+    value: bigint,
+    n: number,
+    roundUp: boolean = false,
+  ): bigint {
+    if (value < BigInt(0)) {
+      throw new FailureInvalidAmount('Cannot calculate the root of a negative amount.')
+    }
+
+    const one = BigInt(1), degree = BigInt(n)
+    if (value < BigInt(2) || n === 1) {
+      return value
+    }
+
+    // - Newton's method starting above the root
+    const bits = value.toString(2).length
+    let x0 = one << BigInt(Math.ceil(bits / n))
+    let x1 = ((degree - one) * x0 + value / x0 ** (degree - one)) / degree
+    while (x1 < x0) {
+      x0 = x1
+      x1 = ((degree - one) * x0 + value / x0 ** (degree - one)) / degree
+    }
+
+    return roundUp && x0 ** degree < value ? x0 + one : x0
+  }
+
+  /**
+   * Returns the greatest common divisor of \a a and \a b.
+   *
+   * @static
+   * @access protected
+   * @param   {number}  a
+   * @param   {number}  b
+   * @return  {number}
+   */
+  protected static gcd(
+    a: number,
+    b: number,
+  ): number {
+    return b === 0 ? a : WeightedMathService.gcd(b, a % b)
+  }
+}
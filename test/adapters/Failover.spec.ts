@@ -0,0 +1,121 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import * as sinon from 'sinon'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { MosaicId, NetworkType } from 'symbol-sdk'
+
+// internal dependencies
+import { Failover, FailureNetworkUnavailable, InMemory, Symbol } from '../../index'
+import { getTestAccount } from '../mocks/index'
+
+// prepare
+const options = { retries: 1, backoff: 1, timeout: 50 }
+const getNode = (gatewayUrl: string): InMemory.Reader => {
+  const node = new InMemory.Reader(
+    NetworkType.TEST_NET,
+    'ACECD90E7B248E012803228ADB4424F0D966D24149B72E58987D2BF2F2AF03C4',
+    1573430400,
+    new MosaicId('519FC24B9223E0B4'),
+  )
+  node.gatewayUrl = gatewayUrl
+  return node
+}
+
+describe('adapters/Failover --->', () => {
+  describe('fromPreset() should', () => {
+    it('construct one Symbol adapter per default node', () => {
+      const reader = Failover.Reader.fromPreset('dhealth-mainnet')
+      expect(reader.readers.length).to.be.equal(2)
+      expect(reader.readers[0]).to.be.instanceof(Symbol.Reader)
+      expect(reader.gatewayUrl).to.be.equal('http://dual-01.dhealth.cloud:3000')
+      expect(reader.feeMosaicId.toHex()).to.be.equal('39E0C49FA322A459')
+    })
+  })
+
+  describe('read operations should', () => {
+    it('retry a node before failing over to the next node', async () => {
+      // - Prepare
+      const [ first, second ] = [ getNode('memory://1'), getNode('memory://2') ]
+      const reader = new Failover.Reader([ first, second ], options)
+      const stubFirst = sinon.stub(first, 'getChainHeight').rejects(new Error('ECONNREFUSED'))
+      sinon.stub(second, 'getChainHeight').resolves(1234)
+
+      // - Act
+      const height = await reader.getChainHeight()
+
+      // - Assert
+      expect(height).to.be.equal(1234)
+      expect(stubFirst.calledTwice).to.be.true
+      expect(reader.healthy).to.deep.equal([ false, true ])
+      expect(reader.gatewayUrl).to.be.equal('memory://2')
+    })
+
+    it('fail over given a node that does not respond in time', async () => {
+      // - Prepare
+      const [ first, second ] = [ getNode('memory://1'), getNode('memory://2') ]
+      const reader = new Failover.Reader([ first, second ], { retries: 0, backoff: 1, timeout: 10 })
+      sinon.stub(first, 'getChainHeight').returns(new Promise(resolve => setTimeout(() => resolve(1), 100)))
+
+      // - Act & Assert
+      expect(await reader.getChainHeight()).to.be.equal(1)
+      expect(reader.gatewayUrl).to.be.equal('memory://2')
+    })
+
+    it('throw error responses of a node without failover', async () => {
+      // - Prepare
+      const [ first, second ] = [ getNode('memory://1'), getNode('memory://2') ]
+      const reader = new Failover.Reader([ first, second ], options)
+      const stubFirst = sinon.stub(first, 'getAccountInfo').rejects(new Error(JSON.stringify({ statusCode: 404 })))
+      const stubSecond = sinon.spy(second, 'getAccountInfo')
+
+      // - Act
+      let error: Error | undefined
+      await reader.getAccountInfo(getTestAccount('target').address).catch(e => error = e)
+
+      // - Assert
+      expect(error!.message).to.contain('404')
+      expect(stubFirst.calledOnce).to.be.true
+      expect(stubSecond.called).to.be.false
+    })
+
+    it('throw an error given no node that responds', async () => {
+      // - Prepare
+      const [ first, second ] = [ getNode('memory://1'), getNode('memory://2') ]
+      const reader = new Failover.Reader([ first, second ], options)
+      sinon.stub(first, 'getChainHeight').rejects(new Error('ECONNREFUSED'))
+      sinon.stub(second, 'getChainHeight').rejects(new Error('ETIMEDOUT'))
+
+      // - Act
+      let error: Error | undefined
+      await reader.getChainHeight().catch(e => error = e)
+
+      // - Assert
+      expect(error).to.be.instanceof(FailureNetworkUnavailable)
+      expect(error!.message).to.contain('ETIMEDOUT')
+      expect(reader.healthy).to.deep.equal([ false, false ])
+    })
+  })
+
+  describe('checkHealth() should', () => {
+    it('read the first healthy node first', async () => {
+      // - Prepare
+      const [ first, second ] = [ getNode('memory://1'), getNode('memory://2') ]
+      const reader = new Failover.Reader([ first, second ], options)
+      sinon.stub(first, 'getChainHeight').rejects(new Error('ECONNREFUSED'))
+
+      // - Act
+      const health = await reader.checkHealth()
+
+      // - Assert
+      expect(health).to.deep.equal([ false, true ])
+      expect(reader.gatewayUrl).to.be.equal('memory://2')
+    })
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import {
+  Address,
+  AggregateTransaction,
+  Deadline,
+  Mosaic,
+  MosaicId,
+  NetworkType,
+  PlainMessage,
+  PublicAccount,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetAmount,
+  AssetIdentifier,
+  CommandOption,
+  FailureInvalidAmount,
+  FailureOperationForbidden,
+  InMemory,
+  PoolInfo,
+  PoolType,
+  Swapable,
+  TransactionParameters,
+} from '../../index'
+import { IndexerService } from '../../src/services/IndexerService'
+import { getTestAccount } from '../mocks/index'
+
+// prepare
+const provider = getTestAccount('operator1')
+// the in-memory network is a TEST_NET network
+const trader = PublicAccount.createFromPublicKey(getTestAccount('operator3').publicKey, NetworkType.TEST_NET)
+const owner = getTestAccount('target')
+const x = new AssetIdentifier('00000001', owner)
+const y = new AssetIdentifier('00000002', owner)
+const getReader = (): InMemory.Reader => new InMemory.Reader(
+  NetworkType.TEST_NET,
+  'ACECD90E7B248E012803228ADB4424F0D966D24149B72E58987D2BF2F2AF03C4',
+  1573430400,
+  new MosaicId('519FC24B9223E0B4'),
+).addAccount(provider, [
+  new Mosaic(x.toMosaicId(), UInt64.fromUint(10000000)),
+  new Mosaic(y.toMosaicId(), UInt64.fromUint(10000000)),
+]).addAccount(trader, [
+  new Mosaic(x.toMosaicId(), UInt64.fromUint(100000)),
+])
+const getTransfer = (
+  sender: PublicAccount,
+  recipient: Address,
+  mosaicId: MosaicId,
+  amount: number,
+): AggregateTransaction => AggregateTransaction.createComplete(
+  Deadline.create(1573430400),
+  [
+    TransferTransaction.create(
+      Deadline.create(1573430400),
+      recipient,
+      [ new Mosaic(mosaicId, UInt64.fromUint(amount)) ],
+      PlainMessage.create(''),
+      NetworkType.TEST_NET,
+    ).toAggregate(sender),
+  ],
+  NetworkType.TEST_NET,
+  [],
+)
+const getBalance = async (reader: InMemory.Reader, address: Address, mosaicId: MosaicId): Promise<number> => {
+  const info = await reader.getAccountInfo(address)
+  const mosaic = info.mosaics.find(m => m.id.equals(mosaicId))
+  return mosaic === undefined ? 0 : mosaic.amount.compact()
+}
+
+describe('adapters/InMemory --->', () => {
+  describe('announce() should', () => {
+    it('apply transfers and confirm contracts in a new block', async () => {
+      // - Prepare
+      const reader = getReader()
+      const contract = getTransfer(provider, trader.address, x.toMosaicId(), 1000)
+
+      // - Act
+      const confirmed = await reader.announce(contract)
+
+      // - Assert
+      expect(await reader.getChainHeight()).to.be.equal(2)
+      expect(confirmed.transactionInfo!.height.compact()).to.be.equal(2)
+      expect(await getBalance(reader, provider.address, x.toMosaicId())).to.be.equal(9999000)
+      expect(await getBalance(reader, trader.address, x.toMosaicId())).to.be.equal(101000)
+      expect((await reader.searchTransactions(trader.address)).length).to.be.equal(1)
+      expect((await reader.searchTransactions(trader.address, confirmed.transactionInfo!.id)).length).to.be.equal(0)
+    })
+
+    it('reject contracts atomically given an insufficient balance', async () => {
+      // - Prepare
+      const reader = getReader()
+      const contract = getTransfer(provider, trader.address, x.toMosaicId(), 20000000)
+
+      // - Act & Assert
+      let error: Error | undefined
+      await reader.announce(contract).catch(e => error = e)
+      expect(error).to.be.instanceof(FailureInvalidAmount)
+      expect(await reader.getChainHeight()).to.be.equal(1)
+      expect(await getBalance(reader, trader.address, x.toMosaicId())).to.be.equal(100000)
+    })
+  })
+
+  describe('getRecentTransactions() should', () => {
+    it('read confirmed contracts newest first starting before an offset', async () => {
+      // - Prepare
+      const reader = getReader()
+      const first = await reader.announce(getTransfer(provider, trader.address, x.toMosaicId(), 1000))
+      const second = await reader.announce(getTransfer(provider, trader.address, x.toMosaicId(), 2000))
+      const third = await reader.announce(getTransfer(provider, trader.address, x.toMosaicId(), 3000))
+
+      // - Act
+      const recent = await reader.getRecentTransactions(trader.address, 2)
+      const older = await reader.getRecentTransactions(trader.address, 2, second.transactionInfo!.id)
+
+      // - Assert
+      expect(recent.map(t => t.transactionInfo!.id)).to.deep.equal([
+        third.transactionInfo!.id,
+        second.transactionInfo!.id,
+      ])
+      expect(older.map(t => t.transactionInfo!.id)).to.deep.equal([ first.transactionInfo!.id ])
+    })
+  })
+
+  describe('AutomatedPool should', () => {
+    it('synchronize reserves and supply after announced contracts', async () => {
+      // - Prepare
+      const reader = getReader()
+      const pool = new Swapable.AutomatedPool('X:Y', reader, owner)
+
+      // - Act (create pool)
+      pool.create(provider, new AssetAmount(x, 1000000), new AssetAmount(y, 4000000))
+      await reader.announce(pool.result!.toTransaction())
+      await pool.synchronize(provider)
+
+      // - Assert (minimum liquidity is locked in the target account)
+      const shares = await getBalance(reader, provider.address, pool.identifier.toMosaicId())
+      expect(pool.mosaicInfo!.supply.compact()).to.be.equal(shares + 1000)
+      expect(pool.reserveInfo!.mosaics.map(m => m.amount.compact())).to.deep.equal([ 1000, 1000000, 4000000 ])
+
+      // - Act (swap)
+      const contract = await pool.execute(trader, pool.identifier, 'Swap', new TransactionParameters(), [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+      ])
+      await reader.announce(contract.toTransaction())
+      await pool.synchronize(trader)
+
+      // - Assert
+      const output = await getBalance(reader, trader.address, y.toMosaicId())
+      expect(output).to.be.greaterThan(0)
+      expect(await getBalance(reader, trader.address, x.toMosaicId())).to.be.equal(99000)
+      expect(pool.reserveInfo!.mosaics.map(m => m.amount.compact())).to.deep.equal([ 1000, 1001000, 4000000 - output ])
+      expect(pool.snapshotHeight).to.be.equal(3)
+    })
+
+    it('confirm contracts that can be replayed by the indexer', async () => {
+      // - Prepare
+      const reader = getReader()
+      const pool = new Swapable.AutomatedPool('X:Y', reader, owner)
+      pool.create(provider, new AssetAmount(x, 1000000), new AssetAmount(y, 4000000))
+      await reader.announce(pool.result!.toTransaction())
+      await pool.synchronize(trader)
+      const contract = await pool.execute(trader, pool.identifier, 'Swap', new TransactionParameters(), [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+      ])
+      await reader.announce(contract.toTransaction())
+
+      // - Act
+      const timeline = IndexerService.replay({
+        info: {
+          target: owner,
+          pMosaic: pool.identifier.toMosaicId(),
+          mosaics: [ x.toMosaicId(), y.toMosaicId() ],
+          poolType: PoolType.ConstantProduct,
+        } as PoolInfo,
+        cursor: undefined,
+        state: { height: 0, reserves: [], supply: BigInt(0), k: BigInt(0) },
+        events: [],
+      }, await reader.searchTransactions(owner.address))
+
+      // - Assert
+      const reserveInfo = await reader.getAccountInfo(owner.address)
+      expect(timeline.events.map(e => e.command)).to.deep.equal([ 'create-pool', 'swap' ])
+      expect(timeline.state.reserves).to.deep.equal(reserveInfo.mosaics.slice(1).map(m => BigInt(m.amount.toString())))
+    })
+
+    it('reject transfers of mosaics that are not accepted by the target', async () => {
+      // - Prepare
+      const reader = getReader()
+      const pool = new Swapable.AutomatedPool('X:Y', reader, owner)
+      const z = new AssetIdentifier('00000003', owner).toMosaicId()
+      reader.addAccount(provider, [ new Mosaic(z, UInt64.fromUint(1000)) ])
+      pool.create(provider, new AssetAmount(x, 1000000), new AssetAmount(y, 4000000))
+      await reader.announce(pool.result!.toTransaction())
+
+      // - Act & Assert
+      let error: Error | undefined
+      await reader.announce(getTransfer(provider, owner.address, z, 1000)).catch(e => error = e)
+      expect(error).to.be.instanceof(FailureOperationForbidden)
+    })
+  })
+})
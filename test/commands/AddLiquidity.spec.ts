@@ -0,0 +1,188 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import {
+  AccountMetadataTransaction,
+  AggregateTransaction,
+  Mosaic,
+  MosaicSupplyChangeTransaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetAmount,
+  AssetIdentifier,
+  CommandOption,
+  FeeMode,
+  PoolType,
+} from '../../index'
+import { AddLiquidity } from '../../src/commands/AddLiquidity'
+import { getTestAccount, getTestAccountInfo, getTestContext, getTestMarket, Stubs } from '../mocks/index'
+
+// prepare
+const market = getTestMarket()
+const provider = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target'))
+const y = new AssetIdentifier('00000002', getTestAccount('target'))
+const z = new AssetIdentifier('00000003', getTestAccount('target'))
+const getAddCommand = (argv: CommandOption[]): AddLiquidity => {
+  const command = new AddLiquidity(getTestContext('http://localhost:3000', 'operator1', argv), market.identifier)
+  command.mosaicInfo = new Stubs.MosaicInfo(market.identifier.toMosaicId(), 0, 1000)
+  command.reserveInfo = getTestAccountInfo('target', [
+    new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000)),
+    new Mosaic(y.toMosaicId(), UInt64.fromUint(2000000)),
+    new Mosaic(z.toMosaicId(), UInt64.fromUint(1000000)),
+  ])
+  return command
+}
+
+describe('commands/AddLiquidity --->', () => {
+  describe('canExecute() should', () => {
+    it('allow deposits given optimal amounts above minimum amounts', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 100000)),
+        new CommandOption('input_y', new AssetAmount(y, 300000)),
+        new CommandOption('amount_x_min', 100000),
+        new CommandOption('amount_y_min', 200000),
+      ]
+
+      const result = getAddCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('deny deposits given optimal amounts below minimum amounts', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 300000)),
+        new CommandOption('input_y', new AssetAmount(y, 200000)),
+        new CommandOption('amount_x_min', 150000),
+      ]
+
+      const result = getAddCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Amount of `x` of 100000 is below the minimum amount of 150000')
+    })
+
+    it('deny deposits that do not mint any shares', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 100)),
+        new CommandOption('input_y', new AssetAmount(y, 200)),
+      ]
+
+      const result = getAddCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Amount of 0 shares is too small')
+    })
+
+    it('deny deposits that do not list all members of a multi-asset pool', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 100000)),
+        new CommandOption('input_y', new AssetAmount(y, 200000)),
+      ]
+
+      const command = getAddCommand(argv)
+      command.poolInfo = {
+        target: getTestAccount('target'),
+        pMosaic: market.identifier.toMosaicId(),
+        xMosaic: x.toMosaicId(),
+        yMosaic: y.toMosaicId(),
+        mosaics: [x.toMosaicId(), y.toMosaicId(), z.toMosaicId()],
+        feeRate: 30,
+        feeTo: getTestAccount('target').address,
+        protocolFee: 0,
+        kLast: undefined,
+        poolType: PoolType.ConstantProduct,
+        amp: 0,
+        weights: [50, 50, 50],
+        maxPriceImpact: 0,
+        feeMode: FeeMode.Fixed,
+        minFeeRate: 30,
+        maxFeeRate: 30,
+      }
+
+      const result = command.canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('must add liquidity of all 3 members')
+    })
+  })
+
+  describe('execute() should', () => {
+    it('transfer the optimal amounts of all members given a multi-asset pool', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('inputs', [
+          new AssetAmount(x, 100000),
+          new AssetAmount(y, 300000),
+          new AssetAmount(z, 50000),
+        ]),
+      ]
+
+      const contract = getAddCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[0] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(50)
+      expect((contract.innerTransactions[2] as TransferTransaction).mosaics.length).to.be.equal(3)
+      expect((contract.innerTransactions[4] as TransferTransaction).message.payload).to.match(/:50:50000:100000:50000:0:0:[0-9A-F]{8}$/)
+    })
+
+    it('transfer only the optimal amounts to the pool', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 100000)),
+        new CommandOption('input_y', new AssetAmount(y, 300000)),
+      ]
+
+      const contract = getAddCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(5)
+      expect((contract.innerTransactions[0] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(100)
+      expect((contract.innerTransactions[2] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(100000)
+      expect((contract.innerTransactions[2] as TransferTransaction).mosaics[1].amount.compact()).to.be.equal(200000)
+      expect((contract.innerTransactions[3] as AccountMetadataTransaction).scopedMetadataKey.toHex()).to.be.equal('FEA93B16523477AD')
+    })
+
+    it('mint protocol fee shares to fee recipient given growth of k', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 100000)),
+        new CommandOption('input_y', new AssetAmount(y, 200000)),
+      ]
+
+      const command = getAddCommand(argv)
+      command.poolInfo = {
+        target: getTestAccount('target'),
+        pMosaic: market.identifier.toMosaicId(),
+        xMosaic: x.toMosaicId(),
+        yMosaic: y.toMosaicId(),
+        mosaics: [x.toMosaicId(), y.toMosaicId()],
+        feeRate: 30,
+        feeTo: getTestAccount('operator2').address,
+        protocolFee: 1667,
+        kLast: BigInt(1000000000000), // sqrt(k) grew from 1000000 to 1414213
+        poolType: PoolType.ConstantProduct,
+        amp: 0,
+        weights: [50, 50],
+        maxPriceImpact: 0,
+        feeMode: FeeMode.Fixed,
+        minFeeRate: 30,
+        maxFeeRate: 30,
+      }
+
+      const contract = command.execute(provider, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(7)
+      expect((contract.innerTransactions[0] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(105)
+      expect((contract.innerTransactions[4] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(51)
+      expect((contract.innerTransactions[5] as TransferTransaction).recipientAddress.plain()).to.be.equal(getTestAccount('operator2').address.plain())
+      expect((contract.innerTransactions[5] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(51)
+    })
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import {
+  AccountMosaicRestrictionTransaction,
+  AggregateTransaction,
+  MosaicMetadataTransaction,
+  MosaicSupplyChangeTransaction,
+  TransferTransaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetAmount,
+  AssetIdentifier,
+  CommandOption,
+  FeeMode,
+  PoolType,
+} from '../../index'
+import { CreatePool } from '../../src/commands/CreatePool'
+import { getTestAccount, getTestContext, getTestMarket } from '../mocks/index'
+
+// prepare
+const market = getTestMarket()
+const provider = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target'))
+const y = new AssetIdentifier('00000002', getTestAccount('target'))
+const z = new AssetIdentifier('00000003', getTestAccount('target'))
+const getCreateCommand = (argv: CommandOption[]): CreatePool => {
+  return new CreatePool(getTestContext('http://localhost:3000', 'operator1', argv), market.identifier)
+}
+
+describe('commands/CreatePool --->', () => {
+  describe('canExecute() should', () => {
+    it('deny pools given initial shares below minimum liquidity', () => {
+      // sqrt(0 * 1) * 10^6 = 0 shares, which does not exceed 1000 shares
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 0)),
+        new CommandOption('input_y', new AssetAmount(y, 1)),
+      ]
+
+      const result = getCreateCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('must exceed the minimum liquidity of 1000 shares')
+    })
+
+    it('deny StableSwap pools given an invalid amplification coefficient', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('input_y', new AssetAmount(y, 1000)),
+        new CommandOption('pool_type', PoolType.StableSwap),
+        new CommandOption('amp', 0),
+      ]
+
+      const result = getCreateCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Invalid amplification coefficient "0"')
+    })
+
+    it('deny weighted pools given weights that do not sum up to 100', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 4000)),
+        new CommandOption('input_y', new AssetAmount(y, 1000)),
+        new CommandOption('pool_type', PoolType.Weighted),
+        new CommandOption('weight_x', 80),
+        new CommandOption('weight_y', 30),
+      ]
+
+      const result = getCreateCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Invalid weights "80/30"')
+    })
+
+    it('deny StableSwap pools of more than two assets', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('inputs', [
+          new AssetAmount(x, 1000),
+          new AssetAmount(y, 1000),
+          new AssetAmount(z, 1000),
+        ]),
+        new CommandOption('pool_type', PoolType.StableSwap),
+      ]
+
+      const result = getCreateCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('must consist of a pair of assets')
+    })
+
+    it('deny pools of duplicate assets', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('inputs', [
+          new AssetAmount(x, 1000),
+          new AssetAmount(y, 1000),
+          new AssetAmount(x, 1000),
+        ]),
+      ]
+
+      const result = getCreateCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('must be distinct')
+    })
+
+    it('deny pools given an invalid maximum price impact', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('input_y', new AssetAmount(y, 1000)),
+        new CommandOption('max_price_impact', 20000),
+      ]
+
+      const result = getCreateCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Invalid maximum price impact')
+    })
+
+    it('deny pools given dynamic fee rate bounds in the wrong order', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('input_y', new AssetAmount(y, 1000)),
+        new CommandOption('fee_mode', FeeMode.Dynamic),
+        new CommandOption('min_fee_rate', 50),
+        new CommandOption('max_fee_rate', 10),
+      ]
+
+      const result = getCreateCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('must not exceed the maximum fee rate')
+    })
+  })
+
+  describe('execute() should', () => {
+    it('lock the minimum liquidity in the target account', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 1)),
+        new CommandOption('input_y', new AssetAmount(y, 1)),
+      ]
+
+      const contract = getCreateCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[2] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(1000000)
+      expect((contract.innerTransactions[15] as TransferTransaction).recipientAddress.plain()).to.be.equal(provider.address.plain())
+      expect((contract.innerTransactions[15] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(999000)
+    })
+
+    it('attach the pool type and amplification to the shares mosaic', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('input_y', new AssetAmount(y, 1000)),
+        new CommandOption('pool_type', PoolType.StableSwap),
+        new CommandOption('amp', 200),
+      ]
+
+      const contract = getCreateCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[10] as MosaicMetadataTransaction).value).to.be.equal('stable-swap')
+      expect((contract.innerTransactions[11] as MosaicMetadataTransaction).value).to.be.equal('200')
+      // D / 2 = 1000 given balanced amounts
+      expect((contract.innerTransactions[2] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(1000000000)
+    })
+
+    it('attach the weights to the shares mosaic given a weighted pool', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 16000)),
+        new CommandOption('input_y', new AssetAmount(y, 1000)),
+        new CommandOption('pool_type', PoolType.Weighted),
+        new CommandOption('weight_x', 80),
+        new CommandOption('weight_y', 20),
+      ]
+
+      const contract = getCreateCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[12] as MosaicMetadataTransaction).value).to.be.equal('80')
+      expect((contract.innerTransactions[13] as MosaicMetadataTransaction).value).to.be.equal('20')
+      // 16000^0.8 * 1000^0.2 = 9189.5...
+      expect((contract.innerTransactions[2] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(9189000000)
+    })
+
+    it('attach the metadata of all members given a multi-asset pool', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('inputs', [
+          new AssetAmount(x, 1000),
+          new AssetAmount(y, 8000),
+          new AssetAmount(z, 27000),
+        ]),
+      ]
+
+      const contract = getCreateCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(20)
+      // (1000 * 8000 * 27000)^(1/3) = 6000
+      expect((contract.innerTransactions[2] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(6000000000)
+      expect((contract.innerTransactions[14] as MosaicMetadataTransaction).scopedMetadataKey.toHex()).to.be.equal('BC8A1E827D354C69')
+      expect((contract.innerTransactions[14] as MosaicMetadataTransaction).value).to.be.equal('00000003')
+      expect((contract.innerTransactions[15] as MosaicMetadataTransaction).value).to.be.equal('50')
+      expect((contract.innerTransactions[16] as AccountMosaicRestrictionTransaction).restrictionAdditions.length).to.be.equal(5)
+      expect((contract.innerTransactions[18] as TransferTransaction).mosaics.length).to.be.equal(3)
+    })
+
+    it('attach the maximum price impact to the shares mosaic given a maximum price impact', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('input_y', new AssetAmount(y, 1000)),
+        new CommandOption('max_price_impact', 500),
+      ]
+
+      const contract = getCreateCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(19)
+      expect((contract.innerTransactions[14] as MosaicMetadataTransaction).scopedMetadataKey.toHex()).to.be.equal('9E189681C7C41B9B')
+      expect((contract.innerTransactions[14] as MosaicMetadataTransaction).value).to.be.equal('500')
+      expect((contract.innerTransactions[15] as AccountMosaicRestrictionTransaction).restrictionAdditions.length).to.be.equal(4)
+    })
+
+    it('attach the fee mode and fee rate bounds to the shares mosaic given a dynamic fee mode', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('input_y', new AssetAmount(y, 1000)),
+        new CommandOption('fee_mode', FeeMode.Dynamic),
+        new CommandOption('min_fee_rate', 5),
+      ]
+
+      const contract = getCreateCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(21)
+      expect((contract.innerTransactions[14] as MosaicMetadataTransaction).scopedMetadataKey.toHex()).to.be.equal('E56619101D495432')
+      expect((contract.innerTransactions[14] as MosaicMetadataTransaction).value).to.be.equal('dynamic')
+      expect((contract.innerTransactions[15] as MosaicMetadataTransaction).scopedMetadataKey.toHex()).to.be.equal('C5E0700BA5B5BD16')
+      expect((contract.innerTransactions[15] as MosaicMetadataTransaction).value).to.be.equal('5')
+      expect((contract.innerTransactions[16] as MosaicMetadataTransaction).scopedMetadataKey.toHex()).to.be.equal('EFFFD4A5AB4CC750')
+      expect((contract.innerTransactions[16] as MosaicMetadataTransaction).value).to.be.equal('100')
+      expect((contract.innerTransactions[17] as AccountMosaicRestrictionTransaction).restrictionAdditions.length).to.be.equal(4)
+    })
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { AggregateTransaction, Mosaic, TransferTransaction, UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetIdentifier,
+  CommandOption,
+} from '../../index'
+import { RemoveLiquidity } from '../../src/commands/RemoveLiquidity'
+import { getTestAccount, getTestAccountInfo, getTestContext, getTestMarket, Stubs } from '../mocks/index'
+
+// prepare
+const market = getTestMarket()
+const provider = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target'))
+const y = new AssetIdentifier('00000002', getTestAccount('target'))
+const z = new AssetIdentifier('00000003', getTestAccount('target'))
+const getRemoveCommand = (argv: CommandOption[], balance: number = 100): RemoveLiquidity => {
+  const command = new RemoveLiquidity(getTestContext('http://localhost:3000', 'operator1', argv), market.identifier)
+  command.mosaicInfo = new Stubs.MosaicInfo(market.identifier.toMosaicId(), 0, 2000)
+  command.reserveInfo = getTestAccountInfo('target', [
+    new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000)),
+    new Mosaic(y.toMosaicId(), UInt64.fromUint(2000000)),
+    new Mosaic(z.toMosaicId(), UInt64.fromUint(4000000)),
+  ])
+  command.actorInfo = getTestAccountInfo('operator1', [
+    new Mosaic(market.identifier.toMosaicId(), UInt64.fromUint(balance)),
+  ])
+  return command
+}
+
+describe('commands/RemoveLiquidity --->', () => {
+  describe('canExecute() should', () => {
+    it('allow withdrawals given sufficient balance of shares', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('shares', 100),
+        new CommandOption('output_x', x),
+        new CommandOption('output_y', y),
+      ]
+
+      const result = getRemoveCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('deny withdrawals given insufficient balance of shares', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('shares', 100),
+        new CommandOption('output_x', x),
+        new CommandOption('output_y', y),
+      ]
+
+      const result = getRemoveCommand(argv, 99).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('is below the amount of 100 shares')
+    })
+
+    it('deny withdrawals given unknown balance of shares', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('shares', 100),
+        new CommandOption('output_x', x),
+        new CommandOption('output_y', y),
+      ]
+
+      const command = getRemoveCommand(argv)
+      command.actorInfo = undefined
+
+      const result = command.canExecute(provider, argv)
+      expect(result.status).to.be.false
+    })
+
+    it('deny withdrawals of the locked minimum liquidity', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('shares', 1001),
+        new CommandOption('output_x', x),
+        new CommandOption('output_y', y),
+      ]
+
+      const result = getRemoveCommand(argv, 2000).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('exceeds the redeemable amount of 1000 shares')
+    })
+
+    it('deny withdrawals given payouts below minimum amounts', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('shares', 100),
+        new CommandOption('output_x', x),
+        new CommandOption('output_y', y),
+        new CommandOption('min_x', 50000),
+        new CommandOption('min_y', 100001),
+      ]
+
+      const result = getRemoveCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('below the minimum amount of `y` of 100001')
+    })
+  })
+
+  describe('execute() should', () => {
+    it('pay out the share of reserves', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('shares', 100),
+        new CommandOption('output_x', x),
+        new CommandOption('output_y', y),
+      ]
+
+      const contract = getRemoveCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(5)
+      expect((contract.innerTransactions[0] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(100)
+      expect((contract.innerTransactions[2] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(50000)
+      expect((contract.innerTransactions[2] as TransferTransaction).mosaics[1].amount.compact()).to.be.equal(100000)
+      expect((contract.innerTransactions[4] as TransferTransaction).message.payload).to.match(/:100:50000:100000:0:0:[0-9A-F]{8}$/)
+    })
+
+    it('pay out the share of reserves of all members given a multi-asset pool', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('shares', 100),
+        new CommandOption('outputs', [x, y, z]),
+        new CommandOption('min_outputs', [50000, 100000, 200000]),
+      ]
+
+      const contract = getRemoveCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[2] as TransferTransaction).mosaics.length).to.be.equal(3)
+      expect((contract.innerTransactions[4] as TransferTransaction).message.payload).to.match(/:100:50000:100000:200000:0:0:[0-9A-F]{8}$/)
+    })
+  })
+})
@@ -0,0 +1,329 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { AggregateTransaction, Mosaic, TransferTransaction, UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetAmount,
+  AssetIdentifier,
+  CommandOption,
+  FailureOperationForbidden,
+  PoolInfo,
+  FeeMode,
+  PoolType,
+  ReserveSnapshot,
+} from '../../index'
+import { Swap } from '../../src/commands/Swap'
+import { getTestAccount, getTestAccountInfo, getTestContext, getTestMarket, Stubs } from '../mocks/index'
+
+// prepare
+const market = getTestMarket()
+const trader = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target'))
+const y = new AssetIdentifier('00000002', getTestAccount('target'))
+const z = new AssetIdentifier('00000003', getTestAccount('target'))
+const getSwapCommand = (argv: CommandOption[]): Swap => {
+  const command = new Swap(getTestContext('http://localhost:3000', 'operator1', argv), market.identifier)
+  command.mosaicInfo = new Stubs.MosaicInfo(market.identifier.toMosaicId())
+  command.reserveInfo = getTestAccountInfo('target', [
+    new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000)),
+    new Mosaic(y.toMosaicId(), UInt64.fromUint(1000000)),
+    new Mosaic(z.toMosaicId(), UInt64.fromUint(1000000)),
+  ])
+  return command
+}
+
+const getPoolInfo = (poolType: PoolType, amp: number, weights: number[], members: AssetIdentifier[] = [x, y]): PoolInfo => ({
+  target: getTestAccount('target'),
+  pMosaic: market.identifier.toMosaicId(),
+  xMosaic: x.toMosaicId(),
+  yMosaic: y.toMosaicId(),
+  mosaics: members.map(m => m.toMosaicId()),
+  feeRate: 30,
+  feeTo: getTestAccount('target').address,
+  protocolFee: 0,
+  kLast: undefined,
+  poolType,
+  amp,
+  weights,
+  maxPriceImpact: 0,
+  feeMode: FeeMode.Fixed,
+  minFeeRate: 30,
+  maxFeeRate: 30,
+})
+
+describe('commands/Swap --->', () => {
+  describe('canExecute() should', () => {
+    it('allow swaps given no minimum output', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('allow swaps given output above minimum output', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+        new CommandOption('min_output', 996),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('deny swaps given output below minimum output', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+        new CommandOption('min_output', 1000),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('below the minimum output amount of 1000')
+    })
+
+    it('deny swaps given an input too small to receive any output', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1)),
+        new CommandOption('output', y),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Output amount of 0 is too small')
+    })
+
+    it('deny swaps given an output that is not a member of the pool', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', z),
+      ]
+
+      const command = getSwapCommand(argv)
+      command.poolInfo = getPoolInfo(PoolType.ConstantProduct, 0, [])
+
+      const result = command.canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('two distinct members of the pool')
+    })
+
+    it('deny swaps given the same input and output', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', x),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('two distinct members of the pool')
+    })
+
+    it('allow swaps given price impact below maximum price impact', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 10000)),
+        new CommandOption('output', y),
+        new CommandOption('max_price_impact', 200),
+      ]
+
+      // mid price moves from 1 to 990129 / 1010000, i.e. by 1.97%
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('deny swaps given price impact above maximum price impact', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 10000)),
+        new CommandOption('output', y),
+        new CommandOption('max_price_impact', 100),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.be.equal('Price impact of 1.97% exceeds the maximum price impact of 1.00%.')
+    })
+
+    it('deny swaps given price impact above the pool maximum price impact', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 10000)),
+        new CommandOption('output', y),
+        new CommandOption('max_price_impact', 500),
+      ]
+
+      const command = getSwapCommand(argv)
+      command.poolInfo = { ...getPoolInfo(PoolType.ConstantProduct, 0, [50, 50]), maxPriceImpact: 150 }
+
+      const result = command.canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('maximum price impact of 1.50%')
+    })
+
+    it('deny swaps given an invalid maximum price impact', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+        new CommandOption('max_price_impact', 0),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Invalid maximum price impact')
+    })
+
+    it('deny swaps given an invalid minimum output', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+        new CommandOption('min_output', -1),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Invalid minimum output amount')
+    })
+  })
+
+  describe('execute() should', () => {
+    it('throw an error given output below minimum output', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+        new CommandOption('min_output', 1000),
+      ]
+
+      expect(() => getSwapCommand(argv).execute(trader, argv)).to.throw(FailureOperationForbidden)
+    })
+
+    it('attach minimum output to execution proof', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+        new CommandOption('min_output', 990),
+      ]
+
+      const contract = getSwapCommand(argv).execute(trader, argv).toTransaction() as AggregateTransaction
+      const proof = contract.innerTransactions[2] as TransferTransaction
+      expect(proof.message.payload).to.match(/:swap:91a1d506:[0-9A-F]+:1000:996:990:[0-9A-F]{16}:[0-9A-F]{16}:30:0:0:[0-9A-F]{8}$/)
+    })
+
+    it('attach the snapshot of reserves to execution proof', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+      ]
+
+      const command = getSwapCommand(argv)
+      command.snapshotHeight = 1000
+
+      const contract = command.execute(trader, argv).toTransaction() as AggregateTransaction
+      const checksum = ReserveSnapshot.getChecksum(command.reserveInfo!.mosaics)
+      expect((contract.innerTransactions[2] as TransferTransaction).message.payload).to.match(new RegExp(':1000:1240:' + checksum + '$'))
+    })
+
+    it('attach the dynamic fee rate to execution proof', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+      ]
+
+      const command = getSwapCommand(argv)
+      command.poolInfo = {
+        ...getPoolInfo(PoolType.ConstantProduct, 0, [50, 50]),
+        feeRate: 80,
+        feeMode: FeeMode.Dynamic,
+        minFeeRate: 5,
+        maxFeeRate: 100,
+      }
+
+      const contract = command.execute(trader, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[2] as TransferTransaction).message.payload).to.match(/:1000:991:0:[0-9A-F]{16}:[0-9A-F]{16}:80:0:0:[0-9A-F]{8}$/)
+    })
+
+    it('use the StableSwap invariant given a StableSwap pool', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 10000)),
+        new CommandOption('output', y),
+      ]
+
+      const command = getSwapCommand(argv)
+      command.poolInfo = getPoolInfo(PoolType.StableSwap, 100, [50, 50])
+
+      // constant product would pay out 9871
+      const contract = command.execute(trader, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[1] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(9969)
+    })
+
+    it('use the constant product invariant given a StableSwap pool without amplification', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 10000)),
+        new CommandOption('output', y),
+      ]
+
+      const command = getSwapCommand(argv)
+      command.poolInfo = getPoolInfo(PoolType.StableSwap, 0, [50, 50])
+
+      const contract = command.execute(trader, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[1] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(9871)
+    })
+
+    it('use the weights of assets given a weighted pool', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 10000)),
+        new CommandOption('output', y),
+      ]
+
+      const command = getSwapCommand(argv)
+      command.poolInfo = getPoolInfo(PoolType.Weighted, 0, [80, 20])
+
+      // 1000000 - 1000000 * (1000000 / 1009970)^4 = 38905.3...
+      const contract = command.execute(trader, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[1] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(38905)
+    })
+
+    it('swap between any two members given a multi-asset pool', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('input_x', new AssetAmount(x, 10000)),
+        new CommandOption('output', z),
+      ]
+
+      const command = getSwapCommand(argv)
+      command.poolInfo = getPoolInfo(PoolType.Weighted, 0, [50, 25, 25], [x, y, z])
+
+      // 1000000 - 1000000 * (1000000 / 1009970)^2 = 19645.2...
+      const contract = command.execute(trader, argv).toTransaction() as AggregateTransaction
+      expect((contract.innerTransactions[1] as TransferTransaction).mosaics[0].id.toHex()).to.be.equal(z.toMosaicId().toHex())
+      expect((contract.innerTransactions[1] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(19645)
+    })
+  })
+})
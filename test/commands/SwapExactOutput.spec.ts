@@ -0,0 +1,108 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { AggregateTransaction, Mosaic, TransferTransaction, UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetAmount,
+  AssetIdentifier,
+  CommandOption,
+} from '../../index'
+import { SwapExactOutput } from '../../src/commands/SwapExactOutput'
+import { getTestAccount, getTestAccountInfo, getTestContext, getTestMarket, Stubs } from '../mocks/index'
+
+// prepare
+const market = getTestMarket()
+const trader = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target'))
+const y = new AssetIdentifier('00000002', getTestAccount('target'))
+const getSwapCommand = (argv: CommandOption[]): SwapExactOutput => {
+  const command = new SwapExactOutput(getTestContext('http://localhost:3000', 'operator1', argv), market.identifier)
+  command.mosaicInfo = new Stubs.MosaicInfo(market.identifier.toMosaicId())
+  command.reserveInfo = getTestAccountInfo('target', [
+    new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000)),
+    new Mosaic(y.toMosaicId(), UInt64.fromUint(1000000)),
+  ])
+  return command
+}
+
+describe('commands/SwapExactOutput --->', () => {
+  describe('canExecute() should', () => {
+    it('allow swaps given input below maximum input', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('output_y', new AssetAmount(y, 996)),
+        new CommandOption('input', x),
+        new CommandOption('max_input', 1000),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('deny swaps given input above maximum input', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('output_y', new AssetAmount(y, 1000)),
+        new CommandOption('input', x),
+        new CommandOption('max_input', 1000),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('exceeds the maximum input amount of 1000')
+    })
+
+    it('deny swaps given price impact above maximum price impact', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('output_y', new AssetAmount(y, 10000)),
+        new CommandOption('input', x),
+        new CommandOption('max_input', 20000),
+        new CommandOption('max_price_impact', 100),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('exceeds the maximum price impact of 1.00%')
+    })
+
+    it('deny swaps given an invalid maximum input', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('output_y', new AssetAmount(y, 996)),
+        new CommandOption('input', x),
+        new CommandOption('max_input', 1000.5),
+      ]
+
+      const result = getSwapCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Invalid maximum input amount')
+    })
+  })
+
+  describe('execute() should', () => {
+    it('transfer exact output amount to trader', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('output_y', new AssetAmount(y, 996)),
+        new CommandOption('input', x),
+        new CommandOption('max_input', 1000),
+      ]
+
+      const contract = getSwapCommand(argv).execute(trader, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(3)
+      expect((contract.innerTransactions[1] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(996)
+      expect((contract.innerTransactions[0] as TransferTransaction).mosaics[0].amount.compact()).to.be.at.most(1000)
+      expect((contract.innerTransactions[2] as TransferTransaction).message.payload).to.contain(':swap-exact-output:91a1d506:')
+    })
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { AggregateTransaction, MosaicId, TransferTransaction } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetIdentifier,
+  CommandOption,
+  PoolInfo,
+  FeeMode,
+  PoolType,
+} from '../../index'
+import { SwapRoute } from '../../src/commands/SwapRoute'
+import { Route, RoutePool, RouterService } from '../../src/services/RouterService'
+import { getTestAccount, getTestContext } from '../mocks/index'
+
+// prepare
+const trader = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target')).toMosaicId()
+const y = new AssetIdentifier('00000002', getTestAccount('target')).toMosaicId()
+const z = new AssetIdentifier('00000003', getTestAccount('target')).toMosaicId()
+const getPool = (name: string, mosaics: MosaicId[]): RoutePool => ({
+  info: {
+    target: getTestAccount(name),
+    pMosaic: new AssetIdentifier('0000000a', getTestAccount(name)).toMosaicId(),
+    xMosaic: mosaics[0],
+    yMosaic: mosaics[1],
+    mosaics,
+    feeRate: 30,
+    feeTo: getTestAccount(name).address,
+    protocolFee: 0,
+    kLast: undefined,
+    poolType: PoolType.ConstantProduct,
+    amp: 0,
+    weights: [50, 50],
+    maxPriceImpact: 0,
+    feeMode: FeeMode.Fixed,
+    minFeeRate: 30,
+    maxFeeRate: 30,
+  } as PoolInfo,
+  reserves: [BigInt(1000000), BigInt(1000000)],
+})
+const getRoute = (): Route => RouterService.getBestRoute(
+  [ getPool('operator2', [x, y]), getPool('operator3', [y, z]) ],
+  BigInt(10000),
+  x,
+  z,
+)!
+const getRouteCommand = (argv: CommandOption[]): SwapRoute => {
+  return new SwapRoute(getTestContext('http://localhost:3000', 'operator1', argv))
+}
+
+describe('commands/SwapRoute --->', () => {
+  describe('canExecute() should', () => {
+    it('allow swaps given output above minimum output', () => {
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('route', getRoute()),
+        new CommandOption('min_output', 9700),
+      ]
+
+      const result = getRouteCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('deny swaps given output below minimum output', () => {
+      const route = getRoute()
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('route', route),
+        new CommandOption('min_output', 9800),
+      ]
+
+      const result = getRouteCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Output amount of ' + route.amountOut + ' is below the minimum output amount of 9800')
+    })
+
+    it('deny swaps that are not chained', () => {
+      const route = getRoute()
+      route.legs[1].amountIn += BigInt(1)
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('route', route),
+      ]
+
+      const result = getRouteCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+    })
+
+    it('deny swaps given an output amount that does not match the pool', () => {
+      const route = getRoute()
+      route.legs[1].amountOut += BigInt(1)
+      route.amountOut += BigInt(1)
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('route', route),
+      ]
+
+      const result = getRouteCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('does not match the output amount of ' + (route.amountOut - BigInt(1)))
+    })
+
+    it('deny swaps given a route output amount that does not match its swaps', () => {
+      const route = getRoute()
+      route.amountOut += BigInt(1)
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('route', route),
+      ]
+
+      const result = getRouteCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('do not match the amounts of its swaps')
+    })
+
+    it('deny swaps given price impact above the maximum price impact of a pool', () => {
+      const route = getRoute()
+      route.legs[1].pool.info.maxPriceImpact = 100
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('route', route),
+        new CommandOption('max_price_impact', 500),
+      ]
+
+      const result = getRouteCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('exceeds the maximum price impact of 1.00%')
+    })
+  })
+
+  describe('execute() should', () => {
+    it('chain swaps in one contract cosigned by each pool', () => {
+      const route = getRoute()
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('route', route),
+        new CommandOption('min_output', 9700),
+      ]
+
+      const contract = getRouteCommand(argv).execute(trader, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(6)
+      expect(contract.innerTransactions[1].signer!.publicKey).to.be.equal(getTestAccount('operator2').publicKey)
+      expect(contract.innerTransactions[4].signer!.publicKey).to.be.equal(getTestAccount('operator3').publicKey)
+      expect((contract.innerTransactions[3] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(Number(route.legs[0].amountOut))
+      expect((contract.innerTransactions[4] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(Number(route.amountOut))
+      expect(contract.innerTransactions[5].signer!.publicKey).to.be.equal(getTestAccount('operator3').publicKey)
+      expect((contract.innerTransactions[5] as TransferTransaction).message.payload).to.match(/:swap-route:/)
+      expect((contract.innerTransactions[5] as TransferTransaction).message.payload).to.match(/:9700:[0-9A-F]{16}:[0-9A-F]{16}:30:0:0:[0-9A-F]{8}$/)
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { AggregateTransaction, MosaicId, TransferTransaction } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetIdentifier,
+  CommandOption,
+  PoolInfo,
+  FeeMode,
+  PoolType,
+} from '../../index'
+import { SwapSplit } from '../../src/commands/SwapSplit'
+import { RoutePool, RouterService, Split } from '../../src/services/RouterService'
+import { getTestAccount, getTestContext } from '../mocks/index'
+
+// prepare
+const trader = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target')).toMosaicId()
+const y = new AssetIdentifier('00000002', getTestAccount('target')).toMosaicId()
+const getPool = (name: string, mosaics: MosaicId[], feeRate: number): RoutePool => ({
+  info: {
+    target: getTestAccount(name),
+    pMosaic: new AssetIdentifier('0000000a', getTestAccount(name)).toMosaicId(),
+    xMosaic: mosaics[0],
+    yMosaic: mosaics[1],
+    mosaics,
+    feeRate,
+    feeTo: getTestAccount(name).address,
+    protocolFee: 0,
+    kLast: undefined,
+    poolType: PoolType.ConstantProduct,
+    amp: 0,
+    weights: [50, 50],
+    maxPriceImpact: 0,
+    feeMode: FeeMode.Fixed,
+    minFeeRate: feeRate,
+    maxFeeRate: feeRate,
+  } as PoolInfo,
+  reserves: [BigInt(1000000), BigInt(1000000)],
+})
+const getSplit = (): Split => RouterService.getSplit(
+  [ getPool('operator2', [x, y], 30), getPool('operator3', [x, y], 5) ],
+  BigInt(100000),
+  x,
+  y,
+)!
+const getSplitCommand = (argv: CommandOption[]): SwapSplit => {
+  return new SwapSplit(getTestContext('http://localhost:3000', 'operator1', argv))
+}
+
+describe('commands/SwapSplit --->', () => {
+  describe('canExecute() should', () => {
+    it('deny swaps given total output below minimum output', () => {
+      const split = getSplit()
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('split', split),
+        new CommandOption('min_output', split.amountOut + BigInt(1)),
+      ]
+
+      const result = getSplitCommand(argv).canExecute(trader, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Output amount of ' + split.amountOut + ' is below the minimum output amount')
+    })
+  })
+
+  describe('execute() should', () => {
+    it('swap the allocation of each pool in one contract', () => {
+      const split = getSplit()
+      const argv = [
+        new CommandOption('trader', trader),
+        new CommandOption('split', split),
+        new CommandOption('min_output', split.amountOut),
+      ]
+
+      const contract = getSplitCommand(argv).execute(trader, argv).toTransaction() as AggregateTransaction
+      expect(split.routes[1].amountIn > split.routes[0].amountIn).to.be.true
+      expect(contract.innerTransactions.length).to.be.equal(6)
+      expect((contract.innerTransactions[0] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(Number(split.routes[0].amountIn))
+      expect((contract.innerTransactions[3] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(Number(split.routes[1].amountIn))
+      expect(contract.innerTransactions[4].signer!.publicKey).to.be.equal(getTestAccount('operator3').publicKey)
+      expect((contract.innerTransactions[5] as TransferTransaction).message.payload).to.contain(':swap-split:')
+    })
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import {
+  AggregateTransaction,
+  Mosaic,
+  MosaicSupplyChangeTransaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetAmount,
+  AssetIdentifier,
+  CommandOption,
+  FeeMode,
+  PoolInfo,
+  PoolType,
+} from '../../index'
+import { ZapIn } from '../../src/commands/ZapIn'
+import { getTestAccount, getTestAccountInfo, getTestContext, getTestMarket, Stubs } from '../mocks/index'
+
+// prepare
+const market = getTestMarket()
+const provider = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target'))
+const y = new AssetIdentifier('00000002', getTestAccount('target'))
+const getZapCommand = (argv: CommandOption[]): ZapIn => {
+  const command = new ZapIn(getTestContext('http://localhost:3000', 'operator1', argv), market.identifier)
+  command.mosaicInfo = new Stubs.MosaicInfo(market.identifier.toMosaicId(), 0, 1000000)
+  command.reserveInfo = getTestAccountInfo('target', [
+    new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000)),
+    new Mosaic(y.toMosaicId(), UInt64.fromUint(1000000)),
+  ])
+  return command
+}
+const getPoolInfo = (maxPriceImpact: number): PoolInfo => ({
+  target: getTestAccount('target'),
+  pMosaic: market.identifier.toMosaicId(),
+  xMosaic: x.toMosaicId(),
+  yMosaic: y.toMosaicId(),
+  mosaics: [ x.toMosaicId(), y.toMosaicId() ],
+  feeRate: 30,
+  feeTo: getTestAccount('target').address,
+  protocolFee: 0,
+  kLast: undefined,
+  poolType: PoolType.ConstantProduct,
+  amp: 0,
+  weights: [50, 50],
+  maxPriceImpact,
+  feeMode: FeeMode.Fixed,
+  minFeeRate: 30,
+  maxFeeRate: 30,
+})
+
+describe('commands/ZapIn --->', () => {
+  describe('canExecute() should', () => {
+    it('allow deposits given shares above minimum shares', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input', new AssetAmount(x, 100000)),
+        new CommandOption('output', y),
+        new CommandOption('min_shares', 48000),
+      ]
+
+      const result = getZapCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('deny deposits given shares below minimum shares', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input', new AssetAmount(x, 100000)),
+        new CommandOption('output', y),
+        new CommandOption('min_shares', 50000),
+      ]
+
+      const result = getZapCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('Amount of 48734 shares is below the minimum amount of 50000 shares')
+    })
+
+    it('allow deposits given price impact below maximum price impact', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input', new AssetAmount(x, 100000)),
+        new CommandOption('output', y),
+        new CommandOption('max_price_impact', 1000),
+      ]
+
+      const result = getZapCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.true
+    })
+
+    it('deny deposits given price impact above maximum price impact', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input', new AssetAmount(x, 100000)),
+        new CommandOption('output', y),
+        new CommandOption('max_price_impact', 500),
+      ]
+
+      // mid price moves from 1 to 953530 / 1048882
+      const result = getZapCommand(argv).canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.be.equal('Price impact of 9.09% exceeds the maximum price impact of 5.00%.')
+    })
+
+    it('deny deposits given price impact above the pool maximum price impact', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input', new AssetAmount(x, 100000)),
+        new CommandOption('output', y),
+      ]
+
+      const command = getZapCommand(argv)
+      command.poolInfo = getPoolInfo(500)
+
+      const result = command.canExecute(provider, argv)
+      expect(result.status).to.be.false
+      expect(result.message).to.contain('maximum price impact of 5.00%')
+    })
+  })
+
+  describe('execute() should', () => {
+    it('swap and add liquidity in one contract', () => {
+      const argv = [
+        new CommandOption('provider', provider),
+        new CommandOption('input', new AssetAmount(x, 100000)),
+        new CommandOption('output', y),
+        new CommandOption('min_shares', 48000),
+      ]
+
+      const contract = getZapCommand(argv).execute(provider, argv).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(7)
+      expect((contract.innerTransactions[0] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(48882)
+      expect((contract.innerTransactions[1] as TransferTransaction).mosaics[0].amount.compact()).to.be.equal(46470)
+      expect((contract.innerTransactions[2] as MosaicSupplyChangeTransaction).delta.compact()).to.be.equal(48734)
+      expect((contract.innerTransactions[4] as TransferTransaction).mosaics.length).to.be.equal(2)
+      expect((contract.innerTransactions[6] as TransferTransaction).message.payload).to.contain(':zap-in:91a1d506:')
+      expect((contract.innerTransactions[6] as TransferTransaction).message.payload).to.match(/:100000:48882:46470:48734:48000:0:0:[0-9A-F]{8}$/)
+    })
+  })
+})
@@ -9,10 +9,11 @@
 import * as sinon from 'sinon'
 import {expect} from 'chai'
 import {describe, it} from 'mocha'
-import { Deadline, MosaicId } from 'symbol-sdk'
+import { of } from 'rxjs'
+import { Deadline, MetadataSearchCriteria, MosaicId, NetworkType, RepositoryFactoryHttp } from 'symbol-sdk'
 
 // internal dependencies
-import { CommandOption, Context, Symbol, TransactionParameters } from '../../index'
+import { CommandOption, Context, dHealth, FailureUnknownNetwork, NetworkPreset, Symbol, TransactionParameters } from '../../index'
 import { getTestAccount, Stubs } from '../mocks/index'
 
 const context = new Context(
@@ -96,4 +97,87 @@ describe('contracts/Context --->', () => {
       expect(repo.getAccountInfo).to.not.be.undefined
     })
   })
+
+  describe('reader should', () => {
+    const getReader = () => new dHealth.Reader(
+      'http://localhost:3000',
+      NetworkType.TEST_NET,
+      'ACECD90E7B248E012803228ADB4424F0D966D24149B72E58987D2BF2F2AF03C4',
+      1616978397,
+      new MosaicId('5A4935C1D66E6AC4'),
+    )
+
+    it('implement the Reader contract with the dHealth adapter', () => {
+      const reader = getReader()
+      expect(reader).to.be.instanceof(Symbol.Reader)
+      expect(reader.networkType).to.be.equal(NetworkType.TEST_NET)
+      expect(reader.feeMosaicId.toHex()).to.be.equal('5A4935C1D66E6AC4')
+    })
+
+    it('read the chain height from the chain repository', async () => {
+      const reader = getReader()
+      const stubChain = new Stubs.ChainRepository('http://localhost:3000')
+      sinon.stub(reader.factoryHttp, 'createChainRepository').returns(stubChain)
+      sinon.stub(stubChain, 'getChainInfo').returns(of(new Stubs.ChainInfo(1234)))
+
+      expect(await reader.getChainHeight()).to.be.equal(1234)
+    })
+
+    it('read the metadata entries of search results', async () => {
+      const reader = getReader()
+      const stubMetadata = new Stubs.MetadataRepository('http://localhost:3000')
+      const entry = new Stubs.Metadata(new MosaicId('170834A66B95C059'), 'test', 'value')
+      sinon.stub(reader.factoryHttp, 'createMetadataRepository').returns(stubMetadata)
+      sinon.stub(stubMetadata, 'search').returns(of(new Stubs.Page([ entry ])))
+
+      const entries = await reader.getMetadata({ targetId: new MosaicId('170834A66B95C059') })
+      expect(entries.length).to.be.equal(1)
+      expect(entries[0].id).to.be.equal(entry.id)
+    })
+
+    it('read the metadata entries of all pages of search results', async () => {
+      const reader = getReader()
+      const stubMetadata = new Stubs.MetadataRepository('http://localhost:3000')
+      const entries = Array.from({ length: 150 }, (_, i) => new Stubs.Metadata(new MosaicId('170834A66B95C059'), 'key' + i, 'value'))
+      sinon.stub(reader.factoryHttp, 'createMetadataRepository').returns(stubMetadata)
+      const search = sinon.stub(stubMetadata, 'search').callsFake((criteria: MetadataSearchCriteria) => of(new Stubs.Page(
+        entries.slice((criteria.pageNumber! - 1) * criteria.pageSize!, criteria.pageNumber! * criteria.pageSize!),
+      )))
+
+      const result = await reader.getMetadata({ targetId: new MosaicId('170834A66B95C059') })
+      expect(result.length).to.be.equal(150)
+      expect(result[149].metadataEntry.scopedMetadataKey.toHex()).to.be.equal(entries[149].metadataEntry.scopedMetadataKey.toHex())
+      expect(search.callCount).to.be.equal(2)
+      expect(search.firstCall.args[0].pageSize).to.be.equal(100)
+    })
+
+    it('construct the adapter of a network preset', () => {
+      const reader = dHealth.Reader.fromPreset('dhealth-mainnet')
+      expect(reader).to.be.instanceof(dHealth.Reader)
+      expect(reader.gatewayUrl).to.be.equal('http://dual-01.dhealth.cloud:3000')
+      expect(reader.networkType).to.be.equal(NetworkType.MAIN_NET)
+      expect(reader.epochAdjustment).to.be.equal(1616978397)
+      expect(reader.feeMosaicId.toHex()).to.be.equal('39E0C49FA322A459')
+      expect(Symbol.Reader.fromPreset('symbol-mainnet', 'http://localhost:3000').gatewayUrl).to.be.equal('http://localhost:3000')
+    })
+
+    it('detect the network preset of a node', async () => {
+      const factoryHttp = new RepositoryFactoryHttp('http://localhost:3000')
+      const stubNetwork = new Stubs.NetworkRepository('http://localhost:3000')
+      sinon.stub(factoryHttp, 'createNetworkRepository').returns(stubNetwork)
+      const getNetworkProperties = sinon.stub(stubNetwork, 'getNetworkProperties')
+
+      getNetworkProperties.returns(of(new Stubs.NetworkConfiguration(
+        'ed5761ea890a096c50d3f50b7c2f0ccb4b84afc9ea870f381e84dde36d04ef16',
+      )))
+      const preset = await Symbol.Reader.detectPreset('http://localhost:3000', factoryHttp)
+      expect(preset).to.be.equal(NetworkPreset.get('dhealth-mainnet'))
+
+      getNetworkProperties.returns(of(new Stubs.NetworkConfiguration('ABCDEF')))
+      let error: Error | undefined
+      await Symbol.Reader.detectPreset('http://localhost:3000', factoryHttp).catch(e => error = e)
+      expect(error).to.be.instanceof(FailureUnknownNetwork)
+      expect(error!.message).to.contain('unknown network')
+    })
+  })
 })
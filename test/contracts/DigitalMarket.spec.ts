@@ -10,13 +10,19 @@ import * as sinon from 'sinon'
 import { expect } from 'chai'
 import { describe, it } from 'mocha'
 import { of } from 'rxjs'
-import { AccountInfo } from 'symbol-sdk'
+import { AccountInfo, AggregateTransaction, Mosaic, MosaicMetadataTransaction, UInt64 } from 'symbol-sdk'
 
 // internal dependencies
 import {
+  AssetAmount,
+  AssetIdentifier,
   BaseCommand,
   CommandOption,
+  FailureEmptyReserve,
+  FailureInvalidAmount,
   FailureInvalidCommand,
+  FailureSynchronization,
+  FeeMode,
   Swapable,
   Symbol,
   TransactionParameters,
@@ -110,6 +116,42 @@ describe('contracts/DigitalMarket --->', () => {
       expect(stubSynchronize.calledOnce).to.be.true
     })
 
+    it('report the network information that was read', async () => {
+      // - Prepare
+      const pool = getTestMarket()
+      sinon.stub(pool.reader, 'getChainHeight').resolves(1234)
+      sinon.stub(pool.reader, 'getMosaicInfo').resolves(new Stubs.MosaicInfo(pool.identifier.toMosaicId()))
+      sinon.stub(pool.reader, 'getAccountInfo').resolves(getTestAccountInfo('target'))
+      sinon.stub(pool.reader, 'getMetadata').rejects(new Error('ECONNRESET'))
+
+      // - Act
+      const report = await pool.synchronize()
+
+      // - Assert
+      expect(report.gatewayUrl).to.be.equal(pool.reader.gatewayUrl)
+      expect(report.height).to.be.equal(1234)
+      expect(report.fetched).to.deep.equal([ 'height', 'mosaicInfo', 'reserveInfo' ])
+      expect(report.errors).to.deep.equal({ poolInfo: 'ECONNRESET' })
+      expect(pool.reserveInfo).to.not.be.undefined
+    })
+
+    it('throw an error given no network information that can be read', async () => {
+      // - Prepare
+      const pool = getTestMarket()
+      sinon.stub(pool.reader, 'getChainHeight').rejects(new Error('ECONNREFUSED'))
+      sinon.stub(pool.reader, 'getMosaicInfo').rejects(new Error('ECONNREFUSED'))
+      sinon.stub(pool.reader, 'getAccountInfo').rejects(new Error('ECONNREFUSED'))
+      sinon.stub(pool.reader, 'getMetadata').rejects(new Error('ECONNREFUSED'))
+
+      // - Act
+      let error: Error | undefined
+      await pool.synchronize(target).catch(e => error = e)
+
+      // - Assert
+      expect(error).to.be.instanceof(FailureSynchronization)
+      expect(error!.message).to.contain('reserveInfo (ECONNREFUSED)')
+    })
+
     it('get correct mosaic information', async () => {
       // - Prepare
       const context = market.fakeGetContext(target)
@@ -149,4 +191,177 @@ describe('contracts/DigitalMarket --->', () => {
       expect(accountInfo.address.plain()).to.be.equal(target.address.plain())
     })
   })
+
+  describe('quoteSwap() should', () => {
+    const x = new AssetIdentifier('00000001', target)
+    const y = new AssetIdentifier('00000002', target)
+
+    it('throw an error given missing reserves', () => {
+      const pool = getTestMarket()
+      expect(() => pool.quoteSwap(new AssetAmount(x, 1000), y)).to.throw(FailureEmptyReserve)
+    })
+
+    it('use synchronized reserves', () => {
+      // - Prepare
+      const pool = getTestMarket()
+      pool.mosaicInfo = new Stubs.MosaicInfo(pool.identifier.toMosaicId())
+      pool.reserveInfo = getTestAccountInfo('target', [
+        new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000)),
+        new Mosaic(y.toMosaicId(), UInt64.fromUint(1000000)),
+      ])
+
+      // - Act
+      const quote = pool.quoteSwap(new AssetAmount(x, 1000), y)
+
+      // - Assert
+      expect(quote.outputs.length).to.be.equal(1)
+      expect(quote.outputs[0].amount).to.be.equal(BigInt(996))
+      expect(quote.fee).to.be.equal(BigInt(3))
+      expect(quote.midPrice).to.be.equal(1)
+      expect(quote.executionPrice).to.be.equal(0.996)
+      expect(quote.priceImpact).to.be.above(0)
+      expect(quote.priceImpact).to.be.below(0.002)
+    })
+    it('return amounts with divisibility of paired assets', () => {
+      // - Prepare
+      const pool = getTestMarket()
+      pool.mosaicInfo = new Stubs.MosaicInfo(pool.identifier.toMosaicId())
+      pool.assetInfos = [
+        new Stubs.MosaicInfo(x.toMosaicId(), 6),
+        new Stubs.MosaicInfo(y.toMosaicId(), 6),
+      ]
+      pool.reserveInfo = getTestAccountInfo('target', [
+        new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000000)),
+        new Mosaic(y.toMosaicId(), UInt64.fromUint(1000000000)),
+      ])
+
+      // - Act
+      const quote = pool.quoteSwap(pool.fromRelative(x, '1.5'), y)
+
+      // - Assert
+      expect(quote.inputs[0].amount).to.be.equal(BigInt(1500000))
+      expect(quote.outputs[0].divisibility).to.be.equal(6)
+      expect(quote.outputs[0].toRelative()).to.be.equal('1.493266')
+    })
+  })
+
+  describe('fromRelative() should', () => {
+    it('throw an error given unknown divisibility', () => {
+      const pool = getTestMarket()
+      const x = new AssetIdentifier('00000001', target)
+      expect(() => pool.fromRelative(x, '1.5')).to.throw(FailureInvalidAmount)
+    })
+  })
+
+  describe('quoteAddLiquidity() should', () => {
+    it('return amount of shares minted', () => {
+      // - Prepare
+      const pool = getTestMarket()
+      const x = new AssetIdentifier('00000001', target)
+      const y = new AssetIdentifier('00000002', target)
+      pool.mosaicInfo = new Stubs.MosaicInfo(pool.identifier.toMosaicId())
+      pool.reserveInfo = getTestAccountInfo('target', [
+        new Mosaic(x.toMosaicId(), UInt64.fromUint(1000)),
+        new Mosaic(y.toMosaicId(), UInt64.fromUint(2000)),
+      ])
+
+      // - Act
+      const quote = pool.quoteAddLiquidity(new AssetAmount(x, 1000), new AssetAmount(y, 2000))
+
+      // - Assert (supply of stub is 1)
+      expect(quote.shares).to.be.equal(BigInt(1))
+      expect(quote.midPrice).to.be.equal(2)
+    })
+  })
+
+  describe('create() should', () => {
+    const x = new AssetIdentifier('00000001', target)
+    const y = new AssetIdentifier('00000002', target)
+
+    it('pass the maximum price impact and the dynamic fee rate bounds to the pool', () => {
+      // - Prepare
+      const pool = getTestMarket()
+
+      // - Act
+      pool.create(getTestAccount('operator1'), new AssetAmount(x, 1000), new AssetAmount(y, 1000), {
+        feeRate: 10,
+        maxPriceImpact: 500,
+        feeMode: FeeMode.Dynamic,
+        minFeeRate: 5,
+        maxFeeRate: 80,
+      })
+
+      // - Assert
+      const contract = pool.result!.toTransaction() as AggregateTransaction
+      const metadata = contract.innerTransactions.filter(
+        t => t instanceof MosaicMetadataTransaction,
+      ) as MosaicMetadataTransaction[]
+      const values = metadata.slice(-4).map(t => t.value)
+      expect(values).to.deep.equal([ '500', 'dynamic', '5', '80' ])
+    })
+  })
+
+  describe('isStale() should', () => {
+    const x = new AssetIdentifier('00000001', target)
+    const y = new AssetIdentifier('00000002', target)
+    const getPool = (): Swapable.DigitalMarket => {
+      const pool = getTestMarket()
+      pool.snapshotHeight = 1000
+      pool.mosaicInfo = new Stubs.MosaicInfo(pool.identifier.toMosaicId())
+      pool.reserveInfo = getTestAccountInfo('target', [
+        new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000)),
+        new Mosaic(y.toMosaicId(), UInt64.fromUint(1000000)),
+      ])
+      return pool
+    }
+    const getContract = (pool: Swapable.DigitalMarket): AggregateTransaction => pool.executeOffline(
+      target,
+      pool.identifier,
+      'Swap',
+      new TransactionParameters(),
+      [
+        new CommandOption('trader', getTestAccount('operator1')),
+        new CommandOption('input_x', new AssetAmount(x, 1000)),
+        new CommandOption('output', y),
+      ],
+    ).toTransaction() as AggregateTransaction
+
+    it('throw an error given missing reserves', () => {
+      const contract = getContract(getPool())
+      expect(() => getTestMarket().isStale(contract)).to.throw(FailureEmptyReserve)
+    })
+
+    it('accept contracts given unchanged reserves within the validity bound', () => {
+      const pool = getPool()
+      const contract = getContract(pool)
+      pool.snapshotHeight = 1240
+      expect(pool.isStale(contract)).to.be.false
+    })
+
+    it('reject contracts after the validity bound', () => {
+      const pool = getPool()
+      const contract = getContract(pool)
+      pool.snapshotHeight = 1241
+      expect(pool.isStale(contract)).to.be.true
+    })
+
+    it('reject contracts given reserves that changed since the snapshot', () => {
+      const pool = getPool()
+      const contract = getContract(pool)
+      pool.reserveInfo = getTestAccountInfo('target', [
+        new Mosaic(x.toMosaicId(), UInt64.fromUint(1001000)),
+        new Mosaic(y.toMosaicId(), UInt64.fromUint(999004)),
+      ])
+      expect(pool.isStale(contract)).to.be.true
+    })
+
+    it('reject contracts without snapshot', () => {
+      const pool = getPool()
+      const contract = getContract(pool)
+      const other = getPool()
+      other.create(getTestAccount('operator1'), new AssetAmount(x, 1000), new AssetAmount(y, 1000))
+      expect(pool.isStale(other.result!.toTransaction() as AggregateTransaction)).to.be.true
+      expect(pool.isStale(contract)).to.be.false
+    })
+  })
 })
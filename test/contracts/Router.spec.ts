@@ -0,0 +1,152 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import * as sinon from 'sinon'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { AggregateTransaction, Mosaic, MosaicId, TransferTransaction, UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AssetAmount,
+  AssetIdentifier,
+  FailureEmptyReserve,
+  FailureSynchronization,
+  PoolInfo,
+  FeeMode,
+  PoolType,
+  Swapable,
+} from '../../index'
+import { getTestAccount, getTestAccountInfo, getTestRegistry } from '../mocks/index'
+
+// prepare
+const trader = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', getTestAccount('target'))
+const y = new AssetIdentifier('00000002', getTestAccount('target'))
+const z = new AssetIdentifier('00000003', getTestAccount('target'))
+const getPoolInfo = (name: string, mosaics: MosaicId[]): PoolInfo => ({
+  target: getTestAccount(name),
+  pMosaic: new AssetIdentifier('0000000a', getTestAccount(name)).toMosaicId(),
+  xMosaic: mosaics[0],
+  yMosaic: mosaics[1],
+  mosaics,
+  feeRate: 30,
+  feeTo: getTestAccount(name).address,
+  protocolFee: 0,
+  kLast: undefined,
+  poolType: PoolType.ConstantProduct,
+  amp: 0,
+  weights: [50, 50],
+  maxPriceImpact: 0,
+  feeMode: FeeMode.Fixed,
+  minFeeRate: 30,
+  maxFeeRate: 30,
+})
+const getRouter = (): Swapable.Router => {
+  const router = new Swapable.Router(getTestRegistry())
+  router.pools = [
+    { info: getPoolInfo('operator2', [x.toMosaicId(), y.toMosaicId()]), reserves: [BigInt(1000000), BigInt(1000000)] },
+    { info: getPoolInfo('operator3', [y.toMosaicId(), z.toMosaicId()]), reserves: [BigInt(1000000), BigInt(1000000)] },
+  ]
+  return router
+}
+
+describe('contracts/Router --->', () => {
+  describe('synchronize() should', () => {
+    it('read the reserves of registry pools', async () => {
+      // - Prepare
+      const router = new Swapable.Router(getTestRegistry())
+      const reader = router.registry.reader
+      sinon.stub(reader, 'getChainHeight').resolves(1234)
+      sinon.stub(router.registry, 'getPools').resolves([ getPoolInfo('operator2', [x.toMosaicId(), y.toMosaicId()]) ])
+      sinon.stub(reader, 'getAccountInfo').resolves(getTestAccountInfo('operator2', [
+        new Mosaic(y.toMosaicId(), UInt64.fromUint(2000000)),
+        new Mosaic(x.toMosaicId(), UInt64.fromUint(1000000)),
+      ]))
+
+      // - Act
+      const report = await router.synchronize()
+
+      // - Assert
+      expect(router.pools.length).to.be.equal(1)
+      expect(router.pools[0].reserves).to.be.deep.equal([BigInt(1000000), BigInt(2000000)])
+      expect(router.snapshotHeight).to.be.equal(1234)
+      expect(report.isComplete).to.be.true
+      expect(report.height).to.be.equal(1234)
+    })
+
+    it('report reserves that cannot be read and route no pool', async () => {
+      // - Prepare
+      const router = getRouter()
+      const reader = router.registry.reader
+      sinon.stub(reader, 'getChainHeight').resolves(1234)
+      sinon.stub(router.registry, 'getPools').resolves([ getPoolInfo('operator2', [x.toMosaicId(), y.toMosaicId()]) ])
+      sinon.stub(reader, 'getAccountInfo').rejects(new Error('Account not found.'))
+
+      // - Act
+      const report = await router.synchronize()
+
+      // - Assert
+      expect(router.pools.length).to.be.equal(0)
+      expect(report.isComplete).to.be.false
+      expect(report.has('poolInfo')).to.be.true
+      expect(report.errors['reserveInfo']).to.be.equal('Account not found.')
+    })
+
+    it('throw an error given no network information that can be read', async () => {
+      // - Prepare
+      const router = new Swapable.Router(getTestRegistry())
+      const reader = router.registry.reader
+      sinon.stub(reader, 'getChainHeight').rejects(new Error('Connection refused.'))
+      sinon.stub(router.registry, 'getPools').rejects(new Error('Connection refused.'))
+
+      // - Act & Assert
+      let error: Error | undefined
+      await router.synchronize().catch(e => error = e)
+      expect(error).to.be.instanceof(FailureSynchronization)
+      expect(error!.message).to.contain('height (Connection refused.)')
+    })
+  })
+
+  describe('findRoute() should', () => {
+    it('route swaps through intermediate assets', () => {
+      const route = getRouter().findRoute(new AssetAmount(x, 10000), z)!
+      expect(route.legs.length).to.be.equal(2)
+      expect(route.legs[0].output.equals(y.toMosaicId())).to.be.true
+    })
+  })
+
+  describe('execute() should', () => {
+    it('create one contract with all swaps', () => {
+      const contract = getRouter().execute(trader, new AssetAmount(x, 10000), z, 9700).toTransaction() as AggregateTransaction
+      expect(contract.innerTransactions.length).to.be.equal(6)
+    })
+
+    it('throw an error given no route', () => {
+      const router = getRouter()
+      router.pools = []
+      expect(() => router.execute(trader, new AssetAmount(x, 10000), z)).to.throw(FailureEmptyReserve)
+    })
+  })
+
+  describe('executeSplit() should', () => {
+    it('create one contract with the swaps of all pools of the pair', () => {
+      const router = getRouter()
+      router.pools.push({
+        info: getPoolInfo('operator1', [x.toMosaicId(), y.toMosaicId()]),
+        reserves: [BigInt(1000000), BigInt(1000000)],
+      })
+
+      const split = router.findSplit(new AssetAmount(x, 10000), y)!
+      const contract = router.executeSplit(trader, new AssetAmount(x, 10000), y).toTransaction() as AggregateTransaction
+      expect(split.routes.length).to.be.equal(2)
+      expect(contract.innerTransactions.length).to.be.equal(6)
+      expect((contract.innerTransactions[2] as TransferTransaction).message.payload).to.contain(':swap-split:')
+    })
+  })
+})
@@ -10,6 +10,7 @@ import {
   Account,
   AccountInfo,
   AccountType,
+  Mosaic,
   NetworkType,
   PublicAccount,
   SupplementalPublicKeys,
@@ -54,7 +55,10 @@ export const getTestAccount = (name: string): PublicAccount => {
   return Account.createFromPrivateKey(spec.privateKey, spec.networkType).publicAccount
 }
 
-export const getTestAccountInfo = (name: string): AccountInfo => {
+export const getTestAccountInfo = (
+  name: string,
+  mosaics: Mosaic[] = [],
+): AccountInfo => {
   const account = getTestAccount(name)
   return new AccountInfo(
     1,
@@ -66,7 +70,7 @@ export const getTestAccountInfo = (name: string): AccountInfo => {
     AccountType.Main,
     new SupplementalPublicKeys(),
     [],
-    [],
+    mosaics,
     UInt64.fromUint(1),
     UInt64.fromUint(1)
   )
@@ -19,7 +19,6 @@ import {
   AllowanceResult,
   BaseCommand,
   CommandOption,
-  Symbol,
 } from '../../index'
 
 export class FakeCommand extends BaseCommand {
@@ -54,7 +53,7 @@ export class FakeCommand extends BaseCommand {
     return AggregateTransaction.createBonded(
       this.context.parameters.deadline,
       this.transactions,
-      (this.context.reader as Symbol.Reader).networkType,
+      this.context.reader.networkType,
       [],
       this.context.parameters.maxFee,
     )
@@ -13,28 +13,36 @@ import {
 
 // internal dependencies
 import { getTestAccount } from './Accounts'
-import { Context, TransactionParameters, Symbol } from '../../index'
+import { CommandOption, Context, Reader, TransactionParameters, Symbol } from '../../index'
+
+export const getTestReader = (
+  nodeUrl: string,
+): Symbol.Reader => {
+  return new Symbol.Reader(
+    nodeUrl,
+    getTestAccount('operator1').address.networkType,
+    'ACECD90E7B248E012803228ADB4424F0D966D24149B72E58987D2BF2F2AF03C4',
+    1573430400,
+    new MosaicId('519FC24B9223E0B4'),
+    'DummyNodePublicKey',
+  )
+}
 
 export const getTestContext = (
   nodeUrl: string,
-  actor?: string
+  actor?: string,
+  argv?: CommandOption[],
+  reader: Reader = getTestReader(nodeUrl),
 ): Context => {
   return new Context(
     1,
     getTestAccount(actor || 'operator1'),
-    new Symbol.Reader(
-      nodeUrl,
-      getTestAccount('operator1').address.networkType,
-      'ACECD90E7B248E012803228ADB4424F0D966D24149B72E58987D2BF2F2AF03C4',
-      1573430400,
-      new MosaicId('519FC24B9223E0B4'),
-      'DummyNodePublicKey',
-    ),
+    reader,
     new TransactionParameters(
       1573430400,
       Deadline.create(1573430400),
       undefined, // maxFee
     ),
-    undefined,
+    argv,
   )
 }
@@ -10,8 +10,11 @@ import {
   Address,
   AccountHttp as BaseAccountRepository,
   ChainHttp as BaseChainRepository,
+  ChainInfo as BaseChainInfo,
+  ChainProperties,
   Deadline,
   EmptyMessage,
+  FinalizedBlock,
   KeyGenerator,
   Metadata as BaseMetadata,
   MetadataEntry as BaseMetadataEntry,
@@ -21,8 +24,12 @@ import {
   MosaicHttp as BaseMosaicRepository,
   MosaicId,
   MosaicInfo as BaseMosaicInfo,
+  NetworkConfiguration as BaseNetworkConfiguration,
+  NetworkHttp as BaseNetworkRepository,
+  NetworkProperties,
   NetworkType,
   Page as BasePage,
+  PluginProperties,
   ReceiptHttp as BaseReceiptRepository,
   TransactionHttp as BaseTransactionRepository,
   TransferTransaction as BaseTransferTransaction,
@@ -77,6 +84,12 @@ export namespace Stubs {
    */
   export class ReceiptRepository extends BaseReceiptRepository {}
 
+  /**
+   * @class Stubs.NetworkRepository
+   * @description Stub for NetworkHttp class of symbol-sdk
+   */
+  export class NetworkRepository extends BaseNetworkRepository {}
+
   /**
    * @class Stubs.Page
    * @description Stub for Page class of symbol-sdk
@@ -87,22 +100,51 @@ export namespace Stubs {
     }
   }
 
+  /**
+   * @class Stubs.ChainInfo
+   * @description Stub for ChainInfo class of symbol-sdk
+   */
+  export class ChainInfo extends BaseChainInfo {
+    public constructor(height: number) {
+      super(
+        UInt64.fromUint(height),
+        UInt64.fromUint(0),
+        UInt64.fromUint(0),
+        new FinalizedBlock(UInt64.fromUint(height), '', 1, 1),
+      )
+    }
+  }
+
+  /**
+   * @class Stubs.NetworkConfiguration
+   * @description Stub for NetworkConfiguration class of symbol-sdk
+   */
+  export class NetworkConfiguration extends BaseNetworkConfiguration {
+    public constructor(generationHashSeed: string) {
+      super(
+        new NetworkProperties(undefined, undefined, undefined, generationHashSeed),
+        new ChainProperties(),
+        new PluginProperties(),
+      )
+    }
+  }
+
   /**
    * @class Stubs.MosaicInfo
    * @description Stub for MosaicInfo class of symbol-sdk
    */
   export class MosaicInfo extends BaseMosaicInfo {
-    public constructor(mosaicId: MosaicId) {
+    public constructor(mosaicId: MosaicId, divisibility: number = 0, supply: number = 1) {
       super(
         1,
         '1',
         mosaicId,
-        UInt64.fromUint(1),
+        UInt64.fromUint(supply),
         UInt64.fromUint(1),
         getTestAccount('target').address,
         1,
         new MosaicFlags(0),
-        0,
+        divisibility,
         UInt64.fromUint(0)
       )
     }
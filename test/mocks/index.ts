@@ -6,7 +6,7 @@
  * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
  * @license     LGPL-3.0-only
  */
-export { getTestContext } from './Contexts'
+export { getTestContext, getTestReader } from './Contexts'
 export { FakeCommand } from './Commands'
 export { getTestAccount, getTestAccountInfo } from './Accounts'
 export { getTestMosaicInfo } from './Mosaics'
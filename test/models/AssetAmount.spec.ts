@@ -0,0 +1,69 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+// internal dependencies
+import {
+  AssetAmount,
+  AssetIdentifier,
+  FailureInvalidAmount,
+} from '../../index'
+import { getTestAccount } from '../mocks/index'
+
+// prepare
+const asset = new AssetIdentifier('00000001', getTestAccount('target'))
+
+describe('models/AssetAmount --->', () => {
+  describe('fromRelative() should', () => {
+    it('convert relative amounts to absolute amounts', () => {
+      expect(AssetAmount.fromRelative(asset, '12.5', 6).amount).to.be.equal(BigInt(12500000))
+      expect(AssetAmount.fromRelative(asset, 12.5, 6).amount).to.be.equal(BigInt(12500000))
+      expect(AssetAmount.fromRelative(asset, '1000', 0).amount).to.be.equal(BigInt(1000))
+      expect(AssetAmount.fromRelative(asset, '0.000001', 6).amount).to.be.equal(BigInt(1))
+    })
+
+    it('carry the divisibility of the asset', () => {
+      expect(AssetAmount.fromRelative(asset, '12.5', 6).divisibility).to.be.equal(6)
+    })
+
+    it('throw given too many decimal places', () => {
+      expect(() => AssetAmount.fromRelative(asset, '0.0000001', 6)).to.throw(FailureInvalidAmount)
+      expect(() => AssetAmount.fromRelative(asset, '1.5', 0)).to.throw(FailureInvalidAmount)
+    })
+
+    it('throw given invalid amounts', () => {
+      expect(() => AssetAmount.fromRelative(asset, '-1', 6)).to.throw(FailureInvalidAmount)
+      expect(() => AssetAmount.fromRelative(asset, '1,5', 6)).to.throw(FailureInvalidAmount)
+      expect(() => AssetAmount.fromRelative(asset, '1', 7)).to.throw(FailureInvalidAmount)
+    })
+  })
+
+  describe('toRelative() should', () => {
+    it('convert absolute amounts to relative amounts', () => {
+      expect(new AssetAmount(asset, 12500000, 6).toRelative()).to.be.equal('12.5')
+      expect(new AssetAmount(asset, BigInt(1), 6).toRelative()).to.be.equal('0.000001')
+      expect(new AssetAmount(asset, 1000, 0).toRelative()).to.be.equal('1000')
+    })
+
+    it('throw given unknown divisibility', () => {
+      expect(() => new AssetAmount(asset, 1000).toRelative()).to.throw(FailureInvalidAmount)
+    })
+  })
+
+  describe('format() should', () => {
+    it('display relative amounts with symbol', () => {
+      expect(new AssetAmount(asset, 12500000, 6).format('XYM')).to.be.equal('12.5 XYM')
+    })
+
+    it('display absolute amounts given unknown divisibility', () => {
+      expect(new AssetAmount(asset, 12500000).format()).to.be.equal('12500000 00000001')
+    })
+  })
+})
@@ -0,0 +1,46 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+// internal dependencies
+import { ExecutionProof } from '../../index'
+
+describe('models/ExecutionProof --->', () => {
+  describe('fromMessage() should', () => {
+    it('read the revision, command and values', () => {
+      const proof = ExecutionProof.fromMessage('Swapable(v1):swap:91a1d506:0A:1000:996:990', 12)
+      expect(proof).to.not.be.undefined
+      expect(proof!.revision).to.be.equal(1)
+      expect(proof!.command).to.be.equal('swap')
+      expect(proof!.args).to.deep.equal(['91a1d506', '0A', '1000', '996', '990'])
+      expect(proof!.height).to.be.equal(12)
+    })
+
+    it('accept commands without values', () => {
+      const proof = ExecutionProof.fromMessage('Swapable(v2):create-pool')
+      expect(proof!.command).to.be.equal('create-pool')
+      expect(proof!.args).to.deep.equal([])
+    })
+
+    it('return undefined given a different message', () => {
+      expect(ExecutionProof.fromMessage('')).to.be.undefined
+      expect(ExecutionProof.fromMessage('hello, world')).to.be.undefined
+      expect(ExecutionProof.fromMessage('Swapable:swap:1000')).to.be.undefined
+    })
+  })
+
+  describe('message should', () => {
+    it('format the execution proof message', () => {
+      const message = 'Swapable(v1):swap-route:0A:1000:996:0:0B:0C'
+      expect(ExecutionProof.fromMessage(message)!.message).to.be.equal(message)
+      expect(new ExecutionProof(1, 'swap', ['1', '2']).message).to.be.equal('Swapable(v1):swap:1:2')
+    })
+  })
+})
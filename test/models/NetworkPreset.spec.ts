@@ -0,0 +1,39 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { NetworkType } from 'symbol-sdk'
+
+// internal dependencies
+import { FailureUnknownNetwork, NetworkPreset } from '../../index'
+
+describe('models/NetworkPreset --->', () => {
+  describe('get() should', () => {
+    it('return the network preset by name', () => {
+      const preset = NetworkPreset.get('symbol-mainnet')
+      expect(preset.networkType).to.be.equal(NetworkType.MAIN_NET)
+      expect(preset.epochAdjustment).to.be.equal(1615853185)
+      expect(preset.feeMosaicId.toHex()).to.be.equal('6BED913FA20223F8')
+      expect(preset.divisibility).to.be.equal(6)
+      expect(preset.nodes.length).to.be.greaterThan(0)
+    })
+
+    it('throw an error given an unknown preset name', () => {
+      expect(() => NetworkPreset.get('unknown')).to.throw(FailureUnknownNetwork, 'available presets are: symbol-mainnet, symbol-testnet, dhealth-mainnet')
+    })
+  })
+
+  describe('find() should', () => {
+    it('return the network preset by generation hash', () => {
+      const preset = NetworkPreset.find('ed5761ea890a096c50d3f50b7c2f0ccb4b84afc9ea870f381e84dde36d04ef16')
+      expect(preset!.name).to.be.equal('dhealth-mainnet')
+      expect(NetworkPreset.find('ACECD90E7B248E012803228ADB4424F0D966D24149B72E58987D2BF2F2AF03C4')).to.be.undefined
+    })
+  })
+})
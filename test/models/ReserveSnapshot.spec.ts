@@ -0,0 +1,82 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { Mosaic, UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import { AssetIdentifier, ExecutionProof, ReserveSnapshot } from '../../index'
+import { getTestAccount } from '../mocks/index'
+
+// prepare
+const x = new AssetIdentifier('00000001', getTestAccount('target')).toMosaicId()
+const y = new AssetIdentifier('00000002', getTestAccount('target')).toMosaicId()
+const reserves = [
+  new Mosaic(x, UInt64.fromUint(1000000)),
+  new Mosaic(y, UInt64.fromUint(2000000)),
+]
+
+describe('models/ReserveSnapshot --->', () => {
+  describe('create() should', () => {
+    it('bound the validity with the snapshot height', () => {
+      const snapshot = ReserveSnapshot.create(1000, 240, reserves)
+      expect(snapshot.height).to.be.equal(1000)
+      expect(snapshot.validUntil).to.be.equal(1240)
+      expect(snapshot.message).to.match(/^1000:1240:[0-9A-F]{8}$/)
+    })
+
+    it('not bound the validity given an unknown height', () => {
+      const snapshot = ReserveSnapshot.create(0, 240, reserves)
+      expect(snapshot.validUntil).to.be.equal(0)
+      expect(snapshot.isExpired(1000000)).to.be.false
+    })
+  })
+
+  describe('isExpired() should', () => {
+    it('return true only after the validity bound', () => {
+      const snapshot = new ReserveSnapshot(1000, 1240, '00000000')
+      expect(snapshot.isExpired(1240)).to.be.false
+      expect(snapshot.isExpired(1241)).to.be.true
+    })
+  })
+
+  describe('fromProof() should', () => {
+    it('read the last three values of execution proofs', () => {
+      const snapshot = ReserveSnapshot.create(1000, 240, reserves)
+      const proof = ExecutionProof.fromMessage('Swapable(v1):swap:91a1d506:0A:1000:996:990:' + snapshot.message)!
+      expect(ReserveSnapshot.fromProof(proof)).to.deep.equal(snapshot)
+    })
+
+    it('return undefined given execution proofs without snapshot', () => {
+      const proof = ExecutionProof.fromMessage('Swapable(v1):swap:91a1d506:0A:1000:996:990')!
+      expect(ReserveSnapshot.fromProof(proof)).to.be.undefined
+      expect(ReserveSnapshot.fromProof(new ExecutionProof(1, 'swap', []))).to.be.undefined
+    })
+  })
+
+  describe('getChecksum() should', () => {
+    it('not depend on the order of reserves', () => {
+      expect(ReserveSnapshot.getChecksum(reserves)).to.be.equal(
+        ReserveSnapshot.getChecksum([ reserves[1], reserves[0] ])
+      )
+    })
+
+    it('depend on the amounts of reserves', () => {
+      expect(ReserveSnapshot.getChecksum(reserves)).to.not.be.equal(
+        ReserveSnapshot.getChecksum([ reserves[0], new Mosaic(y, UInt64.fromUint(2000001)) ])
+      )
+    })
+
+    it('ignore mosaics that are not members', () => {
+      expect(ReserveSnapshot.getChecksum(reserves, [x])).to.be.equal(
+        ReserveSnapshot.getChecksum([ reserves[0] ])
+      )
+    })
+  })
+})
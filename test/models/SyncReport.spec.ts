@@ -0,0 +1,37 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+// internal dependencies
+import { SyncReport } from '../../index'
+
+describe('models/SyncReport --->', () => {
+  describe('fetch() should', () => {
+    it('record the network information that was read', async () => {
+      const report = new SyncReport('http://localhost:3000')
+      const height = await report.fetch('height', async () => 1234)
+
+      expect(height).to.be.equal(1234)
+      expect(report.has('height')).to.be.true
+      expect(report.has('reserveInfo')).to.be.false
+      expect(report.isComplete).to.be.true
+    })
+
+    it('record errors instead of throwing them', async () => {
+      const report = new SyncReport('http://localhost:3000')
+      const info = await report.fetch('mosaicInfo', async () => { throw new Error('Not found') })
+
+      expect(info).to.be.undefined
+      expect(report.has('mosaicInfo')).to.be.false
+      expect(report.errors).to.deep.equal({ mosaicInfo: 'Not found' })
+      expect(report.isComplete).to.be.false
+    })
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import * as sinon from 'sinon'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { of } from 'rxjs'
+import {
+  AggregateTransaction,
+  AggregateTransactionCosignature,
+  Deadline,
+  InnerTransaction,
+  Mosaic,
+  MosaicSupplyChangeAction,
+  MosaicSupplyChangeTransaction,
+  Order,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransactionInfo,
+  TransactionSearchCriteria,
+  TransactionType,
+  TransactionVersion,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AssetIdentifier, ExecutionProof, PoolInfo, PoolType } from '../../index'
+import { IndexerService, PoolTimeline } from '../../src/services/IndexerService'
+import { TransactionService } from '../../src/services/TransactionService'
+import { getTestAccount, getTestContext, getTestReader, Stubs } from '../mocks/index'
+
+// prepare
+const target = getTestAccount('target')
+const provider = getTestAccount('operator1')
+const trader = getTestAccount('operator2')
+const x = new AssetIdentifier('00000001', target).toMosaicId()
+const y = new AssetIdentifier('00000002', target).toMosaicId()
+const lp = new AssetIdentifier('0000000a', target).toMosaicId()
+const other = new AssetIdentifier('0000000b', target).toMosaicId()
+const info = {
+  target,
+  pMosaic: lp,
+  xMosaic: x,
+  yMosaic: y,
+  mosaics: [x, y],
+  poolType: PoolType.ConstantProduct,
+  amp: 0,
+  weights: [50, 50],
+} as PoolInfo
+const getProof = (
+  signer: PublicAccount,
+  command: string,
+  args: string[],
+): InnerTransaction => TransferTransaction.create(
+  Deadline.create(1573430400),
+  target.address,
+  [],
+  PlainMessage.create(new ExecutionProof(2, command, ['91a1d506'].concat(args)).message),
+  target.address.networkType,
+).toAggregate(signer)
+const getTransfer = (
+  signer: PublicAccount,
+  recipient: PublicAccount,
+  mosaics: Mosaic[],
+): InnerTransaction => TransferTransaction.create(
+  Deadline.create(1573430400),
+  recipient.address,
+  mosaics,
+  PlainMessage.create(''),
+  target.address.networkType,
+).toAggregate(signer)
+const getSupplyChange = (
+  delta: number,
+  action: MosaicSupplyChangeAction = MosaicSupplyChangeAction.Increase,
+): InnerTransaction => MosaicSupplyChangeTransaction.create(
+  Deadline.create(1573430400),
+  lp,
+  action,
+  UInt64.fromUint(delta),
+  target.address.networkType,
+).toAggregate(target)
+const getContract = (
+  height: number,
+  id: string,
+  inner: InnerTransaction[],
+  cosigners: PublicAccount[] = [ target ],
+): AggregateTransaction => new AggregateTransaction(
+  target.address.networkType,
+  TransactionType.AGGREGATE_COMPLETE,
+  TransactionVersion.AGGREGATE_COMPLETE,
+  Deadline.create(1573430400),
+  UInt64.fromUint(0),
+  inner,
+  cosigners.map(cosigner => new AggregateTransactionCosignature('', cosigner)),
+  undefined,
+  inner[0].signer,
+  new TransactionInfo(UInt64.fromUint(height), 0, id, 'HASH' + id),
+)
+const getTimeline = (): PoolTimeline => ({
+  info,
+  cursor: undefined,
+  state: { height: 0, reserves: [], supply: BigInt(0), k: BigInt(0) },
+  events: [],
+})
+const contracts: AggregateTransaction[] = [
+  getContract(10, '1', [
+    getTransfer(provider, target, [ new Mosaic(x, UInt64.fromUint(1000000)), new Mosaic(y, UInt64.fromUint(4000000)) ]),
+    getSupplyChange(2000000),
+    getProof(provider, 'create-pool', [ lp.toHex(), x.toHex(), y.toHex() ]),
+  ]),
+  getContract(20, '2', [
+    getTransfer(provider, target, [ new Mosaic(x, UInt64.fromUint(100000)), new Mosaic(y, UInt64.fromUint(400000)) ]),
+    getSupplyChange(200000),
+    getProof(provider, 'add-liquidity', [ lp.toHex(), x.toHex(), y.toHex(), '200000', '100000', '400000', '0', '0', 'ABCDEF01' ]),
+  ]),
+  getContract(30, '3', [
+    getTransfer(trader, target, [ new Mosaic(x, UInt64.fromUint(1000)) ]),
+    getTransfer(target, trader, [ new Mosaic(y, UInt64.fromUint(3980)) ]),
+    getProof(trader, 'swap', [ lp.toHex(), '1000', '3980', '3900', x.toHex(), y.toHex(), '30', '0', '0', 'ABCDEF01' ]),
+  ]),
+  getContract(40, '4', [
+    getTransfer(provider, target, [ new Mosaic(lp, UInt64.fromUint(100000)) ]),
+    getTransfer(target, provider, [ new Mosaic(x, UInt64.fromUint(50045)), new Mosaic(y, UInt64.fromUint(199819)) ]),
+    getSupplyChange(100000, MosaicSupplyChangeAction.Decrease),
+    getProof(provider, 'remove-liquidity', [ lp.toHex(), x.toHex(), y.toHex(), '100000', '50045', '199819', '0', '0', 'ABCDEF01' ]),
+  ]),
+]
+
+describe('services/IndexerService --->', () => {
+  describe('replay() should', () => {
+    it('replay liquidity events and swaps into a timeline', () => {
+      const timeline = IndexerService.replay(getTimeline(), contracts)
+
+      expect(timeline.events.map(e => e.command)).to.deep.equal([
+        'create-pool', 'add-liquidity', 'swap', 'remove-liquidity',
+      ])
+      expect(timeline.events[0].state.reserves).to.deep.equal([ BigInt(1000000), BigInt(4000000) ])
+      expect(timeline.events[0].state.supply).to.be.equal(BigInt(2000000))
+      expect(timeline.events[2].reserveChanges).to.deep.equal([ BigInt(1000), BigInt(-3980) ])
+      expect(timeline.state.reserves).to.deep.equal([ BigInt(1050955), BigInt(4196201) ])
+      expect(timeline.state.supply).to.be.equal(BigInt(2100000))
+      expect(timeline.state.k).to.be.equal(BigInt(1050955) * BigInt(4196201))
+      expect(timeline.state.height).to.be.equal(40)
+      expect(timeline.cursor).to.be.equal('4')
+    })
+
+    it('ignore proofs of other pools', () => {
+      const timeline = IndexerService.replay(getTimeline(), contracts.concat([
+        getContract(50, '5', [
+          getProof(trader, 'swap', [ other.toHex(), '1000', '3980', '3900', x.toHex(), y.toHex() ]),
+        ]),
+      ]))
+
+      expect(timeline.events.length).to.be.equal(4)
+      expect(timeline.state.height).to.be.equal(40)
+      expect(timeline.cursor).to.be.equal('5')
+    })
+
+    it('ignore contracts that are not signed by the target account', () => {
+      // a forged swap proof moves `y` out of the pool without transfer
+      const timeline = IndexerService.replay(getTimeline(), contracts.concat([
+        getContract(50, '5', [
+          getTransfer(trader, target, [ new Mosaic(x, UInt64.fromUint(1)) ]),
+          getProof(trader, 'swap', [ lp.toHex(), '1', '1000000', '0', x.toHex(), y.toHex(), '30', '0', '0', 'ABCDEF01' ]),
+        ], []),
+      ]))
+
+      expect(timeline.events.length).to.be.equal(4)
+      expect(timeline.state.reserves).to.deep.equal([ BigInt(1050955), BigInt(4196201) ])
+      expect(timeline.cursor).to.be.equal('5')
+    })
+
+    it('read the changes of reserves from transfers rather than proof values', () => {
+      // the proof claims an output of 1000000 but only 3980 are transferred
+      const timeline = IndexerService.replay(getTimeline(), contracts.slice(0, 2).concat([
+        getContract(30, '3', [
+          getTransfer(trader, target, [ new Mosaic(x, UInt64.fromUint(1000)) ]),
+          getTransfer(target, trader, [ new Mosaic(y, UInt64.fromUint(3980)) ]),
+          getProof(trader, 'swap', [ lp.toHex(), '1000', '1000000', '0', x.toHex(), y.toHex(), '30', '0', '0', 'ABCDEF01' ]),
+        ]),
+      ]))
+
+      expect(timeline.events[2].reserveChanges).to.deep.equal([ BigInt(1000), BigInt(-3980) ])
+      expect(timeline.state.reserves).to.deep.equal([ BigInt(1101000), BigInt(4396020) ])
+    })
+
+    it('resume from the cursor of a timeline', () => {
+      const first = IndexerService.replay(getTimeline(), contracts.slice(0, 2))
+      expect(first.cursor).to.be.equal('2')
+
+      // the transaction at the cursor is not replayed twice
+      const timeline = IndexerService.replay(first, contracts.slice(1))
+      expect(timeline.events.length).to.be.equal(4)
+      expect(timeline.state.reserves).to.deep.equal([ BigInt(1050955), BigInt(4196201) ])
+      expect(timeline.state.supply).to.be.equal(BigInt(2100000))
+    })
+  })
+
+  describe('getProviderEvents() should', () => {
+    it('return the liquidity events of one provider', () => {
+      const timeline = IndexerService.replay(getTimeline(), contracts)
+
+      expect(IndexerService.getProviderEvents(timeline, provider.address).map(e => e.command)).to.deep.equal([
+        'create-pool', 'add-liquidity', 'remove-liquidity',
+      ])
+      expect(IndexerService.getProviderEvents(timeline, trader.address)).to.deep.equal([])
+    })
+  })
+
+  describe('sync() should', () => {
+    it('read the transactions that follow the cursor', async () => {
+      // - Prepare
+      const context = getTestContext('http://localhost:3000')
+      const service = new IndexerService(context)
+      const searchTransactions = sinon.stub(context.reader, 'searchTransactions').resolves(contracts.slice(2))
+
+      // - Act
+      const first = IndexerService.replay(getTimeline(), contracts.slice(0, 2))
+      const timeline = await service.sync(target, lp, first)
+
+      // - Assert
+      expect(searchTransactions.calledWith(target.address, '2')).to.be.true
+      expect(timeline.events.length).to.be.equal(4)
+      expect(timeline.cursor).to.be.equal('4')
+    })
+
+    it('replay the contracts of more than one page of transactions in ascending order', async () => {
+      // - Prepare
+      const reader = getTestReader('http://localhost:3000')
+      const context = getTestContext('http://localhost:3000', 'operator1', [], reader)
+      const swaps: Transaction[] = Array.from({ length: 250 }, (_, i) => getContract(100 + i, String(i + 2), [
+        getTransfer(trader, target, [ new Mosaic(x, UInt64.fromUint(1000)) ]),
+        getTransfer(target, trader, [ new Mosaic(y, UInt64.fromUint(900)) ]),
+        getProof(trader, 'swap', [ lp.toHex(), '1000', '900', '0', x.toHex(), y.toHex(), '30', '0', '0', 'ABCDEF01' ]),
+      ]))
+      const transactions = [ contracts[0] as Transaction ].concat(swaps)
+
+      const stubTransaction = new Stubs.TransactionRepository('http://localhost:3000')
+      sinon.stub(reader.factoryHttp, 'createTransactionRepository').returns(stubTransaction)
+      const resolveAliases = sinon.stub(TransactionService.prototype, 'resolveTransactionsAliases').callsFake(t => of(t))
+      const search = sinon.stub(stubTransaction, 'search').callsFake((criteria: TransactionSearchCriteria) => {
+        const start = transactions.findIndex(t => t.transactionInfo!.id === criteria.offset) + 1
+        return of(new Stubs.Page(transactions.slice(start, start + criteria.pageSize!)))
+      })
+
+      // - Act
+      const timeline = await new IndexerService(context).sync(target, lp, getTimeline())
+      resolveAliases.restore()
+
+      // - Assert
+      expect(search.callCount).to.be.equal(3)
+      expect(search.firstCall.args[0].order).to.be.equal(Order.Asc)
+      expect(search.firstCall.args[0].pageSize).to.be.equal(100)
+      expect(search.secondCall.args[0].offset).to.be.equal('100')
+      expect(timeline.events.length).to.be.equal(251)
+      expect(timeline.state.reserves).to.deep.equal([ BigInt(1250000), BigInt(3775000) ])
+      expect(timeline.cursor).to.be.equal('251')
+    })
+  })
+})
@@ -0,0 +1,374 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import * as sinon from 'sinon'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import {
+  AggregateTransaction,
+  AggregateTransactionCosignature,
+  Deadline,
+  InnerTransaction,
+  Mosaic,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransactionInfo,
+  TransactionType,
+  TransactionVersion,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AssetIdentifier, ExecutionProof, FeeMode, PoolInfo, PoolType } from '../../index'
+import { OracleService, PriceObservation } from '../../src/services/OracleService'
+import { getTestAccount, getTestAccountInfo, getTestContext } from '../mocks/index'
+
+// prepare
+const target = getTestAccount('target')
+const provider = getTestAccount('operator1')
+const trader = getTestAccount('operator2')
+const x = new AssetIdentifier('00000001', target).toMosaicId()
+const y = new AssetIdentifier('00000002', target).toMosaicId()
+const lp = new AssetIdentifier('0000000a', target).toMosaicId()
+const other = new AssetIdentifier('0000000b', target).toMosaicId()
+const info = {
+  target,
+  pMosaic: lp,
+  xMosaic: x,
+  yMosaic: y,
+  mosaics: [x, y],
+  feeRate: 30,
+  poolType: PoolType.ConstantProduct,
+  amp: 0,
+  weights: [50, 50],
+  feeMode: FeeMode.Fixed,
+  minFeeRate: 30,
+  maxFeeRate: 30,
+} as PoolInfo
+const getTransfer = (
+  signer: PublicAccount,
+  recipient: PublicAccount,
+  mosaics: Mosaic[],
+  message: string = '',
+): InnerTransaction => TransferTransaction.create(
+  Deadline.create(1573430400),
+  recipient.address,
+  mosaics,
+  PlainMessage.create(message),
+  target.address.networkType,
+).toAggregate(signer)
+const getContract = (
+  height: number,
+  id: string,
+  inner: InnerTransaction[],
+  cosigners: PublicAccount[] = [ target ],
+): AggregateTransaction => new AggregateTransaction(
+  target.address.networkType,
+  TransactionType.AGGREGATE_COMPLETE,
+  TransactionVersion.AGGREGATE_COMPLETE,
+  Deadline.create(1573430400),
+  UInt64.fromUint(0),
+  inner,
+  cosigners.map(cosigner => new AggregateTransactionCosignature('', cosigner)),
+  undefined,
+  inner[0].signer,
+  new TransactionInfo(UInt64.fromUint(height), 0, id, 'HASH' + id),
+)
+const getSwap = (
+  height: number,
+  id: string,
+  input: Mosaic,
+  output: Mosaic,
+  cosigners: PublicAccount[] = [ target ],
+): AggregateTransaction => getContract(height, id, [
+  getTransfer(trader, target, [ input ]),
+  getTransfer(target, trader, [ output ]),
+  getTransfer(trader, target, [], new ExecutionProof(2, 'swap', [
+    '91a1d506', lp.toHex(), input.amount.toString(), output.amount.toString(), '0',
+    input.id.toHex(), output.id.toHex(), '30', '0', '0', 'ABCDEF01',
+  ]).message),
+], cosigners)
+const getCreatePool = (): AggregateTransaction => getContract(5, '1', [
+  getTransfer(provider, target, [ new Mosaic(x, UInt64.fromUint(1000000)), new Mosaic(y, UInt64.fromUint(1000000)) ]),
+  getTransfer(provider, target, [], new ExecutionProof(2, 'create-pool', [
+    '91a1d506', lp.toHex(), x.toHex(), y.toHex(),
+  ]).message),
+])
+const getSwaps = (heights: number[]): AggregateTransaction[] => heights.map((height, i) => i % 2
+  ? getSwap(height, String(i + 2), new Mosaic(y, UInt64.fromUint(999)), new Mosaic(x, UInt64.fromUint(1000)))
+  : getSwap(height, String(i + 2), new Mosaic(x, UInt64.fromUint(1000)), new Mosaic(y, UInt64.fromUint(999))))
+class TestOracleService extends OracleService {
+  public readHeights: number[] = []
+
+  protected async getTimestamp(height: number): Promise<number> {
+    if (!this.readHeights.includes(height)) {
+      this.readHeights.push(height)
+    }
+
+    return height * 10
+  }
+}
+const getService = (transactions: Transaction[]): TestOracleService => {
+  const context = getTestContext('http://localhost:3000')
+  const service = new TestOracleService(context)
+  sinon.stub(context.reader, 'searchTransactions').resolves(transactions)
+  service.timelines[lp.toHex()] = {
+    info,
+    cursor: undefined,
+    state: { height: 0, reserves: [], supply: BigInt(0), k: BigInt(0) },
+    events: [],
+  }
+  return service
+}
+const getPricePath = (transactions: Transaction[]): Promise<PriceObservation[]> =>
+  getService(transactions).getPricePath(target, lp, x, y)
+const getRecentService = (transactions: Transaction[], context = getTestContext('http://localhost:3000')): OracleService => {
+  const newest = transactions.slice().reverse()
+  sinon.stub(context.reader, 'getRecentTransactions').callsFake((_, count: number, offset?: string) => {
+    const start = newest.findIndex(t => t.transactionInfo!.id === offset) + 1
+    return Promise.resolve(newest.slice(start, start + count))
+  })
+  return new OracleService(context)
+}
+const observations: PriceObservation[] = [
+  { height: 10, timestamp: 100, price: 1 },
+  { height: 20, timestamp: 200, price: 2 },
+  { height: 30, timestamp: 300, price: 4 },
+]
+
+describe('services/OracleService --->', () => {
+  describe('getMidPrice() should', () => {
+    it('read the price of base in units of quote', () => {
+      expect(OracleService.getMidPrice(info, [ BigInt(1000000), BigInt(2000000) ], x, y)).to.be.equal(2)
+      expect(OracleService.getMidPrice(info, [ BigInt(1000000), BigInt(2000000) ], y, x)).to.be.equal(0.5)
+    })
+
+    it('account for the weights of weighted pools', () => {
+      const weighted = { ...info, poolType: PoolType.Weighted, weights: [80, 20] }
+      expect(OracleService.getMidPrice(weighted, [ BigInt(1000000), BigInt(1000000) ], x, y)).to.be.equal(4)
+    })
+
+    it('ignore non-members and empty reserves', () => {
+      expect(OracleService.getMidPrice(info, [ BigInt(1000000), BigInt(2000000) ], x, other)).to.be.undefined
+      expect(OracleService.getMidPrice(info, [ BigInt(1000000), BigInt(0) ], x, y)).to.be.undefined
+      expect(OracleService.getMidPrice(info, [], x, y)).to.be.undefined
+    })
+  })
+
+  describe('getTimeWeightedPrice() should', () => {
+    it('weigh prices by the time until the next observation', () => {
+      expect(OracleService.getTimeWeightedPrice(observations, 100, 300)).to.be.equal(1.5)
+      expect(OracleService.getTimeWeightedPrice(observations, 100, 400)).to.be.equal(7 / 3)
+    })
+
+    it('apply the last observation prior to the window', () => {
+      expect(OracleService.getTimeWeightedPrice(observations, 150, 250)).to.be.equal(1.5)
+      expect(OracleService.getTimeWeightedPrice(observations, 350, 450)).to.be.equal(4)
+    })
+
+    it('use block heights given byHeight', () => {
+      expect(OracleService.getTimeWeightedPrice(observations, 10, 30, true)).to.be.equal(1.5)
+    })
+
+    it('return 0 given no observations in or before the window', () => {
+      expect(OracleService.getTimeWeightedPrice([], 100, 300)).to.be.equal(0)
+      expect(OracleService.getTimeWeightedPrice(observations, 0, 100)).to.be.equal(0)
+    })
+  })
+
+  describe('getPricePath() should', () => {
+    it('use the mid price after swaps rather than their execution price', async () => {
+      const path = await getPricePath([
+        getCreatePool(),
+        getSwap(10, '2', new Mosaic(x, UInt64.fromUint(1000000)), new Mosaic(y, UInt64.fromUint(500000))),
+      ])
+
+      // the execution price is 0.5, reserves are 2000000 and 500000
+      expect(path).to.deep.equal([ { height: 10, timestamp: 100, price: 0.25 } ])
+    })
+
+    it('keep the last swap price per block', async () => {
+      const path = await getPricePath([
+        getCreatePool(),
+        getSwap(10, '2', new Mosaic(x, UInt64.fromUint(1000000)), new Mosaic(y, UInt64.fromUint(500000))),
+        getSwap(10, '3', new Mosaic(y, UInt64.fromUint(500000)), new Mosaic(x, UInt64.fromUint(1000000))),
+        getSwap(20, '4', new Mosaic(y, UInt64.fromUint(1000000)), new Mosaic(x, UInt64.fromUint(500000))),
+      ])
+
+      expect(path).to.deep.equal([
+        { height: 10, timestamp: 100, price: 1 },
+        { height: 20, timestamp: 200, price: 4 },
+      ])
+    })
+
+    it('ignore forged proofs that are not signed by the target account', async () => {
+      const forged = new TransferTransaction(
+        target.address.networkType,
+        TransactionVersion.TRANSFER,
+        Deadline.create(1573430400),
+        UInt64.fromUint(0),
+        target.address,
+        [],
+        PlainMessage.create(new ExecutionProof(2, 'swap', [
+          '91a1d506', lp.toHex(), '1', '900000', '0', x.toHex(), y.toHex(), '30', '0', '0', 'ABCDEF01',
+        ]).message),
+        undefined,
+        trader,
+        new TransactionInfo(UInt64.fromUint(30), 0, '4'),
+      )
+
+      const path = await getPricePath([
+        getCreatePool(),
+        getSwap(10, '2', new Mosaic(x, UInt64.fromUint(1000000)), new Mosaic(y, UInt64.fromUint(500000))),
+        getSwap(20, '3', new Mosaic(x, UInt64.fromUint(1)), new Mosaic(y, UInt64.fromUint(400000)), [ trader ]),
+        forged,
+      ])
+
+      expect(path).to.deep.equal([ { height: 10, timestamp: 100, price: 0.25 } ])
+    })
+
+    it('read only the timestamps of the window and of the observation before it', async () => {
+      const service = getService([ getCreatePool() as Transaction ].concat(getSwaps([ 10, 20, 30, 40, 50, 60, 70, 80, 90, 100 ])))
+
+      const path = await service.getPricePath(target, lp, x, y, 500, 700)
+      expect(path.map(o => o.height)).to.deep.equal([ 40, 50, 60, 70 ])
+      expect(service.readHeights).to.not.include.members([ 10, 20, 90, 100 ])
+    })
+
+    it('read no timestamps outside of the window given a window of block heights', async () => {
+      const service = getService([ getCreatePool() as Transaction ].concat(getSwaps([ 10, 20, 30, 40, 50, 60, 70, 80, 90, 100 ])))
+
+      const path = await service.getPricePath(target, lp, x, y, 50, 70, true)
+      expect(path.map(o => o.height)).to.deep.equal([ 40, 50, 60, 70 ])
+      expect(service.readHeights).to.deep.equal([ 40, 50, 60, 70 ])
+    })
+
+    it('resume from the timeline that is kept between calls', async () => {
+      const context = getTestContext('http://localhost:3000')
+      const service = new TestOracleService(context)
+      const contracts = [ getCreatePool() as Transaction ].concat(getSwaps([ 10, 20, 30 ]))
+      const searchTransactions = sinon.stub(context.reader, 'searchTransactions')
+      searchTransactions.onFirstCall().resolves(contracts.slice(0, 3))
+      searchTransactions.onSecondCall().resolves(contracts.slice(3))
+      service.timelines[lp.toHex()] = {
+        info,
+        cursor: undefined,
+        state: { height: 0, reserves: [], supply: BigInt(0), k: BigInt(0) },
+        events: [],
+      }
+
+      expect((await service.getPricePath(target, lp, x, y)).length).to.be.equal(2)
+      expect((await service.getPricePath(target, lp, x, y)).length).to.be.equal(3)
+      expect(searchTransactions.secondCall.args[1]).to.be.equal('3')
+    })
+  })
+
+  describe('getRecentPrices() should', () => {
+    it('rewind the reserves of recent swaps from the current reserves', async () => {
+      const service = getRecentService([
+        getCreatePool(),
+        getSwap(10, '2', new Mosaic(x, UInt64.fromUint(1000000)), new Mosaic(y, UInt64.fromUint(500000))),
+        getSwap(10, '3', new Mosaic(y, UInt64.fromUint(500000)), new Mosaic(x, UInt64.fromUint(1000000))),
+        getSwap(20, '4', new Mosaic(y, UInt64.fromUint(1000000)), new Mosaic(x, UInt64.fromUint(500000))),
+      ])
+
+      const reserveInfo = getTestAccountInfo('target', [
+        new Mosaic(x, UInt64.fromUint(500000)),
+        new Mosaic(y, UInt64.fromUint(2000000)),
+      ])
+
+      expect(await service.getRecentPrices(info, x, y, reserveInfo)).to.deep.equal([
+        { height: 10, timestamp: 0, price: 1 },
+        { height: 20, timestamp: 0, price: 4 },
+      ])
+    })
+
+    it('read only the contracts of the swaps of the volatility window', async () => {
+      const heights = Array.from({ length: 250 }, (_, i) => 10 + i)
+      const context = getTestContext('http://localhost:3000')
+      const service = getRecentService([ getCreatePool() as Transaction ].concat(getSwaps(heights)), context)
+      const reserveInfo = getTestAccountInfo('target', [
+        new Mosaic(x, UInt64.fromUint(1000000)),
+        new Mosaic(y, UInt64.fromUint(1000000)),
+      ])
+
+      const prices = await service.getRecentPrices(info, x, y, reserveInfo)
+      expect(prices.length).to.be.equal(OracleService.VOLATILITY_WINDOW + 1)
+      expect(prices[prices.length - 1].height).to.be.equal(259)
+      expect((context.reader.getRecentTransactions as sinon.SinonStub).callCount).to.be.equal(1)
+    })
+  })
+
+  describe('getRealizedVolatility() should', () => {
+    it('return the root mean square of logarithmic returns', () => {
+      expect(OracleService.getRealizedVolatility(observations)).to.be.closeTo(Math.log(2), 1e-9)
+    })
+
+    it('return 0 given constant prices or less than 2 observations', () => {
+      expect(OracleService.getRealizedVolatility(observations.map(o => ({ ...o, price: 1 })))).to.be.equal(0)
+      expect(OracleService.getRealizedVolatility(observations.slice(0, 1))).to.be.equal(0)
+    })
+
+    it('only use the returns of the window', () => {
+      const calm = observations.concat([
+        { height: 40, timestamp: 400, price: 4 },
+        { height: 50, timestamp: 500, price: 4 },
+      ])
+      expect(OracleService.getRealizedVolatility(calm, 2)).to.be.equal(0)
+    })
+  })
+
+  describe('getFeeRate() should', () => {
+    it('return the fee rate of pools with a fixed fee mode', async () => {
+      const service = new OracleService(getTestContext('http://localhost:3000'))
+      const stub = sinon.stub(service, 'getRecentPrices')
+
+      expect(await service.getFeeRate(info)).to.be.equal(30)
+      expect(stub.called).to.be.false
+    })
+
+    it('add the realized volatility to the minimum fee rate given a dynamic fee mode', async () => {
+      const service = new OracleService(getTestContext('http://localhost:3000'))
+      sinon.stub(service, 'getRecentPrices').resolves([
+        { height: 10, timestamp: 100, price: 1 },
+        { height: 20, timestamp: 200, price: 1.002 },
+        { height: 30, timestamp: 300, price: 1 },
+      ])
+
+      // ln(1.002) is about 0.002, i.e. 20 bps
+      const dynamic = { ...info, feeMode: FeeMode.Dynamic, minFeeRate: 5, maxFeeRate: 100 }
+      expect(await service.getFeeRate(dynamic)).to.be.equal(25)
+      expect(await service.getFeeRate({ ...dynamic, maxFeeRate: 10 })).to.be.equal(10)
+    })
+
+    it('ignore forged proofs that are not signed by the target account given a dynamic fee mode', async () => {
+      const dynamic = { ...info, feeMode: FeeMode.Dynamic, minFeeRate: 5, maxFeeRate: 100 }
+      const authentic = [
+        getCreatePool(),
+        getSwap(10, '2', new Mosaic(x, UInt64.fromUint(1000)), new Mosaic(y, UInt64.fromUint(999))),
+        getSwap(20, '3', new Mosaic(y, UInt64.fromUint(999)), new Mosaic(x, UInt64.fromUint(1000))),
+        getSwap(30, '4', new Mosaic(x, UInt64.fromUint(1000)), new Mosaic(y, UInt64.fromUint(999))),
+      ]
+      const forged = [
+        getSwap(15, '5', new Mosaic(x, UInt64.fromUint(1)), new Mosaic(y, UInt64.fromUint(500000)), [ trader ]),
+        getSwap(25, '6', new Mosaic(y, UInt64.fromUint(1)), new Mosaic(x, UInt64.fromUint(500000)), []),
+      ]
+
+      const reserveInfo = getTestAccountInfo('target', [
+        new Mosaic(x, UInt64.fromUint(1001000)),
+        new Mosaic(y, UInt64.fromUint(999001)),
+      ])
+
+      const feeRate = await getRecentService(authentic).getFeeRate(dynamic, reserveInfo)
+      expect(feeRate).to.be.below(100)
+      expect(await getRecentService(authentic.concat(forged)).getFeeRate(dynamic, reserveInfo)).to.be.equal(feeRate)
+    })
+  })
+})
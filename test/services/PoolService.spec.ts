@@ -0,0 +1,77 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import * as sinon from 'sinon'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import {
+  Address,
+  KeyGenerator,
+  Metadata,
+  MetadataEntry,
+  MetadataSearchCriteria,
+  MetadataType,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AssetIdentifier } from '../../index'
+import { PoolService } from '../../src/services/PoolService'
+import { getTestAccount, getTestAccountInfo, getTestContext, Stubs } from '../mocks/index'
+
+// prepare
+const target = getTestAccount('target')
+const other = getTestAccount('operator1')
+const x = new AssetIdentifier('00000001', target).toMosaicId()
+const y = new AssetIdentifier('00000002', target).toMosaicId()
+const lp = new AssetIdentifier('0000000a', target).toMosaicId()
+const getKLast = (source: Address, value: string): Metadata => new Metadata(
+  '60906F09366FC30084C1A461',
+  new MetadataEntry(
+    1,
+    '0FCB18A61FFE51AECCBF00B2025E940813F962BCF16F7E1CA1BC65E535445398',
+    source,
+    target.address,
+    KeyGenerator.generateUInt64Key('K_Last'),
+    MetadataType.Account,
+    value,
+  ),
+)
+const getService = (kLastEntries: Metadata[]): PoolService => {
+  const context = getTestContext('http://localhost:3000')
+  sinon.stub(context.reader, 'getAccountInfo').resolves(getTestAccountInfo('target'))
+  sinon.stub(context.reader, 'getMetadata').callsFake((criteria: MetadataSearchCriteria) => Promise.resolve(
+    criteria.metadataType === MetadataType.Account ? kLastEntries : [
+      new Stubs.Metadata(lp, 'X_Id', x.toHex()),
+      new Stubs.Metadata(lp, 'Y_Id', y.toHex()),
+    ],
+  ))
+  return new PoolService(context)
+}
+
+describe('services/PoolService --->', () => {
+  describe('getInfo() should', () => {
+    it('read the value of k assigned by the target account', async () => {
+      const info = await getService([
+        getKLast(other.address, '1'),
+        getKLast(target.address, '1000000000000'),
+      ]).getInfo(target.address, lp)
+
+      expect(info.kLast).to.be.equal(BigInt(1000000000000))
+    })
+
+    it('ignore values of k that are assigned by other accounts', async () => {
+      const info = await getService([ getKLast(other.address, '1') ]).getInfo(target.address, lp)
+      expect(info.kLast).to.be.undefined
+    })
+
+    it('read 0 given a value of k that cannot be parsed', async () => {
+      const info = await getService([ getKLast(target.address, 'abc') ]).getInfo(target.address, lp)
+      expect(info.kLast).to.be.equal(BigInt(0))
+    })
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import { FailureInvalidAmount } from '../../index'
+import { PricingService } from '../../src/services/PricingService'
+
+describe('services/PricingService --->', () => {
+  describe('isValidFeeRate() should', () => {
+    it('accept integer basis points', () => {
+      expect(PricingService.isValidFeeRate(0)).to.be.true
+      expect(PricingService.isValidFeeRate(30)).to.be.true
+      expect(PricingService.isValidFeeRate(9999)).to.be.true
+    })
+
+    it('refuse invalid basis points', () => {
+      expect(PricingService.isValidFeeRate(-1)).to.be.false
+      expect(PricingService.isValidFeeRate(10000)).to.be.false
+      expect(PricingService.isValidFeeRate(0.5)).to.be.false
+    })
+  })
+
+  describe('isValidPriceImpact() should', () => {
+    it('accept basis points in (0, 10000]', () => {
+      expect(PricingService.isValidPriceImpact(1)).to.be.true
+      expect(PricingService.isValidPriceImpact(500)).to.be.true
+      expect(PricingService.isValidPriceImpact(10000)).to.be.true
+    })
+
+    it('refuse invalid basis points', () => {
+      expect(PricingService.isValidPriceImpact(0)).to.be.false
+      expect(PricingService.isValidPriceImpact(10001)).to.be.false
+      expect(PricingService.isValidPriceImpact(2.5)).to.be.false
+    })
+  })
+
+  describe('isValidAmount() should', () => {
+    it('accept non-negative integers', () => {
+      expect(PricingService.isValidAmount(0)).to.be.true
+      expect(PricingService.isValidAmount(BigInt(1000))).to.be.true
+      expect(PricingService.isValidAmount(UInt64.fromUint(1000))).to.be.true
+    })
+
+    it('refuse negative, fractional and unsafe amounts', () => {
+      expect(PricingService.isValidAmount(-1)).to.be.false
+      expect(PricingService.isValidAmount(BigInt(-1))).to.be.false
+      expect(PricingService.isValidAmount(2.5)).to.be.false
+      expect(PricingService.isValidAmount(Number.MAX_SAFE_INTEGER + 1)).to.be.false
+    })
+  })
+
+  describe('getPriceImpact() should', () => {
+    it('return the relative decrease of the mid price', () => {
+      expect(PricingService.getPriceImpact(2, 1.5)).to.be.equal(0.25)
+      expect(PricingService.getPriceImpact(1, 1)).to.be.equal(0)
+    })
+
+    it('return 0 given an empty or increasing mid price', () => {
+      expect(PricingService.getPriceImpact(0, 1)).to.be.equal(0)
+      expect(PricingService.getPriceImpact(1, 2)).to.be.equal(0)
+    })
+  })
+
+  describe('getDynamicFeeRate() should', () => {
+    it('add the volatility in basis points to the minimum fee rate', () => {
+      expect(PricingService.getDynamicFeeRate(0.005, 5, 100)).to.be.equal(55)
+      expect(PricingService.getDynamicFeeRate(0.00001, 5, 100)).to.be.equal(6)
+    })
+
+    it('keep the fee rate within its bounds', () => {
+      expect(PricingService.getDynamicFeeRate(0, 5, 100)).to.be.equal(5)
+      expect(PricingService.getDynamicFeeRate(0.5, 5, 100)).to.be.equal(100)
+      expect(PricingService.getDynamicFeeRate(NaN, 5, 100)).to.be.equal(5)
+    })
+  })
+
+  describe('getAmountOut() should', () => {
+    it('use default fee rate of 0.30%', () => {
+      expect(PricingService.DEFAULT_FEE_RATE).to.be.equal(30)
+    })
+
+    it('return pure constant product output without fees', () => {
+      // (1000 + 1000) * (1000 - 500) = 1000 * 1000
+      expect(PricingService.getAmountOut(BigInt(1000), BigInt(1000), BigInt(1000), 0)).to.be.equal(BigInt(500))
+    })
+
+    it('deduct the fee from input amount', () => {
+      // 1000 * 9970 * 1000 / (1000 * 10000 + 1000 * 9970) = 499.24...
+      expect(PricingService.getAmountOut(BigInt(1000), BigInt(1000), BigInt(1000))).to.be.equal(BigInt(499))
+      expect(PricingService.getAmountOut(BigInt(1000), BigInt(1000), BigInt(1000), 100)).to.be.equal(BigInt(497))
+    })
+
+    it('return zero given empty reserves', () => {
+      expect(PricingService.getAmountOut(BigInt(1000), BigInt(0), BigInt(1000))).to.be.equal(BigInt(0))
+      expect(PricingService.getAmountOut(BigInt(1000), BigInt(1000), BigInt(0))).to.be.equal(BigInt(0))
+    })
+
+    it('be exact given reserves above the safe integer range', () => {
+      const reserve = BigInt('9000000000000000000')
+      const amountOut = PricingService.getAmountOut(BigInt('1000000000000000000'), reserve, reserve, 0)
+      expect(amountOut).to.be.equal(BigInt('900000000000000000'))
+    })
+  })
+
+  describe('getAmountIn() should', () => {
+    it('return the input amount including the fee', () => {
+      // 1000 * 499 * 10000 / ((1000 - 499) * 9970) = 999.00...
+      expect(PricingService.getAmountIn(BigInt(499), BigInt(1000), BigInt(1000))).to.be.equal(BigInt(1000))
+    })
+
+    it('be the inverse of getAmountOut()', () => {
+      const reserveIn = BigInt(1000000), reserveOut = BigInt(2000000)
+      const amountIn = PricingService.getAmountIn(BigInt(12345), reserveIn, reserveOut, 50)!
+      expect(PricingService.getAmountOut(amountIn, reserveIn, reserveOut, 50) >= BigInt(12345)).to.be.true
+      expect(PricingService.getAmountOut(amountIn - BigInt(1), reserveIn, reserveOut, 50) < BigInt(12345)).to.be.true
+    })
+
+    it('return undefined given insufficient reserves', () => {
+      expect(PricingService.getAmountIn(BigInt(1000), BigInt(1000), BigInt(1000))).to.be.undefined
+      expect(PricingService.getAmountIn(BigInt(1000), BigInt(0), BigInt(2000))).to.be.undefined
+    })
+  })
+
+  describe('getLiquidityAmount() should', () => {
+    it('round down the amount of shares minted', () => {
+      // min(1000 * 7 / 3000, 1000 * 7 / 3000) = 2.33...
+      const shares = PricingService.getLiquidityAmount(
+        BigInt(1000), BigInt(1000), BigInt(3000), BigInt(3000), BigInt(7),
+      )
+      expect(shares).to.be.equal(BigInt(2))
+    })
+  })
+
+  describe('getProtocolFeeShares() should', () => {
+    it('mint a fraction of the growth of sqrt(k)', () => {
+      // 1000 * (1414213 - 1000000) * 1667 / (8333 * 1414213 + 1667 * 1000000) = 51.33...
+      expect(PricingService.getProtocolFeeShares(
+        BigInt(2000000000000), BigInt(1000000000000), BigInt(1000), 1667,
+      )).to.be.equal(BigInt(51))
+    })
+
+    it('return zero given no growth or no protocol fee', () => {
+      expect(PricingService.getProtocolFeeShares(
+        BigInt(1000000000000), BigInt(1000000000000), BigInt(1000), 1667,
+      )).to.be.equal(BigInt(0))
+      expect(PricingService.getProtocolFeeShares(
+        BigInt(2000000000000), BigInt(1000000000000), BigInt(1000), 0,
+      )).to.be.equal(BigInt(0))
+    })
+  })
+
+  describe('getOptimalAmounts() should', () => {
+    it('reduce the excess amount to match reserves', () => {
+      // reserves 1000:2000, desired 100:300 => 100:200
+      expect(PricingService.getOptimalAmounts(BigInt(100), BigInt(300), BigInt(1000), BigInt(2000)))
+        .to.be.deep.equal([BigInt(100), BigInt(200)])
+      // reserves 1000:2000, desired 300:200 => 100:200
+      expect(PricingService.getOptimalAmounts(BigInt(300), BigInt(200), BigInt(1000), BigInt(2000)))
+        .to.be.deep.equal([BigInt(100), BigInt(200)])
+    })
+
+    it('accept any ratio given empty reserves', () => {
+      expect(PricingService.getOptimalAmounts(BigInt(300), BigInt(200), BigInt(0), BigInt(0)))
+        .to.be.deep.equal([BigInt(300), BigInt(200)])
+    })
+  })
+
+  describe('getOptimalBasketAmounts() should', () => {
+    it('reduce the excess amounts to match reserves of all members', () => {
+      // reserves 1000:2000:4000, desired 100:300:200 => 50:100:200
+      expect(PricingService.getOptimalBasketAmounts(
+        [BigInt(100), BigInt(300), BigInt(200)],
+        [BigInt(1000), BigInt(2000), BigInt(4000)],
+      )).to.be.deep.equal([BigInt(50), BigInt(100), BigInt(200)])
+    })
+  })
+
+  describe('getBasketLiquidityAmount() should', () => {
+    it('mint shares given the smallest contribution of all members', () => {
+      // min(500 * 7 / 1000, 1000 * 7 / 2000, 3000 * 7 / 4000) = 3.5
+      expect(PricingService.getBasketLiquidityAmount(
+        [BigInt(500), BigInt(1000), BigInt(3000)],
+        [BigInt(1000), BigInt(2000), BigInt(4000)],
+        BigInt(7),
+      )).to.be.equal(BigInt(3))
+    })
+  })
+
+  describe('getZapSwapAmount() should', () => {
+    it('swap half of the input given no fee and small amounts', () => {
+      // (sqrt((2 * 1000000)^2 + 4 * 1000 * 1000000) - 2 * 1000000) / 2 = 499.87...
+      expect(PricingService.getZapSwapAmount(BigInt(1000), BigInt(1000000), 0)).to.be.equal(BigInt(499))
+    })
+
+    it('leave no dust given the ratio of reserves after the swap', () => {
+      const amount = BigInt(100000), reserve = BigInt(1000000)
+      const swapped = PricingService.getZapSwapAmount(amount, reserve)
+      const output = PricingService.getAmountOut(swapped, reserve, reserve)
+      const [ amount_x ] = PricingService.getOptimalAmounts(amount - swapped, output, reserve + swapped, reserve - output)
+      expect(swapped).to.be.equal(BigInt(48882))
+      expect(amount_x + swapped).to.be.equal(amount)
+    })
+
+    it('return zero given empty amounts or reserves', () => {
+      expect(PricingService.getZapSwapAmount(BigInt(0), BigInt(1000))).to.be.equal(BigInt(0))
+      expect(PricingService.getZapSwapAmount(BigInt(1000), BigInt(0))).to.be.equal(BigInt(0))
+    })
+  })
+
+  describe('getPayoutAmount() should', () => {
+    it('pay out the share of reserves rounded down', () => {
+      // 3 / 7 * 1000 = 428.57...
+      expect(PricingService.getPayoutAmount(BigInt(3), BigInt(1000), BigInt(7))).to.be.equal(BigInt(428))
+      expect(PricingService.getPayoutAmount(BigInt(7), BigInt(1000), BigInt(7))).to.be.equal(BigInt(1000))
+    })
+
+    it('return zero given empty supply', () => {
+      expect(PricingService.getPayoutAmount(BigInt(3), BigInt(1000), BigInt(0))).to.be.equal(BigInt(0))
+    })
+  })
+
+  describe('sqrt() should', () => {
+    it('return the integer square root', () => {
+      expect(PricingService.sqrt(BigInt(0))).to.be.equal(BigInt(0))
+      expect(PricingService.sqrt(BigInt(15))).to.be.equal(BigInt(3))
+      expect(PricingService.sqrt(BigInt(16))).to.be.equal(BigInt(4))
+      expect(PricingService.sqrt(BigInt('1000000000000000000000000'))).to.be.equal(BigInt('1000000000000'))
+    })
+
+    it('throw given negative values', () => {
+      expect(() => PricingService.sqrt(BigInt(-1))).to.throw(FailureInvalidAmount)
+    })
+  })
+
+  describe('toBigInt() should', () => {
+    it('refuse unsafe numbers', () => {
+      expect(() => PricingService.toBigInt(0.5)).to.throw(FailureInvalidAmount)
+      expect(() => PricingService.toBigInt(Number.MAX_SAFE_INTEGER + 2)).to.throw(FailureInvalidAmount)
+    })
+
+    it('read UInt64 values above the safe integer range', () => {
+      const value = UInt64.fromNumericString('18446744073709551615')
+      expect(PricingService.toBigInt(value)).to.be.equal(PricingService.MAX_UINT64)
+    })
+  })
+
+  describe('toUInt64() should', () => {
+    it('convert values up to the maximum UInt64', () => {
+      expect(PricingService.toUInt64(PricingService.MAX_UINT64).toString()).to.be.equal('18446744073709551615')
+      expect(PricingService.toUInt64(1000).compact()).to.be.equal(1000)
+    })
+
+    it('throw given values out of range', () => {
+      expect(() => PricingService.toUInt64(BigInt(-1))).to.throw(FailureInvalidAmount)
+      expect(() => PricingService.toUInt64(PricingService.MAX_UINT64 + BigInt(1))).to.throw(FailureInvalidAmount)
+    })
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { MosaicId } from 'symbol-sdk'
+
+// internal dependencies
+import { AssetIdentifier, FeeMode, PoolInfo, PoolType } from '../../index'
+import { PricingService } from '../../src/services/PricingService'
+import { RoutePool, RouterService } from '../../src/services/RouterService'
+import { getTestAccount } from '../mocks/index'
+
+// prepare
+const x = new AssetIdentifier('00000001', getTestAccount('target')).toMosaicId()
+const y = new AssetIdentifier('00000002', getTestAccount('target')).toMosaicId()
+const z = new AssetIdentifier('00000003', getTestAccount('target')).toMosaicId()
+const getPool = (name: string, mosaics: MosaicId[], reserves: number[]): RoutePool => ({
+  info: {
+    target: getTestAccount(name),
+    pMosaic: new AssetIdentifier('0000000a', getTestAccount(name)).toMosaicId(),
+    xMosaic: mosaics[0],
+    yMosaic: mosaics[1],
+    mosaics,
+    feeRate: 30,
+    feeTo: getTestAccount(name).address,
+    protocolFee: 0,
+    kLast: undefined,
+    poolType: PoolType.ConstantProduct,
+    amp: 0,
+    weights: mosaics.map(() => 50),
+    maxPriceImpact: 0,
+    feeMode: FeeMode.Fixed,
+    minFeeRate: 30,
+    maxFeeRate: 30,
+  } as PoolInfo,
+  reserves: reserves.map(r => BigInt(r)),
+})
+
+describe('services/RouterService --->', () => {
+  describe('getAmountOut() should', () => {
+    it('use the reserves of the pool', () => {
+      const pool = getPool('operator1', [x, y], [1000000, 2000000])
+      expect(RouterService.getAmountOut(pool, BigInt(1000), x, y))
+        .to.be.equal(PricingService.getAmountOut(BigInt(1000), BigInt(1000000), BigInt(2000000), 30))
+    })
+
+    it('return zero given non-members', () => {
+      const pool = getPool('operator1', [x, y], [1000000, 2000000])
+      expect(RouterService.getAmountOut(pool, BigInt(1000), x, z)).to.be.equal(BigInt(0))
+    })
+  })
+
+  describe('getPriceImpact() should', () => {
+    it('return the relative decrease of the mid price of the input', () => {
+      const pool = getPool('operator2', [x, y], [1000000, 1000000])
+      const amountOut = RouterService.getAmountOut(pool, BigInt(10000), x, y)
+      const impact = RouterService.getPriceImpact({ pool, input: x, output: y, amountIn: BigInt(10000), amountOut })
+
+      // mid price moves from 1 to 990129 / 1010000
+      expect(amountOut).to.be.equal(BigInt(9871))
+      expect(impact).to.be.closeTo(1 - 990129 / 1010000, 1e-12)
+    })
+
+    it('return zero given non-members', () => {
+      const pool = getPool('operator2', [x, y], [1000000, 1000000])
+      expect(RouterService.getPriceImpact({ pool, input: x, output: z, amountIn: BigInt(10000), amountOut: BigInt(1) })).to.be.equal(0)
+    })
+  })
+
+  describe('getPaths() should', () => {
+    it('find paths through intermediate assets', () => {
+      const pools = [ getPool('operator1', [x, y], [1000000, 1000000]), getPool('operator2', [y, z], [1000000, 1000000]) ]
+      const paths = RouterService.getPaths(pools, x, z)
+      expect(paths.length).to.be.equal(1)
+      expect(paths[0].length).to.be.equal(2)
+      expect(paths[0][0][2].equals(y)).to.be.true
+    })
+
+    it('respect the maximum number of swaps', () => {
+      const pools = [ getPool('operator1', [x, y], [1000000, 1000000]), getPool('operator2', [y, z], [1000000, 1000000]) ]
+      expect(RouterService.getPaths(pools, x, z, 1).length).to.be.equal(0)
+    })
+  })
+
+  describe('getBestRoute() should', () => {
+    it('chain the output of each swap', () => {
+      const pools = [ getPool('operator1', [x, y], [1000000, 1000000]), getPool('operator2', [y, z], [1000000, 1000000]) ]
+      const route = RouterService.getBestRoute(pools, BigInt(10000), x, z)!
+      expect(route.legs.length).to.be.equal(2)
+      expect(route.legs[0].amountOut).to.be.equal(BigInt(9871))
+      expect(route.legs[1].amountIn).to.be.equal(BigInt(9871))
+      expect(route.amountOut).to.be.equal(route.legs[1].amountOut)
+    })
+
+    it('prefer the route with the highest output', () => {
+      const pools = [
+        getPool('operator1', [x, y], [1000000, 1000000]),
+        getPool('operator2', [y, z], [1000000, 1000000]),
+        getPool('operator3', [x, z], [20000, 20000]),
+      ]
+
+      const route = RouterService.getBestRoute(pools, BigInt(10000), x, z)!
+      expect(route.legs.length).to.be.equal(2)
+    })
+
+    it('return undefined given no route', () => {
+      const pools = [ getPool('operator1', [x, y], [1000000, 1000000]) ]
+      expect(RouterService.getBestRoute(pools, BigInt(10000), x, z)).to.be.undefined
+    })
+  })
+
+  describe('getSplit() should', () => {
+    it('allocate equal amounts to equal pools', () => {
+      const pools = [ getPool('operator1', [x, y], [1000000, 1000000]), getPool('operator2', [x, y], [1000000, 1000000]) ]
+      const split = RouterService.getSplit(pools, BigInt(100000), x, y)!
+      expect(split.routes.length).to.be.equal(2)
+      expect(split.routes[0].amountIn).to.be.equal(BigInt(50000))
+      expect(split.routes[1].amountIn).to.be.equal(BigInt(50000))
+      expect(split.amountOut > RouterService.getAmountOut(pools[0], BigInt(100000), x, y)).to.be.true
+    })
+
+    it('allocate more to deeper pools', () => {
+      const pools = [ getPool('operator1', [x, y], [3000000, 3000000]), getPool('operator2', [x, y], [1000000, 1000000]) ]
+      const split = RouterService.getSplit(pools, BigInt(100000), x, y)!
+      expect(split.routes[0].amountIn).to.be.equal(BigInt(75000))
+      expect(split.routes[0].amountIn + split.routes[1].amountIn).to.be.equal(BigInt(100000))
+    })
+
+    it('ignore pools of other pairs', () => {
+      const pools = [ getPool('operator1', [x, y], [1000000, 1000000]), getPool('operator2', [y, z], [1000000, 1000000]) ]
+      const split = RouterService.getSplit(pools, BigInt(100000), x, y)!
+      expect(split.routes.length).to.be.equal(1)
+      expect(RouterService.getSplit(pools, BigInt(100000), x, z)).to.be.undefined
+    })
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+// internal dependencies
+import { PricingService } from '../../src/services/PricingService'
+import { StableSwapService } from '../../src/services/StableSwapService'
+
+describe('services/StableSwapService --->', () => {
+  describe('isValidAmp() should', () => {
+    it('accept integers between 1 and the maximum amplification', () => {
+      expect(StableSwapService.isValidAmp(1)).to.be.true
+      expect(StableSwapService.isValidAmp(100)).to.be.true
+      expect(StableSwapService.isValidAmp(StableSwapService.MAX_AMP)).to.be.true
+    })
+
+    it('refuse invalid amplifications', () => {
+      expect(StableSwapService.isValidAmp(0)).to.be.false
+      expect(StableSwapService.isValidAmp(1.5)).to.be.false
+      expect(StableSwapService.isValidAmp(StableSwapService.MAX_AMP + 1)).to.be.false
+    })
+  })
+
+  describe('getInvariant() should', () => {
+    it('return the sum of balanced reserves', () => {
+      expect(StableSwapService.getInvariant(BigInt(1000000), BigInt(1000000), 100)).to.be.equal(BigInt(2000000))
+    })
+
+    it('return less than the sum of imbalanced reserves', () => {
+      const d = StableSwapService.getInvariant(BigInt(1500000), BigInt(500000), 100)
+      expect(d < BigInt(2000000)).to.be.true
+      expect(d > BigInt(1990000)).to.be.true
+    })
+
+    it('return zero given empty reserves', () => {
+      expect(StableSwapService.getInvariant(BigInt(0), BigInt(1000000), 100)).to.be.equal(BigInt(0))
+    })
+  })
+
+  describe('getAmountOut() should', () => {
+    it('pay out close to the peg given balanced reserves', () => {
+      const reserve = BigInt(1000000)
+      expect(StableSwapService.getAmountOut(BigInt(10000), reserve, reserve, 0, 100)).to.be.equal(BigInt(9999))
+      expect(StableSwapService.getAmountOut(BigInt(10000), reserve, reserve, 30, 100)).to.be.equal(BigInt(9969))
+    })
+
+    it('pay out more than the constant product', () => {
+      const reserve = BigInt(1000000)
+      const stable = StableSwapService.getAmountOut(BigInt(10000), reserve, reserve, 30, 100)
+      expect(stable > PricingService.getAmountOut(BigInt(10000), reserve, reserve, 30)).to.be.true
+    })
+
+    it('return zero given empty reserves', () => {
+      expect(StableSwapService.getAmountOut(BigInt(1000), BigInt(0), BigInt(1000))).to.be.equal(BigInt(0))
+    })
+  })
+
+  describe('getAmountIn() should', () => {
+    it('be the inverse of getAmountOut()', () => {
+      const reserveIn = BigInt(1000000), reserveOut = BigInt(2000000)
+      const amountIn = StableSwapService.getAmountIn(BigInt(12345), reserveIn, reserveOut, 50, 100)!
+      expect(StableSwapService.getAmountOut(amountIn, reserveIn, reserveOut, 50, 100) >= BigInt(12345)).to.be.true
+      expect(StableSwapService.getAmountOut(amountIn - BigInt(1), reserveIn, reserveOut, 50, 100) < BigInt(12345)).to.be.true
+    })
+
+    it('return undefined given insufficient reserves', () => {
+      expect(StableSwapService.getAmountIn(BigInt(1000), BigInt(1000), BigInt(1000))).to.be.undefined
+    })
+  })
+
+  describe('getPrice() should', () => {
+    it('return the peg given balanced reserves', () => {
+      expect(StableSwapService.getPrice(BigInt(1000000), BigInt(1000000), 100)).to.be.equal(1)
+    })
+
+    it('stay closer to the peg than the constant product', () => {
+      const price = StableSwapService.getPrice(BigInt(1500000), BigInt(500000), 100)
+      expect(price < 1).to.be.true
+      expect(price > PricingService.getPrice(BigInt(500000), BigInt(1500000))).to.be.true
+    })
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * This file is part of Swapable shared under LGPL-3.0-only.
+ * Copyright (C) 2021 Using Blockchain Ltd, Reg No.: 12658136, United Kingdom
+ *
+ * @package     Swapable
+ * @author      Grégory Saive for Using Blockchain Ltd <greg@ubc.digital>
+ * @license     LGPL-3.0-only
+ */
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+// internal dependencies
+import { FailureInvalidAmount } from '../../index'
+import { PricingService } from '../../src/services/PricingService'
+import { WeightedMathService } from '../../src/services/WeightedMathService'
+
+describe('services/WeightedMathService --->', () => {
+  describe('isValidWeights() should', () => {
+    it('accept integer percentages that sum up to 100', () => {
+      expect(WeightedMathService.isValidWeights([50, 50])).to.be.true
+      expect(WeightedMathService.isValidWeights([80, 20])).to.be.true
+      expect(WeightedMathService.isValidWeights([1, 99])).to.be.true
+    })
+
+    it('refuse invalid weights', () => {
+      expect(WeightedMathService.isValidWeights([80, 30])).to.be.false
+      expect(WeightedMathService.isValidWeights([100, 0])).to.be.false
+      expect(WeightedMathService.isValidWeights([50.5, 49.5])).to.be.false
+      expect(WeightedMathService.isValidWeights([100])).to.be.false
+    })
+  })
+
+  describe('getInvariant() should', () => {
+    it('return sqrt(x * y) given equal weights', () => {
+      expect(WeightedMathService.getInvariant([BigInt(1000000), BigInt(4000000)], [50, 50])).to.be.equal(BigInt(2000000))
+    })
+
+    it('return the weighted geometric mean of reserves', () => {
+      // 4000000^0.8 * 1000000^0.2 = 3031433.1...
+      expect(WeightedMathService.getInvariant([BigInt(4000000), BigInt(1000000)], [80, 20])).to.be.equal(BigInt(3031433))
+    })
+
+    it('return the geometric mean given equal weights of more than two reserves', () => {
+      expect(WeightedMathService.getInvariant([BigInt(1000), BigInt(8000), BigInt(27000)], [1, 1, 1])).to.be.equal(BigInt(6000))
+    })
+  })
+
+  describe('getAmountOut() should', () => {
+    it('equal the constant product output given equal weights', () => {
+      const reserveIn = BigInt(1000000), reserveOut = BigInt(2000000)
+      expect(WeightedMathService.getAmountOut(BigInt(12345), reserveIn, reserveOut, 50, 50, 50))
+        .to.be.equal(PricingService.getAmountOut(BigInt(12345), reserveIn, reserveOut, 50))
+    })
+
+    it('use the ratio of weights as exponent', () => {
+      // 1000000 - 1000000 * (4000000 / 4010000)^4 = 9937.9...
+      expect(WeightedMathService.getAmountOut(BigInt(10000), BigInt(4000000), BigInt(1000000), 80, 20, 0)).to.be.equal(BigInt(9937))
+      // 4000000 - 4000000 * (1000000 / 1010000)^(1/4) = 9937.9...
+      expect(WeightedMathService.getAmountOut(BigInt(10000), BigInt(1000000), BigInt(4000000), 20, 80, 0)).to.be.equal(BigInt(9937))
+    })
+
+    it('return zero given empty reserves', () => {
+      expect(WeightedMathService.getAmountOut(BigInt(1000), BigInt(0), BigInt(1000), 80, 20)).to.be.equal(BigInt(0))
+    })
+  })
+
+  describe('getAmountIn() should', () => {
+    it('be the inverse of getAmountOut()', () => {
+      const reserveIn = BigInt(1000000), reserveOut = BigInt(2000000)
+      const amountIn = WeightedMathService.getAmountIn(BigInt(12345), reserveIn, reserveOut, 80, 20, 50)!
+      expect(WeightedMathService.getAmountOut(amountIn, reserveIn, reserveOut, 80, 20, 50) >= BigInt(12345)).to.be.true
+      expect(WeightedMathService.getAmountOut(amountIn - BigInt(1), reserveIn, reserveOut, 80, 20, 50) < BigInt(12345)).to.be.true
+    })
+
+    it('return undefined given insufficient reserves', () => {
+      expect(WeightedMathService.getAmountIn(BigInt(1000), BigInt(1000), BigInt(1000), 80, 20)).to.be.undefined
+    })
+  })
+
+  describe('getPrice() should', () => {
+    it('account for the weights of reserves', () => {
+      // (1000000 / 20) / (4000000 / 80) = 1
+      expect(WeightedMathService.getPrice(BigInt(4000000), BigInt(1000000), 80, 20)).to.be.equal(1)
+    })
+  })
+
+  describe('nthRoot() should', () => {
+    it('return the integer root rounded down or up', () => {
+      expect(WeightedMathService.nthRoot(BigInt(27), 3)).to.be.equal(BigInt(3))
+      expect(WeightedMathService.nthRoot(BigInt(28), 3)).to.be.equal(BigInt(3))
+      expect(WeightedMathService.nthRoot(BigInt(28), 3, true)).to.be.equal(BigInt(4))
+      expect(WeightedMathService.nthRoot(BigInt('1000000000000000000000000'), 4)).to.be.equal(BigInt(1000000))
+    })
+
+    it('throw given negative values', () => {
+      expect(() => WeightedMathService.nthRoot(BigInt(-1), 3)).to.throw(FailureInvalidAmount)
+    })
+  })
+})
@@ -34,6 +34,14 @@ describe('Swapable --->', () => {
       expect('Swap' in Swapable.AssetCommands).to.be.true
     })
 
+    it('export contract SwapExactOutput', () => {
+      expect('SwapExactOutput' in Swapable.AssetCommands).to.be.true
+    })
+
+    it('export contract ZapIn', () => {
+      expect('ZapIn' in Swapable.AssetCommands).to.be.true
+    })
+
     it('export contract Publish', () => {
       expect('Publish' in Swapable.AssetCommands).to.be.true
     })